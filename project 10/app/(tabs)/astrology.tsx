@@ -27,7 +27,6 @@ import MysticMish from '../../components/MysticMish';
 import HoroscopeHeader from '../../components/HoroscopeHeader';
 
 import { getUserData, type UserProfile } from '../../utils/userData';
-import { getSubscriptionStatus } from '../../utils/billing';
 
 // ✅ Use daily.ts for horoscope_cache
 import { getAccessibleHoroscope as getDailyAccessible } from '../../utils/daily';
@@ -42,7 +41,9 @@ import { getCuspGemstoneAndRitual } from '../../utils/cuspData';
 import { translateText, getUserLanguage, type SupportedLanguage } from '../../utils/translation';
 import { useHemisphere } from '../../providers/HemisphereProvider';
 import HemisphereToggle from '../../components/HemisphereToggle';
+import { useEntitlements } from '../../hooks/useEntitlements';
 import { getAstrologicalHouse } from '../../utils/zodiacData';
+import { getPersonalTransits, hasFullBirthData, type PersonalTransit } from '../../utils/personalTransits';
 
 /* -------------------------
  * Safe string helpers
@@ -71,6 +72,12 @@ function msUntilNextLocalMidnight(now = new Date()): number {
   return next.getTime() - now.getTime();
 }
 
+// "Monday 19 October" for a YYYY-MM-DD row date (read as a calendar day, not UTC)
+function formatRowDate(ymd: string): string {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
 function buildDailyUser(base: any, signLabel: string, hemi: 'Northern' | 'Southern') {
   const isCusp = /\bcusp\b/i.test(signLabel);
   return {
@@ -89,14 +96,14 @@ export default function AstrologyScreen() {
 
   const initOnce = useRef(false);
   const inFlight = useRef(false);
-  const lastSubCheck = useRef<number>(0);
 
   const [ready, setReady] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const [user, setUser] = useState<UserProfile | null>(null);
-  const [hasAccess, setHasAccess] = useState<boolean>(false);
+  const { has, refresh: refreshEntitlements } = useEntitlements();
+  const hasAccess = has('daily_deeper_insight');
 
   // Daily content from horoscope_cache
   const [daily, setDaily] = useState<{
@@ -106,6 +113,7 @@ export default function AstrologyScreen() {
     daily?: string;
     affirmation?: string;
     deeper?: string;
+    fallbackFrom?: string;
   } | null>(null);
 
   const [error, setError] = useState<string | null>(null);
@@ -143,6 +151,13 @@ export default function AstrologyScreen() {
     return resolvedSign || selectedSign || '';
   }, [resolvedSign, selectedSign]);
 
+  // Personal layer: transits to the member's own chart, only on their own reading
+  const personalTransits = useMemo<PersonalTransit[]>(() => {
+    const chart = user?.natalChart;
+    if (params.sign || !has('personal_transits') || !hasFullBirthData(chart)) return [];
+    return getPersonalTransits(chart);
+  }, [user, params.sign, has, dayTick]);
+
   const serviceDateUTC = useMemo(() => {
     const d = getUTCMidnightForLocalDay();
     console.log('📅 [astrology] serviceDateUTC →', d.toISOString());
@@ -249,13 +264,6 @@ export default function AstrologyScreen() {
           return same ? prev : u;
         });
 
-        const now = Date.now();
-        if (now - lastSubCheck.current > 120_000) {
-          lastSubCheck.current = now;
-          const sub = await getSubscriptionStatus();
-          if (!cancelled) setHasAccess(!!sub?.active);
-        }
-
         const signParam = asString(params.sign) ? decodeURIComponent(asString(params.sign)) : '';
         const hemiParam = asString(params.hemisphere)
           ? (decodeURIComponent(asString(params.hemisphere)) as 'Northern' | 'Southern')
@@ -377,12 +385,7 @@ export default function AstrologyScreen() {
         
         setDaily(d || null);
       }
-      const now = Date.now();
-      if (now - lastSubCheck.current > 120_000) {
-        lastSubCheck.current = now;
-        const sub = await getSubscriptionStatus();
-        setHasAccess(!!sub?.active);
-      }
+      await refreshEntitlements(!silent);
       try {
         const consts = await getVisibleConstellationsEnhanced(resolvedHemisphere);
         setVisibleConstellations(consts || []);
@@ -450,10 +453,33 @@ export default function AstrologyScreen() {
                 <Star size={20} color="#8b9dc3" />
                 <Text style={styles.cardTitle}>Today's Guidance</Text>
               </View>
+              {daily.fallbackFrom && (
+                <Text style={styles.fallbackNote}>Today's reading isn't ready yet. This is from {formatRowDate(daily.fallbackFrom)}.</Text>
+              )}
               <Text style={styles.horoscopeText}>{getDisplayText(daily.daily)}</Text>
             </LinearGradient>
           )}
 
+          {personalTransits.length > 0 && (
+            <LinearGradient colors={['rgba(212, 175, 55, 0.2)', 'rgba(212, 175, 55, 0.1)']} style={styles.premiumCard}>
+              <View style={styles.cardHeader}>
+                <Telescope size={20} color="#d4af37" />
+                <Text style={styles.cardTitle}>Your Transits Today</Text>
+                <View style={styles.premiumBadge}>
+                  <Crown size={12} color="#1a1a2e" />
+                </View>
+              </View>
+              {personalTransits.map((t) => (
+                <View key={`${t.transit}-${t.natal}`} style={styles.transitItem}>
+                  <Text style={styles.transitName}>
+                    {t.transit} {t.type} natal {t.natal} · {t.orb.toFixed(1)}°
+                  </Text>
+                  <Text style={styles.transitText}>{t.text}</Text>
+                </View>
+              ))}
+            </LinearGradient>
+          )}
+
           {hasAccess && asString(daily?.affirmation) !== '' && (
             <LinearGradient colors={['rgba(212, 175, 55, 0.2)', 'rgba(212, 175, 55, 0.1)']} style={styles.premiumCard}>
               <View style={styles.cardHeader}>
@@ -654,9 +680,14 @@ const styles = StyleSheet.create({
   premiumBadge: { backgroundColor: '#d4af37', borderRadius: 8, paddingHorizontal: 6, paddingVertical: 2, flexDirection: 'row', alignItems: 'center' },
 
   horoscopeText: { fontSize: 18, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', lineHeight: 28, textAlign: 'center' },
+  fallbackNote: { fontSize: 13, fontFamily: 'Vazirmatn-Regular', color: '#8b9dc3', textAlign: 'center', fontStyle: 'italic', marginBottom: 8 },
   affirmationText: { fontSize: 16, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', lineHeight: 24, textAlign: 'center', fontStyle: 'italic' },
   deeperText: { fontSize: 16, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', lineHeight: 24, textAlign: 'center' },
 
+  transitItem: { marginBottom: 12, paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: 'rgba(212, 175, 55, 0.2)' },
+  transitName: { fontSize: 14, fontFamily: 'Vazirmatn-SemiBold', color: '#d4af37', marginBottom: 4 },
+  transitText: { fontSize: 14, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', lineHeight: 20 },
+
   gemstoneName: { fontSize: 18, fontFamily: 'Vazirmatn-Bold', color: '#d4af37', textAlign: 'center', marginBottom: 8 },
   gemstoneMeaning: { fontSize: 14, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', lineHeight: 20, textAlign: 'center' },
 
@@ -22,58 +22,26 @@ import BirthdateField from '@/components/BirthdateField';
 import LocationInput from '@/components/LocationInput';
 import CuspLogo from '@/components/CuspLogo';
 
-import { calculateCusp, type BirthInfo, type CuspResult } from '@/utils/astrology';
+import {
+  calculateCusp,
+  calculatePossibleRisingSigns,
+  type BirthInfo,
+  type CuspResult,
+  type RisingSignWindow,
+} from '@/utils/astrology';
+import { calculateNatalChart, type NatalChart } from '@/utils/natalChart';
 import { getAstronomicalInsight } from '@/utils/astronomy';
 import { getBirthstoneForSign } from '@/utils/birthstones';
 import { saveCosmicProfileEdits, type EditableProfile } from '@/utils/userProfile';
 import { getUserData } from '@/utils/userData';
+import {
+  birthPlaceFromCity,
+  resolveBirthPlace,
+  type GazetteerCity,
+  type ResolvedBirthPlace,
+} from '@/utils/gazetteer';
 
 // ---------- Helpers ----------
-function detectTimezone(location: string, hemisphere: 'Northern' | 'Southern'): string {
-  const loc = (location || '').toLowerCase();
-
-  // Australia
-  if (loc.includes('sydney') || loc.includes('melbourne') || loc.includes('canberra'))
-    return 'Australia/Sydney';
-  if (loc.includes('brisbane') || loc.includes('gold coast')) return 'Australia/Brisbane';
-  if (loc.includes('perth')) return 'Australia/Perth';
-  if (loc.includes('adelaide')) return 'Australia/Adelaide';
-  if (loc.includes('darwin')) return 'Australia/Darwin';
-  if (loc.includes('hobart')) return 'Australia/Hobart';
-
-  // Major world cities
-  if (loc.includes('new york')) return 'America/New_York';
-  if (loc.includes('los angeles') || loc.includes('san francisco')) return 'America/Los_Angeles';
-  if (loc.includes('chicago')) return 'America/Chicago';
-  if (loc.includes('toronto')) return 'America/Toronto';
-  if (loc.includes('mexico city')) return 'America/Mexico_City';
-
-  if (loc.includes('london')) return 'Europe/London';
-  if (loc.includes('paris')) return 'Europe/Paris';
-  if (loc.includes('berlin')) return 'Europe/Berlin';
-  if (loc.includes('madrid')) return 'Europe/Madrid';
-  if (loc.includes('rome')) return 'Europe/Rome';
-  if (loc.includes('amsterdam')) return 'Europe/Amsterdam';
-
-  if (loc.includes('johannesburg') || loc.includes('cape town')) return 'Africa/Johannesburg';
-  if (loc.includes('nairobi')) return 'Africa/Nairobi';
-
-  if (loc.includes('dubai')) return 'Asia/Dubai';
-  if (loc.includes('mumbai')) return 'Asia/Kolkata';
-  if (loc.includes('delhi')) return 'Asia/Kolkata';
-  if (loc.includes('bangkok')) return 'Asia/Bangkok';
-  if (loc.includes('singapore')) return 'Asia/Singapore';
-  if (loc.includes('hong kong')) return 'Asia/Hong_Kong';
-  if (loc.includes('beijing') || loc.includes('shanghai')) return 'Asia/Shanghai';
-  if (loc.includes('tokyo')) return 'Asia/Tokyo';
-  if (loc.includes('seoul')) return 'Asia/Seoul';
-
-  if (loc.includes('auckland') || loc.includes('wellington')) return 'Pacific/Auckland';
-
-  // Fallback by hemisphere
-  return hemisphere === 'Southern' ? 'Australia/Sydney' : 'Europe/London';
-}
-
 function validateCity(location: string): { isValid: boolean; message?: string } {
   const trimmed = (location || '').trim();
   if (trimmed.length < 2) return { isValid: false, message: 'Please enter a valid city name.' };
@@ -98,10 +66,15 @@ export default function FindCuspCalculator() {
   const [name, setName] = useState('');
   const [birthDateISO, setBirthDateISO] = useState<string | null>(null); // from <BirthdateField />
   const [birthTime, setBirthTime] = useState('');
+  const [timeUnknown, setTimeUnknown] = useState(false);
   const [birthLocation, setBirthLocation] = useState('');
   const [hemisphere, setHemisphere] = useState<'Northern' | 'Southern'>('Northern');
 
   const [result, setResult] = useState<CuspResult | null>(null);
+  const [natalChart, setNatalChart] = useState<NatalChart | null>(null);
+  const [risingWindows, setRisingWindows] = useState<RisingSignWindow[]>([]);
+  const [birthPlace, setBirthPlace] = useState<ResolvedBirthPlace | null>(null);
+  const [pickedCity, setPickedCity] = useState<GazetteerCity | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [astronomicalContext, setAstronomicalContext] = useState('');
   const [calculating, setCalculating] = useState(false);
@@ -150,9 +123,14 @@ export default function FindCuspCalculator() {
       name,
       hemisphere,
       birthDateISO,
-      birthTime,
+      birthTime: timeUnknown ? null : birthTime,
+      birthTimeUnknown: timeUnknown,
       birthLocation,
+      birthTimezone: birthPlace?.timezone ?? null,
+      birthLatitude: birthPlace?.latitude ?? null,
+      birthLongitude: birthPlace?.longitude ?? null,
       cuspResult,
+      natalChart,
     };
     await saveCosmicProfileEdits(edits);
     // force a fresh profile read (safe no-op if not signed in)
@@ -170,13 +148,21 @@ export default function FindCuspCalculator() {
     handleExploreHoroscope();
   };
 
+  const missingFields =
+    !name?.trim() || !birthDateISO || (!timeUnknown && !birthTime?.trim()) || !birthLocation?.trim();
+
+  const handleCitySelect = (city: GazetteerCity | null) => {
+    setPickedCity(city);
+    if (city) setHemisphere(city.hemisphere);
+  };
+
   const handleCalculate = () => {
     // Basic validation
-    if (!name?.trim() || !birthDateISO || !birthTime?.trim() || !birthLocation?.trim()) {
+    if (missingFields) {
       Alert.alert('Missing Information', 'Please fill in all fields to calculate your cusp.');
       return;
     }
-    const t = validateTimeFormat(birthTime);
+    const t = timeUnknown ? { isValid: true } : validateTimeFormat(birthTime);
     if (!t.isValid) {
       Alert.alert('Invalid Time', t.message);
       return;
@@ -186,6 +172,15 @@ export default function FindCuspCalculator() {
       Alert.alert('Invalid Location', c.message);
       return;
     }
+    // A city picked from the suggestions is exact; typed text goes through the lookup
+    const place = pickedCity ? birthPlaceFromCity(pickedCity) : resolveBirthPlace(birthLocation);
+    if (!place) {
+      Alert.alert(
+        'Unknown Location',
+        'We couldn’t work out the time zone for that place. Please pick the nearest city from the suggestions, or add the country (and state in countries with several time zones), e.g. “Small Town, WA, Australia”.'
+      );
+      return;
+    }
 
     setCalculating(true);
     try {
@@ -193,20 +188,29 @@ export default function FindCuspCalculator() {
         throw new Error('Date must be YYYY-MM-DD');
       }
 
-      const timezone = detectTimezone(birthLocation, hemisphere);
       const birthInfo: BirthInfo = {
         date: birthDateISO, // ISO string (YYYY-MM-DD)
-        time: birthTime, // "HH:mm"
+        time: timeUnknown ? '' : birthTime, // "HH:mm"
         location: birthLocation,
         hemisphere,
-        timezone,
+        timezone: place.timezone, // IANA zone; Luxon applies that date's historical offset
+        latitude: place.latitude,
+        longitude: place.longitude,
+        timeUnknown,
       };
 
       const cuspResult = calculateCusp(birthInfo);
+      const chart = calculateNatalChart(birthInfo);
+      // Without a time, show every sign that rose that day instead of one answer
+      const windows =
+        timeUnknown && place.latitude !== undefined ? calculatePossibleRisingSigns(birthInfo) : [];
       const insight = getAstronomicalInsight(hemisphere);
 
       if (mounted.current) {
         setResult(cuspResult);
+        setNatalChart(chart);
+        setRisingWindows(windows);
+        setBirthPlace(place);
         setAstronomicalContext(insight);
         setShowResult(true);
       }
@@ -222,6 +226,9 @@ export default function FindCuspCalculator() {
     if (!mounted.current) return;
     setShowResult(false);
     setResult(null);
+    setNatalChart(null);
+    setRisingWindows([]);
+    setBirthPlace(null);
     setAstronomicalContext('');
   };
 
@@ -257,11 +264,19 @@ export default function FindCuspCalculator() {
 
                 <Text style={styles.description}>{result.description}</Text>
 
+                {result.uncertain ? (
+                  <View style={styles.uncertainNote}>
+                    <Text style={styles.uncertainNoteText}>
+                      ⚠️ Uncertain: could be {result.possibleSigns?.join(' or ')} depending on your birth time
+                    </Text>
+                  </View>
+                ) : null}
+
                 <View style={styles.detailsContainer}>
                   <View style={styles.detailRow}>
                     <Text style={styles.detailLabel}>Sun Position:</Text>
                     <Text style={styles.detailValue}>
-                      {result.sunDegree}° {result.primarySign}
+                      {result.sunDegree}° {result.sunSign ?? result.primarySign}
                     </Text>
                   </View>
                   <View style={styles.detailRow}>
@@ -306,6 +321,23 @@ export default function FindCuspCalculator() {
                 </View>
               </LinearGradient>
 
+              {risingWindows.length > 0 ? (
+                <LinearGradient colors={['rgba(139,157,195,0.2)', 'rgba(139,157,195,0.1)']} style={styles.contextCard}>
+                  <Text style={styles.contextTitle}>Possible Rising Signs</Text>
+                  <Text style={styles.risingIntro}>
+                    Without a birth time your rising sign could be any of these. Times are local to your birth place.
+                  </Text>
+                  {risingWindows.map(w => (
+                    <View key={`${w.sign}-${w.start}`} style={styles.detailRow}>
+                      <Text style={styles.detailLabel}>
+                        {w.start}–{w.end}
+                      </Text>
+                      <Text style={styles.detailValue}>{w.sign}</Text>
+                    </View>
+                  ))}
+                </LinearGradient>
+              ) : null}
+
               <LinearGradient colors={['rgba(139,157,195,0.2)', 'rgba(139,157,195,0.1)']} style={styles.contextCard}>
                 <Text style={styles.contextTitle}>Cosmic Context</Text>
                 <Text style={styles.contextText}>{astronomicalContext}</Text>
@@ -383,29 +415,45 @@ export default function FindCuspCalculator() {
 
                 <View style={styles.inputWithIcon}>
                   {/* BirthdateField returns a valid ISO string via onValidISO */}
-                  <BirthdateField initialISO={birthDateISO} onValidISO={setBirthDateISO} />
-                </View>
-
-                <View style={styles.inputWithIcon}>
-                  <Clock size={20} color="#8b9dc3" style={styles.inputIcon} />
-                  <CosmicInput
-                    label="Birth Time"
-                    placeholder="HH:MM (e.g., 14:30 for 2:30 PM)"
-                    value={birthTime}
-                    onChangeText={setBirthTime}
+                  <BirthdateField
+                    initialISO={birthDateISO}
+                    onValidISO={setBirthDateISO}
+                    timeUnknown={timeUnknown}
+                    onTimeUnknownChange={setTimeUnknown}
                   />
                 </View>
 
-                <View style={styles.birthTimeNote}>
-                  <Text style={styles.birthTimeNoteText}>
-                    💡 Use 24-hour format: 09:00 for 9 AM, 14:30 for 2:30 PM, 21:45 for 9:45 PM
-                  </Text>
-                </View>
+                {timeUnknown ? (
+                  <View style={styles.birthTimeNote}>
+                    <Text style={styles.birthTimeNoteText}>
+                      🌞 No problem — we’ll cast a solar chart for midday and show every rising sign possible that day
+                    </Text>
+                  </View>
+                ) : (
+                  <>
+                    <View style={styles.inputWithIcon}>
+                      <Clock size={20} color="#8b9dc3" style={styles.inputIcon} />
+                      <CosmicInput
+                        label="Birth Time"
+                        placeholder="HH:MM (e.g., 14:30 for 2:30 PM)"
+                        value={birthTime}
+                        onChangeText={setBirthTime}
+                      />
+                    </View>
+
+                    <View style={styles.birthTimeNote}>
+                      <Text style={styles.birthTimeNoteText}>
+                        💡 Use 24-hour format: 09:00 for 9 AM, 14:30 for 2:30 PM, 21:45 for 9:45 PM
+                      </Text>
+                    </View>
+                  </>
+                )}
 
                 <LocationInput
                   label="Birth Location"
                   value={birthLocation}
                   onLocationChange={setBirthLocation}
+                  onCitySelect={handleCitySelect}
                   placeholder="Type your birth city (e.g., Manila, Sydney)…"
                 />
 
@@ -420,14 +468,12 @@ export default function FindCuspCalculator() {
                 title={
                   calculating
                     ? 'Calculating...'
-                    : !name?.trim() || !birthDateISO || !birthTime?.trim() || !birthLocation?.trim()
+                    : missingFields
                     ? 'Fill in all fields to calculate'
                     : 'REVEAL MY CUSP!'
                 }
                 onPress={handleCalculate}
-                disabled={
-                  calculating || !name?.trim() || !birthDateISO || !birthTime?.trim() || !birthLocation?.trim()
-                }
+                disabled={calculating || missingFields}
                 loading={calculating}
                 style={styles.calculateButton}
               />
@@ -562,6 +608,15 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     marginBottom: 20,
   },
+  uncertainNote: {
+    backgroundColor: 'rgba(255,107,107,0.1)',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,107,107,0.3)',
+  },
+  uncertainNoteText: { fontSize: 14, fontFamily: 'Vazirmatn-Medium', color: '#e8e8e8', textAlign: 'center', lineHeight: 20 },
 
   detailsContainer: {
     paddingTop: 16,
@@ -625,6 +680,7 @@ const styles = StyleSheet.create({
   },
   contextTitle: { fontSize: 18, fontFamily: 'Vazirmatn-Bold', color: '#8b9dc3', textAlign: 'center', marginBottom: 12 },
   contextText: { fontSize: 14, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', textAlign: 'center', lineHeight: 20 },
+  risingIntro: { fontSize: 14, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', textAlign: 'center', lineHeight: 20, marginBottom: 12 },
 
   button: { marginTop: 16 },
 
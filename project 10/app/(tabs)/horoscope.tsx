@@ -27,9 +27,10 @@ import CosmicBackground from '../../components/CosmicBackground';
 import CosmicButton from '../../components/CosmicButton';
 import MysticMish from '../../components/MysticMish';
 import HoroscopeHeader from '../../components/HoroscopeHeader';
+import PaymentIssueBanner from '../../components/PaymentIssueBanner';
 
 import { getUserData, type UserProfile } from '../../utils/userData';
-import { getSubscriptionStatus } from '../../utils/billing';
+import { useEntitlements } from '../../hooks/useEntitlements';
 import { getAccessibleHoroscope, type HoroscopeData } from '../../utils/horoscopeData';
 import { getHemisphereEvents, getCurrentPlanetaryPositionsEnhanced } from '../../utils/astronomy';
 import { getLunarNow } from '../../utils/lunar';
@@ -56,7 +57,6 @@ export default function HoroscopeScreen() {
   // ----- internal guards -----
   const initOnce = useRef(false);         // prevents the init effect from running twice
   const inFlight = useRef(false);         // prevents overlapping async calls
-  const lastSubCheck = useRef<number>(0); // throttle billing checks
 
   // ----- state -----
   const [ready, setReady] = useState(false);
@@ -64,7 +64,8 @@ export default function HoroscopeScreen() {
   const [refreshing, setRefreshing] = useState(false);
 
   const [user, setUser] = useState<UserProfile | null>(null);
-  const [hasAccess, setHasAccess] = useState<boolean>(false);
+  const { has, refresh: refreshEntitlements } = useEntitlements();
+  const hasAccess = has('daily_deeper_insight');
   const [horoscope, setHoroscope] = useState<HoroscopeData | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -130,18 +131,7 @@ export default function HoroscopeScreen() {
           return same ? prev : u;
         });
 
-        // 2) Throttled subscription check (2 min)
-        const now = Date.now();
-        if (now - lastSubCheck.current > 120_000) {
-          lastSubCheck.current = now;
-          const sub = await getSubscriptionStatus();
-          if (!cancelled) {
-            console.log('🔍 [horoscope] Subscription status:', sub);
-            setHasAccess(!!sub?.active);
-          }
-        }
-
-        // 3) Compute sign + hemisphere
+        // 2) Compute sign + hemisphere
         const signParam = asString(params.sign) ? decodeURIComponent(asString(params.sign)) : '';
         const hemiParam = asString(params.hemisphere)
           ? (decodeURIComponent(asString(params.hemisphere)) as 'Northern' | 'Southern')
@@ -162,7 +152,7 @@ export default function HoroscopeScreen() {
           setSelectedHemisphere(hemi);
         }
 
-        // 4) Fail fast if absolutely no sign anywhere
+        // 3) Fail fast if absolutely no sign anywhere
         if (!sign && !u?.cuspResult) {
           if (!cancelled) {
             setError('No cosmic profile found. Please calculate your cusp first.');
@@ -171,7 +161,7 @@ export default function HoroscopeScreen() {
           return;
         }
 
-        // 5) Load horoscope for resolved sign
+        // 4) Load horoscope for resolved sign
         if (sign) {
           console.log('🔍 [horoscope] Fetching horoscope for:', { sign, hemisphere: hemi });
           const data = await getAccessibleHoroscope(new Date(), sign, hemi);
@@ -187,7 +177,7 @@ export default function HoroscopeScreen() {
           if (!cancelled) setHoroscope(data || null);
         }
 
-        // 6) Astronomical context
+        // 5) Astronomical context
         const lunar = getLunarNow(hemi);
         const events = getHemisphereEvents(hemi);
         const positions = await getCurrentPlanetaryPositionsEnhanced(hemi);
@@ -198,7 +188,7 @@ export default function HoroscopeScreen() {
           setPlanetaryPositions(positions);
         }
 
-        // 7) Language preference
+        // 6) Language preference
         const language = await getUserLanguage();
         if (!cancelled) setCurrentLanguage(language);
 
@@ -302,13 +292,7 @@ export default function HoroscopeScreen() {
         const data = await getAccessibleHoroscope(new Date(), selectedSign, selectedHemisphere);
         setHoroscope(data || null);
       }
-      // light sub re-check (throttled)
-      const now = Date.now();
-      if (now - lastSubCheck.current > 120_000) {
-        lastSubCheck.current = now;
-        const sub = await getSubscriptionStatus();
-        setHasAccess(!!sub?.active);
-      }
+      await refreshEntitlements();
     } catch (e: any) {
       setError(e?.message || 'Failed to refresh horoscope.');
     } finally {
@@ -395,6 +379,8 @@ export default function HoroscopeScreen() {
             </View>
           </View>
 
+          <PaymentIssueBanner />
+
           <Text style={styles.hemisphereDisplay}>{selectedHemisphere} Hemisphere</Text>
 
           {/* Hemisphere Toggle */}
@@ -23,6 +23,7 @@ import CuspLogo from '@/components/CuspLogo';
 import { calculateCusp, BirthInfo, CuspResult } from '@/utils/astrology';
 import { getAstronomicalInsight } from '@/utils/astronomy';
 import { getBirthstoneForSign } from '@/utils/birthstones';
+import { resolveBirthPlace } from '@/utils/gazetteer';
 import { supabase } from '@/utils/supabase';
 import { healUserCache } from '@/utils/userData';
 
@@ -154,6 +155,15 @@ export default function TabIndex() {
         return;
       }
 
+      const place = resolveBirthPlace(birthLocation);
+      if (!place) {
+        Alert.alert(
+          'Unknown Location',
+          'We couldn’t work out the time zone for that place. Please include the country (and state in countries with several time zones), e.g. "Sydney, Australia".'
+        );
+        return;
+      }
+
       setCalculating(true);
 
       // Map to domain hemisphere for utils
@@ -164,6 +174,9 @@ export default function TabIndex() {
         time: birthTime,
         location: birthLocation,
         hemisphere: hemiLong,
+        timezone: place.timezone,
+        latitude: place.latitude,
+        longitude: place.longitude,
       };
 
       const cuspResult = await calculateCusp(birthInfo);
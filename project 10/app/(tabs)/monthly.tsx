@@ -19,9 +19,11 @@ import RenderHTML from 'react-native-render-html';
 
 import CosmicBackground from '@/components/CosmicBackground';
 import CosmicButton from '@/components/CosmicButton';
+import PaymentIssueBanner from '@/components/PaymentIssueBanner';
 import { getUserData, type UserProfile } from '@/utils/userData';
 import { getLatestForecast } from '@/utils/forecasts';
-import { getSubscriptionStatus } from '@/utils/billing';
+import { formatSignKey, parseSignKey } from '@/utils/signKey';
+import { canAccess } from '@/utils/entitlements';
 
 // Optional: symbol map if you want to show icons later
 const ZODIAC_ICON: Record<string, string> = {
@@ -73,11 +75,11 @@ export default function MonthlyForecastScreen() {
       }
       setUser(u);
 
-      // 2) Subscription gate
-      const subscriptionStatus = await getSubscriptionStatus();
-      setHasAccess(!!subscriptionStatus?.active);
+      // 2) Entitlement gate
+      const allowed = await canAccess('monthly_forecast');
+      setHasAccess(allowed);
 
-      if (!subscriptionStatus?.active) {
+      if (!allowed) {
         // Show a nice header with their sign/month but gate content
         setMeta({
           sign: u.cuspResult?.cuspName || u.cuspResult?.primarySign || 'Your Sign',
@@ -111,12 +113,13 @@ export default function MonthlyForecastScreen() {
         try {
           const res = await getLatestForecast(signAttempt, hemisphere);
           if (res.ok && res.row?.monthly_forecast) {
+            const rowSign = parseSignKey(res.row.sign);
             found = {
               text: res.row.monthly_forecast,
               m: {
                 date: res.row.date,
                 hemisphere: res.row.hemisphere,
-                sign: res.row.sign || signAttempt,
+                sign: rowSign ? formatSignKey(rowSign) : signAttempt,
               },
             };
             break;
@@ -253,6 +256,8 @@ export default function MonthlyForecastScreen() {
             </Text>
           </View>
 
+          <PaymentIssueBanner />
+
           <LinearGradient
             colors={['rgba(212, 175, 55, 0.18)', 'rgba(139, 157, 195, 0.10)']}
             style={styles.card}
@@ -17,7 +17,8 @@ import CosmicBackground from '../../components/CosmicBackground';
 import CosmicButton from '../../components/CosmicButton';
 import HoroscopeHeader from '../../components/HoroscopeHeader';
 import { getCurrentMoonPhase } from '../../utils/astronomy';
-import { getSubscriptionStatus } from '../../utils/billing';
+import { nextEclipse, lunationTitle, type Lunation } from '../../utils/lunations';
+import { useEntitlements } from '../../hooks/useEntitlements';
 
 // Fallback for web environment
 if (typeof Platform === 'undefined') {
@@ -30,32 +31,30 @@ const mishAvatar = require('../../assets/images/mystic-mish/headshot.png');
 export default function MysticMishScreen() {
   const router = useRouter();
   const [moonPhase, setMoonPhase] = useState<any>(null);
-  const [hasAccess, setHasAccess] = useState(false);
+  const { has, loading: accessLoading } = useEntitlements();
+  const hasAccess = has('mystic_mish_rituals');
   const [loading, setLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
+  const [eclipses, setEclipses] = useState<Record<'Northern' | 'Southern', Lunation | null>>({
+    Northern: null,
+    Southern: null,
+  });
 
   useEffect(() => {
     let isMounted = true;
     
     const loadData = async () => {
-      let subscriptionStatus: any;
       try {
-        console.log('🔍 [mystic-mish] Checking subscription status...');
-        subscriptionStatus = await getSubscriptionStatus();
-        console.log('🔍 [mystic-mish] Subscription result:', subscriptionStatus);
-        
         // Load moon phase
         const phase = getCurrentMoonPhase();
         setMoonPhase(phase);
+
+        // Eclipse season: the spells below come alive when one is near
+        setEclipses({ Northern: nextEclipse('Northern'), Southern: nextEclipse('Southern') });
       } catch (error) {
         console.error('Error loading Mystic Mish data:', error);
       } finally {
-        if (isMounted) {
-          if (subscriptionStatus) {
-            setHasAccess(subscriptionStatus.active || false);
-          }
-          setLoading(false);
-        }
+        if (isMounted) setLoading(false);
       }
     };
     
@@ -66,6 +65,17 @@ export default function MysticMishScreen() {
     };
   }, []);
 
+  // The next eclipse, if it falls within the coming two weeks (past ones are not shown)
+  const ECLIPSE_WINDOW_DAYS = 14;
+  const eclipseNote = (hemi: 'Northern' | 'Southern') => {
+    const e = eclipses[hemi];
+    if (!e) return null;
+    const days = Math.round((e.date.getTime() - Date.now()) / 86400000);
+    if (days > ECLIPSE_WINDOW_DAYS) return null;
+    const when = days <= 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+    return `🌘 ${lunationTitle(e)} ${when} (${e.date.toLocaleDateString('en-AU')}) — the perfect moment for this spell.`;
+  };
+
   const handleUpgrade = () => {
     router.push('/subscription');
   };
@@ -237,7 +247,7 @@ Leave a candle burning in your window on Samhain night to guide helpful spirits
     element: 'Fire & Spirit',
   };
 
-  if (loading) {
+  if (loading || accessLoading) {
     return (
       <View style={styles.container}>
         <CosmicBackground />
@@ -422,6 +432,9 @@ Leave a candle burning in your window on Samhain night to guide helpful spirits
               </View>
               
               <Text style={styles.spellSubtitle}>{southernEclipseSpell.subtitle}</Text>
+              {eclipseNote('Southern') && (
+                <Text style={styles.eclipseNote}>{eclipseNote('Southern')}</Text>
+              )}
               <Text style={styles.spellDescription}>{southernEclipseSpell.description}</Text>
               
               <View style={styles.seasonalContextContainer}>
@@ -461,6 +474,9 @@ Leave a candle burning in your window on Samhain night to guide helpful spirits
               </View>
               
               <Text style={styles.spellSubtitle}>{northernEclipseSpell.subtitle}</Text>
+              {eclipseNote('Northern') && (
+                <Text style={styles.eclipseNote}>{eclipseNote('Northern')}</Text>
+              )}
               <Text style={styles.spellDescription}>{northernEclipseSpell.description}</Text>
               
               <View style={styles.seasonalContextContainer}>
@@ -666,6 +682,12 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 12,
   },
+  eclipseNote: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFD700',
+    marginBottom: 8,
+  },
   moonMessage: {
     fontSize: 18,
     fontFamily: 'Inter-SemiBold',
@@ -11,17 +11,24 @@ import {
   Platform,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { MapPin, Clock, Calendar, Compass } from 'lucide-react-native';
+import { Clock, Calendar, Compass } from 'lucide-react-native';
 import CosmicBackground from '../../components/CosmicBackground';
 import CosmicButton from '../../components/CosmicButton';
 import CosmicInput from '../../components/CosmicInput';
-import { calculateRisingSign, BirthInfo, RisingSignResult } from '../../utils/astrology';
+import CityAutocomplete, { type CityResult } from '../../components/CityAutocomplete';
+import {
+  calculateRisingSign,
+  parseBirthTime,
+  BIRTH_TIME_FORMAT_HINT,
+  BirthInfo,
+  RisingSignResult,
+} from '../../utils/astrology';
 import { getVisibleConstellations, getAstronomicalInsight } from '../../utils/astronomy';
 
 export default function RisingSignCalculator() {
   const [birthDate, setBirthDate] = useState('');
   const [birthTime, setBirthTime] = useState('');
-  const [birthLocation, setBirthLocation] = useState('');
+  const [birthCity, setBirthCity] = useState<CityResult | null>(null);
   const [result, setResult] = useState<RisingSignResult | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [visibleConstellations, setVisibleConstellations] = useState<string[]>([]);
@@ -36,48 +43,37 @@ export default function RisingSignCalculator() {
     };
   }, []);
 
-  const parseDateString = (dateString: string): Date => {
-    const parts = dateString.split(/[-/]/);
-    if (parts.length === 3) {
-      // Handle DD/MM/YYYY format
-      const day = parseInt(parts[0], 10);
-      const month = parseInt(parts[1], 10);
-      const year = parseInt(parts[2], 10);
-      return new Date(year, month - 1, day); // month is 0-indexed
+  const handleCalculate = () => {
+    if (!birthDate || !birthTime || !birthCity) {
+      Alert.alert('Missing Information', 'Please fill in all fields and pick your birth city from the list.');
+      return;
     }
-    // Fallback to standard Date parsing
-    return new Date(dateString);
-  };
 
-  const handleCalculate = () => {
-    if (!birthDate || !birthTime || !birthLocation) {
-      Alert.alert('Missing Information', 'Please fill in all fields to calculate your rising sign.');
+    // Refuse rather than guess: an unreadable time would give a wrong rising sign
+    if (!parseBirthTime(birthTime)) {
+      Alert.alert('Invalid Birth Time', BIRTH_TIME_FORMAT_HINT);
       return;
     }
 
     try {
-      const date = parseDateString(birthDate);
-      if (isNaN(date.getTime())) {
+      if (!/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(birthDate.trim())) {
         throw new Error('Invalid date');
       }
-      
+
+      const hemisphere = birthCity.hemisphere;
       const birthInfo: BirthInfo = {
-        date,
+        date: birthDate.trim(), // DD/MM/YYYY
         time: birthTime,
-        location: birthLocation,
-        hemisphere: 'Northern', // Default for rising sign calculation
+        location: birthCity.displayName,
+        hemisphere,
+        timezone: birthCity.timezone,
+        latitude: birthCity.lat,
+        longitude: birthCity.lon,
       };
 
       const risingResult = calculateRisingSign(birthInfo);
-      
+
       // Get astronomical context
-      const hemisphere = birthLocation.toLowerCase().includes('australia') || 
-                        birthLocation.toLowerCase().includes('south africa') ||
-                        birthLocation.toLowerCase().includes('argentina') ||
-                        birthLocation.toLowerCase().includes('chile') ||
-                        birthLocation.toLowerCase().includes('new zealand')
-                        ? 'Southern' : 'Northern';
-      
       const constellations = getVisibleConstellations(hemisphere);
       const insight = getAstronomicalInsight(hemisphere);
       
@@ -88,7 +84,8 @@ export default function RisingSignCalculator() {
         setShowResult(true);
       }
     } catch (error) {
-      Alert.alert('Invalid Date', 'Please enter a valid birth date in DD/MM/YYYY format.');
+      console.warn('[rising] Calculation error:', error);
+      Alert.alert('Invalid Birth Details', 'Please enter a valid birth date in DD/MM/YYYY format and a time in HH:MM.');
     }
   };
 
@@ -213,12 +210,11 @@ export default function RisingSignCalculator() {
                 </View>
 
                 <View style={styles.inputWithIcon}>
-                  <MapPin size={20} color="#8b9dc3" style={styles.inputIcon} />
-                  <CosmicInput
+                  <CityAutocomplete
                     label="Birth Location"
-                    placeholder="City, Country"
-                    value={birthLocation}
-                    onChangeText={setBirthLocation}
+                    placeholder="Start typing your birth city…"
+                    value={birthCity}
+                    onChange={setBirthCity}
                   />
                 </View>
               </View>
@@ -11,7 +11,7 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import { User, Info, FileText, Crown, ArrowLeft, Languages } from 'lucide-react-native';
+import { User, Info, FileText, Crown, ArrowLeft, Languages, Gift } from 'lucide-react-native';
 import CosmicBackground from '../../components/CosmicBackground';
 import { getUserLanguage, setUserLanguage, type SupportedLanguage } from '@/utils/translation';
 import { signOut, getCurrentUser } from '@/utils/auth';
@@ -243,6 +243,24 @@ export default function SettingsScreen() {
                 </LinearGradient>
               </TouchableOpacity>
 
+              <TouchableOpacity
+                style={styles.menuOption}
+                onPress={() => router.push('/settings/gifts')}
+              >
+                <LinearGradient
+                  colors={['rgba(212, 175, 55, 0.2)', 'rgba(212, 175, 55, 0.1)']}
+                  style={styles.menuOptionGradient}
+                >
+                  <Gift size={24} color="#d4af37" />
+                  <View style={styles.menuOptionContent}>
+                    <Text style={styles.menuOptionTitle}>Gifts</Text>
+                    <Text style={styles.menuOptionDescription}>
+                      Give Astral Plane or a reading, or redeem a gift code
+                    </Text>
+                  </View>
+                </LinearGradient>
+              </TouchableOpacity>
+
               {/* Translation feature temporarily hidden - keeping script for future Chinese market
               <TouchableOpacity
                 style={styles.menuOption}
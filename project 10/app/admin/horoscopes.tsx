@@ -0,0 +1,790 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, TextInput } from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, ChevronLeft, ChevronRight, Calendar, PenLine, Eye, EyeOff, ShieldAlert } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import CosmicBackground from '@/components/CosmicBackground';
+
+import { getCurrentUser } from '@/utils/auth';
+import {
+  getContentCalendar,
+  getEntriesForDate,
+  saveEntryDraft,
+  scheduleEntry,
+  unscheduleEntry,
+  publishEntry,
+  deleteEntry,
+  type CalendarResult,
+  type DateEntries,
+  type EntryDraft,
+  type EntryHemisphere,
+  type EntryKind,
+  type HoroscopeEntry,
+} from '@/utils/horoscopeAdmin';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const ymd = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const parseYmd = (s: string) => new Date(Number(s.slice(0, 4)), Number(s.slice(5, 7)) - 1, Number(s.slice(8, 10)));
+
+const formatDay = (s: string) =>
+  parseYmd(s).toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+const formatMonth = (s: string) => parseYmd(s).toLocaleDateString('en-AU', { month: 'long', year: 'numeric' });
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-AU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// The visible calendar range: one month of days, or one year of months
+function rangeFor(kind: EntryKind, anchor: Date) {
+  if (kind === 'daily') {
+    const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    return { from: ymd(first), to: ymd(last), title: formatMonth(ymd(first)) };
+  }
+  return { from: `${anchor.getFullYear()}-01-01`, to: `${anchor.getFullYear()}-12-01`, title: String(anchor.getFullYear()) };
+}
+
+type FormFields = Pick<EntryDraft, 'daily_horoscope' | 'affirmation' | 'deeper_insight' | 'monthly_forecast'>;
+
+const EMPTY_FORM: FormFields = { daily_horoscope: '', affirmation: '', deeper_insight: '', monthly_forecast: '' };
+
+export default function HoroscopeConsoleScreen() {
+  const [loading, setLoading] = useState(true);
+  const [denied, setDenied] = useState<string | null>(null);
+
+  const [kind, setKind] = useState<EntryKind>('daily');
+  const [hemisphere, setHemisphere] = useState<EntryHemisphere>('Northern');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [calendar, setCalendar] = useState<CalendarResult | null>(null);
+  const [calendarLoading, setCalendarLoading] = useState(false);
+
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [dateEntries, setDateEntries] = useState<DateEntries | null>(null);
+
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [form, setForm] = useState<FormFields>(EMPTY_FORM);
+  const [publishAtText, setPublishAtText] = useState('');
+  const [previewing, setPreviewing] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const range = useMemo(() => rangeFor(kind, anchor), [kind, anchor]);
+  const today = ymd(new Date());
+  const thisMonth = `${today.slice(0, 7)}-01`;
+
+  const loadCalendar = useCallback(async () => {
+    setCalendarLoading(true);
+    try {
+      setCalendar(await getContentCalendar(kind, hemisphere, range.from, range.to));
+      setDenied(null);
+    } catch (e: any) {
+      setDenied(e?.message ?? 'Could not load the calendar');
+    } finally {
+      setCalendarLoading(false);
+    }
+  }, [kind, hemisphere, range.from, range.to]);
+
+  const loadDate = useCallback(async (date: string) => {
+    try {
+      setDateEntries(await getEntriesForDate(kind, hemisphere, date));
+    } catch (e: any) {
+      Alert.alert('Could not load entries', e?.message ?? 'Please try again.');
+    }
+  }, [kind, hemisphere]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const user = await getCurrentUser();
+        if (!user) {
+          setDenied('Sign in with a staff account to use the horoscope console.');
+          return;
+        }
+        await loadCalendar();
+      } finally {
+        setLoading(false);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Reload whenever the view changes; the editor belongs to the previous view
+  useEffect(() => {
+    if (loading) return;
+    setSelectedDate(null);
+    setDateEntries(null);
+    setEditingKey(null);
+    loadCalendar();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [kind, hemisphere, range.from]);
+
+  const entryFor = (key: string): HoroscopeEntry | undefined =>
+    dateEntries?.entries.find((e) => e.sign_key === key);
+
+  const editingEntry = editingKey ? entryFor(editingKey) : undefined;
+  const editingSign = dateEntries?.signs.find((s) => s.key === editingKey);
+
+  const onSelectDate = async (date: string) => {
+    setSelectedDate(date);
+    setEditingKey(null);
+    setDateEntries(null);
+    await loadDate(date);
+  };
+
+  const onEdit = (key: string) => {
+    const source = entryFor(key) ?? dateEntries?.live[key] ?? EMPTY_FORM;
+    setForm({
+      daily_horoscope: source.daily_horoscope ?? '',
+      affirmation: source.affirmation ?? '',
+      deeper_insight: source.deeper_insight ?? '',
+      monthly_forecast: source.monthly_forecast ?? '',
+    });
+    const existing = entryFor(key);
+    setPublishAtText(
+      existing?.publish_at
+        ? `${ymd(new Date(existing.publish_at))} ${pad(new Date(existing.publish_at).getHours())}:${pad(new Date(existing.publish_at).getMinutes())}`
+        : selectedDate && selectedDate > today ? `${selectedDate} 00:00` : ''
+    );
+    setPreviewing(false);
+    setEditingKey(key);
+  };
+
+  const refresh = async () => {
+    if (selectedDate) await loadDate(selectedDate);
+    await loadCalendar();
+  };
+
+  // Every action saves the form first, so what goes live is what's on screen
+  const run = async (action: 'save' | 'schedule' | 'publish') => {
+    if (!editingKey || !selectedDate) return;
+    let publishAt: Date | null = null;
+    if (action === 'schedule') {
+      publishAt = new Date(publishAtText.trim().replace(' ', 'T'));
+      if (Number.isNaN(publishAt.getTime())) {
+        Alert.alert('Schedule', 'Enter the publish time as YYYY-MM-DD HH:MM.');
+        return;
+      }
+    }
+    setBusy(true);
+    try {
+      const saved = await saveEntryDraft({ kind, hemisphere, date: selectedDate, sign_key: editingKey, ...form });
+      if (action === 'schedule' && publishAt) await scheduleEntry(saved.id, publishAt);
+      if (action === 'publish') await publishEntry(saved.id);
+      await refresh();
+      if (action !== 'save') setEditingKey(null);
+    } catch (e: any) {
+      Alert.alert('Could not save', e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onUnschedule = async () => {
+    if (!editingEntry) return;
+    setBusy(true);
+    try {
+      await unscheduleEntry(editingEntry.id);
+      await refresh();
+    } catch (e: any) {
+      Alert.alert('Could not unschedule', e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onDelete = async () => {
+    if (!editingEntry) return;
+    setBusy(true);
+    try {
+      await deleteEntry(editingEntry.id);
+      setEditingKey(null);
+      await refresh();
+    } catch (e: any) {
+      Alert.alert('Could not delete', e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const shiftRange = (step: number) => {
+    setAnchor((a) => (kind === 'daily'
+      ? new Date(a.getFullYear(), a.getMonth() + step, 1)
+      : new Date(a.getFullYear() + step, 0, 1)));
+  };
+
+  const statusLine = (key: string) => {
+    const entry = entryFor(key);
+    const parts: string[] = [];
+    if (dateEntries?.live[key]) parts.push('Live');
+    if (entry?.status === 'published') parts.push(`Published ${formatDateTime(entry.published_at!)}`);
+    if (entry?.status === 'scheduled') parts.push(`Scheduled ${formatDateTime(entry.publish_at!)}`);
+    if (entry?.status === 'draft') parts.push('Draft');
+    return parts.length ? parts.join(' · ') : 'Missing';
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <CosmicBackground />
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color="#d4af37" />
+          <Text style={styles.loadingText}>Loading console…</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const leadingBlanks = kind === 'daily' ? (parseYmd(range.from).getDay() + 6) % 7 : 0;
+
+  return (
+    <View style={styles.container}>
+      <CosmicBackground />
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <ArrowLeft size={24} color="#8b9dc3" />
+        <Text style={styles.backText}>Back</Text>
+      </TouchableOpacity>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.title}>Horoscope Console</Text>
+
+        {denied ? (
+          <LinearGradient
+            colors={['rgba(139, 157, 195, 0.15)', 'rgba(139, 157, 195, 0.05)']}
+            style={styles.card}
+          >
+            <View style={styles.row}>
+              <ShieldAlert size={20} color="#8b9dc3" />
+              <Text style={styles.cardTitle}>Staff only</Text>
+            </View>
+            <Text style={styles.body}>{denied}</Text>
+          </LinearGradient>
+        ) : (
+          <>
+            {/* View */}
+            <View style={styles.toggleRow}>
+              {(['daily', 'monthly'] as EntryKind[]).map((k) => (
+                <TouchableOpacity key={k} style={[styles.toggle, kind === k && styles.toggleSelected]} onPress={() => setKind(k)}>
+                  <Text style={[styles.toggleText, kind === k && styles.toggleTextSelected]}>
+                    {k === 'daily' ? 'Daily' : 'Monthly'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              {(['Northern', 'Southern'] as EntryHemisphere[]).map((h) => (
+                <TouchableOpacity key={h} style={[styles.toggle, hemisphere === h && styles.toggleSelected]} onPress={() => setHemisphere(h)}>
+                  <Text style={[styles.toggleText, hemisphere === h && styles.toggleTextSelected]}>{h}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Calendar */}
+            <LinearGradient
+              colors={['rgba(212, 175, 55, 0.15)', 'rgba(212, 175, 55, 0.05)']}
+              style={styles.card}
+            >
+              <View style={styles.rowBetween}>
+                <TouchableOpacity onPress={() => shiftRange(-1)} hitSlop={10}>
+                  <ChevronLeft size={22} color="#d4af37" />
+                </TouchableOpacity>
+                <View style={styles.row}>
+                  <Calendar size={20} color="#d4af37" />
+                  <Text style={styles.cardTitle}>{range.title}</Text>
+                </View>
+                <TouchableOpacity onPress={() => shiftRange(1)} hitSlop={10}>
+                  <ChevronRight size={22} color="#d4af37" />
+                </TouchableOpacity>
+              </View>
+
+              {kind === 'daily' && (
+                <View style={styles.grid}>
+                  {WEEKDAYS.map((w) => (
+                    <Text key={w} style={styles.weekday}>{w}</Text>
+                  ))}
+                </View>
+              )}
+
+              {calendarLoading && !calendar ? (
+                <ActivityIndicator color="#d4af37" />
+              ) : (
+                <View style={styles.grid}>
+                  {Array.from({ length: leadingBlanks }).map((_, i) => (
+                    <View key={`blank-${i}`} style={styles.cell} />
+                  ))}
+                  {calendar?.days.map((day) => {
+                    const upcoming = kind === 'daily' ? day.date >= today : day.date >= thisMonth;
+                    const missing = day.missing.length;
+                    return (
+                      <TouchableOpacity
+                        key={day.date}
+                        style={[
+                          kind === 'daily' ? styles.cell : styles.monthCell,
+                          missing === 0 && styles.cellComplete,
+                          missing > 0 && upcoming && styles.cellMissing,
+                          !upcoming && styles.cellPast,
+                          selectedDate === day.date && styles.cellSelected,
+                        ]}
+                        onPress={() => onSelectDate(day.date)}
+                      >
+                        <Text style={styles.cellLabel}>
+                          {kind === 'daily'
+                            ? Number(day.date.slice(8))
+                            : parseYmd(day.date).toLocaleDateString('en-AU', { month: 'short' })}
+                        </Text>
+                        <Text style={[styles.cellBadge, missing > 0 && upcoming && styles.cellBadgeMissing]}>
+                          {missing === 0 ? '✓' : `${missing}`}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+              <Text style={styles.note}>
+                Numbers are signs and cusps with nothing live or scheduled. Red marks upcoming gaps that members
+                would hit; fill them before the date arrives.
+              </Text>
+            </LinearGradient>
+
+            {/* Signs for the selected date */}
+            {selectedDate && (
+              <LinearGradient
+                colors={['rgba(139, 157, 195, 0.15)', 'rgba(139, 157, 195, 0.05)']}
+                style={styles.card}
+              >
+                <Text style={styles.cardTitle}>
+                  {kind === 'daily' ? formatDay(selectedDate) : formatMonth(selectedDate)} · {hemisphere}
+                </Text>
+                {!dateEntries ? (
+                  <ActivityIndicator color="#8b9dc3" />
+                ) : (
+                  dateEntries.signs.map((s) => (
+                    <TouchableOpacity
+                      key={s.key}
+                      style={[styles.signRow, editingKey === s.key && styles.signRowSelected]}
+                      onPress={() => onEdit(s.key)}
+                    >
+                      <View style={styles.optionContent}>
+                        <Text style={styles.signLabel}>{s.label}</Text>
+                        <Text style={[styles.signStatus, statusLine(s.key) === 'Missing' && styles.signStatusMissing]}>
+                          {statusLine(s.key)}
+                        </Text>
+                      </View>
+                      <PenLine size={16} color="#8b9dc3" />
+                    </TouchableOpacity>
+                  ))
+                )}
+              </LinearGradient>
+            )}
+
+            {/* Editor */}
+            {editingKey && editingSign && selectedDate && (
+              <LinearGradient
+                colors={['rgba(139, 195, 74, 0.15)', 'rgba(139, 195, 74, 0.05)']}
+                style={styles.card}
+              >
+                <View style={styles.rowBetween}>
+                  <View style={styles.optionContent}>
+                    <Text style={styles.cardTitle}>{editingSign.label}</Text>
+                    <Text style={styles.note}>{editingSign.key} · {statusLine(editingKey)}</Text>
+                  </View>
+                  <TouchableOpacity onPress={() => setPreviewing((p) => !p)} hitSlop={10}>
+                    {previewing ? <EyeOff size={20} color="#8bc34a" /> : <Eye size={20} color="#8bc34a" />}
+                  </TouchableOpacity>
+                </View>
+
+                {previewing ? (
+                  <LinearGradient
+                    colors={['rgba(26, 26, 46, 0.9)', 'rgba(22, 33, 62, 0.9)']}
+                    style={styles.preview}
+                  >
+                    <Text style={styles.previewTitle}>{editingSign.label}</Text>
+                    <Text style={styles.previewDate}>
+                      {kind === 'daily' ? formatDay(selectedDate) : formatMonth(selectedDate)}
+                    </Text>
+                    {kind === 'daily' ? (
+                      <>
+                        <Text style={styles.previewBody}>{form.daily_horoscope || '—'}</Text>
+                        {!!form.affirmation && <Text style={styles.previewAffirmation}>“{form.affirmation}”</Text>}
+                        {!!form.deeper_insight && (
+                          <>
+                            <Text style={styles.previewHeading}>Deeper Insight</Text>
+                            <Text style={styles.previewBody}>{form.deeper_insight}</Text>
+                          </>
+                        )}
+                      </>
+                    ) : (
+                      <Text style={styles.previewBody}>{form.monthly_forecast || '—'}</Text>
+                    )}
+                  </LinearGradient>
+                ) : kind === 'daily' ? (
+                  <>
+                    <TextInput
+                      style={[styles.input, styles.longInput]}
+                      value={form.daily_horoscope ?? ''}
+                      onChangeText={(v) => setForm((f) => ({ ...f, daily_horoscope: v }))}
+                      placeholder="Daily horoscope"
+                      placeholderTextColor="#6b7a99"
+                      multiline
+                    />
+                    <TextInput
+                      style={styles.input}
+                      value={form.affirmation ?? ''}
+                      onChangeText={(v) => setForm((f) => ({ ...f, affirmation: v }))}
+                      placeholder="Affirmation (optional)"
+                      placeholderTextColor="#6b7a99"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.longInput]}
+                      value={form.deeper_insight ?? ''}
+                      onChangeText={(v) => setForm((f) => ({ ...f, deeper_insight: v }))}
+                      placeholder="Deeper insight (optional)"
+                      placeholderTextColor="#6b7a99"
+                      multiline
+                    />
+                  </>
+                ) : (
+                  <TextInput
+                    style={[styles.input, styles.longInput]}
+                    value={form.monthly_forecast ?? ''}
+                    onChangeText={(v) => setForm((f) => ({ ...f, monthly_forecast: v }))}
+                    placeholder="Monthly forecast"
+                    placeholderTextColor="#6b7a99"
+                    multiline
+                  />
+                )}
+
+                <TouchableOpacity style={[styles.btn, styles.btnOutline]} onPress={() => run('save')} disabled={busy}>
+                  <Text style={styles.btnText}>Save Draft</Text>
+                </TouchableOpacity>
+
+                <View style={styles.scheduleRow}>
+                  <TextInput
+                    style={[styles.input, styles.scheduleInput]}
+                    value={publishAtText}
+                    onChangeText={setPublishAtText}
+                    placeholder="YYYY-MM-DD HH:MM"
+                    placeholderTextColor="#6b7a99"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  <TouchableOpacity
+                    style={[styles.btn, styles.btnOutline, styles.scheduleButton]}
+                    onPress={() => run('schedule')}
+                    disabled={busy || !publishAtText.trim()}
+                  >
+                    <Text style={styles.btnText}>Schedule</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <TouchableOpacity style={[styles.btn, styles.btnPrimary]} onPress={() => run('publish')} disabled={busy}>
+                  {busy ? <ActivityIndicator color="#1a1a2e" /> : <Text style={styles.btnTextDark}>Publish Now</Text>}
+                </TouchableOpacity>
+
+                {editingEntry?.status === 'scheduled' && (
+                  <TouchableOpacity style={[styles.btn, styles.btnOutline]} onPress={onUnschedule} disabled={busy}>
+                    <Text style={styles.btnText}>Unschedule</Text>
+                  </TouchableOpacity>
+                )}
+                {editingEntry && editingEntry.status !== 'published' && (
+                  <TouchableOpacity onPress={onDelete} disabled={busy}>
+                    <Text style={styles.deleteText}>Delete {editingEntry.status === 'draft' ? 'draft' : 'entry'}</Text>
+                  </TouchableOpacity>
+                )}
+                <Text style={styles.note}>
+                  Saving keeps the current live copy until you publish. Scheduled entries go live at the time given
+                  (your local time).
+                </Text>
+              </LinearGradient>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 24,
+    gap: 20,
+    paddingTop: 20,
+    width: '100%',
+    maxWidth: 760,
+    alignSelf: 'center',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 20,
+    paddingBottom: 10,
+    paddingHorizontal: 24,
+  },
+  backText: {
+    fontSize: 18,
+    fontFamily: 'Inter-Medium',
+    color: '#8b9dc3',
+    marginLeft: 8,
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    fontSize: 18,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+    marginTop: 12,
+  },
+  title: {
+    fontSize: 36,
+    color: '#e8e8e8',
+    fontFamily: 'PlayfairDisplay-Bold',
+    textAlign: 'center',
+    marginBottom: 16,
+    letterSpacing: 1,
+  },
+  card: {
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(212, 175, 55, 0.2)',
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 20,
+    color: '#e8e8e8',
+    fontFamily: 'Inter-SemiBold',
+  },
+  body: {
+    fontSize: 17,
+    color: '#c0c0c0',
+    fontFamily: 'Inter-Regular',
+    lineHeight: 22,
+  },
+  note: {
+    fontSize: 13,
+    color: '#8b9dc3',
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    justifyContent: 'center',
+  },
+  toggle: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.4)',
+  },
+  toggleSelected: {
+    borderColor: '#d4af37',
+    backgroundColor: 'rgba(212, 175, 55, 0.15)',
+  },
+  toggleText: {
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+    color: '#8b9dc3',
+  },
+  toggleTextSelected: {
+    color: '#d4af37',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  weekday: {
+    width: '14.28%',
+    textAlign: 'center',
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: '#8b9dc3',
+  },
+  cell: {
+    width: '14.28%',
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  monthCell: {
+    width: '25%',
+    paddingVertical: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  cellComplete: {
+    backgroundColor: 'rgba(139, 195, 74, 0.15)',
+  },
+  cellMissing: {
+    backgroundColor: 'rgba(244, 67, 54, 0.18)',
+  },
+  cellPast: {
+    opacity: 0.5,
+  },
+  cellSelected: {
+    borderColor: '#d4af37',
+  },
+  cellLabel: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#e8e8e8',
+  },
+  cellBadge: {
+    fontSize: 11,
+    fontFamily: 'Inter-Medium',
+    color: '#8bc34a',
+  },
+  cellBadgeMissing: {
+    color: '#ff8a80',
+  },
+  signRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(139, 157, 195, 0.2)',
+  },
+  signRowSelected: {
+    backgroundColor: 'rgba(212, 175, 55, 0.1)',
+  },
+  optionContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  signLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#e8e8e8',
+  },
+  signStatus: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+    marginTop: 2,
+  },
+  signStatusMissing: {
+    color: '#ff8a80',
+  },
+  input: {
+    minHeight: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.4)',
+    paddingHorizontal: 12,
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    color: '#e8e8e8',
+  },
+  longInput: {
+    minHeight: 120,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scheduleInput: {
+    flex: 1,
+  },
+  scheduleButton: {
+    marginTop: 0,
+  },
+  preview: {
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(212, 175, 55, 0.3)',
+    gap: 10,
+  },
+  previewTitle: {
+    fontSize: 24,
+    fontFamily: 'PlayfairDisplay-Bold',
+    color: '#e8e8e8',
+    textAlign: 'center',
+  },
+  previewDate: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+    textAlign: 'center',
+  },
+  previewHeading: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#d4af37',
+    marginTop: 6,
+  },
+  previewBody: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#e8e8e8',
+    lineHeight: 24,
+  },
+  previewAffirmation: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    fontStyle: 'italic',
+    color: '#d4af37',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  btn: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 4,
+    minHeight: 44,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  btnPrimary: {
+    backgroundColor: '#d4af37',
+  },
+  btnOutline: {
+    borderWidth: 1,
+    borderColor: 'rgba(212, 175, 55, 0.5)',
+    backgroundColor: 'rgba(212, 175, 55, 0.1)',
+  },
+  btnText: {
+    color: '#d4af37',
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 17,
+  },
+  btnTextDark: {
+    color: '#1a1a2e',
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 17,
+  },
+  deleteText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#ff8a80',
+    textAlign: 'center',
+  },
+});
@@ -8,14 +8,17 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
-import { Crown, CircleCheck as CheckCircle, Star } from 'lucide-react-native';
+import { Crown, CircleCheck as CheckCircle, Star, Gift } from 'lucide-react-native';
 import CosmicBackground from '../../components/CosmicBackground';
 import CosmicButton from '../../components/CosmicButton';
+import { clearEntitlementsCache } from '../../utils/entitlements';
+import type { GiftCode } from '../../utils/billing';
 
 export default function SuccessScreen() {
   const { type } = useLocalSearchParams<{ type?: string }>();
   const [isLoading, setIsLoading] = useState(true);
   const [subscriptionActive, setSubscriptionActive] = useState(false);
+  const [giftCode, setGiftCode] = useState<GiftCode | null>(null);
 
   const checkSubscriptionStatus = useCallback(async () => {
     try {
@@ -44,21 +47,48 @@ export default function SuccessScreen() {
     }
   }, []);
 
+  const checkGiftCode = useCallback(async () => {
+    try {
+      // The code is issued by the webhook; poll up to ~10s for one issued in the last few minutes
+      const since = Date.now() - 10 * 60 * 1000;
+      for (let i = 0; i < 5; i++) {
+        const { getMyGifts } = await import('@/utils/billing');
+        const newest = (await getMyGifts())[0];
+        if (newest && new Date(newest.created_at).getTime() > since) {
+          setGiftCode(newest);
+          break;
+        }
+        if (i < 4) {
+          await new Promise(r => setTimeout(r, 2000));
+        }
+      }
+    } catch (e) {
+      console.error('Error fetching gift code:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   useEffect(() => {
+    // Whatever was just bought, the cached access list is stale
+    clearEntitlementsCache();
     if (type === 'subscription') {
       checkSubscriptionStatus();
+    } else if (type === 'gift') {
+      checkGiftCode();
     } else {
       // For one-off purchases, no need to poll
       setIsLoading(false);
     }
-  }, [type, checkSubscriptionStatus]);
-
-  const handleContinue = () => {
-    router.replace('/(tabs)/horoscope');
-  };
+  }, [type, checkSubscriptionStatus, checkGiftCode]);
 
   const isSubscription = type === 'subscription';
   const isOneOff = type === 'oneoff';
+  const isGift = type === 'gift';
+
+  const handleContinue = () => {
+    router.replace(isGift ? '/settings/gifts' : '/(tabs)/horoscope');
+  };
 
   return (
     <View style={styles.container}>
@@ -73,11 +103,11 @@ export default function SuccessScreen() {
             {isSubscription ? 'Welcome to Astral Plane!' : 'Purchase Complete!'}
           </Text>
 
-          {isLoading && isSubscription ? (
+          {isLoading && (isSubscription || isGift) ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#d4af37" />
               <Text style={styles.loadingText}>
-                Activating your cosmic subscription...
+                {isGift ? 'Preparing your gift code...' : 'Activating your cosmic subscription...'}
               </Text>
               <Text style={styles.loadingSubtext}>
                 This may take a few moments
@@ -124,6 +154,28 @@ export default function SuccessScreen() {
                 </>
               )}
 
+              {isGift && (
+                <>
+                  <View style={styles.featureHeader}>
+                    <Gift size={24} color="#d4af37" />
+                    <Text style={styles.featureTitle}>Gift Purchased!</Text>
+                  </View>
+                  {giftCode ? (
+                    <>
+                      <Text style={styles.giftCode} selectable>{giftCode.code}</Text>
+                      <Text style={styles.oneOffText}>
+                        Pass this code on{giftCode.recipient_name ? ` to ${giftCode.recipient_name}` : ''}. They redeem it
+                        under Settings → Gifts in the app.
+                      </Text>
+                    </>
+                  ) : (
+                    <Text style={styles.processingText}>
+                      Your gift code is on its way. You'll find it under Settings → Gifts shortly.
+                    </Text>
+                  )}
+                </>
+              )}
+
               {isOneOff && (
                 <>
                   <View style={styles.featureHeader}>
@@ -140,7 +192,7 @@ export default function SuccessScreen() {
           )}
 
           <CosmicButton
-            title={isSubscription ? 'Explore Your Horoscope' : 'View Your Reading'}
+            title={isSubscription ? 'Explore Your Horoscope' : isGift ? 'View Your Gifts' : 'View Your Reading'}
             onPress={handleContinue}
             style={styles.continueButton}
           />
@@ -242,6 +294,14 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
+  giftCode: {
+    fontSize: 24,
+    fontFamily: 'Inter-SemiBold',
+    color: '#d4af37',
+    textAlign: 'center',
+    letterSpacing: 2,
+    marginBottom: 16,
+  },
   oneOffText: {
     fontSize: 16,
     fontFamily: 'Inter-Regular',
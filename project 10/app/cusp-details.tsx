@@ -14,6 +14,7 @@ import { ArrowLeft, Star, Sparkles, Gem, Scroll } from 'lucide-react-native';
 import CosmicBackground from '../components/CosmicBackground';
 import CosmicButton from '../components/CosmicButton';
 import BirthstoneInfo from '../components/BirthstoneInfo';
+import NatalChartSummary from '../components/NatalChartSummary';
 import { getBirthstoneForCusp } from '../utils/birthstones';
 import { getCuspGemstoneAndRitual } from '../utils/cuspData';
 
@@ -332,6 +333,9 @@ export default function CuspDetailsScreen() {
               </View>
             )}
 
+            {/* The user's own chart, when they have one saved */}
+            <NatalChartSummary />
+
             <View style={styles.ctaSection}>
               <Text style={styles.ctaTitle}>Ready to Explore More?</Text>
               <Text style={styles.ctaSubtitle}>
@@ -13,15 +13,16 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import { ArrowLeft, User as UserIcon, Mail, MapPin, Calendar as CalendarIcon, Clock, LogOut, Trash2, Key, Save, X, Crown, CreditCard as Edit3 } from 'lucide-react-native';
+import { ArrowLeft, User as UserIcon, Mail, MapPin, Calendar as CalendarIcon, Clock, LogOut, Trash2, Download, Key, Save, X, Crown, CreditCard as Edit3 } from 'lucide-react-native';
 
 import CosmicBackground from '@/components/CosmicBackground';
 import CosmicButton from '@/components/CosmicButton';
 
 import { supabase } from '@/utils/supabase';
-import { getCurrentUser, signOut } from '@/utils/auth';
+import { getCurrentUser, signOut, deleteAccount, clearLocalAuthData } from '@/utils/auth';
 import { getUserData, clearUserData, type UserProfile } from '@/utils/userData';
 import { getCurrentPlanName } from '@/utils/stripe';
+import { requestDataExport, saveDataExport } from '@/utils/dataExport';
 import { ensureFreshUser } from '@/utils/authGuard';
 
 export default function SettingsScreen() {
@@ -37,6 +38,14 @@ export default function SettingsScreen() {
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [passwordLoading, setPasswordLoading] = useState(false);
 
+  const [exportLoading, setExportLoading] = useState(false);
+
+  // account deletion state
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
   const [error, setError] = useState<string | null>(null);
   const isMounted = useRef(true);
 
@@ -160,6 +169,20 @@ export default function SettingsScreen() {
     })();
   };
 
+  const handleExportData = async () => {
+    setExportLoading(true);
+    setError(null);
+    try {
+      const archive = await requestDataExport();
+      await saveDataExport(archive);
+    } catch (e: any) {
+      console.error('❌ [settings] Data export failed:', e);
+      setError(e?.message || 'Failed to export your data');
+    } finally {
+      setExportLoading(false);
+    }
+  };
+
   const handleDeleteAccount = () => {
     Alert.alert(
       'Delete Account',
@@ -169,15 +192,51 @@ export default function SettingsScreen() {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () =>
-            setError(
-              'Account deletion will be available in a future update. Please contact support if needed.'
-            ),
+          onPress: () => {
+            setIsConfirmingDelete(true);
+            setDeletePassword('');
+            setDeleteError(null);
+          },
         },
       ]
     );
   };
 
+  const handleCancelDelete = () => {
+    setIsConfirmingDelete(false);
+    setDeletePassword('');
+    setDeleteError(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deletePassword) {
+      setDeleteError('Please enter your password');
+      return;
+    }
+
+    setDeleteLoading(true);
+    setDeleteError(null);
+    try {
+      await deleteAccount(deletePassword);
+    } catch (e: any) {
+      setDeleteError(e?.message || 'Failed to delete account');
+      setDeleteLoading(false);
+      return;
+    }
+
+    // The account is gone server-side; drop everything cached locally
+    try {
+      await clearUserData();
+    } catch (e) {
+      console.error('❌ [settings] Cache clear after deletion failed:', e);
+    }
+    await signOut().catch(() => {});
+    await clearLocalAuthData();
+
+    Alert.alert('Account Deleted', 'Your account and all of your data have been permanently deleted.');
+    router.replace('/auth/login');
+  };
+
   const handleChangePassword = () => {
     setIsEditingPassword(true);
     setPasswordError(null);
@@ -448,7 +507,7 @@ export default function SettingsScreen() {
               <View style={styles.sunPosition}>
                 <Text style={styles.sunLabel}>Sun Position</Text>
                 <Text style={styles.sunValue}>
-                  {userData.cuspResult.sunDegree}° {userData.cuspResult.primarySign}
+                  {userData.cuspResult.sunDegree}° {userData.cuspResult.sunSign ?? userData.cuspResult.primarySign}
                 </Text>
               </View>
             </LinearGradient>
@@ -534,6 +593,11 @@ export default function SettingsScreen() {
                 <Text style={styles.actionText}>Update Birth Details</Text>
               </TouchableOpacity>
 
+              <TouchableOpacity style={styles.actionRowButton} onPress={handleExportData} disabled={exportLoading}>
+                <Download size={20} color="#8b9dc3" />
+                <Text style={styles.actionText}>{exportLoading ? 'Preparing Export...' : 'Download My Data'}</Text>
+              </TouchableOpacity>
+
 
               <TouchableOpacity
                 style={[styles.actionRowButton, styles.dangerButton]}
@@ -542,6 +606,53 @@ export default function SettingsScreen() {
                 <Trash2 size={20} color="#ff6b6b" />
                 <Text style={[styles.actionText, styles.dangerText]}>Delete Account</Text>
               </TouchableOpacity>
+
+              {isConfirmingDelete && (
+                <View style={styles.deleteConfirmForm}>
+                  <Text style={styles.deleteConfirmText}>
+                    This cancels any active subscription and permanently deletes your profile, readings and
+                    billing history. Enter your password to confirm.
+                  </Text>
+
+                  {!!deleteError && (
+                    <View style={styles.bannerError}>
+                      <Text style={styles.bannerErrorText}>{deleteError}</Text>
+                    </View>
+                  )}
+
+                  <TextInput
+                    style={styles.passwordInput}
+                    value={deletePassword}
+                    onChangeText={setDeletePassword}
+                    secureTextEntry
+                    placeholder="Current password"
+                    placeholderTextColor="#8b9dc3"
+                    editable={!deleteLoading}
+                  />
+
+                  <View style={styles.passwordActions}>
+                    <TouchableOpacity
+                      style={styles.passwordActionButton}
+                      onPress={handleCancelDelete}
+                      disabled={deleteLoading}
+                    >
+                      <X size={16} color="#8b9dc3" />
+                      <Text style={styles.passwordActionText}>Cancel</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={[styles.passwordActionButton, styles.dangerButton]}
+                      onPress={handleConfirmDelete}
+                      disabled={deleteLoading}
+                    >
+                      <Trash2 size={16} color="#ff6b6b" />
+                      <Text style={[styles.passwordActionText, styles.dangerText]}>
+                        {deleteLoading ? 'Deleting...' : 'Delete Forever'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
             </View>
 
             {/* Account Info */}
@@ -703,6 +814,15 @@ const styles = StyleSheet.create({
   actionText: { fontSize: 18, fontFamily: 'Vazirmatn-Medium', color: '#e8e8e8', marginLeft: 12 },
   dangerButton: { borderColor: 'rgba(255, 107, 107, 0.3)', backgroundColor: 'rgba(255, 107, 107, 0.1)' },
   dangerText: { color: '#ff6b6b' },
+  deleteConfirmForm: {
+    gap: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 107, 107, 0.3)',
+    backgroundColor: 'rgba(255, 107, 107, 0.05)',
+  },
+  deleteConfirmText: { fontSize: 15, fontFamily: 'Vazirmatn-Regular', color: '#e8e8e8', lineHeight: 22 },
 
   // banners / misc
   bannerError: {
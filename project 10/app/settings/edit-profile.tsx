@@ -13,15 +13,23 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import { ArrowLeft, Save, X, Calendar, Clock, MapPin, Star } from 'lucide-react-native';
+import { ArrowLeft, Save, X, Calendar, Clock, Star } from 'lucide-react-native';
 import CosmicBackground from '@/components/CosmicBackground';
 import CosmicButton from '@/components/CosmicButton';
 import BirthdateField from '../../components/BirthdateField';
 import { getCosmicProfile, saveCosmicProfile, type CosmicProfile } from '@/utils/userProfile';
 import { calculateCusp, BirthInfo } from '@/utils/astrology';
+import { calculateNatalChart, type NatalChart } from '@/utils/natalChart';
 import { supabase } from '@/utils/supabase';
 import { saveCosmicProfileEdits, type EditableProfile } from '@/utils/userProfile';
 import { clearUserDataPromise } from '@/utils/userData';
+import LocationInput from '@/components/LocationInput';
+import {
+  birthPlaceFromCity,
+  resolveBirthPlace,
+  type GazetteerCity,
+  type ResolvedBirthPlace,
+} from '@/utils/gazetteer';
 
 // Helper to convert DD/MM/YYYY to YYYY-MM-DD
 function toISODate(ddmmyyyy: string): string {
@@ -29,39 +37,14 @@ function toISODate(ddmmyyyy: string): string {
   return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
 }
 
-// Helper to detect timezone from location
-function detectTimezone(location: string, hemisphere: 'Northern' | 'Southern'): string {
-  const loc = location.toLowerCase();
-  
-  // Australia
-  if (loc.includes('sydney') || loc.includes('melbourne') || loc.includes('canberra')) return 'Australia/Sydney';
-  if (loc.includes('brisbane') || loc.includes('gold coast')) return 'Australia/Brisbane';
-  if (loc.includes('perth')) return 'Australia/Perth';
-  if (loc.includes('adelaide')) return 'Australia/Adelaide';
-  if (loc.includes('darwin')) return 'Australia/Darwin';
-  if (loc.includes('hobart')) return 'Australia/Hobart';
-  
-  // Major cities
-  if (loc.includes('new york')) return 'America/New_York';
-  if (loc.includes('los angeles') || loc.includes('san francisco')) return 'America/Los_Angeles';
-  if (loc.includes('chicago')) return 'America/Chicago';
-  if (loc.includes('london')) return 'Europe/London';
-  if (loc.includes('paris')) return 'Europe/Paris';
-  if (loc.includes('berlin')) return 'Europe/Berlin';
-  if (loc.includes('tokyo')) return 'Asia/Tokyo';
-  if (loc.includes('beijing')) return 'Asia/Shanghai';
-  if (loc.includes('mumbai')) return 'Asia/Kolkata';
-  
-  // Default fallbacks by hemisphere
-  if (hemisphere === 'Southern') return 'Australia/Sydney';
-  return 'Europe/London';
-}
-
 export default function EditProfileScreen() {
   const [form, setForm] = useState<CosmicProfile>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [hemisphere, setHemisphere] = useState<'Northern' | 'Southern'>('Northern');
+  const [natalChart, setNatalChart] = useState<NatalChart | undefined>(undefined);
+  const [birthPlace, setBirthPlace] = useState<ResolvedBirthPlace | null>(null);
+  const [pickedCity, setPickedCity] = useState<GazetteerCity | null>(null);
 
   useEffect(() => {
     (async () => {
@@ -77,6 +60,11 @@ export default function EditProfileScreen() {
 
   const update = (patch: Partial<CosmicProfile>) => setForm(prev => ({ ...prev, ...patch }));
 
+  const handleCitySelect = (city: GazetteerCity | null) => {
+    setPickedCity(city);
+    if (city) setHemisphere(city.hemisphere);
+  };
+
   const parseDateString = (dateString: string): Date => {
     // Handle YYYY-MM-DD format (from database)
     if (dateString.includes('-') && dateString.split('-')[0].length === 4) {
@@ -118,7 +106,7 @@ export default function EditProfileScreen() {
   };
 
   const recalculateZodiac = () => {
-    if (!form.birthDate || !form.birthTime || !form.birthCity) {
+    if (!form.birthDate || (!form.birthTimeUnknown && !form.birthTime) || !form.birthCity) {
       Alert.alert('Missing Information', 'Please fill in all birth details to calculate your cosmic position.');
       return;
     }
@@ -141,18 +129,31 @@ export default function EditProfileScreen() {
         throw new Error('Invalid date');
       }
       
-      // Detect timezone from location
-      const timezone = detectTimezone(form.birthCity || '', hemisphere);
+      // Resolve zone (and coordinates) from the bundled gazetteer
+      const place = pickedCity ? birthPlaceFromCity(pickedCity) : resolveBirthPlace(form.birthCity || '');
+      if (!place) {
+        Alert.alert(
+          'Unknown Location',
+          'We couldn’t work out the time zone for that place. Please pick the nearest city from the suggestions, or include the country (and state in countries with several time zones), e.g. "Sydney, Australia".'
+        );
+        return;
+      }
       
       const birthInfo: BirthInfo = {
         date: dateISO, // Keep as string
-        time: form.birthTime,
+        time: form.birthTimeUnknown ? '' : form.birthTime || '',
         location: form.birthCity,
         hemisphere,
-        timezone,
+        timezone: place.timezone,
+        latitude: place.latitude,
+        longitude: place.longitude,
+        timeUnknown: !!form.birthTimeUnknown,
+        timeEstimate: form.birthTimeUnknown ? form.birthTimeEstimate : undefined,
       };
 
       const cuspResult = calculateCusp(birthInfo);
+      setNatalChart(calculateNatalChart(birthInfo));
+      setBirthPlace(place);
       
       console.log('✅ [edit-profile] Cusp calculation result:', {
         isOnCusp: cuspResult.isOnCusp,
@@ -175,7 +176,7 @@ export default function EditProfileScreen() {
         
       Alert.alert(
         'Cosmic Position Updated!', 
-        `Your position has been recalculated:\n\n${displayName}\n\nSun at ${cuspResult.sunDegree}° ${cuspResult.primarySign}`
+        `Your position has been recalculated:\n\n${displayName}\n\nSun at ${cuspResult.sunDegree}° ${cuspResult.sunSign}`
       );
     } catch (error) {
       console.error('❌ [edit-profile] Recalculation error:', error);
@@ -208,9 +209,16 @@ export default function EditProfileScreen() {
         name: form.birthCity ? form.birthCity.split(',')[0] : undefined, // Use city as name if available
         hemisphere: form.zodiacResult?.hemisphere || hemisphere,
         birthDateISO: birthDateISO,
-        birthTime: form.birthTime,
+        birthTime: form.birthTimeUnknown ? null : form.birthTime,
+        birthTimeUnknown: !!form.birthTimeUnknown,
         birthLocation: form.birthCity,
+        ...(birthPlace && {
+          birthTimezone: birthPlace.timezone,
+          birthLatitude: birthPlace.latitude ?? null,
+          birthLongitude: birthPlace.longitude ?? null,
+        }),
         cuspResult: form.zodiacResult,
+        natalChart,
       };
       
       console.log('🔍 [edit-profile] Saving with edits:', {
@@ -397,49 +405,60 @@ export default function EditProfileScreen() {
                     <BirthdateField
                       initialISO={form.birthDate || null}
                       onValidISO={(iso) => update({ birthDate: iso || undefined })}
+                      timeUnknown={!!form.birthTimeUnknown}
+                      onTimeUnknownChange={(unknown) => update({ birthTimeUnknown: unknown })}
                     />
                   </View>
 
-                  <View style={styles.inputWithIcon}>
-                    <Clock size={20} color="#8b9dc3" style={styles.inputIcon} />
-                    <View style={styles.inputContainer}>
-                      <Text style={styles.label}>Birth Time</Text>
-                      <TextInput
-                        style={styles.input}
-                        placeholder="HH:MM (24-hour format)"
-                        placeholderTextColor="#8b9dc3"
-                        value={form.birthTime || ''}
-                        onChangeText={(t) => update({ birthTime: t })}
-                        autoCapitalize="none"
-                      />
+                  {!form.birthTimeUnknown && (
+                    <View style={styles.inputWithIcon}>
+                      <Clock size={20} color="#8b9dc3" style={styles.inputIcon} />
+                      <View style={styles.inputContainer}>
+                        <Text style={styles.label}>Birth Time</Text>
+                        <TextInput
+                          style={styles.input}
+                          placeholder="HH:MM (24-hour format)"
+                          placeholderTextColor="#8b9dc3"
+                          value={form.birthTime || ''}
+                          onChangeText={(t) => update({ birthTime: t })}
+                          autoCapitalize="none"
+                        />
+                      </View>
                     </View>
-                  </View>
+                  )}
 
                   <View style={styles.birthTimeNote}>
                     <Text style={styles.birthTimeNoteText}>
-                      💡 Use 24-hour format: 09:00 for 9 AM, 14:30 for 2:30 PM, 21:45 for 9:45 PM
+                      {form.birthTimeUnknown
+                        ? '🌞 Without a birth time we use a solar chart for midday; results near a sign change are marked uncertain'
+                        : '💡 Use 24-hour format: 09:00 for 9 AM, 14:30 for 2:30 PM, 21:45 for 9:45 PM'}
                     </Text>
                   </View>
 
-                  <View style={styles.inputWithIcon}>
-                    <MapPin size={20} color="#8b9dc3" style={styles.inputIcon} />
-                    <View style={styles.inputContainer}>
-                      <Text style={styles.label}>Birth Location</Text>
-                      <TextInput
-                        style={styles.input}
-                        placeholder="Type your birth city (e.g., Manila, Sydney)..."
-                        placeholderTextColor="#8b9dc3"
-                        value={form.birthCity || ''}
-                        onChangeText={(location) => update({ birthCity: location })}
-                        autoCapitalize="words"
-                      />
-                    </View>
-
-                    <View style={styles.locationNote}>
-                      <Text style={styles.locationNoteText}>
-                        💡 Start typing and select from suggestions, or type manually (e.g., "Manila, Philippines")
+                  {form.birthTimeUnknown && (
+                    <TouchableOpacity style={styles.rectifyLink} onPress={() => router.push('/settings/rectify')}>
+                      <Text style={styles.rectifyLinkText}>
+                        {form.birthTimeEstimate
+                          ? `Estimated ${form.birthTimeEstimate.time} (${form.birthTimeEstimate.sign} rising, ${Math.round(
+                              form.birthTimeEstimate.confidence * 100
+                            )}% confidence) · Refine`
+                          : '🔮 Narrow down your birth time'}
                       </Text>
-                    </View>
+                    </TouchableOpacity>
+                  )}
+
+                  <LocationInput
+                    label="Birth Location"
+                    value={form.birthCity || ''}
+                    onLocationChange={(location) => update({ birthCity: location })}
+                    onCitySelect={handleCitySelect}
+                    placeholder="Type your birth city (e.g., Manila, Sydney)..."
+                  />
+
+                  <View style={styles.locationNote}>
+                    <Text style={styles.locationNoteText}>
+                      💡 Start typing and select from suggestions, or type manually (e.g., "Manila, Philippines")
+                    </Text>
                   </View>
                 </View>
 
@@ -474,7 +493,7 @@ export default function EditProfileScreen() {
                   
                   {form.zodiacResult.sunDegree && (
                     <Text style={styles.resultDetail}>
-                      Sun at {form.zodiacResult.sunDegree}° {form.zodiacResult.primarySign}
+                      Sun at {form.zodiacResult.sunDegree}° {form.zodiacResult.sunSign ?? form.zodiacResult.primarySign}
                     </Text>
                   )}
                 </LinearGradient>
@@ -727,4 +746,19 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 16,
   },
+  rectifyLink: {
+    marginTop: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(212, 175, 55, 0.4)',
+    backgroundColor: 'rgba(212, 175, 55, 0.1)',
+  },
+  rectifyLinkText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#d4af37',
+    textAlign: 'center',
+  },
 });
\ No newline at end of file
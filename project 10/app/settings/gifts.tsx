@@ -0,0 +1,435 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, TextInput } from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, Gift, Ticket, Package } from 'lucide-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import CosmicBackground from '@/components/CosmicBackground';
+
+import { getCurrentUser } from '@/utils/auth';
+import { buyGift, getMyGifts, redeemGiftCode, type GiftCode } from '@/utils/billing';
+import { getGiftProducts, type GiftProduct } from '@/utils/stripeConfig';
+
+const describeGift = (g: { product: string; months: number | null }) =>
+  g.product === 'subscription' ? `${g.months} month${g.months === 1 ? '' : 's'} of Astral Plane` : 'Cusp reading';
+
+const formatDate = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+
+export default function GiftsScreen() {
+  const products = getGiftProducts();
+
+  const [loading, setLoading] = useState(true);
+  const [authed, setAuthed] = useState(false);
+  const [gifts, setGifts] = useState<GiftCode[]>([]);
+
+  const [redeemCode, setRedeemCode] = useState('');
+  const [redeeming, setRedeeming] = useState(false);
+  const [redeemMessage, setRedeemMessage] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<GiftProduct | null>(products[0] ?? null);
+  const [recipientName, setRecipientName] = useState('');
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [buying, setBuying] = useState(false);
+
+  const loadGifts = useCallback(async () => {
+    setGifts(await getMyGifts());
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const user = await getCurrentUser();
+        setAuthed(!!user);
+        if (user) await loadGifts();
+      } catch (e) {
+        console.error('[gifts] load error', e);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [loadGifts]);
+
+  const onRedeem = async () => {
+    if (!redeemCode.trim()) return;
+    setRedeeming(true);
+    setRedeemMessage(null);
+    try {
+      const result = await redeemGiftCode(redeemCode);
+      setRedeemCode('');
+      if (result.product === 'subscription') {
+        const starts = result.starts_at && new Date(result.starts_at) > new Date()
+          ? ` It starts when your current gift ends, on ${formatDate(result.starts_at)}.`
+          : '';
+        setRedeemMessage(`Gift redeemed: ${describeGift(result)}, until ${formatDate(result.expires_at)}.${starts}`);
+      } else {
+        setRedeemMessage('Gift redeemed: your in-depth cusp reading is unlocked.');
+      }
+    } catch (e: any) {
+      Alert.alert('Could not redeem', e?.message ?? 'Please check the code and try again.');
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  const onBuy = async () => {
+    if (!selected) return;
+    setBuying(true);
+    try {
+      await buyGift(selected, { name: recipientName, email: recipientEmail, message });
+    } catch (e: any) {
+      Alert.alert('Checkout error', e?.message ?? 'Could not start checkout.');
+    } finally {
+      setBuying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <CosmicBackground />
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color="#d4af37" />
+          <Text style={styles.loadingText}>Loading gifts…</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CosmicBackground />
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <ArrowLeft size={24} color="#8b9dc3" />
+        <Text style={styles.backText}>Back</Text>
+      </TouchableOpacity>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.title}>Gifts</Text>
+
+        {!authed ? (
+          <LinearGradient
+            colors={['rgba(139, 157, 195, 0.15)', 'rgba(139, 157, 195, 0.05)']}
+            style={styles.card}
+          >
+            <Text style={styles.body}>Sign in to give or redeem a gift.</Text>
+            <TouchableOpacity style={[styles.btn, styles.btnPrimary]} onPress={() => router.push('/auth/login')}>
+              <Text style={styles.btnTextDark}>Sign In</Text>
+            </TouchableOpacity>
+          </LinearGradient>
+        ) : (
+          <>
+            {/* Redeem */}
+            <LinearGradient
+              colors={['rgba(139, 195, 74, 0.15)', 'rgba(139, 195, 74, 0.05)']}
+              style={styles.card}
+            >
+              <View style={styles.row}>
+                <Ticket size={20} color="#8bc34a" />
+                <Text style={styles.cardTitle}>Redeem a Gift</Text>
+              </View>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                value={redeemCode}
+                onChangeText={setRedeemCode}
+                placeholder="GIFT-XXXX-XXXX"
+                placeholderTextColor="#6b7a99"
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              {redeemMessage && <Text style={styles.success}>{redeemMessage}</Text>}
+              <TouchableOpacity
+                style={[styles.btn, styles.btnOutline]}
+                onPress={onRedeem}
+                disabled={redeeming || !redeemCode.trim()}
+              >
+                {redeeming ? <ActivityIndicator color="#d4af37" /> : <Text style={styles.btnText}>Redeem</Text>}
+              </TouchableOpacity>
+            </LinearGradient>
+
+            {/* Give */}
+            <LinearGradient
+              colors={['rgba(212, 175, 55, 0.15)', 'rgba(212, 175, 55, 0.05)']}
+              style={styles.card}
+            >
+              <View style={styles.row}>
+                <Gift size={20} color="#d4af37" />
+                <Text style={styles.cardTitle}>Give a Gift</Text>
+              </View>
+
+              {products.length === 0 ? (
+                <Text style={styles.body}>Gifts aren't available right now.</Text>
+              ) : (
+                <>
+                  {products.map((p) => (
+                    <TouchableOpacity
+                      key={p.id}
+                      style={[styles.option, selected?.id === p.id && styles.optionSelected]}
+                      onPress={() => setSelected(p)}
+                    >
+                      <View style={styles.optionContent}>
+                        <Text style={styles.optionTitle}>{p.name}</Text>
+                        <Text style={styles.optionDescription}>{p.description}</Text>
+                      </View>
+                      <Text style={styles.optionPrice}>{p.price}</Text>
+                    </TouchableOpacity>
+                  ))}
+
+                  <TextInput
+                    style={styles.input}
+                    value={recipientName}
+                    onChangeText={setRecipientName}
+                    placeholder="Their name (optional)"
+                    placeholderTextColor="#6b7a99"
+                  />
+                  <TextInput
+                    style={styles.input}
+                    value={recipientEmail}
+                    onChangeText={setRecipientEmail}
+                    placeholder="Their email (optional)"
+                    placeholderTextColor="#6b7a99"
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.messageInput]}
+                    value={message}
+                    onChangeText={setMessage}
+                    placeholder="A message to go with it (optional)"
+                    placeholderTextColor="#6b7a99"
+                    multiline
+                    maxLength={500}
+                  />
+                  <Text style={styles.note}>
+                    After payment you'll get a gift code to pass on. They redeem it here in the app.
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.btn, styles.btnPrimary]}
+                    onPress={onBuy}
+                    disabled={buying || !selected}
+                  >
+                    {buying ? (
+                      <ActivityIndicator color="#1a1a2e" />
+                    ) : (
+                      <Text style={styles.btnTextDark}>Buy Gift{selected ? ` · ${selected.price}` : ''}</Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
+            </LinearGradient>
+
+            {/* Bought */}
+            {gifts.length > 0 && (
+              <LinearGradient
+                colors={['rgba(139, 157, 195, 0.15)', 'rgba(139, 157, 195, 0.05)']}
+                style={styles.card}
+              >
+                <View style={styles.row}>
+                  <Package size={20} color="#8b9dc3" />
+                  <Text style={styles.cardTitle}>Gifts You've Bought</Text>
+                </View>
+                {gifts.map((g) => (
+                  <View key={g.code} style={styles.giftRow}>
+                    <Text style={styles.giftCode} selectable>{g.code}</Text>
+                    <Text style={styles.giftDetail}>
+                      {describeGift(g)}
+                      {g.recipient_name || g.recipient_email ? ` for ${g.recipient_name || g.recipient_email}` : ''}
+                    </Text>
+                    <Text style={styles.giftStatus}>
+                      {g.status === 'redeemed'
+                        ? `Redeemed ${formatDate(g.redeemed_at)}`
+                        : g.status === 'void'
+                        ? 'Cancelled'
+                        : `Bought ${formatDate(g.created_at)}, not redeemed yet`}
+                    </Text>
+                  </View>
+                ))}
+              </LinearGradient>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 24,
+    gap: 20,
+    paddingTop: 20,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 20,
+    paddingBottom: 10,
+    paddingHorizontal: 24,
+  },
+  backText: {
+    fontSize: 18,
+    fontFamily: 'Inter-Medium',
+    color: '#8b9dc3',
+    marginLeft: 8,
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    fontSize: 18,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+    marginTop: 12,
+  },
+  title: {
+    fontSize: 36,
+    color: '#e8e8e8',
+    fontFamily: 'PlayfairDisplay-Bold',
+    textAlign: 'center',
+    marginBottom: 16,
+    letterSpacing: 1,
+  },
+  card: {
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(212, 175, 55, 0.2)',
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 20,
+    color: '#e8e8e8',
+    fontFamily: 'Inter-SemiBold',
+  },
+  body: {
+    fontSize: 17,
+    color: '#c0c0c0',
+    fontFamily: 'Inter-Regular',
+    lineHeight: 22,
+  },
+  success: {
+    fontSize: 15,
+    color: '#8bc34a',
+    fontFamily: 'Inter-Medium',
+    lineHeight: 21,
+  },
+  note: {
+    fontSize: 13,
+    color: '#8b9dc3',
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+  },
+  input: {
+    minHeight: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.4)',
+    paddingHorizontal: 12,
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    color: '#e8e8e8',
+  },
+  codeInput: {
+    fontFamily: 'Inter-Medium',
+    letterSpacing: 1,
+  },
+  messageInput: {
+    minHeight: 88,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.3)',
+  },
+  optionSelected: {
+    borderColor: '#d4af37',
+    backgroundColor: 'rgba(212, 175, 55, 0.1)',
+  },
+  optionContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#e8e8e8',
+  },
+  optionDescription: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+    marginTop: 2,
+  },
+  optionPrice: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#d4af37',
+  },
+  giftRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(139, 157, 195, 0.2)',
+    gap: 2,
+  },
+  giftCode: {
+    fontSize: 17,
+    fontFamily: 'Inter-SemiBold',
+    color: '#d4af37',
+    letterSpacing: 1,
+  },
+  giftDetail: {
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    color: '#e8e8e8',
+  },
+  giftStatus: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+  },
+  btn: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 4,
+    minHeight: 44,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  btnPrimary: {
+    backgroundColor: '#d4af37',
+  },
+  btnOutline: {
+    borderWidth: 1,
+    borderColor: 'rgba(212, 175, 55, 0.5)',
+    backgroundColor: 'rgba(212, 175, 55, 0.1)',
+  },
+  btnText: {
+    color: '#d4af37',
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 17,
+  },
+  btnTextDark: {
+    color: '#1a1a2e',
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 17,
+  },
+});
@@ -0,0 +1,341 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Clock } from 'lucide-react-native';
+import CosmicBackground from '@/components/CosmicBackground';
+import CosmicButton from '@/components/CosmicButton';
+
+import { calculateCusp, calculatePossibleRisingSigns, type BirthInfo } from '@/utils/astrology';
+import { calculateNatalChart } from '@/utils/natalChart';
+import {
+  getRectificationQuestions,
+  rankRisingWindows,
+  toBirthTimeEstimate,
+  type RectificationAnswers,
+  type RectificationCandidate,
+} from '@/utils/rectification';
+import { getUserData, type UserProfile } from '@/utils/userData';
+import { saveCosmicProfileEdits } from '@/utils/userProfile';
+
+const SHOW_CANDIDATES = 5;
+
+export default function RectifyBirthTimeScreen() {
+  const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [answers, setAnswers] = useState<RectificationAnswers>({});
+  const [candidates, setCandidates] = useState<RectificationCandidate[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getUserData()
+      .then(setProfile)
+      .catch(e => console.error('❌ [rectify] Failed to load profile:', e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Only profiles with an unknown time and a located birth place can be rectified
+  const birthInfo = useMemo<BirthInfo | null>(() => {
+    if (!profile?.birthTimeUnknown || !profile.birthDate) return null;
+    if (typeof profile.birthLatitude !== 'number' || typeof profile.birthLongitude !== 'number') return null;
+    return {
+      date: profile.birthDate,
+      time: '',
+      location: profile.birthLocation,
+      hemisphere: profile.hemisphere,
+      timezone: profile.birthTimezone,
+      latitude: profile.birthLatitude,
+      longitude: profile.birthLongitude,
+      timeUnknown: true,
+    };
+  }, [profile]);
+
+  const questions = useMemo(
+    () => (birthInfo ? getRectificationQuestions(calculatePossibleRisingSigns(birthInfo)) : []),
+    [birthInfo]
+  );
+
+  const answer = (id: string, value: string | number | undefined) => {
+    setAnswers(prev => ({ ...prev, [id]: value }));
+    setCandidates([]);
+  };
+
+  const rank = () => {
+    if (!birthInfo) return;
+    try {
+      setCandidates(rankRisingWindows(birthInfo, answers));
+    } catch (e) {
+      console.error('❌ [rectify] Ranking failed:', e);
+      Alert.alert('Something went wrong', 'We couldn’t rank your birth time windows. Please try again.');
+    }
+  };
+
+  const choose = async (candidate: RectificationCandidate) => {
+    if (!birthInfo) return;
+    setSaving(true);
+    try {
+      const estimate = toBirthTimeEstimate(candidate);
+      const estimated: BirthInfo = { ...birthInfo, timeEstimate: estimate };
+      // The Sun's degree (and so the cusp) moves with the time too
+      await saveCosmicProfileEdits({
+        birthTimeEstimate: estimate,
+        cuspResult: { ...calculateCusp(estimated), hemisphere: birthInfo.hemisphere },
+        natalChart: calculateNatalChart(estimated),
+      });
+      await getUserData(true).catch(() => {});
+      Alert.alert(
+        'Birth Time Estimated',
+        `We’ll use ${estimate.time} (${estimate.sign} rising, ${Math.round(estimate.confidence * 100)}% confidence) as an estimate until you know your exact time.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (e: any) {
+      console.error('❌ [rectify] Save failed:', e);
+      Alert.alert('Save failed', e?.message || 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <CosmicBackground />
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color="#d4af37" />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CosmicBackground />
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <ArrowLeft size={24} color="#8b9dc3" />
+        <Text style={styles.backText}>Back</Text>
+      </TouchableOpacity>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>Find Your Birth Time</Text>
+
+        {!birthInfo ? (
+          <LinearGradient colors={['rgba(139, 157, 195, 0.15)', 'rgba(139, 157, 195, 0.05)']} style={styles.card}>
+            <Text style={styles.body}>
+              {!profile
+                ? 'Sign in and save your cosmic profile first.'
+                : !profile.birthTimeUnknown
+                ? 'Your birth time is already on your profile, so there’s nothing to estimate.'
+                : 'Add your birth date and city to your profile so we know which signs were rising that day.'}
+            </Text>
+            <CosmicButton
+              title="Edit Cosmic Profile"
+              onPress={() => router.replace('/settings/edit-profile')}
+              variant="outline"
+            />
+          </LinearGradient>
+        ) : (
+          <>
+            <Text style={styles.intro}>
+              Answer what you can. We’ll compare your answers with every rising sign of your birth day and rank
+              the most likely birth time windows.
+            </Text>
+
+            {questions.map(q => (
+              <LinearGradient
+                key={q.id}
+                colors={['rgba(139, 157, 195, 0.15)', 'rgba(139, 157, 195, 0.05)']}
+                style={styles.card}
+              >
+                <Text style={styles.question}>{q.prompt}</Text>
+                {q.kind === 'choice' ? (
+                  q.options.map(o => {
+                    const selected = answers[q.id] === o.id;
+                    return (
+                      <TouchableOpacity
+                        key={o.id}
+                        style={[styles.option, selected && styles.optionSelected]}
+                        onPress={() => answer(q.id, selected ? undefined : o.id)}
+                      >
+                        <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{o.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })
+                ) : (
+                  <TextInput
+                    style={styles.yearInput}
+                    placeholder="YYYY (optional)"
+                    placeholderTextColor="#8b9dc3"
+                    keyboardType="number-pad"
+                    maxLength={4}
+                    value={answers[q.id] ? String(answers[q.id]) : ''}
+                    onChangeText={t => answer(q.id, /^\d{4}$/.test(t) ? Number(t) : t || undefined)}
+                  />
+                )}
+              </LinearGradient>
+            ))}
+
+            <CosmicButton title="Rank My Birth Time" onPress={rank} style={styles.rankButton} />
+
+            {candidates.slice(0, SHOW_CANDIDATES).map((c, i) => (
+              <LinearGradient
+                key={`${c.sign}-${c.start}`}
+                colors={
+                  i === 0
+                    ? ['rgba(212, 175, 55, 0.2)', 'rgba(212, 175, 55, 0.08)']
+                    : ['rgba(139, 157, 195, 0.15)', 'rgba(139, 157, 195, 0.05)']
+                }
+                style={styles.card}
+              >
+                <View style={styles.row}>
+                  <Clock size={18} color={i === 0 ? '#d4af37' : '#8b9dc3'} />
+                  <Text style={styles.candidateTitle}>
+                    {c.start}–{c.end} · {c.sign} rising
+                  </Text>
+                  <Text style={styles.probability}>{Math.round(c.probability * 100)}%</Text>
+                </View>
+                {c.reasons.map(r => (
+                  <Text key={r} style={styles.reason}>
+                    • {r}
+                  </Text>
+                ))}
+                <CosmicButton
+                  title={saving ? 'Saving...' : 'Use This Window'}
+                  onPress={() => choose(c)}
+                  disabled={saving}
+                  variant={i === 0 ? 'primary' : 'outline'}
+                />
+              </LinearGradient>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: 24,
+    gap: 20,
+    paddingTop: 20,
+    paddingBottom: 60,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 20,
+    paddingBottom: 10,
+    paddingHorizontal: 24,
+  },
+  backText: {
+    fontSize: 18,
+    fontFamily: 'Inter-Medium',
+    color: '#8b9dc3',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 32,
+    color: '#e8e8e8',
+    fontFamily: 'PlayfairDisplay-Bold',
+    textAlign: 'center',
+    letterSpacing: 1,
+  },
+  intro: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  card: {
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.3)',
+    gap: 10,
+  },
+  body: {
+    fontSize: 16,
+    color: '#c0c0c0',
+    fontFamily: 'Inter-Regular',
+    lineHeight: 22,
+  },
+  question: {
+    fontSize: 17,
+    fontFamily: 'Inter-SemiBold',
+    color: '#e8e8e8',
+    marginBottom: 4,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.3)',
+    backgroundColor: 'rgba(26, 26, 46, 0.4)',
+  },
+  optionSelected: {
+    borderColor: '#d4af37',
+    backgroundColor: 'rgba(212, 175, 55, 0.15)',
+  },
+  optionText: {
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    color: '#e8e8e8',
+  },
+  optionTextSelected: {
+    color: '#d4af37',
+  },
+  yearInput: {
+    backgroundColor: 'rgba(26, 26, 46, 0.4)',
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.3)',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    color: '#e8e8e8',
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+  },
+  rankButton: {
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  candidateTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontFamily: 'Inter-SemiBold',
+    color: '#e8e8e8',
+  },
+  probability: {
+    fontSize: 17,
+    fontFamily: 'Inter-SemiBold',
+    color: '#d4af37',
+  },
+  reason: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#c0c0c0',
+    lineHeight: 20,
+  },
+});
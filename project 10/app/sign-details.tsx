@@ -14,6 +14,7 @@ import { ArrowLeft, Star, Sparkles, Gem, Crown } from 'lucide-react-native';
 import CosmicBackground from '../components/CosmicBackground';
 import CosmicButton from '../components/CosmicButton';
 import BirthstoneInfo from '../components/BirthstoneInfo';
+import NatalChartSummary from '../components/NatalChartSummary';
 import { getEnhancedZodiacInfo, getBirthstoneInfo } from '../utils/zodiacData';
 
 interface SignDetail {
@@ -186,6 +187,9 @@ export default function SignDetailsScreen() {
               <BirthstoneInfo sign={signInfo.name} />
             )}
 
+            {/* The user's own chart, when they have one saved */}
+            <NatalChartSummary />
+
             <View style={styles.ctaSection}>
               <Text style={styles.ctaTitle}>Ready to Explore More?</Text>
               <Text style={styles.ctaSubtitle}>
@@ -8,10 +8,11 @@ import {
   Alert,
   ScrollView,
   SafeAreaView,
+  TextInput,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import { Crown, CreditCard, Eye, ArrowLeft, Star, Calendar, Zap } from 'lucide-react-native';
+import { Crown, CreditCard, Eye, ArrowLeft, Star, Calendar, Zap, Gift, Tag } from 'lucide-react-native';
 
 import CosmicBackground from '@/components/CosmicBackground';
 import {
@@ -19,9 +20,15 @@ import {
   subscribeMonthly,
   subscribeYearly,
   upgradeToYearly,
+  previewYearlyUpgrade,
   buyOneOffReading,
   getSubscriptionStatus,
+  getTrialOffers,
+  getReferralCode,
+  type UpgradePreview,
+  type SubscriptionCheck,
 } from '@/utils/billing';
+import { formatCurrency } from '@/utils/stripe';
 
 type SubStatus = {
   active: boolean;
@@ -30,12 +37,21 @@ type SubStatus = {
   customerId?: string;
   price_id?: string;
   status?: string;
+  current_period_end?: number;
+  source?: SubscriptionCheck['source'];
+  isVip?: boolean;
+  entitlement?: SubscriptionCheck['entitlement'];
+  trial?: SubscriptionCheck['trial'];
 } | null;
 
 export default function SubscriptionScreen() {
   const [loading, setLoading] = useState(true);
   const [status, setStatus] = useState<SubStatus>(null);
   const [actionLoading, setActionLoading] = useState<null | 'portal' | 'upgrade' | 'monthly' | 'yearly' | 'one-off'>(null);
+  const [upgradePreview, setUpgradePreview] = useState<UpgradePreview | null>(null);
+  const [code, setCode] = useState('');
+  const [trialOffers, setTrialOffers] = useState<{ monthly?: number; yearly?: number }>({});
+  const [referralCode, setReferralCode] = useState<string | null>(null);
 
   const refreshStatus = useCallback(async () => {
     const s = await getSubscriptionStatus();
@@ -55,6 +71,15 @@ export default function SubscriptionScreen() {
     })();
   }, [refreshStatus]);
 
+  useEffect(() => {
+    getTrialOffers().then(setTrialOffers);
+  }, []);
+
+  // Subscribers get a code to share
+  useEffect(() => {
+    if (status?.active) getReferralCode().then(setReferralCode);
+  }, [status?.active]);
+
   const handleGoBack = () => {
     try {
       console.log('[subscription] Back button clicked');
@@ -89,11 +114,27 @@ export default function SubscriptionScreen() {
     }
   };
 
+  // Step 1: show what the switch costs today; nothing is charged yet
   const onUpgrade = async () => {
     try {
       setActionLoading('upgrade');
-      const res = await upgradeToYearly();
-      Alert.alert('Upgrade', res?.message || 'Your plan has been upgraded to yearly.');
+      setUpgradePreview(await previewYearlyUpgrade());
+    } catch (e: any) {
+      console.error('[subscription] upgrade preview error', e);
+      Alert.alert('Upgrade', e?.message || 'Could not prepare the upgrade. Please try again.');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Step 2: charge exactly the previewed amount
+  const onConfirmUpgrade = async () => {
+    if (!upgradePreview) return;
+    try {
+      setActionLoading('upgrade');
+      const res = await upgradeToYearly(upgradePreview.prorationDate);
+      setUpgradePreview(null);
+      Alert.alert('Upgrade', res.message);
       await refreshStatus();
     } catch (e: any) {
       console.error('[subscription] upgrade error', e);
@@ -115,7 +156,7 @@ export default function SubscriptionScreen() {
       
       console.log('[subscription] Starting monthly subscription...');
       
-      await subscribeMonthly();
+      await subscribeMonthly(code);
       
     } catch (e: any) {
       console.error('[subscription] monthly error', e);
@@ -147,7 +188,7 @@ export default function SubscriptionScreen() {
       // Add delay to show loading state
       await new Promise(resolve => setTimeout(resolve, 200));
       
-      await subscribeYearly();
+      await subscribeYearly(code);
     } catch (e: any) {
       console.error('[subscription] yearly error', e);
       Alert.alert('Subscription Failed', e?.message || 'Unable to start subscription. Please check your connection and try again.');
@@ -164,7 +205,7 @@ export default function SubscriptionScreen() {
       // Add delay to show loading state
       await new Promise(resolve => setTimeout(resolve, 200));
       
-      await buyOneOffReading();
+      await buyOneOffReading(code);
     } catch (e: any) {
       console.error('[subscription] one-off error', e);
       Alert.alert('Purchase Failed', e?.message || 'Please try again.');
@@ -189,8 +230,15 @@ export default function SubscriptionScreen() {
 
   const isActive = !!status?.active;
   const isMonthly = status?.plan === 'monthly';
+  const upgradeCredit = upgradePreview
+    ? -upgradePreview.lines.filter((l) => l.amount < 0).reduce((sum, l) => sum + l.amount, 0)
+    : 0;
   const isYearly = status?.plan === 'yearly';
   const isVip = !!status?.isVip;
+  // Any entitlements grant (VIP, gift, promo, ...) rather than Stripe: there's no
+  // billing account behind it, so no portal or plan changes
+  const hasGrant = status?.source === 'override';
+  const grantLabel = isVip ? 'VIP Access' : status?.entitlement?.kind === 'gift' ? 'Gift Access' : 'Promo Access';
 
   return (
     <View style={styles.container}>
@@ -223,13 +271,23 @@ export default function SubscriptionScreen() {
               {isActive ? (
                 <>
                   <Text style={styles.statusActive}>
-                    Active ({isVip ? 'VIP Access' : isYearly ? 'Yearly' : 'Monthly'} Plan)
+                    Active ({hasGrant ? grantLabel : isYearly ? 'Yearly' : 'Monthly'} Plan)
                   </Text>
                   {isVip && (
                     <Text style={styles.vipBadge}>
                       🌟 VIP Account - Complimentary Access
                     </Text>
                   )}
+                  {hasGrant && !isVip && status?.current_period_end && (
+                    <Text style={styles.renewalDate}>
+                      {grantLabel} until{' '}
+                      {new Date(status.current_period_end * 1000).toLocaleDateString('en-GB', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })}
+                    </Text>
+                  )}
                   {status?.renewsAt && (
                     <Text style={styles.renewalDate}>
                       Renews:{' '}
@@ -241,6 +299,17 @@ export default function SubscriptionScreen() {
                     </Text>
                   )}
 
+                  {status?.status === 'trialing' && status.trial && (
+                    <Text style={styles.trialInfo}>
+                      Free trial: {status.trial.days_remaining} {status.trial.days_remaining === 1 ? 'day' : 'days'} left.
+                      {status.trial.amount_after !== null
+                        ? ` Then ${formatCurrency(status.trial.amount_after, status.trial.currency)} on ${new Date(
+                            status.trial.ends_at * 1000
+                          ).toLocaleDateString('en-GB', { year: 'numeric', month: 'long', day: 'numeric' })}.`
+                        : ''}
+                    </Text>
+                  )}
+
                   <View style={styles.activeFeatures}>
                     <View style={styles.featureItem}>
                       <Star size={16} color="#8bc34a" />
@@ -266,8 +335,8 @@ export default function SubscriptionScreen() {
               )}
             </LinearGradient>
 
-            {/* Management (only if active and not VIP) */}
-            {isActive && !isVip && (
+            {/* Management (only for Stripe subscriptions) */}
+            {isActive && !hasGrant && (
               <LinearGradient
                 colors={['rgba(212, 175, 55, 0.15)', 'rgba(212, 175, 55, 0.05)']}
                 style={styles.managementCard}
@@ -289,7 +358,7 @@ export default function SubscriptionScreen() {
                     </Text>
                   </TouchableOpacity>
 
-                  {isMonthly && (
+                  {isMonthly && !upgradePreview && (
                     <TouchableOpacity
                       style={[styles.actionButton, styles.upgradeButton]}
                       onPress={onUpgrade}
@@ -303,6 +372,48 @@ export default function SubscriptionScreen() {
                   )}
                 </View>
 
+                {upgradePreview && (
+                  <View style={styles.upgradePreview}>
+                    <Text style={styles.upgradePreviewTitle}>Switch to Yearly</Text>
+                    <Text style={styles.upgradePreviewText}>
+                      You'll be charged {formatCurrency(upgradePreview.amountDue, upgradePreview.currency)} today
+                      {upgradeCredit > 0
+                        ? `, after a ${formatCurrency(upgradeCredit, upgradePreview.currency)} credit for the unused part of your current month`
+                        : ''}
+                      . Your yearly plan starts today and renews in a year.
+                    </Text>
+                    <View style={styles.buttonRow}>
+                      <TouchableOpacity
+                        style={[styles.actionButton, styles.portalButton]}
+                        onPress={() => setUpgradePreview(null)}
+                        disabled={actionLoading === 'upgrade'}
+                      >
+                        <Text style={styles.portalButtonText}>Not Now</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.actionButton, styles.upgradeButton]}
+                        onPress={onConfirmUpgrade}
+                        disabled={actionLoading === 'upgrade'}
+                      >
+                        <Crown size={16} color="#1a1a2e" />
+                        <Text style={styles.upgradeButtonText}>
+                          {actionLoading === 'upgrade' ? 'Upgrading…' : 'Confirm Upgrade'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+
+                {referralCode && (
+                  <View style={styles.referralBox}>
+                    <Gift size={16} color="#d4af37" />
+                    <Text style={styles.referralText}>
+                      Your referral code: <Text style={styles.referralCode}>{referralCode}</Text>
+                      {'\n'}A friend who subscribes with it gets a month's credit, and so do you.
+                    </Text>
+                  </View>
+                )}
+
                 <Text style={styles.managementNote}>
                   Use the billing portal to update payment methods, view invoices, or cancel your subscription.
                 </Text>
@@ -331,6 +442,19 @@ export default function SubscriptionScreen() {
               <View style={styles.subscriptionOptions}>
                 <Text style={styles.optionsTitle}>Choose Your Plan</Text>
 
+                <View style={styles.codeRow}>
+                  <Tag size={16} color="#8b9dc3" />
+                  <TextInput
+                    style={styles.codeInput}
+                    value={code}
+                    onChangeText={setCode}
+                    placeholder="Promo or referral code"
+                    placeholderTextColor="#6b7a99"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                </View>
+
                 <LinearGradient
                   colors={['rgba(212, 175, 55, 0.2)', 'rgba(212, 175, 55, 0.1)']}
                   style={styles.planCard}
@@ -343,6 +467,9 @@ export default function SubscriptionScreen() {
                   <Text style={styles.planDescription}>
                     Full access to all premium features with monthly billing
                   </Text>
+                  {!!trialOffers.monthly && (
+                    <Text style={styles.trialOffer}>{trialOffers.monthly}-day free trial for new members</Text>
+                  )}
                   <TouchableOpacity
                     style={[styles.actionButton, styles.subscribeButton, isVip && styles.disabledButton]}
                     onPress={onSubscribeMonthly}
@@ -370,6 +497,9 @@ export default function SubscriptionScreen() {
                   <Text style={styles.planDescription}>
                     Full access to all premium features with yearly savings
                   </Text>
+                  {!!trialOffers.yearly && (
+                    <Text style={styles.trialOffer}>{trialOffers.yearly}-day free trial for new members</Text>
+                  )}
                   <TouchableOpacity
                     style={[styles.actionButton, styles.subscribeButton, isVip && styles.disabledButton]}
                     onPress={onSubscribeYearly}
@@ -476,6 +606,9 @@ const styles = StyleSheet.create({
   portalButtonText: { color: '#8b9dc3', fontFamily: 'Inter-Medium', fontSize: 14 },
   upgradeButton: { backgroundColor: '#d4af37' },
   upgradeButtonText: { color: '#1a1a2e', fontFamily: 'Inter-SemiBold', fontSize: 14 },
+  upgradePreview: { borderRadius: 12, padding: 16, marginBottom: 12, backgroundColor: 'rgba(26, 26, 46, 0.6)', borderWidth: 1, borderColor: 'rgba(212, 175, 55, 0.4)' },
+  upgradePreviewTitle: { fontSize: 16, fontFamily: 'Inter-SemiBold', color: '#d4af37', marginBottom: 8 },
+  upgradePreviewText: { fontSize: 14, fontFamily: 'Inter-Regular', color: '#e8e8e8', lineHeight: 20, marginBottom: 12 },
   managementNote: { fontSize: 12, fontFamily: 'Inter-Regular', color: '#8b9dc3', textAlign: 'center', lineHeight: 16, fontStyle: 'italic' },
 
   subscriptionOptions: { marginBottom: 24 },
@@ -490,6 +623,13 @@ const styles = StyleSheet.create({
   planPrice: { fontSize: 24, fontFamily: 'PlayfairDisplay-Bold', color: '#d4af37', textAlign: 'center', marginBottom: 4 },
   planEquivalent: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#8bc34a', textAlign: 'center', marginBottom: 8 },
   planDescription: { fontSize: 14, fontFamily: 'Inter-Regular', color: '#8b9dc3', textAlign: 'center', lineHeight: 20, marginBottom: 16 },
+  trialOffer: { fontSize: 13, fontFamily: 'Inter-SemiBold', color: '#8bc34a', textAlign: 'center', marginTop: -8, marginBottom: 16 },
+  trialInfo: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#e8e8e8', textAlign: 'center', lineHeight: 20, marginBottom: 16 },
+  codeRow: { flexDirection: 'row', alignItems: 'center', gap: 8, borderRadius: 10, borderWidth: 1, borderColor: 'rgba(139, 157, 195, 0.4)', paddingHorizontal: 12, marginBottom: 16 },
+  codeInput: { flex: 1, minHeight: 44, fontSize: 15, fontFamily: 'Inter-Medium', color: '#e8e8e8', letterSpacing: 1 },
+  referralBox: { flexDirection: 'row', alignItems: 'flex-start', gap: 8, borderRadius: 10, padding: 12, marginBottom: 12, backgroundColor: 'rgba(212, 175, 55, 0.1)' },
+  referralText: { flex: 1, fontSize: 13, fontFamily: 'Inter-Regular', color: '#e8e8e8', lineHeight: 19 },
+  referralCode: { fontFamily: 'Inter-SemiBold', color: '#d4af37', letterSpacing: 1 },
   subscribeButton: { backgroundColor: '#d4af37' },
   subscribeButtonText: { color: '#1a1a2e', fontFamily: 'Inter-SemiBold', fontSize: 16 },
 
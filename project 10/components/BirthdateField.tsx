@@ -5,9 +5,12 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 type Props = {
   initialISO?: string | null;            // e.g. "1990-07-12" or null
   onValidISO: (iso: string | null) => void; // call this when user saves/blur
+  // Optional "I don't know my birth time" toggle, shown when a handler is passed
+  timeUnknown?: boolean;
+  onTimeUnknownChange?: (unknown: boolean) => void;
 };
 
-export default function BirthdateField({ initialISO, onValidISO }: Props) {
+export default function BirthdateField({ initialISO, onValidISO, timeUnknown = false, onTimeUnknownChange }: Props) {
   const [raw, setRaw] = useState<string>('');        // <- string while typing
   const [error, setError] = useState<string | null>(null);
   const [showPicker, setShowPicker] = useState(false); // native picker optional
@@ -162,6 +165,20 @@ export default function BirthdateField({ initialISO, onValidISO }: Props) {
       )}
 
       {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {onTimeUnknownChange && (
+        <Pressable
+          onPress={() => onTimeUnknownChange(!timeUnknown)}
+          style={styles.timeUnknownRow}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: timeUnknown }}
+        >
+          <View style={[styles.checkbox, timeUnknown && styles.checkboxChecked]}>
+            {timeUnknown && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+          <Text style={styles.timeUnknownText}>I don’t know my birth time</Text>
+        </Pressable>
+      )}
     </View>
   );
 }
@@ -207,4 +224,34 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter-Regular',
   },
+  timeUnknownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingLeft: 44,
+    paddingVertical: 4,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: 'rgba(212, 175, 55, 0.2)',
+    borderColor: '#d4af37',
+  },
+  checkmark: {
+    color: '#d4af37',
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+  timeUnknownText: {
+    color: '#8b9dc3',
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
 });
\ No newline at end of file
@@ -12,6 +12,7 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { getCurrentMoonPhase, getCurrentPlanetaryPositionsEnhanced } from '@/utils/astronomy';
+import { useEntitlements } from '@/hooks/useEntitlements';
 
 // Fallback for web environment
 if (typeof Platform === 'undefined') {
@@ -88,11 +89,14 @@ export default function MysticMish({ onRitualReveal, hemisphere }: MysticMishPro
   const [showRitual, setShowRitual] = useState(false);
   const [moonPhase, setMoonPhase] = useState(getCurrentMoonPhase());
   const [planetaryPositions, setPlanetaryPositions] = useState<any[]>([]);
-  const [hasAccess, setHasAccess] = useState(true); // ← default to true (soft gate)
   const [imageError, setImageError] = useState(false);
 
   const isMounted = useRef(true);
 
+  // Rituals are for members; Mish herself stays visible for everyone
+  const { has } = useEntitlements();
+  const hasAccess = has('mystic_mish_rituals');
+
   // Persist Animated values across renders
   const floatAnimation = useRef(new Animated.Value(0)).current;
   const sparkleAnimation = useRef(new Animated.Value(0)).current;
@@ -104,11 +108,7 @@ export default function MysticMish({ onRitualReveal, hemisphere }: MysticMishPro
     setMoonPhase(currentMoon);
 
     try {
-      // Try with hemisphere if your util supports it; fall back otherwise
-      const positions =
-        typeof getCurrentPlanetaryPositionsEnhanced === 'function'
-          ? await getCurrentPlanetaryPositionsEnhanced(hemisphere as any)
-          : [];
+      const positions = await getCurrentPlanetaryPositionsEnhanced(hemisphere as any);
       setPlanetaryPositions(Array.isArray(positions) ? positions : []);
     } catch {
       setPlanetaryPositions([]);
@@ -164,7 +164,7 @@ export default function MysticMish({ onRitualReveal, hemisphere }: MysticMishPro
       if (isMounted.current) {
         setIsAnimating(false);
         setShowRitual(true);
-        onRitualReveal?.(currentRitual);
+        if (hasAccess) onRitualReveal?.(currentRitual);
       }
     });
   };
@@ -172,25 +172,6 @@ export default function MysticMish({ onRitualReveal, hemisphere }: MysticMishPro
   useEffect(() => {
     isMounted.current = true;
 
-    // Soft subscription check (does NOT gate rendering)
-    const checkAccess = async () => {
-      try {
-        const { getSubscriptionStatus } = await import('@/utils/billing');
-        const subscriptionStatus = await getSubscriptionStatus();
-        console.log('🔍 [MysticMish] Subscription check:', subscriptionStatus);
-        if (isMounted.current) {
-          // allow if active is true OR undefined
-          const allowed = subscriptionStatus?.active !== false;
-          setHasAccess(allowed);
-        }
-      } catch (error) {
-        console.error('❌ [MysticMish] Access check error:', error);
-        if (isMounted.current) setHasAccess(true); // fail-open to keep Mish visible
-      }
-    };
-
-    checkAccess();
-
     const isOldDevice = Platform.OS === 'ios' && (Number(Platform.Version) || 0) < 13;
     const delay = isOldDevice ? 3000 : 2000;
 
@@ -216,7 +197,7 @@ export default function MysticMish({ onRitualReveal, hemisphere }: MysticMishPro
     return () => clearTimeout(timer);
   }, [showRitual]);
 
-  // 🔑 IMPORTANT: we no longer gate on hasAccess here
+  // 🔑 IMPORTANT: Mish renders for everyone; only the ritual text needs access
   if (!isVisible) return null;
 
   const floatTransform = floatAnimation.interpolate({
@@ -259,7 +240,9 @@ export default function MysticMish({ onRitualReveal, hemisphere }: MysticMishPro
             <Text style={styles.moonPhaseText}>
               Current Moon: {moonPhase.phase} ({moonPhase.illumination}%)
             </Text>
-            <Text style={styles.ritualText}>{currentRitual}</Text>
+            <Text style={styles.ritualText}>
+              {hasAccess ? currentRitual : 'My rituals and spells are part of Astral Plane. Visit the Mystic Mish tab to unlock them.'}
+            </Text>
             <TouchableOpacity style={styles.closeButton} onPress={() => setShowRitual(false)}>
               <Text style={styles.closeButtonText}>Thank you, Mish! 🌟</Text>
             </TouchableOpacity>
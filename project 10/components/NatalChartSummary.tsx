@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { getUserData } from '@/utils/userData';
+import type { NatalChart } from '@/utils/natalChart';
+
+interface NatalChartSummaryProps {
+  maxAspects?: number;
+}
+
+function ordinal(n: number) {
+  return n === 1 ? '1st' : n === 2 ? '2nd' : n === 3 ? '3rd' : `${n}th`;
+}
+
+// Shows the signed-in user's own chart (from their profile); renders nothing
+// when there is no stored chart.
+export default function NatalChartSummary({ maxAspects = 3 }: NatalChartSummaryProps) {
+  const [chart, setChart] = useState<NatalChart | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    getUserData()
+      .then(profile => {
+        if (alive) setChart(profile?.natalChart ?? null);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  if (!chart) return null;
+
+  return (
+    <LinearGradient
+      colors={['rgba(139, 157, 195, 0.2)', 'rgba(139, 157, 195, 0.1)']}
+      style={styles.card}
+    >
+      <Text style={styles.title}>Your Natal Chart</Text>
+      {chart.timeEstimate ? (
+        <Text style={styles.subtitle}>
+          Estimated birth time {chart.timeEstimate.time} · {Math.round(chart.timeEstimate.confidence * 100)}% confidence
+        </Text>
+      ) : chart.timeUnknown ? (
+        <Text style={styles.subtitle}>Solar chart · birth time unknown, Moon degree approximate</Text>
+      ) : chart.houseSystem ? (
+        <Text style={styles.subtitle}>
+          {chart.houseSystem === 'placidus' ? 'Placidus' : 'Whole Sign'} houses
+        </Text>
+      ) : (
+        <Text style={styles.subtitle}>Add your birth city to unlock houses and your ascendant</Text>
+      )}
+
+      {chart.ascendant && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Ascendant</Text>
+          <Text style={styles.value}>
+            {chart.ascendant.degree.toFixed(1)}° {chart.ascendant.sign}
+          </Text>
+        </View>
+      )}
+
+      {chart.planets.map(p => (
+        <View key={p.planet} style={styles.row}>
+          <Text style={styles.label}>{p.planet}</Text>
+          <Text style={styles.value}>
+            {p.degree.toFixed(1)}° {p.sign}
+            {p.house ? ` · ${ordinal(p.house)} house` : ''}
+            {p.retrograde ? ' ℞' : ''}
+          </Text>
+        </View>
+      ))}
+
+      {chart.aspects.length > 0 && (
+        <View style={styles.aspects}>
+          <Text style={styles.aspectsTitle}>Strongest Aspects</Text>
+          {chart.aspects.slice(0, maxAspects).map(a => (
+            <Text key={`${a.from}-${a.type}-${a.to}`} style={styles.aspectText}>
+              • {a.from} {a.type} {a.to} ({a.orb.toFixed(1)}° orb)
+            </Text>
+          ))}
+        </View>
+      )}
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(139, 157, 195, 0.3)',
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'PlayfairDisplay-Bold',
+    color: '#8b9dc3',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#8b9dc3',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#8b9dc3',
+  },
+  value: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#d4af37',
+  },
+  aspects: {
+    marginTop: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(139, 157, 195, 0.2)',
+  },
+  aspectsTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#e8e8e8',
+    marginBottom: 8,
+  },
+  aspectText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e8e8e8',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { CircleAlert as AlertCircle } from 'lucide-react-native';
+import { getSubscriptionStatus, openStripePortal, type SubscriptionCheck } from '@/utils/billing';
+
+const formatDate = (epochSeconds: number) =>
+  new Date(epochSeconds * 1000).toLocaleDateString('en-AU', { day: 'numeric', month: 'long' });
+
+// Shown while a failed payment is in its grace period; renders nothing otherwise
+export default function PaymentIssueBanner() {
+  const [grace, setGrace] = useState<SubscriptionCheck['grace'] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSubscriptionStatus()
+      .then((s) => {
+        if (!cancelled && s.status === 'past_due' && s.grace && !s.grace.expired) setGrace(s.grace);
+      })
+      .catch((e) => console.warn('[PaymentIssueBanner] status check failed', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!grace) return null;
+
+  const onUpdate = async () => {
+    try {
+      await openStripePortal();
+    } catch (e: any) {
+      Alert.alert('Billing portal', e?.message ?? 'Could not open the billing portal.');
+    }
+  };
+
+  return (
+    <View style={styles.banner}>
+      <AlertCircle size={20} color="#fbbf24" />
+      <View style={styles.content}>
+        <Text style={styles.title}>Your last payment didn't go through</Text>
+        <Text style={styles.text}>
+          Update your card by {formatDate(grace.ends_at)} to keep Astral Plane
+          {grace.days_remaining <= 1 ? ' (last day)' : ` (${grace.days_remaining} days left)`}.
+          {grace.next_retry_at ? ` We'll try again on ${formatDate(grace.next_retry_at)}.` : ''}
+        </Text>
+        <TouchableOpacity style={styles.button} onPress={onUpdate}>
+          <Text style={styles.buttonText}>Update Payment</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(251, 191, 36, 0.4)',
+    backgroundColor: 'rgba(251, 191, 36, 0.1)',
+    padding: 16,
+    marginBottom: 20,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#fbbf24',
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e8e8e8',
+    lineHeight: 20,
+  },
+  button: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: '#fbbf24',
+  },
+  buttonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a1a2e',
+  },
+});
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  getEntitlements,
+  hasEntitlement,
+  type Entitlement,
+  type EntitlementFeature,
+} from '@/utils/entitlements';
+
+export function useEntitlements() {
+  const [entitlements, setEntitlements] = useState<Entitlement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const isMounted = useRef(true);
+
+  const load = useCallback(async (force = false) => {
+    try {
+      const result = await getEntitlements({ force });
+      if (!isMounted.current) return;
+      setEntitlements(result.entitlements);
+      setError(null);
+    } catch (e: any) {
+      console.error('❌ [useEntitlements] Load failed:', e);
+      // Fail closed, but keep what we already had if this was a refresh
+      if (isMounted.current) setError(e?.message || 'Failed to check access');
+    } finally {
+      if (isMounted.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    isMounted.current = true;
+    load();
+    return () => {
+      isMounted.current = false;
+    };
+  }, [load]);
+
+  const has = useCallback(
+    (feature: EntitlementFeature) => hasEntitlement(entitlements, feature),
+    [entitlements]
+  );
+
+  // force=false re-reads through the resolver's short cache (e.g. on screen focus)
+  const refresh = useCallback((force = true) => load(force), [load]);
+
+  return { entitlements, loading, error, has, refresh };
+}
@@ -0,0 +1,144 @@
+// scripts/manageEntitlements.ts
+// Grant, list and revoke access grants in the `entitlements` table.
+// Usage examples:
+//   npx ts-node scripts/manageEntitlements.ts --email="user@example.com" --list
+//   npx ts-node scripts/manageEntitlements.ts --email="user@example.com" --grant=vip --reason="Launch partner"
+//   npx ts-node scripts/manageEntitlements.ts --email="user@example.com" --grant=comp --days=90 --reason="Support goodwill"
+//   npx ts-node scripts/manageEntitlements.ts --email="user@example.com" --grant=staff --plan=monthly --until=2026-06-30 --reason="Contractor"
+//   npx ts-node scripts/manageEntitlements.ts --email="user@example.com" --revoke=<entitlement id> --reason="Left the team"
+//   npx ts-node scripts/manageEntitlements.ts --email="user@example.com" --revoke=all --reason="Account closed"
+//
+// ENV required:
+//   SUPABASE_URL  or  EXPO_PUBLIC_SUPABASE_URL
+//   SUPABASE_SERVICE_ROLE_KEY  (service role)
+//   ENTITLEMENTS_ADMIN  (optional; recorded as granted_by / revoked_by, defaults to "script")
+
+import 'dotenv/config';
+import minimist from 'minimist';
+import { createClient } from '@supabase/supabase-js';
+
+const KINDS = ['comp', 'vip', 'staff', 'gift', 'promo'] as const;
+type Kind = (typeof KINDS)[number];
+
+const argv = minimist(process.argv.slice(2), {
+  string: ['email', 'grant', 'revoke', 'reason', 'plan', 'until', 'days'],
+  boolean: ['list'],
+  alias: { e: 'email' },
+});
+
+function die(msg: string): never {
+  console.error(msg);
+  process.exit(1);
+}
+
+// Minimal pretty print for PostgREST errors
+function logSupabaseError(where: string, err: any) {
+  console.error(`❌ ${where} failed:`, {
+    message: err?.message,
+    details: err?.details,
+    hint: err?.hint,
+    code: err?.code,
+  });
+}
+
+function expiryFromArgs(): string | null {
+  const until = (argv['until'] as string | undefined)?.trim();
+  const days = (argv['days'] as string | undefined)?.trim();
+  if (until && days) die('Pass either --until or --days, not both.');
+  if (until) {
+    const d = new Date(until);
+    if (Number.isNaN(d.getTime())) die(`Invalid --until date: ${until}`);
+    return d.toISOString();
+  }
+  if (days) {
+    const n = Number(days);
+    if (!Number.isFinite(n) || n <= 0) die(`Invalid --days: ${days}`);
+    return new Date(Date.now() + n * 24 * 60 * 60 * 1000).toISOString();
+  }
+  return null; // open-ended
+}
+
+async function main() {
+  const SUPABASE_URL = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const SERVICE_ROLE = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!SUPABASE_URL || !SERVICE_ROLE) {
+    die('Missing SUPABASE_URL (or EXPO_PUBLIC_SUPABASE_URL) or SUPABASE_SERVICE_ROLE_KEY.');
+  }
+
+  const email = (argv['email'] || '').trim().toLowerCase();
+  const grant = (argv['grant'] as string | undefined)?.trim() as Kind | undefined;
+  const revoke = (argv['revoke'] as string | undefined)?.trim();
+  const reason = (argv['reason'] as string | undefined)?.trim();
+  const plan = ((argv['plan'] as string | undefined)?.trim() || 'yearly') as 'monthly' | 'yearly';
+  const admin = process.env.ENTITLEMENTS_ADMIN || 'script';
+
+  if (!email) die('Pass --email="<user email>"');
+  if (grant && revoke) die('Pass either --grant or --revoke, not both.');
+  if (grant && !KINDS.includes(grant)) die(`Invalid --grant. Use one of: ${KINDS.join(', ')}`);
+  if (plan !== 'monthly' && plan !== 'yearly') die('Invalid --plan. Use "monthly" or "yearly".');
+  if ((grant || revoke) && !reason) die('Pass --reason="<why>" when granting or revoking.');
+
+  const supabase = createClient(SUPABASE_URL, SERVICE_ROLE);
+
+  console.log(`🔎 Looking up auth user: ${email}`);
+  const all = await supabase.auth.admin.listUsers({ page: 1, perPage: 200 });
+  if (all.error) die(`Admin listUsers failed: ${all.error.message}`);
+
+  const user = all.data.users.find((u: any) => (u.email || '').toLowerCase() === email);
+  if (!user) die(`No auth user found for email: ${email}`);
+
+  if (grant) {
+    const { data, error } = await supabase
+      .from('entitlements')
+      .insert({
+        user_id: user.id,
+        kind: grant,
+        plan,
+        reason,
+        granted_by: admin,
+        expires_at: expiryFromArgs(),
+      })
+      .select('*')
+      .single();
+    if (error) {
+      logSupabaseError('Insert entitlement', error);
+      die('Grant failed.');
+    }
+    console.log('✅ Granted:', data);
+  }
+
+  if (revoke) {
+    let query = supabase
+      .from('entitlements')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: admin, revoke_reason: reason })
+      .eq('user_id', user.id)
+      .is('revoked_at', null);
+    if (revoke !== 'all') query = query.eq('id', revoke);
+
+    const { data, error } = await query.select('id, kind');
+    if (error) {
+      logSupabaseError('Revoke entitlement', error);
+      die('Revoke failed.');
+    }
+    if (!data?.length) die('Nothing to revoke (unknown id, or already revoked).');
+    console.log('✅ Revoked:', data);
+  }
+
+  if (argv['list'] || (!grant && !revoke)) {
+    const { data, error } = await supabase
+      .from('entitlements')
+      .select('id, kind, plan, reason, granted_by, starts_at, expires_at, revoked_at, revoke_reason')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+    if (error) {
+      logSupabaseError('List entitlements', error);
+      die('List failed.');
+    }
+    console.log(`ℹ️ Entitlements for ${email}:`, data?.length ? data : '(none)');
+  }
+}
+
+main().catch((err) => {
+  console.error('❌ Script failed:', err?.message || err);
+  process.exit(1);
+});
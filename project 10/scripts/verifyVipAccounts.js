@@ -97,23 +97,6 @@ async function main() {
 
   const supabase = createClient(SUPABASE_URL, SERVICE_ROLE);
 
-  // Optional VIP gate
-  const VIP_ACCOUNTS = [
-    'mish.cd@gmail.com',
-    'petermaricar@bigpond.com',
-    'tsharna.kecek@gmail.com',
-    'james.summerton@outlook.com',
-    'xavier.cd@gmail.com',
-    'xaviercd96@gmail.com',
-    'adam.stead@techweave.co',
-    'michael.p.r.orourke@gmail.com',
-  ];
-  if (enforceVip && !VIP_ACCOUNTS.includes(email)) {
-    console.log(`⚠️ ${email} is not in the VIP list. Aborting because --enforce-vip is set.`);
-    console.log('VIP accounts:', VIP_ACCOUNTS);
-    return;
-  }
-
   console.log(`🔎 Looking up auth user: ${email}`);
   const all = await supabase.auth.admin.listUsers({ page: 1, perPage: 200 });
   if (all.error) die(`Admin listUsers failed: ${all.error.message}`);
@@ -123,6 +106,27 @@ async function main() {
 
   console.log('✅ Auth user:', { id: user.id, email: user.email });
 
+  // Optional VIP gate: the user needs an active 'vip' grant in entitlements
+  if (enforceVip) {
+    const { data: vip, error: vipErr } = await supabase
+      .from('active_entitlements')
+      .select('id, reason, expires_at')
+      .eq('user_id', user.id)
+      .eq('kind', 'vip')
+      .limit(1)
+      .maybeSingle();
+    if (vipErr) {
+      logSupabaseError('Read active_entitlements', vipErr);
+      die(`Failed to check VIP entitlement for ${email}`);
+    }
+    if (!vip) {
+      console.log(`⚠️ ${email} has no active VIP entitlement. Aborting because --enforce-vip is set.`);
+      console.log('Grant one with: npx ts-node scripts/manageEntitlements.ts --email="' + email + '" --grant=vip --reason="…"');
+      return;
+    }
+    console.log('✅ VIP entitlement:', vip);
+  }
+
   // Read current profile (if any)
   console.log('🔎 Reading user_profiles row…');
   const { data: prof, error: profErr } = await supabase
@@ -0,0 +1,122 @@
+// The day's sky, reduced to what the daily generator writes about: the Moon's
+// sign and phase, the tightest aspect to each sign's ruler, and retrogrades.
+//
+// Positions come from the offline ephemeris in ./ephemeris.ts, which the app
+// uses too. Everything is computed for noon UTC on the date, so a date always
+// gives the same sky.
+import {
+  angularDifference,
+  bodyDailyMotion,
+  bodyLongitude,
+  longitudeToZodiac,
+  normalizeDegrees,
+} from './ephemeris.ts';
+
+export type PhaseGroup = 'new' | 'waxing' | 'full' | 'waning';
+export type Element = 'fire' | 'earth' | 'air' | 'water';
+export type AspectTone = 'conjunction' | 'harmonious' | 'tense';
+
+export interface RulerAspect {
+  ruler: string;
+  planet: string;
+  aspect: string;
+  tone: AspectTone;
+  orb: number;
+}
+
+export interface DailySky {
+  date: string;
+  moonSign: string;
+  moonElement: Element;
+  phase: string;              // e.g. 'waxing gibbous'
+  phaseGroup: PhaseGroup;
+  retrogrades: string[];      // planets moving backwards today, in chart order
+  longitudes: Record<string, number>;
+}
+
+const BODIES = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto'];
+const RETROGRADE_BODIES = BODIES.slice(2);
+
+// Modern rulers, as the sign copy elsewhere in the app uses them
+export const RULERS: Record<string, string> = {
+  aries: 'Mars',
+  taurus: 'Venus',
+  gemini: 'Mercury',
+  cancer: 'Moon',
+  leo: 'Sun',
+  virgo: 'Mercury',
+  libra: 'Venus',
+  scorpio: 'Pluto',
+  sagittarius: 'Jupiter',
+  capricorn: 'Saturn',
+  aquarius: 'Uranus',
+  pisces: 'Neptune',
+};
+
+const ELEMENTS: Element[] = ['fire', 'earth', 'air', 'water'];
+
+// Orbs for a single day's transits: about half the natal orbs, so an aspect
+// only counts around the days it is exact
+const TRANSIT_ASPECTS: Array<{ aspect: string; angle: number; orb: number; tone: AspectTone }> = [
+  { aspect: 'conjunction', angle: 0, orb: 4, tone: 'conjunction' },
+  { aspect: 'sextile', angle: 60, orb: 2.5, tone: 'harmonious' },
+  { aspect: 'square', angle: 90, orb: 3.5, tone: 'tense' },
+  { aspect: 'trine', angle: 120, orb: 3.5, tone: 'harmonious' },
+  { aspect: 'opposition', angle: 180, orb: 4, tone: 'tense' },
+];
+
+const PHASES: Array<{ name: string; group: PhaseGroup }> = [
+  { name: 'new moon', group: 'new' },
+  { name: 'waxing crescent', group: 'waxing' },
+  { name: 'first quarter', group: 'waxing' },
+  { name: 'waxing gibbous', group: 'waxing' },
+  { name: 'full moon', group: 'full' },
+  { name: 'waning gibbous', group: 'waning' },
+  { name: 'last quarter', group: 'waning' },
+  { name: 'waning crescent', group: 'waning' },
+];
+
+export function skyFor(date: string): DailySky {
+  const noon = new Date(`${date}T12:00:00Z`);
+  const longitudes: Record<string, number> = {};
+  for (const body of BODIES) longitudes[body] = bodyLongitude(body, noon);
+
+  const moon = longitudeToZodiac(longitudes.Moon);
+  // Moon–Sun elongation in 45° slices, each centred on its phase
+  const elongation = normalizeDegrees(longitudes.Moon - longitudes.Sun);
+  const phase = PHASES[Math.floor(normalizeDegrees(elongation + 22.5) / 45) % 8];
+
+  return {
+    date,
+    moonSign: moon.sign,
+    moonElement: ELEMENTS[moon.signIndex % 4],
+    phase: phase.name,
+    phaseGroup: phase.group,
+    retrogrades: RETROGRADE_BODIES.filter((body) => bodyDailyMotion(body, noon) < 0),
+    longitudes,
+  };
+}
+
+// Rulers of a sign key; a cusp has both of its signs' rulers
+export function rulersOf(signKey: string): string[] {
+  return [...new Set(signKey.split('-').map((sign) => RULERS[sign]).filter(Boolean))];
+}
+
+/** The tightest aspect any other body makes to one of the sign's rulers, or null. */
+export function rulerAspect(sky: DailySky, signKey: string): RulerAspect | null {
+  let best: RulerAspect | null = null;
+  for (const ruler of rulersOf(signKey)) {
+    for (const planet of BODIES) {
+      if (planet === ruler) continue;
+      const separation = Math.abs(angularDifference(sky.longitudes[ruler], sky.longitudes[planet]));
+      for (const a of TRANSIT_ASPECTS) {
+        const orb = Math.abs(separation - a.angle);
+        if (orb > a.orb) continue;
+        if (!best || orb < best.orb) {
+          best = { ruler, planet, aspect: a.aspect, tone: a.tone, orb: Math.round(orb * 100) / 100 };
+        }
+      }
+    }
+  }
+  return best;
+}
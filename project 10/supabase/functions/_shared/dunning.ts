@@ -0,0 +1,242 @@
+// Dunning for failed subscription payments, shared by stripe-webhook (opens and
+// closes episodes), billing-dunning (retries, reminders, downgrades) and the
+// access checks in stripe-status and get-entitlements.
+//
+// One `billing_dunning` row per subscription:
+//   invoice.payment_failed → open (grace period starts) → retried on schedule
+//     → recovered (invoice.payment_succeeded) | downgraded (grace ran out)
+// Each stage queues a `billing_notifications` row; dedupe keys make webhook
+// retries and replays harmless.
+import type Stripe from 'npm:stripe@17.7.0';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Access continues this long after the first failed payment
+export const GRACE_DAYS = Number(Deno.env.get('BILLING_GRACE_DAYS') || 7);
+
+// Retries, in days after the first failure
+export const RETRY_DAYS = (Deno.env.get('BILLING_RETRY_DAYS') || '1,3,5')
+  .split(',')
+  .map((d) => Number(d.trim()))
+  .filter((d) => d > 0 && d < GRACE_DAYS)
+  .sort((a, b) => a - b);
+
+// The "your access ends soon" reminder goes out this long before the grace period ends
+export const REMINDER_DAYS = 2;
+
+export type NotificationKind =
+  | 'payment_failed'
+  | 'payment_retry_failed'
+  | 'grace_ending'
+  | 'downgraded'
+  | 'payment_recovered';
+
+export interface DunningRow {
+  subscription_id: string;
+  customer_id: string;
+  user_id: string | null;
+  invoice_id: string;
+  status: 'open' | 'recovered' | 'downgraded';
+  failed_at: string;
+  grace_ends_at: string;
+  retry_count: number;
+  next_retry_at: string | null;
+  reminded_at: string | null;
+}
+
+export interface GraceStatus {
+  ends_at: number; // epoch seconds
+  days_remaining: number;
+  next_retry_at: number | null;
+  expired: boolean;
+}
+
+export function nextRetryAt(failedAt: string, retryCount: number): string | null {
+  const days = RETRY_DAYS[retryCount];
+  return days === undefined ? null : new Date(new Date(failedAt).getTime() + days * DAY_MS).toISOString();
+}
+
+export async function queueNotification(
+  supabase: any,
+  userId: string | null,
+  kind: NotificationKind,
+  dedupeKey: string,
+  payload: Record<string, unknown>,
+) {
+  if (!userId) {
+    console.warn(`⚠️ [dunning] No user for ${kind} (${dedupeKey}); nothing queued`);
+    return;
+  }
+  const { error } = await supabase
+    .from('billing_notifications')
+    .upsert(
+      { user_id: userId, kind, dedupe_key: dedupeKey, payload },
+      { onConflict: 'dedupe_key', ignoreDuplicates: true },
+    );
+  if (error) throw new Error(`Failed to queue ${kind} notification: ${error.message}`);
+  console.log(`📨 [dunning] Queued ${kind} for ${userId}`);
+}
+
+async function userIdForCustomer(customerId: string, supabase: any): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('stripe_customers')
+    .select('user_id')
+    .eq('customer_id', customerId)
+    .maybeSingle();
+  if (error) throw new Error(`Customer lookup failed: ${error.message}`);
+  return data?.user_id ?? null;
+}
+
+function subscriptionIdOf(invoice: Stripe.Invoice): string | null {
+  if (!invoice.subscription) return null;
+  return typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+}
+
+/** invoice.payment_failed: open an episode, or record another failed attempt on the open one. */
+export async function recordPaymentFailure(invoice: Stripe.Invoice, customerId: string, supabase: any) {
+  const subscriptionId = subscriptionIdOf(invoice);
+  if (!subscriptionId) return; // one-off payments have nothing to lose
+
+  const { data: existing, error } = await supabase
+    .from('billing_dunning')
+    .select('*')
+    .eq('subscription_id', subscriptionId)
+    .maybeSingle();
+  if (error) throw new Error(`Dunning lookup failed: ${error.message}`);
+
+  const payload = {
+    subscription_id: subscriptionId,
+    invoice_id: invoice.id,
+    amount_due: invoice.amount_due,
+    currency: invoice.currency,
+    attempt: invoice.attempt_count,
+  };
+
+  if (existing?.status === 'open') {
+    const { error: updateError } = await supabase
+      .from('billing_dunning')
+      .update({ invoice_id: invoice.id, updated_at: new Date().toISOString() })
+      .eq('subscription_id', subscriptionId);
+    if (updateError) throw new Error(`Failed to update dunning: ${updateError.message}`);
+
+    await queueNotification(
+      supabase,
+      existing.user_id,
+      'payment_retry_failed',
+      `payment_retry_failed:${invoice.id}:${invoice.attempt_count}`,
+      { ...payload, grace_ends_at: existing.grace_ends_at, next_retry_at: existing.next_retry_at },
+    );
+    return;
+  }
+
+  const now = new Date();
+  const failedAt = now.toISOString();
+  const row = {
+    subscription_id: subscriptionId,
+    customer_id: customerId,
+    user_id: await userIdForCustomer(customerId, supabase),
+    invoice_id: invoice.id,
+    status: 'open',
+    failed_at: failedAt,
+    grace_ends_at: new Date(now.getTime() + GRACE_DAYS * DAY_MS).toISOString(),
+    retry_count: 0,
+    next_retry_at: nextRetryAt(failedAt, 0),
+    reminded_at: null,
+    resolved_at: null,
+    updated_at: failedAt,
+  };
+  const { error: upsertError } = await supabase
+    .from('billing_dunning')
+    .upsert(row, { onConflict: 'subscription_id' });
+  if (upsertError) throw new Error(`Failed to open dunning: ${upsertError.message}`);
+  console.log(`⚠️ [dunning] ${subscriptionId} past due; grace until ${row.grace_ends_at}`);
+
+  await queueNotification(supabase, row.user_id, 'payment_failed', `payment_failed:${invoice.id}`, {
+    ...payload,
+    grace_ends_at: row.grace_ends_at,
+    next_retry_at: row.next_retry_at,
+  });
+}
+
+/** invoice.payment_succeeded: close an open episode for that subscription. */
+export async function recordPaymentRecovery(invoice: Stripe.Invoice, supabase: any) {
+  const subscriptionId = subscriptionIdOf(invoice);
+  if (!subscriptionId) return;
+
+  const now = new Date().toISOString();
+  const { data: closed, error } = await supabase
+    .from('billing_dunning')
+    .update({ status: 'recovered', resolved_at: now, next_retry_at: null, updated_at: now })
+    .eq('subscription_id', subscriptionId)
+    .eq('status', 'open')
+    .select('user_id, failed_at')
+    .maybeSingle();
+  if (error) throw new Error(`Failed to close dunning: ${error.message}`);
+  if (!closed) return;
+
+  console.log(`✅ [dunning] ${subscriptionId} recovered`);
+  await queueNotification(supabase, closed.user_id, 'payment_recovered', `payment_recovered:${invoice.id}`, {
+    subscription_id: subscriptionId,
+    invoice_id: invoice.id,
+    amount_paid: invoice.amount_paid,
+    currency: invoice.currency,
+  });
+}
+
+/**
+ * Grace state for a past_due subscription, or null when it isn't in dunning.
+ * Without a row (the failure webhook hasn't landed yet) callers keep access.
+ */
+export async function graceFor(subscriptionId: string | null | undefined, supabase: any): Promise<GraceStatus | null> {
+  if (!subscriptionId) return null;
+  const { data, error } = await supabase
+    .from('billing_dunning')
+    .select('grace_ends_at, next_retry_at')
+    .eq('subscription_id', subscriptionId)
+    .eq('status', 'open')
+    .maybeSingle();
+  if (error) {
+    console.error('❌ [dunning] Grace lookup failed:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  const endsAt = new Date(data.grace_ends_at).getTime();
+  return {
+    ends_at: Math.floor(endsAt / 1000),
+    days_remaining: Math.max(0, Math.ceil((endsAt - Date.now()) / DAY_MS)),
+    next_retry_at: data.next_retry_at ? Math.floor(new Date(data.next_retry_at).getTime() / 1000) : null,
+    expired: endsAt <= Date.now(),
+  };
+}
+
+// Subscription states that still carry access until current_period_end
+export const ENTITLED_STATUSES = new Set(['active', 'trialing', 'past_due']);
+
+export interface SubscriptionAccess {
+  active: boolean;
+  ends_at: number | null; // epoch seconds: the period end, or the grace end if that comes first
+  grace: GraceStatus | null;
+}
+
+/**
+ * Whether a subscription grants access right now — the one rule behind both
+ * stripe-status and get-entitlements. A subscription set to cancel at period
+ * end keeps access until then; a past_due one until its grace period ends.
+ */
+export async function subscriptionAccess(
+  subscription: { id: string; status: string; current_period_end: number | null },
+  supabase: any,
+): Promise<SubscriptionAccess> {
+  if (!ENTITLED_STATUSES.has(subscription.status)) {
+    return { active: false, ends_at: null, grace: null };
+  }
+
+  let endsAt = subscription.current_period_end;
+  const grace = subscription.status === 'past_due' ? await graceFor(subscription.id, supabase) : null;
+  if (grace?.expired) return { active: false, ends_at: null, grace };
+  if (grace && (endsAt === null || grace.ends_at < endsAt)) endsAt = grace.ends_at;
+
+  const active = endsAt === null || endsAt * 1000 > Date.now();
+  return { active, ends_at: active ? endsAt : null, grace };
+}
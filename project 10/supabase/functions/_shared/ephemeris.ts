@@ -0,0 +1,357 @@
+// supabase/functions/_shared/ephemeris.ts
+// Offline ephemeris (no network). The app's utils and the edge functions both
+// import it from here, so it must stay free of imports.
+// - Sun, sidereal time, obliquity: Meeus, "Astronomical Algorithms" (2nd ed.),
+//   ch. 7, 12, 22 & 25 — good to ~0.01°.
+// - Moon: Meeus ch. 47, principal terms only — good to ~0.1°.
+// - Planets: JPL "Approximate Positions of the Planets" Keplerian elements
+//   (valid 1800–2050) — good to a few arcminutes, Pluto to ~0.5°.
+// All of this is far finer than anything we show in the UI.
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Constants + angle helpers
+// ───────────────────────────────────────────────────────────────────────────────
+const DEG = Math.PI / 180;
+const J2000 = 2451545.0;
+const MS_PER_DAY = 86400000;
+const UNIX_EPOCH_JD = 2440587.5;
+
+export const ZODIAC_ORDER = [
+  'Aries',
+  'Taurus',
+  'Gemini',
+  'Cancer',
+  'Leo',
+  'Virgo',
+  'Libra',
+  'Scorpio',
+  'Sagittarius',
+  'Capricorn',
+  'Aquarius',
+  'Pisces',
+];
+
+/** Wrap any angle into [0, 360). */
+export function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+function sinDeg(x: number) {
+  return Math.sin(x * DEG);
+}
+
+function cosDeg(x: number) {
+  return Math.cos(x * DEG);
+}
+
+function tanDeg(x: number) {
+  return Math.tan(x * DEG);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Time
+// ───────────────────────────────────────────────────────────────────────────────
+/** Julian Day for a JS Date (UTC instant). */
+export function toJulianDay(date: Date): number {
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+/** Julian centuries since J2000.0. */
+export function julianCenturies(jd: number): number {
+  return (jd - J2000) / 36525;
+}
+
+/** Mean obliquity of the ecliptic (degrees). */
+export function meanObliquity(date: Date): number {
+  const T = julianCenturies(toJulianDay(date));
+  return 23.439291 - 0.0130042 * T - 1.64e-7 * T * T + 5.04e-7 * T * T * T;
+}
+
+/** Greenwich mean sidereal time (degrees, 0..360). Meeus eq. 12.4. */
+export function greenwichSiderealTime(date: Date): number {
+  const jd = toJulianDay(date);
+  const T = julianCenturies(jd);
+  return normalizeDegrees(
+    280.46061837 + 360.98564736629 * (jd - J2000) + 0.000387933 * T * T - (T * T * T) / 38710000
+  );
+}
+
+/** Local sidereal time (degrees) for an east-positive geographic longitude. */
+export function localSiderealTime(date: Date, longitude: number): number {
+  return normalizeDegrees(greenwichSiderealTime(date) + longitude);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Angles (ascendant / midheaven)
+// ───────────────────────────────────────────────────────────────────────────────
+/**
+ * Ecliptic longitude of the ascendant (degrees) for a UTC instant and a place.
+ * Latitude north-positive, longitude east-positive.
+ */
+export function ascendantLongitude(date: Date, latitude: number, longitude: number): number {
+  const ramc = localSiderealTime(date, longitude);
+  const eps = meanObliquity(date);
+  const y = cosDeg(ramc);
+  const x = -(sinDeg(ramc) * cosDeg(eps) + tanDeg(latitude) * sinDeg(eps));
+  return normalizeDegrees(Math.atan2(y, x) / DEG);
+}
+
+/** Ecliptic longitude of the midheaven (degrees). */
+export function midheavenLongitude(date: Date, longitude: number): number {
+  const ramc = localSiderealTime(date, longitude);
+  const eps = meanObliquity(date);
+  return normalizeDegrees(Math.atan2(sinDeg(ramc), cosDeg(ramc) * cosDeg(eps)) / DEG);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Sun
+// ───────────────────────────────────────────────────────────────────────────────
+/**
+ * Apparent geocentric ecliptic longitude of the Sun (degrees, 0..360),
+ * corrected for nutation and aberration.
+ */
+export function sunApparentLongitude(date: Date): number {
+  const T = julianCenturies(toJulianDay(date));
+
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+  const M = 357.52911 + 35999.05029 * T - 0.0001537 * T * T;
+
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T * T) * sinDeg(M) +
+    (0.019993 - 0.000101 * T) * sinDeg(2 * M) +
+    0.000289 * sinDeg(3 * M);
+
+  const trueLongitude = L0 + C;
+  const omega = 125.04 - 1934.136 * T;
+
+  return normalizeDegrees(trueLongitude - 0.00569 - 0.00478 * sinDeg(omega));
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Moon
+// ───────────────────────────────────────────────────────────────────────────────
+// [D, M, M', F, coefficient in 1e-6 degrees]
+const MOON_LONGITUDE_TERMS: Array<[number, number, number, number, number]> = [
+  [0, 0, 1, 0, 6288774],
+  [2, 0, -1, 0, 1274027],
+  [2, 0, 0, 0, 658314],
+  [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116],
+  [0, 0, 0, 2, -114332],
+  [2, 0, -2, 0, 58793],
+  [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322],
+  [2, -1, 0, 0, 45758],
+  [0, 1, -1, 0, -40923],
+  [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383],
+  [2, 0, 0, -2, 15327],
+  [0, 0, 1, 2, -12528],
+  [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675],
+  [0, 0, 3, 0, 10034],
+  [4, 0, -2, 0, 8548],
+  [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766],
+  [1, 0, -1, 0, -5163],
+  [1, 1, 0, 0, 4987],
+  [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994],
+  [4, 0, 0, 0, 3861],
+  [2, 0, -3, 0, 3665],
+  [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602],
+  [2, -1, -2, 0, 2390],
+  [1, 0, 1, 0, -2348],
+  [2, -2, 0, 0, 2236],
+  [0, 1, 2, 0, -2120],
+  [0, 2, 0, 0, -2069],
+];
+
+/** Apparent geocentric ecliptic longitude of the Moon (degrees, 0..360). */
+export function moonApparentLongitude(date: Date): number {
+  const T = julianCenturies(toJulianDay(date));
+  const T2 = T * T;
+  const T3 = T2 * T;
+  const T4 = T3 * T;
+
+  const Lp = 218.3164477 + 481267.88123421 * T - 0.0015786 * T2 + T3 / 538841 - T4 / 65194000;
+  const D = 297.8501921 + 445267.1114034 * T - 0.0018819 * T2 + T3 / 545868 - T4 / 113065000;
+  const M = 357.5291092 + 35999.0502909 * T - 0.0001536 * T2 + T3 / 24490000;
+  const Mp = 134.9633964 + 477198.8675055 * T + 0.0087414 * T2 + T3 / 69699 - T4 / 14712000;
+  const F = 93.272095 + 483202.0175233 * T - 0.0036539 * T2 - T3 / 3526000 + T4 / 863310000;
+  const E = 1 - 0.002516 * T - 0.0000074 * T2;
+
+  let sumL = 0;
+  for (const [d, m, mp, f, coeff] of MOON_LONGITUDE_TERMS) {
+    const eccentricity = Math.abs(m) === 2 ? E * E : Math.abs(m) === 1 ? E : 1;
+    sumL += coeff * eccentricity * sinDeg(d * D + m * M + mp * Mp + f * F);
+  }
+
+  const A1 = 119.75 + 131.849 * T;
+  sumL += 3958 * sinDeg(A1) + 1962 * sinDeg(Lp - F) + 318 * sinDeg(53.09 + 479264.29 * T);
+
+  const omega = 125.04452 - 1934.136261 * T;
+  const nutation = -0.00478 * sinDeg(omega);
+
+  return normalizeDegrees(Lp + sumL / 1e6 + nutation);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Planets (Keplerian elements, J2000 ecliptic)
+// ───────────────────────────────────────────────────────────────────────────────
+type Elements = {
+  a: [number, number];     // semi-major axis (au), rate per century
+  e: [number, number];     // eccentricity
+  I: [number, number];     // inclination (deg)
+  L: [number, number];     // mean longitude (deg)
+  peri: [number, number];  // longitude of perihelion (deg)
+  node: [number, number];  // longitude of ascending node (deg)
+};
+
+const ORBITAL_ELEMENTS: Record<string, Elements> = {
+  Mercury: {
+    a: [0.38709927, 0.00000037], e: [0.20563593, 0.00001906], I: [7.00497902, -0.00594749],
+    L: [252.2503235, 149472.67411175], peri: [77.45779628, 0.16047689], node: [48.33076593, -0.12534081],
+  },
+  Venus: {
+    a: [0.72333566, 0.0000039], e: [0.00677672, -0.00004107], I: [3.39467605, -0.0007889],
+    L: [181.9790995, 58517.81538729], peri: [131.60246718, 0.00268329], node: [76.67984255, -0.27769418],
+  },
+  Earth: {
+    a: [1.00000261, 0.00000562], e: [0.01671123, -0.00004392], I: [-0.00001531, -0.01294668],
+    L: [100.46457166, 35999.37244981], peri: [102.93768193, 0.32327364], node: [0, 0],
+  },
+  Mars: {
+    a: [1.52371034, 0.00001847], e: [0.0933941, 0.00007882], I: [1.84969142, -0.00813131],
+    L: [-4.55343205, 19140.30268499], peri: [-23.94362959, 0.44441088], node: [49.55953891, -0.29257343],
+  },
+  Jupiter: {
+    a: [5.202887, -0.00011607], e: [0.04838624, -0.00013253], I: [1.30439695, -0.00183714],
+    L: [34.39644051, 3034.74612775], peri: [14.72847983, 0.21252668], node: [100.47390909, 0.20469106],
+  },
+  Saturn: {
+    a: [9.53667594, -0.0012506], e: [0.05386179, -0.00050991], I: [2.48599187, 0.00193609],
+    L: [49.95424423, 1222.49362201], peri: [92.59887831, -0.41897216], node: [113.66242448, -0.28867794],
+  },
+  Uranus: {
+    a: [19.18916464, -0.00196176], e: [0.04725744, -0.00004397], I: [0.77263783, -0.00242939],
+    L: [313.23810451, 428.48202785], peri: [170.9542763, 0.40805281], node: [74.01692503, 0.04240589],
+  },
+  Neptune: {
+    a: [30.06992276, 0.00026291], e: [0.00859048, 0.00005105], I: [1.77004347, 0.00035372],
+    L: [-55.12002969, 218.45945325], peri: [44.96476227, -0.32241464], node: [131.78422574, -0.00508664],
+  },
+  Pluto: {
+    a: [39.48211675, -0.00031596], e: [0.2488273, 0.0000517], I: [17.14001206, 0.00004818],
+    L: [238.92903833, 145.20780515], peri: [224.06891629, -0.04062942], node: [110.30393684, -0.01183482],
+  },
+};
+
+// General precession in longitude, J2000 → date (deg per Julian century)
+const PRECESSION_PER_CENTURY = 1.3969713;
+
+function heliocentricPosition(body: string, T: number): [number, number, number] {
+  const el = ORBITAL_ELEMENTS[body];
+  const a = el.a[0] + el.a[1] * T;
+  const e = el.e[0] + el.e[1] * T;
+  const I = el.I[0] + el.I[1] * T;
+  const L = el.L[0] + el.L[1] * T;
+  const peri = el.peri[0] + el.peri[1] * T;
+  const node = el.node[0] + el.node[1] * T;
+
+  const w = peri - node;
+  let M = normalizeDegrees(L - peri);
+  if (M > 180) M -= 360;
+
+  // Kepler's equation (Newton iteration, degrees)
+  const eDeg = e / DEG;
+  let E = M + eDeg * sinDeg(M);
+  for (let i = 0; i < 10; i++) {
+    const dE = (M - (E - eDeg * sinDeg(E))) / (1 - e * cosDeg(E));
+    E += dE;
+    if (Math.abs(dE) < 1e-7) break;
+  }
+
+  const xp = a * (cosDeg(E) - e);
+  const yp = a * Math.sqrt(1 - e * e) * sinDeg(E);
+
+  const cw = cosDeg(w), sw = sinDeg(w);
+  const cO = cosDeg(node), sO = sinDeg(node);
+  const cI = cosDeg(I), sI = sinDeg(I);
+
+  return [
+    (cw * cO - sw * sO * cI) * xp + (-sw * cO - cw * sO * cI) * yp,
+    (cw * sO + sw * cO * cI) * xp + (-sw * sO + cw * cO * cI) * yp,
+    sw * sI * xp + cw * sI * yp,
+  ];
+}
+
+/** Geocentric ecliptic longitude (degrees, of date) for Mercury … Pluto. */
+export function planetGeocentricLongitude(planet: string, date: Date): number {
+  if (!ORBITAL_ELEMENTS[planet] || planet === 'Earth') {
+    throw new Error(`Unknown planet: ${planet}`);
+  }
+  const T = julianCenturies(toJulianDay(date));
+  const [px, py] = heliocentricPosition(planet, T);
+  const [ex, ey] = heliocentricPosition('Earth', T);
+  const lonJ2000 = Math.atan2(py - ey, px - ex) / DEG;
+  return normalizeDegrees(lonJ2000 + PRECESSION_PER_CENTURY * T);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Bodies (Sun, Moon, planets) — one entry point
+// ───────────────────────────────────────────────────────────────────────────────
+export const CHART_BODIES = [
+  'Sun',
+  'Moon',
+  'Mercury',
+  'Venus',
+  'Mars',
+  'Jupiter',
+  'Saturn',
+  'Uranus',
+  'Neptune',
+  'Pluto',
+];
+
+/** Apparent geocentric ecliptic longitude of any chart body (degrees). */
+export function bodyLongitude(body: string, date: Date): number {
+  if (body === 'Sun') return sunApparentLongitude(date);
+  if (body === 'Moon') return moonApparentLongitude(date);
+  return planetGeocentricLongitude(body, date);
+}
+
+/** Signed angular difference b − a, wrapped into (−180, 180]. */
+export function angularDifference(a: number, b: number): number {
+  const d = normalizeDegrees(b - a);
+  return d > 180 ? d - 360 : d;
+}
+
+/** Apparent daily motion (degrees/day, negative when retrograde). */
+export function bodyDailyMotion(body: string, date: Date): number {
+  const before = new Date(date.getTime() - MS_PER_DAY / 2);
+  const after = new Date(date.getTime() + MS_PER_DAY / 2);
+  return angularDifference(bodyLongitude(body, before), bodyLongitude(body, after));
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Zodiac mapping
+// ───────────────────────────────────────────────────────────────────────────────
+export interface ZodiacPosition {
+  sign: string;
+  signIndex: number; // 0 = Aries … 11 = Pisces
+  degree: number;    // 0..30 within the sign (unrounded)
+  longitude: number; // 0..360
+}
+
+export function longitudeToZodiac(longitude: number): ZodiacPosition {
+  const L = normalizeDegrees(longitude);
+  const signIndex = Math.min(11, Math.floor(L / 30));
+  return {
+    sign: ZODIAC_ORDER[signIndex],
+    signIndex,
+    degree: L - signIndex * 30,
+    longitude: L,
+  };
+}
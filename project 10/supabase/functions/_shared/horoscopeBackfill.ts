@@ -0,0 +1,249 @@
+// Sources that fill missing `horoscope_cache` rows for horoscope-backfill.
+//
+// A source turns (date, sign key, hemisphere) into the three daily fields. The
+// active one is picked by HOROSCOPE_BACKFILL_SOURCE:
+//   sky        compose each field from `horoscope_templates` phrases chosen by
+//              the day's sky: Moon phase and sign, aspects to the sign's ruler,
+//              retrogrades (see _shared/dailySky.ts) (default)
+//   templates  pick one generic template per field
+//   off        report gaps only
+// Both sources choose among matching templates with a seed of date, sign and
+// hemisphere, so a rerun writes the same text.
+//
+// Whatever a source writes is a stand-in: publishing an editor's entry for the
+// same date, sign and hemisphere overwrites it.
+import { rulerAspect, rulersOf, skyFor, type DailySky } from './dailySky.ts';
+
+export type Hemisphere = 'Northern' | 'Southern';
+
+export interface SignKeyRow {
+  key: string;
+  label: string;
+  kind: 'sign' | 'cusp';
+  sort_order: number;
+}
+
+export interface DailyText {
+  daily_horoscope: string;
+  affirmation: string;
+  deeper_insight: string;
+}
+
+export interface BackfillSource {
+  name: string;
+  generate(date: string, sign: SignKeyRow, hemisphere: Hemisphere): DailyText;
+}
+
+type TemplateField = keyof DailyText;
+
+interface TemplateRow {
+  field: TemplateField;
+  trigger: string | null;
+  sign_key: string | null;
+  hemisphere: Hemisphere | null;
+  body: string;
+}
+
+const FIELDS: TemplateField[] = ['daily_horoscope', 'affirmation', 'deeper_insight'];
+
+// Only the fast planets' retrogrades are news; the outer planets spend months
+// of every year retrograde and are mentioned only as a sign's ruler
+const PERSONAL_RETROGRADES = ['Mercury', 'Venus', 'Mars'];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+// Meteorological seasons, by month, for the Northern hemisphere
+const NORTHERN_SEASONS = [
+  'winter', 'winter', 'spring', 'spring', 'spring', 'summer',
+  'summer', 'summer', 'autumn', 'autumn', 'autumn', 'winter',
+];
+const OPPOSITE_SEASON: Record<string, string> = {
+  winter: 'summer',
+  spring: 'autumn',
+  summer: 'winter',
+  autumn: 'spring',
+};
+
+export function backfillSourceName(): string {
+  return (Deno.env.get('HOROSCOPE_BACKFILL_SOURCE') || 'sky').trim().toLowerCase();
+}
+
+// FNV-1a: stable across runs and runtimes, unlike Math.random
+export function seededIndex(seed: string, length: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % length;
+}
+
+export function seasonFor(date: string, hemisphere: Hemisphere): string {
+  const season = NORTHERN_SEASONS[Number(date.slice(5, 7)) - 1];
+  return hemisphere === 'Northern' ? season : OPPOSITE_SEASON[season];
+}
+
+function joinNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+}
+
+function fillPlaceholders(body: string, values: Record<string, string>): string {
+  return body.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+}
+
+function dateValues(date: string, sign: SignKeyRow, hemisphere: Hemisphere): Record<string, string> {
+  const day = new Date(`${date}T00:00:00Z`);
+  return {
+    sign: sign.label,
+    weekday: WEEKDAYS[day.getUTCDay()],
+    month: MONTHS[day.getUTCMonth()],
+    season: seasonFor(date, hemisphere),
+    hemisphere,
+  };
+}
+
+async function loadTemplates(supabase: any): Promise<TemplateRow[]> {
+  const { data, error } = await supabase
+    .from('horoscope_templates')
+    .select('field, trigger, sign_key, hemisphere, body')
+    .eq('active', true)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Template lookup failed: ${error.message}`);
+
+  const templates = (data ?? []) as TemplateRow[];
+  for (const field of FIELDS) {
+    if (!templates.some((t) => t.field === field && !t.trigger && !t.sign_key && !t.hemisphere)) {
+      console.warn(`⚠️ [backfill] No generic ${field} template; signs without their own will fail`);
+    }
+  }
+  return templates;
+}
+
+// Picks one template for a field and trigger (null = untriggered). The most
+// specific templates win: sign and hemisphere, then sign, then hemisphere,
+// then generic. Returns null when nothing matches.
+function pickTemplate(
+  templates: TemplateRow[],
+  field: TemplateField,
+  trigger: string | null,
+  date: string,
+  sign: SignKeyRow,
+  hemisphere: Hemisphere
+): string | null {
+  const matching = templates.filter((t) =>
+    t.field === field &&
+    t.trigger === trigger &&
+    (t.sign_key === null || t.sign_key === sign.key) &&
+    (t.hemisphere === null || t.hemisphere === hemisphere)
+  );
+  if (!matching.length) return null;
+
+  const specificity = (t: TemplateRow) => (t.sign_key ? 2 : 0) + (t.hemisphere ? 1 : 0);
+  const best = Math.max(...matching.map(specificity));
+  const candidates = matching.filter((t) => specificity(t) === best);
+  return candidates[seededIndex(`${date}|${sign.key}|${hemisphere}|${field}|${trigger ?? ''}`, candidates.length)].body;
+}
+
+function requireTemplate(
+  templates: TemplateRow[],
+  field: TemplateField,
+  date: string,
+  sign: SignKeyRow,
+  hemisphere: Hemisphere
+): string {
+  const body = pickTemplate(templates, field, null, date, sign, hemisphere);
+  if (!body) throw new Error(`No ${field} template for ${sign.key} ${hemisphere}`);
+  return body;
+}
+
+// One generic template per field, with date placeholders only
+export async function createTemplateSource(supabase: any): Promise<BackfillSource> {
+  const templates = await loadTemplates(supabase);
+
+  return {
+    name: 'template',
+    generate: (date, sign, hemisphere) => {
+      const values = dateValues(date, sign, hemisphere);
+      const fill = (field: TemplateField) =>
+        fillPlaceholders(requireTemplate(templates, field, date, sign, hemisphere), values);
+      return {
+        daily_horoscope: fill('daily_horoscope'),
+        affirmation: fill('affirmation'),
+        deeper_insight: fill('deeper_insight'),
+      };
+    },
+  };
+}
+
+// Each field is a few phrases, one per sky feature that applies today, each
+// chosen among the templates for its trigger:
+//   daily_horoscope  moon:<new|waxing|full|waning>, aspect:<conjunction|harmonious|tense|none>, retrograde
+//   affirmation      moon:<…>
+//   deeper_insight   moon-element:<fire|earth|air|water>, retrograde
+// A field with no triggered phrases at all falls back to its generic template.
+export async function createSkySource(supabase: any): Promise<BackfillSource> {
+  const templates = await loadTemplates(supabase);
+  const skies = new Map<string, DailySky>();
+
+  return {
+    name: 'sky',
+    generate: (date, sign, hemisphere) => {
+      let sky = skies.get(date);
+      if (!sky) {
+        sky = skyFor(date);
+        skies.set(date, sky);
+      }
+
+      const aspect = rulerAspect(sky, sign.key);
+      const rulers = rulersOf(sign.key);
+      const retrogrades = sky.retrogrades.filter((p) => PERSONAL_RETROGRADES.includes(p) || rulers.includes(p));
+
+      const values: Record<string, string> = {
+        ...dateValues(date, sign, hemisphere),
+        moonSign: sky.moonSign,
+        phase: sky.phase,
+        ruler: aspect?.ruler ?? joinNames(rulers),
+        planet: aspect?.planet ?? '',
+        aspect: aspect?.aspect ?? '',
+        retrogrades: joinNames(retrogrades),
+      };
+
+      const compose = (field: TemplateField, triggers: string[]) => {
+        const phrases = triggers
+          .map((trigger) => pickTemplate(templates, field, trigger, date, sign, hemisphere))
+          .filter((body): body is string => !!body);
+        const body = phrases.length ? phrases.join(' ') : requireTemplate(templates, field, date, sign, hemisphere);
+        return fillPlaceholders(body, values);
+      };
+
+      const retrograde = retrogrades.length ? ['retrograde'] : [];
+      return {
+        daily_horoscope: compose('daily_horoscope', [
+          `moon:${sky.phaseGroup}`,
+          `aspect:${aspect?.tone ?? 'none'}`,
+          ...retrograde,
+        ]),
+        affirmation: compose('affirmation', [`moon:${sky.phaseGroup}`]),
+        deeper_insight: compose('deeper_insight', [`moon-element:${sky.moonElement}`, ...retrograde]),
+      };
+    },
+  };
+}
+
+// null when the job should only report gaps
+export async function createBackfillSource(supabase: any): Promise<BackfillSource | null> {
+  const name = backfillSourceName();
+  switch (name) {
+    case 'off':
+      return null;
+    case 'sky':
+      return createSkySource(supabase);
+    case 'templates':
+      return createTemplateSource(supabase);
+    default:
+      throw new Error(`Unknown HOROSCOPE_BACKFILL_SOURCE "${name}"`);
+  }
+}
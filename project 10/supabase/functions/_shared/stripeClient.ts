@@ -0,0 +1,69 @@
+// The slice of the Stripe API our edge functions use, and the one place a
+// client is constructed. With STRIPE_FAKE=true (local development and the e2e
+// suite) every function gets the stand-in from ./stripeFake.ts instead, which
+// keeps its state in a JSON file shared by every function and its CLI.
+import Stripe from 'npm:stripe@17.7.0';
+import { FakeStripe } from './stripeFake.ts';
+
+export const STRIPE_API_VERSION = '2024-06-20';
+
+type List<T> = { data: T[]; has_more?: boolean };
+
+export interface StripeClient {
+  customers: {
+    create(params: Stripe.CustomerCreateParams): Promise<Stripe.Customer>;
+    retrieve(id: string): Promise<Stripe.Customer | Stripe.DeletedCustomer>;
+    createBalanceTransaction(
+      id: string,
+      params: Stripe.CustomerBalanceTransactionCreateParams,
+      options?: Stripe.RequestOptions,
+    ): Promise<Stripe.CustomerBalanceTransaction>;
+  };
+  promotionCodes: {
+    list(params: Stripe.PromotionCodeListParams): Promise<List<Stripe.PromotionCode>>;
+  };
+  checkout: {
+    sessions: {
+      create(params: Stripe.Checkout.SessionCreateParams): Promise<Stripe.Checkout.Session>;
+      listLineItems(id: string, params?: { limit?: number }): Promise<List<Stripe.LineItem>>;
+    };
+  };
+  subscriptions: {
+    retrieve(id: string): Promise<Stripe.Subscription>;
+    list(params: Stripe.SubscriptionListParams): Promise<List<Stripe.Subscription>>;
+    update(id: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription>;
+    cancel(id: string): Promise<Stripe.Subscription>;
+  };
+  invoices: {
+    retrieve(id: string): Promise<Stripe.Invoice>;
+    createPreview(params: Stripe.InvoiceCreatePreviewParams): Promise<Stripe.Invoice>;
+    pay(id: string): Promise<Stripe.Invoice>;
+  };
+  billingPortal: {
+    sessions: {
+      create(params: Stripe.BillingPortal.SessionCreateParams): Promise<Stripe.BillingPortal.Session>;
+    };
+  };
+  events: {
+    retrieve(id: string): Promise<Stripe.Event>;
+    list(params: Stripe.EventListParams): AsyncIterable<Stripe.Event>;
+  };
+  webhooks: {
+    constructEventAsync(payload: string, header: string, secret: string): Promise<Stripe.Event>;
+  };
+}
+
+export function isStripeFake(): boolean {
+  return Deno.env.get('STRIPE_FAKE') === 'true';
+}
+
+export function createStripeClient(secretKey: string): StripeClient {
+  if (isStripeFake()) {
+    if (secretKey.startsWith('sk_live_')) {
+      throw new Error('STRIPE_FAKE is set alongside a live Stripe key');
+    }
+    console.log('🧪 [stripe] Using local Stripe fake');
+    return new FakeStripe();
+  }
+  return new Stripe(secretKey, { apiVersion: STRIPE_API_VERSION });
+}
@@ -0,0 +1,536 @@
+// Stripe event processing shared by stripe-webhook and stripe-replay-events.
+//
+// Every event goes through the `stripe_events` ledger:
+//   claim (insert, or re-claim a failed/stale row) → handle → succeeded | ignored | failed
+// Handlers are idempotent and re-read subscription state from Stripe rather
+// than trusting the event payload, so retries, replays and out-of-order
+// deliveries all converge on the same rows.
+import type Stripe from 'npm:stripe@17.7.0';
+import type { StripeClient } from './stripeClient.ts';
+import { recordPaymentFailure, recordPaymentRecovery } from './dunning.ts';
+
+export type EventOutcome =
+  | { status: 'succeeded' | 'ignored' | 'duplicate' | 'in_progress' }
+  | { status: 'failed'; error: string };
+
+// Event types with a handler below; everything else is recorded as 'ignored'
+export const HANDLED_EVENT_TYPES = [
+  'checkout.session.completed',
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_succeeded',
+  'invoice.payment_failed',
+] as const;
+
+// A 'processing' row older than this is assumed to belong to a crashed attempt
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const MAX_ERROR_LENGTH = 2000;
+
+// Credited to both sides of a referral (cents); defaults to one month of the monthly plan
+const REFERRAL_CREDIT = Number(Deno.env.get('REFERRAL_CREDIT_CENTS') || 800);
+const REFERRAL_CURRENCY = 'aud';
+
+// ───────────────────────────── Ledger ─────────────────────────────
+
+async function claimEvent(event: Stripe.Event, supabase: any, replayedBy?: string): Promise<EventOutcome | null> {
+  const now = new Date().toISOString();
+
+  const { error: insertError } = await supabase.from('stripe_events').insert({
+    id: event.id,
+    type: event.type,
+    livemode: event.livemode,
+    status: 'processing',
+    attempts: 1,
+    payload: event,
+    stripe_created_at: new Date(event.created * 1000).toISOString(),
+    last_attempt_at: now,
+    replayed_by: replayedBy ?? null,
+  });
+
+  if (!insertError) return null; // claimed
+
+  if (insertError.code !== '23505') {
+    throw new Error(`Failed to record event ${event.id}: ${insertError.message}`);
+  }
+
+  // Seen before: decide whether this delivery should (re)process it
+  const { data: existing, error: readError } = await supabase
+    .from('stripe_events')
+    .select('status, attempts, last_attempt_at')
+    .eq('id', event.id)
+    .single();
+
+  if (readError || !existing) {
+    throw new Error(`Failed to read event ${event.id}: ${readError?.message ?? 'missing row'}`);
+  }
+
+  if (existing.status === 'succeeded' || existing.status === 'ignored') {
+    return { status: 'duplicate' };
+  }
+
+  if (
+    existing.status === 'processing' &&
+    Date.now() - new Date(existing.last_attempt_at).getTime() < STALE_PROCESSING_MS
+  ) {
+    return { status: 'in_progress' };
+  }
+
+  // Re-claim, guarded on the attempt count so two retries can't both win
+  const { data: claimed, error: claimError } = await supabase
+    .from('stripe_events')
+    .update({
+      status: 'processing',
+      attempts: existing.attempts + 1,
+      last_attempt_at: now,
+      replayed_by: replayedBy ?? null,
+    })
+    .eq('id', event.id)
+    .eq('attempts', existing.attempts)
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to claim event ${event.id}: ${claimError.message}`);
+  }
+  return claimed?.length ? null : { status: 'in_progress' };
+}
+
+/**
+ * Record and handle one event. Never throws for handler failures — they are
+ * written to the ledger and returned as { status: 'failed' }. Throws when the
+ * ledger itself can't be written, like the claim step.
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  supabase: any,
+  stripe: StripeClient,
+  { replayedBy }: { replayedBy?: string } = {},
+): Promise<EventOutcome> {
+  const claim = await claimEvent(event, supabase, replayedBy);
+  if (claim) {
+    console.log(`ℹ️ [stripe-events] ${event.id} ${claim.status}, skipping`);
+    return claim;
+  }
+
+  let outcome: EventOutcome;
+  try {
+    const handled = await handleEvent(event, supabase, stripe);
+    outcome = { status: handled ? 'succeeded' : 'ignored' };
+  } catch (error: any) {
+    const message = String(error?.message || error).slice(0, MAX_ERROR_LENGTH);
+    console.error(`❌ [stripe-events] ${event.type} ${event.id} failed:`, message);
+    outcome = { status: 'failed', error: message };
+  }
+
+  // A row left at 'processing' would only be retried once it goes stale
+  const { error: finishError } = await supabase
+    .from('stripe_events')
+    .update(
+      outcome.status === 'failed'
+        ? { status: 'failed', error: outcome.error }
+        : { status: outcome.status, error: null, processed_at: new Date().toISOString() },
+    )
+    .eq('id', event.id);
+
+  if (finishError) {
+    throw new Error(`Failed to record event ${event.id} as ${outcome.status}: ${finishError.message}`);
+  }
+
+  if (outcome.status !== 'failed') {
+    console.log(`✅ [stripe-events] ${event.type} ${event.id} ${outcome.status}`);
+  }
+  return outcome;
+}
+
+// ───────────────────────────── Handlers ─────────────────────────────
+
+/** Returns false for event types we don't handle. Throws on failure. */
+async function handleEvent(event: Stripe.Event, supabase: any, stripe: StripeClient): Promise<boolean> {
+  console.log(`🔄 [stripe-events] Processing: ${event.type}`);
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session, supabase, stripe);
+      return true;
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      console.log(`🔄 [stripe-events] Subscription ${subscription.status}: ${subscription.id}`);
+      await syncSubscriptionFromStripe(customerIdOf(subscription.customer), supabase, stripe);
+      return true;
+    }
+    case 'invoice.payment_succeeded':
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log(`💳 [stripe-events] ${event.type}: ${invoice.id}`);
+      if (invoice.customer) {
+        const customerId = customerIdOf(invoice.customer);
+        await syncSubscriptionFromStripe(customerId, supabase, stripe);
+        if (event.type === 'invoice.payment_succeeded') {
+          await recordPaymentRecovery(invoice, supabase);
+          await creditReferral(invoice.amount_paid, customerId, supabase, stripe);
+        } else {
+          await recordPaymentFailure(invoice, customerId, supabase);
+        }
+      }
+      return true;
+    }
+    default:
+      console.log(`ℹ️ [stripe-events] Unhandled event: ${event.type}`);
+      return false;
+  }
+}
+
+function customerIdOf(customer: string | Stripe.Customer | Stripe.DeletedCustomer | null): string {
+  if (!customer) throw new Error('Event has no customer');
+  return typeof customer === 'string' ? customer : customer.id;
+}
+
+/**
+ * The Supabase user behind a checkout: client_reference_id (set by
+ * stripe-checkout), then session metadata, then our customer mapping, then the
+ * Stripe customer's metadata.
+ */
+async function resolveUserId(
+  session: Stripe.Checkout.Session,
+  customerId: string,
+  supabase: any,
+  stripe: StripeClient,
+): Promise<string | null> {
+  if (session.client_reference_id) return session.client_reference_id;
+  if (session.metadata?.user_id) return session.metadata.user_id;
+
+  const { data: mapped, error } = await supabase
+    .from('stripe_customers')
+    .select('user_id')
+    .eq('customer_id', customerId)
+    .maybeSingle();
+  if (error) throw new Error(`Customer lookup failed: ${error.message}`);
+  if (mapped?.user_id) return mapped.user_id;
+
+  const customer = await stripe.customers.retrieve(customerId);
+  if (!customer.deleted && customer.metadata?.user_id) return customer.metadata.user_id;
+
+  return null;
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session, supabase: any, stripe: StripeClient) {
+  console.log(`🛒 [stripe-events] Checkout completed: ${session.id}, mode: ${session.mode}`);
+
+  const customerId = customerIdOf(session.customer);
+  const userId = await resolveUserId(session, customerId, supabase, stripe);
+  if (!userId) {
+    // Fail so the event stays replayable once the mapping exists
+    throw new Error(`No user found for checkout ${session.id} (customer ${customerId})`);
+  }
+
+  await ensureCustomerRecord(customerId, userId, supabase);
+
+  const email = session.customer_details?.email || session.customer_email;
+  if (email) await ensureUserProfileFromWebhook(userId, email, supabase);
+
+  if (session.mode === 'payment' && session.payment_status === 'paid') {
+    console.log('💰 [stripe-events] Recording one-time payment');
+
+    // Issue the gift code before the order exists, so the buyer's own
+    // entitlements never count a gift as their purchase
+    if (session.metadata?.gift_product) {
+      await issueGiftCode(session, userId, supabase);
+    }
+
+    const { error: orderError } = await supabase.from('stripe_orders').upsert(
+      {
+        checkout_session_id: session.id,
+        payment_intent_id: session.payment_intent as string,
+        customer_id: customerId,
+        amount_subtotal: session.amount_subtotal || 0,
+        amount_total: session.amount_total || 0,
+        currency: session.currency || 'aud',
+        payment_status: session.payment_status,
+        status: 'completed',
+      },
+      { onConflict: 'checkout_session_id', ignoreDuplicates: true },
+    );
+
+    if (orderError) throw new Error(`Failed to record order: ${orderError.message}`);
+    console.log(`✅ [stripe-events] One-time payment recorded: ${session.id}`);
+  } else if (session.mode === 'subscription') {
+    await syncSubscriptionFromStripe(customerId, supabase, stripe);
+    if (session.metadata?.referral_code) {
+      await recordReferral(session, userId, customerId, supabase, stripe);
+    }
+  }
+}
+
+// One code per paid gift checkout; the code itself is generated by the database
+async function issueGiftCode(session: Stripe.Checkout.Session, userId: string, supabase: any) {
+  const metadata = session.metadata ?? {};
+  const { error } = await supabase.from('gift_codes').upsert(
+    {
+      checkout_session_id: session.id,
+      purchaser_id: userId,
+      product: metadata.gift_product,
+      months: metadata.gift_months ? Number(metadata.gift_months) : null,
+      amount_total: session.amount_total || 0,
+      currency: session.currency || 'aud',
+      recipient_name: metadata.gift_recipient_name || null,
+      recipient_email: metadata.gift_recipient_email || null,
+      message: metadata.gift_message || null,
+    },
+    { onConflict: 'checkout_session_id', ignoreDuplicates: true },
+  );
+
+  if (error) throw new Error(`Failed to issue gift code: ${error.message}`);
+  console.log(`🎁 [stripe-events] Gift code issued for ${session.id} (${metadata.gift_product})`);
+}
+
+async function ensureCustomerRecord(customerId: string, userId: string, supabase: any) {
+  const { data: existing, error: checkError } = await supabase
+    .from('stripe_customers')
+    .select('user_id')
+    .eq('customer_id', customerId)
+    .maybeSingle();
+
+  if (checkError) throw new Error(`Customer lookup failed: ${checkError.message}`);
+  if (existing) {
+    if (existing.user_id !== userId) {
+      throw new Error(`Customer ${customerId} is mapped to a different user`);
+    }
+    return;
+  }
+
+  const { error } = await supabase
+    .from('stripe_customers')
+    .upsert(
+      { user_id: userId, customer_id: customerId, updated_at: new Date().toISOString() },
+      { onConflict: 'customer_id' },
+    );
+  if (error) throw new Error(`Failed to save customer mapping: ${error.message}`);
+  console.log(`✅ [stripe-events] Customer record ensured: ${customerId} -> ${userId}`);
+}
+
+// Best effort: a paying user without a profile yet still gets a row to land on
+async function ensureUserProfileFromWebhook(userId: string, email: string, supabase: any) {
+  try {
+    const { data: existingProfile, error: checkError } = await supabase
+      .from('user_profiles')
+      .select('user_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (checkError && checkError.code !== 'PGRST116') {
+      console.error('❌ [stripe-events] Error checking existing profile:', checkError);
+      return;
+    }
+    if (existingProfile) return;
+
+    // Detect hemisphere from email domain
+    let hemisphere: 'Northern' | 'Southern' = 'Northern';
+    if (email.includes('.au') || email.includes('bigpond') || email.includes('.nz')) {
+      hemisphere = 'Southern';
+    }
+
+    console.log(`📝 [stripe-events] Creating user profile for: ${email} (${hemisphere})`);
+
+    const { error: insertError } = await supabase
+      .from('user_profiles')
+      .insert({
+        user_id: userId,
+        email: email,
+        name: email.split('@')[0],
+        birth_date: null, // Will be filled when user completes profile
+        birth_time: null,
+        birth_location: null,
+        hemisphere: hemisphere,
+        cusp_result: {}, // Empty object for JSONB field
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        last_login_at: new Date().toISOString(),
+        needs_recalc: false,
+      });
+
+    if (insertError && insertError.code !== '23505') {
+      console.error('❌ [stripe-events] Error creating user profile:', insertError);
+    }
+  } catch (error) {
+    console.error('❌ [stripe-events] Error ensuring user profile:', error);
+  }
+}
+
+async function syncSubscriptionFromStripe(customerId: string, supabase: any, stripe: StripeClient) {
+  console.log(`🔄 [stripe-events] Syncing subscription for customer: ${customerId}`);
+
+  // Stripe is the source of truth; the event only tells us whom to re-read
+  const subscriptions = await stripe.subscriptions.list({
+    customer: customerId,
+    limit: 1,
+    status: 'all',
+    expand: ['data.default_payment_method'],
+  });
+
+  if (subscriptions.data.length === 0) {
+    const { error } = await supabase.from('stripe_subscriptions').upsert(
+      { customer_id: customerId, status: 'not_started', updated_at: new Date().toISOString() },
+      { onConflict: 'customer_id' },
+    );
+    if (error) throw new Error(`Failed to update subscription status: ${error.message}`);
+    return;
+  }
+
+  const subscription = subscriptions.data[0];
+  console.log(`📋 [stripe-events] Syncing subscription: ${subscription.id}, status: ${subscription.status}`);
+
+  const subscriptionData: any = {
+    customer_id: customerId,
+    subscription_id: subscription.id,
+    price_id: subscription.items.data[0]?.price?.id || null,
+    current_period_start: subscription.current_period_start,
+    current_period_end: subscription.current_period_end,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    trial_end: subscription.trial_end,
+    status: subscription.status,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (subscription.default_payment_method && typeof subscription.default_payment_method !== 'string') {
+    const paymentMethod = subscription.default_payment_method as Stripe.PaymentMethod;
+    subscriptionData.payment_method_brand = paymentMethod.card?.brand || null;
+    subscriptionData.payment_method_last4 = paymentMethod.card?.last4 || null;
+  }
+
+  const { error: subError } = await supabase
+    .from('stripe_subscriptions')
+    .upsert(subscriptionData, { onConflict: 'customer_id' });
+
+  if (subError) throw new Error(`Failed to sync subscription: ${subError.message}`);
+  console.log(`✅ [stripe-events] Subscription synced: ${customerId} -> ${subscription.status}`);
+}
+
+/**
+ * A referral code accepted by stripe-checkout is recorded only once that
+ * checkout completes, so an abandoned checkout never uses up the member's one
+ * referral. A member can only be referred once.
+ */
+async function recordReferral(
+  session: Stripe.Checkout.Session,
+  userId: string,
+  customerId: string,
+  supabase: any,
+  stripe: StripeClient,
+) {
+  const code = session.metadata!.referral_code;
+
+  const { data: referrer, error: referrerError } = await supabase
+    .from('referral_codes')
+    .select('user_id')
+    .eq('code', code)
+    .maybeSingle();
+  if (referrerError) throw new Error(`Referral code lookup failed: ${referrerError.message}`);
+  if (!referrer || referrer.user_id === userId) {
+    console.log(`ℹ️ [stripe-events] Referral code ${code} no longer applies to ${session.id}, skipping`);
+    return;
+  }
+
+  const { error: referralError } = await supabase.from('referrals').upsert(
+    {
+      referrer_id: referrer.user_id,
+      referred_user_id: userId,
+      code,
+      status: 'pending',
+      checkout_session_id: session.id,
+    },
+    { onConflict: 'referred_user_id', ignoreDuplicates: true },
+  );
+  if (referralError) throw new Error(`Failed to record referral: ${referralError.message}`);
+
+  // The first invoice's payment event can arrive before this one
+  if (session.payment_status === 'paid') {
+    await creditReferral(session.amount_total ?? 0, customerId, supabase, stripe);
+  }
+}
+
+/**
+ * The first paid invoice of a referred member credits both them and the
+ * referrer. Credits go on the Stripe customer balance, so they come off the
+ * next invoice; idempotency keys keep retries from crediting twice.
+ */
+async function creditReferral(amountPaid: number, customerId: string, supabase: any, stripe: StripeClient) {
+  // Trial and fully discounted invoices don't count
+  if (!amountPaid) return;
+
+  const { data: customer, error: customerError } = await supabase
+    .from('stripe_customers')
+    .select('user_id')
+    .eq('customer_id', customerId)
+    .maybeSingle();
+  if (customerError) throw new Error(`Customer lookup failed: ${customerError.message}`);
+  if (!customer?.user_id) return;
+
+  const { data: referral, error: referralError } = await supabase
+    .from('referrals')
+    .select('id, referrer_id')
+    .eq('referred_user_id', customer.user_id)
+    .eq('status', 'pending')
+    .maybeSingle();
+  if (referralError) throw new Error(`Referral lookup failed: ${referralError.message}`);
+  if (!referral) return;
+
+  if (!referral.referrer_id) {
+    // Referrer deleted their account
+    await supabase.from('referrals').update({ status: 'void' }).eq('id', referral.id);
+    return;
+  }
+
+  const referrerCustomerId = await ensureStripeCustomer(referral.referrer_id, supabase, stripe);
+  const credits: Array<[string, string]> = [
+    [referrerCustomerId, 'referrer'],
+    [customerId, 'referred'],
+  ];
+  for (const [creditCustomerId, side] of credits) {
+    await stripe.customers.createBalanceTransaction(
+      creditCustomerId,
+      { amount: -REFERRAL_CREDIT, currency: REFERRAL_CURRENCY, description: 'AstroCusp referral credit' },
+      { idempotencyKey: `referral-${referral.id}-${side}` },
+    );
+  }
+
+  const { error: updateError } = await supabase
+    .from('referrals')
+    .update({
+      status: 'credited',
+      credit_amount: REFERRAL_CREDIT,
+      currency: REFERRAL_CURRENCY,
+      credited_at: new Date().toISOString(),
+    })
+    .eq('id', referral.id)
+    .eq('status', 'pending');
+  if (updateError) throw new Error(`Failed to mark referral credited: ${updateError.message}`);
+  console.log(`🎁 [stripe-events] Referral ${referral.id} credited: ${referral.referrer_id} and ${customer.user_id}`);
+}
+
+// The referrer may never have paid; give them a customer so the credit has somewhere to wait
+async function ensureStripeCustomer(userId: string, supabase: any, stripe: StripeClient): Promise<string> {
+  const { data: existing, error } = await supabase
+    .from('stripe_customers')
+    .select('customer_id')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error) throw new Error(`Customer lookup failed: ${error.message}`);
+  if (existing?.customer_id) return existing.customer_id;
+
+  const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(userId);
+  if (userError || !user) throw new Error(`Referrer ${userId} not found`);
+
+  const customer = await stripe.customers.create(
+    { email: user.email, metadata: { user_id: userId } },
+  );
+  const { error: insertError } = await supabase
+    .from('stripe_customers')
+    .insert({ user_id: userId, customer_id: customer.id });
+  if (insertError) throw new Error(`Failed to save customer mapping: ${insertError.message}`);
+  console.log(`✅ [stripe-events] Created customer ${customer.id} for referrer ${userId}`);
+  return customer.id;
+}
@@ -0,0 +1,829 @@
+// Local stand-in for Stripe, used when STRIPE_FAKE=true (see ./stripeClient.ts).
+//
+// It implements the StripeClient slice over a JSON state file so that every
+// function isolate (and the CLI below) sees the same customers, checkout
+// sessions, subscriptions, invoices and events. Anything that would make
+// Stripe send a webhook records the event and, when STRIPE_FAKE_WEBHOOK_URL is
+// set, POSTs it there signed with STRIPE_WEBHOOK_SECRET exactly as Stripe signs
+// (`t=…,v1=…`), so stripe-webhook verifies and processes it unmodified.
+//
+// Stripe-side time runs on a fake clock that only moves with `advance`.
+//
+// Environment:
+//   STRIPE_FAKE_STATE        state file (default /tmp/astrocusp-stripe-fake.json);
+//                            must be the same file for the functions and the CLI
+//   STRIPE_FAKE_WEBHOOK_URL  e.g. http://127.0.0.1:54321/functions/v1/stripe-webhook
+//   STRIPE_WEBHOOK_SECRET    signing secret shared with stripe-webhook
+//   STRIPE_PRICE_MONTHLY / STRIPE_PRICE_YEARLY / STRIPE_PRICE_CUSP_ONEOFF
+//   STRIPE_PRICE_GIFT_1M / _3M / _12M   gift subscriptions (one-off payments)
+//
+// CLI (drives the flows a customer would trigger in Stripe's UI):
+//   deno run -A supabase/functions/_shared/stripeFake.ts <command>
+//     state                                print the state file
+//     reset                                start from an empty state (ids keep counting)
+//     complete-checkout <cs_…> [--trial-days=N]
+//     advance <days>                       move the clock; renews, ends trials,
+//                                          charges, or ends cancelled subscriptions
+//     fail-payments <cus_…> on|off         make the customer's card decline
+//     cancel-at-period-end <sub_…> [off]
+//     change-price <sub_…> <price_…>       e.g. monthly → yearly
+//     promo <CODE> --percent-off=N | --amount-off=CENTS
+//     deliver <evt_…>                      re-send an event to the webhook
+import type Stripe from 'npm:stripe@17.7.0';
+import type { StripeClient } from './stripeClient.ts';
+
+type Interval = 'month' | 'year';
+
+interface FakeState {
+  clock: number; // unix seconds
+  seq: number;
+  customers: Record<string, any>;
+  sessions: Record<string, any>;
+  subscriptions: Record<string, any>;
+  invoices: Record<string, any>;
+  events: Record<string, any>;
+  promotionCodes: Record<string, any>;
+  failingCustomers: string[];
+}
+
+const DEFAULT_STATE_FILE = '/tmp/astrocusp-stripe-fake.json';
+const DAY = 24 * 60 * 60;
+
+// AUD cents, matching the prices shown in app/subscription.tsx
+const PRICE_AMOUNTS = { month: 800, year: 8800, one_off: 36000 };
+
+// Subscriptions the clock can still act on
+const BILLABLE_STATUSES = new Set(['active', 'trialing', 'past_due']);
+
+export class FakeStripeError extends Error {
+  type = 'StripeInvalidRequestError';
+  statusCode: number;
+
+  constructor(message: string, statusCode = 404) {
+    super(message);
+    this.name = 'FakeStripeError';
+    this.statusCode = statusCode;
+  }
+}
+
+function emptyState(): FakeState {
+  return {
+    clock: Math.floor(Date.now() / 1000),
+    seq: 0,
+    customers: {},
+    sessions: {},
+    subscriptions: {},
+    invoices: {},
+    events: {},
+    promotionCodes: {},
+    failingCustomers: [],
+  };
+}
+
+function stateFile(): string {
+  return Deno.env.get('STRIPE_FAKE_STATE') || DEFAULT_STATE_FILE;
+}
+
+function intervalFor(priceId: string): Interval | null {
+  if (priceId === Deno.env.get('STRIPE_PRICE_YEARLY')) return 'year';
+  if (priceId === Deno.env.get('STRIPE_PRICE_CUSP_ONEOFF')) return null;
+  // Unknown prices behave like the monthly plan
+  return 'month';
+}
+
+function amountFor(priceId: string): number {
+  // Gift subscriptions are one-off payments priced like the plans they stand for
+  const giftMonths = [1, 3, 12].find((m) => priceId === Deno.env.get(`STRIPE_PRICE_GIFT_${m}M`));
+  if (giftMonths) return giftMonths === 12 ? PRICE_AMOUNTS.year : PRICE_AMOUNTS.month * giftMonths;
+  const interval = intervalFor(priceId);
+  return interval ? PRICE_AMOUNTS[interval] : PRICE_AMOUNTS.one_off;
+}
+
+// Coupons apply to every invoice (Stripe's duration 'forever')
+function applyCoupon(amount: number, coupon: any): number {
+  if (!coupon) return amount;
+  if (coupon.percent_off) return Math.round((amount * (100 - coupon.percent_off)) / 100);
+  if (coupon.amount_off) return Math.max(0, amount - coupon.amount_off);
+  return amount;
+}
+
+function addInterval(epoch: number, interval: Interval): number {
+  const d = new Date(epoch * 1000);
+  if (interval === 'year') d.setUTCFullYear(d.getUTCFullYear() + 1);
+  else d.setUTCMonth(d.getUTCMonth() + 1);
+  return Math.floor(d.getTime() / 1000);
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** A Stripe-Signature header for `payload`, as Stripe would send it. */
+export async function signWebhookPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${payload}`)}`;
+}
+
+export class FakeStripe implements StripeClient {
+  // Events raised during the current operation, delivered once state is saved
+  private outbox: any[] = [];
+
+  // ───────────────────────────── State ─────────────────────────────
+
+  private async load(): Promise<FakeState> {
+    try {
+      return { ...emptyState(), ...JSON.parse(await Deno.readTextFile(stateFile())) };
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return emptyState();
+      throw error;
+    }
+  }
+
+  private async save(state: FakeState) {
+    await Deno.writeTextFile(stateFile(), JSON.stringify(state, null, 2));
+  }
+
+  /** Read-modify-write the state file, then deliver any events raised. */
+  private async mutate<T>(fn: (state: FakeState) => T): Promise<T> {
+    const state = await this.load();
+    let result: T;
+    try {
+      result = fn(state);
+    } catch (error) {
+      // Nothing is saved, so nothing happened
+      this.outbox = [];
+      throw error;
+    }
+    await this.save(state);
+    const events = this.outbox.splice(0);
+    for (const event of events) await this.deliver(event);
+    return result;
+  }
+
+  private async read<T>(fn: (state: FakeState) => T): Promise<T> {
+    return fn(await this.load());
+  }
+
+  private nextId(state: FakeState, prefix: string): string {
+    state.seq += 1;
+    return `${prefix}_fake${String(state.seq).padStart(6, '0')}`;
+  }
+
+  private raise(state: FakeState, type: string, object: any) {
+    const event = {
+      id: this.nextId(state, 'evt'),
+      object: 'event',
+      type,
+      created: state.clock,
+      livemode: false,
+      api_version: '2024-06-20',
+      pending_webhooks: 1,
+      data: { object: structuredClone(object) },
+    };
+    state.events[event.id] = event;
+    this.outbox.push(event);
+  }
+
+  private async deliver(event: any) {
+    const url = Deno.env.get('STRIPE_FAKE_WEBHOOK_URL');
+    const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+    if (!url || !secret) return;
+
+    const payload = JSON.stringify(event);
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Stripe-Signature': await signWebhookPayload(payload, secret),
+        },
+        body: payload,
+      });
+      await res.body?.cancel();
+      console.log(`🧪 [stripe-fake] Delivered ${event.type} ${event.id}: ${res.status}`);
+    } catch (error: any) {
+      console.error(`🧪 [stripe-fake] Delivery of ${event.id} failed: ${error.message}`);
+    }
+  }
+
+  private get<T>(table: Record<string, T>, id: string, kind: string): T {
+    const found = table[id];
+    if (!found) throw new FakeStripeError(`No such ${kind}: '${id}'`);
+    return found;
+  }
+
+  // ───────────────────────────── Billing ─────────────────────────────
+
+  /** Invoice the subscription: its price by default, or the given lines (prorations). */
+  private charge(state: FakeState, subscription: any, billingReason: string, lines?: any[]) {
+    const priceId = subscription.items.data[0].price.id;
+    const declined = state.failingCustomers.includes(subscription.customer);
+    const total = lines
+      ? Math.max(0, lines.reduce((sum, line) => sum + line.amount, 0))
+      : subscription.status === 'trialing' ? 0 : applyCoupon(amountFor(priceId), subscription.discount?.coupon);
+
+    // Credit on the customer balance (referrals) comes off first
+    const customer = state.customers[subscription.customer];
+    const credit = Math.min(Math.max(-(customer?.balance ?? 0), 0), total);
+    const amountDue = total - credit;
+    const invoice = {
+      id: this.nextId(state, 'in'),
+      object: 'invoice',
+      customer: subscription.customer,
+      subscription: subscription.id,
+      billing_reason: billingReason,
+      total,
+      starting_balance: customer?.balance ?? 0,
+      amount_due: amountDue,
+      amount_paid: 0,
+      currency: 'aud',
+      status: 'open',
+      attempt_count: 1,
+      period_start: subscription.current_period_start,
+      period_end: subscription.current_period_end,
+      created: state.clock,
+      lines: { data: lines ?? [{ description: `1 × ${priceId}`, amount: amountDue, proration: false, price: { id: priceId } }] },
+    };
+
+    if (declined && invoice.amount_due > 0) {
+      subscription.status = 'past_due';
+      subscription.latest_invoice = invoice.id;
+      state.invoices[invoice.id] = invoice;
+      this.raise(state, 'invoice.payment_failed', invoice);
+      return false;
+    }
+
+    if (credit && customer) customer.balance += credit;
+    invoice.status = 'paid';
+    invoice.amount_paid = invoice.amount_due;
+    subscription.latest_invoice = invoice.id;
+    state.invoices[invoice.id] = invoice;
+    this.raise(state, 'invoice.payment_succeeded', invoice);
+    return true;
+  }
+
+  /**
+   * Invoice lines for moving a subscription to `priceId` at `at`: a credit for
+   * the unused part of the current period, then either the new interval's full
+   * price (interval change, new period starts now) or the prorated difference.
+   */
+  private prorationLines(subscription: any, priceId: string, interval: Interval, at: number) {
+    const current = subscription.items.data[0].price;
+    const { current_period_start: start, current_period_end: end } = subscription;
+    const unused = end > start ? Math.min(Math.max((end - at) / (end - start), 0), 1) : 0;
+
+    const lines: any[] = [];
+    if (subscription.status !== 'trialing') {
+      lines.push({
+        description: `Unused time on ${current.id}`,
+        amount: -Math.round(amountFor(current.id) * unused),
+        proration: true,
+        price: { id: current.id },
+      });
+    }
+    if (current.recurring.interval !== interval) {
+      lines.push({ description: `1 × ${priceId} (per ${interval})`, amount: amountFor(priceId), proration: false, price: { id: priceId } });
+    } else {
+      lines.push({
+        description: `Remaining time on ${priceId}`,
+        amount: Math.round(amountFor(priceId) * unused),
+        proration: true,
+        price: { id: priceId },
+      });
+    }
+    return lines;
+  }
+
+  /** Swap the price with an immediate prorated invoice; a declined card changes nothing. */
+  private applyPriceChange(state: FakeState, subscription: any, priceId: string, prorationDate = state.clock) {
+    const interval = intervalFor(priceId);
+    if (!interval) throw new FakeStripeError(`Price ${priceId} is not recurring`, 400);
+
+    const lines = this.prorationLines(subscription, priceId, interval, prorationDate);
+    const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (amount > 0 && state.failingCustomers.includes(subscription.customer)) {
+      throw new FakeStripeError('Your card was declined.', 402);
+    }
+
+    const item = subscription.items.data[0];
+    const intervalChanged = item.price.recurring.interval !== interval;
+    item.price = { id: priceId, recurring: { interval } };
+
+    if (intervalChanged) {
+      this.startPeriod(subscription, state.clock, addInterval(state.clock, interval));
+      if (subscription.status === 'trialing') {
+        subscription.status = 'active';
+        subscription.trial_end = state.clock;
+      }
+    }
+    this.charge(state, subscription, 'subscription_update', lines);
+    this.raise(state, 'customer.subscription.updated', subscription);
+  }
+
+  private startPeriod(subscription: any, start: number, end: number) {
+    subscription.current_period_start = start;
+    subscription.current_period_end = end;
+  }
+
+  private endSubscription(state: FakeState, subscription: any) {
+    subscription.status = 'canceled';
+    subscription.ended_at = state.clock;
+    subscription.canceled_at = subscription.canceled_at ?? state.clock;
+    this.raise(state, 'customer.subscription.deleted', subscription);
+  }
+
+  // ───────────────────────────── StripeClient ─────────────────────────────
+
+  customers = {
+    create: (params: Stripe.CustomerCreateParams) =>
+      this.mutate((state) => {
+        const customer = {
+          id: this.nextId(state, 'cus'),
+          object: 'customer',
+          email: params.email ?? null,
+          metadata: params.metadata ?? {},
+          balance: 0,
+          created: state.clock,
+          livemode: false,
+        };
+        state.customers[customer.id] = customer;
+        return customer as unknown as Stripe.Customer;
+      }),
+    retrieve: (id: string) => this.read((state) => this.get(state.customers, id, 'customer') as Stripe.Customer),
+    createBalanceTransaction: (
+      id: string,
+      params: Stripe.CustomerBalanceTransactionCreateParams,
+      options?: Stripe.RequestOptions,
+    ) =>
+      this.mutate((state) => {
+        const customer = this.get(state.customers, id, 'customer');
+        customer.balanceTransactions ??= [];
+        // Same idempotency key, same result
+        const replayed = options?.idempotencyKey &&
+          customer.balanceTransactions.find((t: any) => t.idempotency_key === options.idempotencyKey);
+        if (replayed) return replayed as Stripe.CustomerBalanceTransaction;
+
+        const transaction = {
+          id: this.nextId(state, 'cbtxn'),
+          object: 'customer_balance_transaction',
+          customer: id,
+          amount: params.amount,
+          currency: params.currency,
+          description: params.description ?? null,
+          ending_balance: (customer.balance ?? 0) + params.amount,
+          idempotency_key: options?.idempotencyKey ?? null,
+          created: state.clock,
+        };
+        customer.balance = transaction.ending_balance;
+        customer.balanceTransactions.push(transaction);
+        return transaction as unknown as Stripe.CustomerBalanceTransaction;
+      }),
+  };
+
+  checkout = {
+    sessions: {
+      create: (params: Stripe.Checkout.SessionCreateParams) =>
+        this.mutate((state) => {
+          const priceId = params.line_items?.[0]?.price;
+          if (!priceId) throw new FakeStripeError('Missing required param: line_items[0][price].', 400);
+          if (params.customer) this.get(state.customers, params.customer, 'customer');
+
+          const promotionCodeId = params.discounts?.[0]?.promotion_code;
+          const coupon = promotionCodeId ? this.get(state.promotionCodes, promotionCodeId, 'promotion code').coupon : null;
+          const amount = params.mode === 'payment' ? applyCoupon(amountFor(priceId), coupon) : amountFor(priceId);
+
+          const id = this.nextId(state, 'cs');
+          const session = {
+            id,
+            object: 'checkout.session',
+            mode: params.mode,
+            status: 'open',
+            payment_status: 'unpaid',
+            customer: params.customer ?? null,
+            customer_email: params.customer_email ?? null,
+            customer_details: null,
+            client_reference_id: params.client_reference_id ?? null,
+            metadata: params.metadata ?? {},
+            subscription: null,
+            payment_intent: null,
+            amount_subtotal: amountFor(priceId),
+            amount_total: amount,
+            discounts: promotionCodeId ? [{ promotion_code: promotionCodeId }] : [],
+            currency: 'aud',
+            line_items: [{ price: { id: priceId }, quantity: params.line_items?.[0]?.quantity ?? 1 }],
+            trial_period_days: params.subscription_data?.trial_period_days ?? null,
+            success_url: params.success_url,
+            cancel_url: params.cancel_url,
+            url: `${params.success_url ?? 'http://localhost'}${params.success_url?.includes('?') ? '&' : '?'}fake_session=${id}`,
+            created: state.clock,
+            livemode: false,
+          };
+          state.sessions[id] = session;
+          return session as unknown as Stripe.Checkout.Session;
+        }),
+      listLineItems: (id: string) =>
+        this.read((state) => ({
+          data: this.get(state.sessions, id, 'checkout session').line_items as Stripe.LineItem[],
+        })),
+    },
+  };
+
+  subscriptions = {
+    retrieve: (id: string) =>
+      this.read((state) => {
+        const subscription = this.get(state.subscriptions, id, 'subscription');
+        return { ...subscription, default_payment_method: subscription.default_payment_method.id } as Stripe.Subscription;
+      }),
+    list: (params: Stripe.SubscriptionListParams) =>
+      this.read((state) => {
+        const expandPaymentMethod = params.expand?.includes('data.default_payment_method');
+        const data = Object.values(state.subscriptions)
+          .filter((s) => !params.customer || s.customer === params.customer)
+          .filter((s) =>
+            params.status === 'all' ? true : params.status ? s.status === params.status : s.status !== 'canceled'
+          )
+          .sort((a, b) => b.created - a.created)
+          .slice(0, params.limit ?? 10)
+          .map((s) => ({
+            ...s,
+            default_payment_method: expandPaymentMethod ? s.default_payment_method : s.default_payment_method.id,
+          }));
+        return { data: data as Stripe.Subscription[], has_more: false };
+      }),
+    update: (id: string, params: Stripe.SubscriptionUpdateParams) =>
+      this.mutate((state) => {
+        const subscription = this.get(state.subscriptions, id, 'subscription');
+        const priceId = params.items?.[0]?.price;
+        if (priceId && priceId !== subscription.items.data[0].price.id) {
+          this.applyPriceChange(state, subscription, priceId, params.proration_date);
+        }
+        if (typeof params.cancel_at_period_end === 'boolean') {
+          subscription.cancel_at_period_end = params.cancel_at_period_end;
+          subscription.canceled_at = params.cancel_at_period_end ? state.clock : null;
+          this.raise(state, 'customer.subscription.updated', subscription);
+        }
+        return subscription as Stripe.Subscription;
+      }),
+    cancel: (id: string) =>
+      this.mutate((state) => {
+        const subscription = this.get(state.subscriptions, id, 'subscription');
+        if (subscription.status !== 'canceled') this.endSubscription(state, subscription);
+        return subscription as Stripe.Subscription;
+      }),
+  };
+
+  invoices = {
+    retrieve: (id: string) => this.read((state) => this.get(state.invoices, id, 'invoice') as Stripe.Invoice),
+    createPreview: (params: Stripe.InvoiceCreatePreviewParams) =>
+      this.read((state) => {
+        if (!params.subscription) throw new FakeStripeError('Missing required param: subscription.', 400);
+        const subscription = this.get(state.subscriptions, params.subscription, 'subscription');
+        const currentPriceId = subscription.items.data[0].price.id;
+        const priceId = params.subscription_details?.items?.[0]?.price ?? currentPriceId;
+        const interval = intervalFor(priceId);
+        if (!interval) throw new FakeStripeError(`Price ${priceId} is not recurring`, 400);
+
+        if (priceId === currentPriceId) {
+          // No change: the next renewal invoice, after coupon and balance credit
+          const total = applyCoupon(amountFor(priceId), subscription.discount?.coupon);
+          const balance = state.customers[subscription.customer]?.balance ?? 0;
+          return {
+            object: 'invoice',
+            customer: subscription.customer,
+            subscription: subscription.id,
+            total,
+            amount_due: Math.max(0, total + Math.min(balance, 0)),
+            currency: 'aud',
+            period_start: subscription.current_period_end,
+            lines: { data: [{ description: `1 × ${priceId}`, amount: total, proration: false, price: { id: priceId } }] },
+          } as unknown as Stripe.Invoice;
+        }
+
+        const at = params.subscription_details?.proration_date ?? state.clock;
+        const lines = this.prorationLines(subscription, priceId, interval, at);
+        return {
+          object: 'invoice',
+          customer: subscription.customer,
+          subscription: subscription.id,
+          amount_due: Math.max(0, lines.reduce((sum, line) => sum + line.amount, 0)),
+          currency: 'aud',
+          subscription_proration_date: at,
+          lines: { data: lines },
+        } as unknown as Stripe.Invoice;
+      }),
+    /** Retry an open invoice now; a declined card raises invoice.payment_failed and throws. */
+    pay: async (id: string) => {
+      const { invoice, declined } = await this.mutate((state) => {
+        const invoice = this.get(state.invoices, id, 'invoice');
+        if (invoice.status !== 'open') throw new FakeStripeError(`Invoice is already ${invoice.status}.`, 400);
+        invoice.attempt_count += 1;
+
+        if (state.failingCustomers.includes(invoice.customer)) {
+          this.raise(state, 'invoice.payment_failed', invoice);
+          return { invoice, declined: true };
+        }
+
+        invoice.status = 'paid';
+        invoice.amount_paid = invoice.amount_due;
+        this.raise(state, 'invoice.payment_succeeded', invoice);
+        const subscription = invoice.subscription ? state.subscriptions[invoice.subscription] : null;
+        if (subscription?.status === 'past_due') {
+          subscription.status = 'active';
+          this.raise(state, 'customer.subscription.updated', subscription);
+        }
+        return { invoice, declined: false };
+      });
+      if (declined) throw new FakeStripeError('Your card was declined.', 402);
+      return invoice as Stripe.Invoice;
+    },
+  };
+
+  promotionCodes = {
+    list: (params: Stripe.PromotionCodeListParams) =>
+      this.read((state) => {
+        const data = Object.values(state.promotionCodes)
+          .filter((p) => !params.code || p.code.toUpperCase() === params.code.toUpperCase())
+          .filter((p) => params.active === undefined || p.active === params.active)
+          .slice(0, params.limit ?? 10);
+        return { data: data as Stripe.PromotionCode[], has_more: false };
+      }),
+  };
+
+  billingPortal = {
+    sessions: {
+      create: (params: Stripe.BillingPortal.SessionCreateParams) =>
+        this.mutate((state) => {
+          this.get(state.customers, params.customer, 'customer');
+          const id = this.nextId(state, 'bps');
+          // Portal actions are driven from the CLI (cancel-at-period-end, change-price)
+          return {
+            id,
+            object: 'billing_portal.session',
+            customer: params.customer,
+            return_url: params.return_url ?? null,
+            url: params.return_url ?? 'http://localhost',
+            livemode: false,
+          } as unknown as Stripe.BillingPortal.Session;
+        }),
+    },
+  };
+
+  events = {
+    retrieve: (id: string) => this.read((state) => this.get(state.events, id, 'event') as Stripe.Event),
+    list: (params: Stripe.EventListParams) => {
+      const load = () => this.load();
+      return {
+        async *[Symbol.asyncIterator]() {
+          const state = await load();
+          const gte = typeof params.created === 'object' ? params.created.gte ?? 0 : 0;
+          const events = Object.values(state.events)
+            .filter((e) => e.created >= gte)
+            .filter((e) => !params.types || params.types.includes(e.type))
+            .sort((a, b) => b.created - a.created);
+          for (const event of events) yield event as Stripe.Event;
+        },
+      };
+    },
+  };
+
+  webhooks = {
+    constructEventAsync: async (payload: string, header: string, secret: string) => {
+      const parts = Object.fromEntries(header.split(',').map((p) => p.split('=') as [string, string]));
+      if (!parts.t || !parts.v1 || parts.v1 !== (await hmacHex(secret, `${parts.t}.${payload}`))) {
+        throw new Error('No signatures found matching the expected signature for payload');
+      }
+      return JSON.parse(payload) as Stripe.Event;
+    },
+  };
+
+  // ───────────────────────────── Simulation ─────────────────────────────
+
+  /** What Stripe does when the customer pays on the hosted checkout page. */
+  completeCheckout(sessionId: string, { trialDays }: { trialDays?: number } = {}) {
+    return this.mutate((state) => {
+      const session = this.get(state.sessions, sessionId, 'checkout session');
+      if (session.status !== 'open') throw new FakeStripeError(`Checkout session ${sessionId} is ${session.status}`, 400);
+
+      if (!session.customer) {
+        session.customer = this.nextId(state, 'cus');
+        state.customers[session.customer] = {
+          id: session.customer,
+          object: 'customer',
+          email: session.customer_email,
+          metadata: session.metadata,
+          balance: 0,
+          created: state.clock,
+          livemode: false,
+        };
+      }
+      const customer = state.customers[session.customer];
+      session.customer_details = { email: customer.email };
+      session.status = 'complete';
+
+      if (session.mode === 'payment') {
+        if (state.failingCustomers.includes(session.customer)) {
+          throw new FakeStripeError('Your card was declined.', 402);
+        }
+        session.payment_status = 'paid';
+        session.payment_intent = this.nextId(state, 'pi');
+        this.raise(state, 'checkout.session.completed', session);
+        return session;
+      }
+
+      const priceId = session.line_items[0].price.id;
+      const interval = intervalFor(priceId) ?? 'month';
+      const trial = trialDays ?? session.trial_period_days ?? 0;
+      const subscription: any = {
+        id: this.nextId(state, 'sub'),
+        object: 'subscription',
+        customer: session.customer,
+        status: trial > 0 ? 'trialing' : 'active',
+        items: { data: [{ id: this.nextId(state, 'si'), price: { id: priceId, recurring: { interval } }, quantity: 1 }] },
+        cancel_at_period_end: false,
+        canceled_at: null,
+        ended_at: null,
+        trial_start: trial > 0 ? state.clock : null,
+        trial_end: trial > 0 ? state.clock + trial * DAY : null,
+        default_payment_method: { id: this.nextId(state, 'pm'), object: 'payment_method', card: { brand: 'visa', last4: '4242' } },
+        discount: session.discounts[0]
+          ? { promotion_code: session.discounts[0].promotion_code, coupon: state.promotionCodes[session.discounts[0].promotion_code].coupon }
+          : null,
+        metadata: session.metadata,
+        created: state.clock,
+        livemode: false,
+      };
+      this.startPeriod(subscription, state.clock, trial > 0 ? subscription.trial_end : addInterval(state.clock, interval));
+      state.subscriptions[subscription.id] = subscription;
+
+      // Checkout only completes if the first charge goes through
+      if (!this.charge(state, subscription, 'subscription_create')) {
+        throw new FakeStripeError('Your card was declined.', 402);
+      }
+      session.subscription = subscription.id;
+      session.payment_status = trial > 0 ? 'no_payment_required' : 'paid';
+
+      this.raise(state, 'customer.subscription.created', subscription);
+      this.raise(state, 'checkout.session.completed', session);
+      return session;
+    });
+  }
+
+  /**
+   * Move Stripe's clock forward. Each subscription whose period has ended is
+   * renewed (trials convert), charged, marked past_due on a decline, or ended
+   * if it was set to cancel at period end. Past-due subscriptions are retried.
+   */
+  advance(days: number) {
+    return this.mutate((state) => {
+      state.clock += Math.round(days * DAY);
+
+      for (const subscription of Object.values(state.subscriptions)) {
+        if (!BILLABLE_STATUSES.has(subscription.status)) continue;
+
+        if (subscription.status === 'past_due') {
+          if (this.charge(state, subscription, 'subscription_cycle')) {
+            subscription.status = 'active';
+            this.raise(state, 'customer.subscription.updated', subscription);
+          }
+          continue;
+        }
+
+        if (subscription.current_period_end > state.clock) continue;
+
+        if (subscription.cancel_at_period_end) {
+          this.endSubscription(state, subscription);
+          continue;
+        }
+
+        const interval = subscription.items.data[0].price.recurring.interval as Interval;
+        this.startPeriod(subscription, subscription.current_period_end, addInterval(subscription.current_period_end, interval));
+        if (subscription.status === 'trialing') subscription.status = 'active';
+        this.charge(state, subscription, 'subscription_cycle');
+        this.raise(state, 'customer.subscription.updated', subscription);
+      }
+      return state.clock;
+    });
+  }
+
+  setFailingPayments(customerId: string, failing: boolean) {
+    return this.mutate((state) => {
+      this.get(state.customers, customerId, 'customer');
+      state.failingCustomers = state.failingCustomers.filter((id) => id !== customerId);
+      if (failing) state.failingCustomers.push(customerId);
+    });
+  }
+
+  setCancelAtPeriodEnd(subscriptionId: string, cancel: boolean) {
+    return this.mutate((state) => {
+      const subscription = this.get(state.subscriptions, subscriptionId, 'subscription');
+      subscription.cancel_at_period_end = cancel;
+      subscription.canceled_at = cancel ? state.clock : null;
+      this.raise(state, 'customer.subscription.updated', subscription);
+      return subscription;
+    });
+  }
+
+  /** A plan change made in the billing portal (prorated, invoiced now). */
+  changePrice(subscriptionId: string, priceId: string) {
+    return this.mutate((state) => {
+      const subscription = this.get(state.subscriptions, subscriptionId, 'subscription');
+      this.applyPriceChange(state, subscription, priceId);
+      return subscription;
+    });
+  }
+
+  /** A promotion code as created in the Stripe dashboard. */
+  createPromotionCode(code: string, coupon: { percent_off?: number; amount_off?: number }) {
+    return this.mutate((state) => {
+      const promo = {
+        id: this.nextId(state, 'promo'),
+        object: 'promotion_code',
+        code: code.toUpperCase(),
+        active: true,
+        coupon: { id: this.nextId(state, 'coupon'), object: 'coupon', duration: 'forever', currency: 'aud', ...coupon },
+        created: state.clock,
+        livemode: false,
+      };
+      state.promotionCodes[promo.id] = promo;
+      return promo;
+    });
+  }
+
+  /** Re-send a recorded event, e.g. to exercise duplicate handling. */
+  async redeliver(eventId: string) {
+    const event = await this.read((state) => this.get(state.events, eventId, 'event'));
+    await this.deliver(event);
+  }
+
+  /** Start over, keeping the id counter: stripe_events already has the old event ids. */
+  async reset() {
+    const { seq } = await this.load();
+    await this.save({ ...emptyState(), seq });
+  }
+
+  dump() {
+    return this.load();
+  }
+}
+
+if (import.meta.main) {
+  const [command, ...args] = Deno.args;
+  const flag = (name: string) => args.find((a) => a.startsWith(`--${name}=`))?.split('=')[1];
+  const fake = new FakeStripe();
+
+  switch (command) {
+    case 'state':
+      console.log(JSON.stringify(await fake.dump(), null, 2));
+      break;
+    case 'reset':
+      await fake.reset();
+      break;
+    case 'complete-checkout': {
+      const trialDays = flag('trial-days');
+      const session = await fake.completeCheckout(args[0], { trialDays: trialDays ? Number(trialDays) : undefined });
+      console.log(`Completed ${session.id} (${session.mode}) for ${session.customer}`);
+      break;
+    }
+    case 'advance': {
+      const clock = await fake.advance(Number(args[0]));
+      console.log(`Clock is now ${new Date(clock * 1000).toISOString()}`);
+      break;
+    }
+    case 'fail-payments':
+      await fake.setFailingPayments(args[0], args[1] !== 'off');
+      break;
+    case 'cancel-at-period-end':
+      await fake.setCancelAtPeriodEnd(args[0], args[1] !== 'off');
+      break;
+    case 'change-price':
+      await fake.changePrice(args[0], args[1]);
+      break;
+    case 'deliver':
+      await fake.redeliver(args[0]);
+      break;
+    case 'promo': {
+      const percentOff = flag('percent-off');
+      const amountOff = flag('amount-off');
+      const promo = await fake.createPromotionCode(
+        args[0],
+        percentOff ? { percent_off: Number(percentOff) } : { amount_off: Number(amountOff) },
+      );
+      console.log(`Created ${promo.code} (${promo.id})`);
+      break;
+    }
+    default:
+      console.error(
+        'Usage: stripeFake.ts state | reset | complete-checkout <cs> [--trial-days=N] | advance <days> | ' +
+          'fail-payments <cus> on|off | cancel-at-period-end <sub> [off] | change-price <sub> <price> | deliver <evt> | ' +
+          'promo <CODE> --percent-off=N|--amount-off=CENTS',
+      );
+      Deno.exit(1);
+  }
+}
@@ -0,0 +1,235 @@
+// Scheduled dunning run: retries unpaid invoices, reminds members whose grace
+// period is about to end, and cancels subscriptions whose grace period has ended.
+// Episodes are opened and closed by stripe-webhook (see _shared/dunning.ts).
+//
+// Auth: the service role key as the bearer token (cron, scripts), or a signed-in
+// user with an active 'staff' entitlement.
+//
+// Body (all optional):
+//   { "asOf": "2025-10-14T00:00:00Z" }   run as if it were that time; only with
+//                                        STRIPE_FAKE=true, to walk through the stages
+//
+// Schedule it hourly, e.g. with pg_cron + pg_net:
+//   select cron.schedule('billing-dunning', '0 * * * *', $$
+//     select net.http_post('<project url>/functions/v1/billing-dunning',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>'))
+//   $$);
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import type Stripe from 'npm:stripe@17.7.0'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+import { createStripeClient, isStripeFake, type StripeClient } from '../_shared/stripeClient.ts'
+import {
+  REMINDER_DAYS,
+  nextRetryAt,
+  queueNotification,
+  recordPaymentRecovery,
+  type DunningRow,
+} from '../_shared/dunning.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BATCH_SIZE = 100
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// The episode as Stripe sees it now. The row only knows what the webhook has
+// told us, and the payment that ends the episode may not have landed yet
+async function readFromStripe(stripe: StripeClient, row: DunningRow) {
+  const invoice = await stripe.invoices.retrieve(row.invoice_id)
+  let subscription: Stripe.Subscription | null = null
+  try {
+    subscription = await stripe.subscriptions.retrieve(row.subscription_id)
+  } catch (stripeError: any) {
+    if (stripeError?.statusCode !== 404) throw stripeError
+  }
+  const paid = invoice.status === 'paid' || subscription?.status === 'active'
+  return { invoice, subscription, paid }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!stripeSecret || !supabaseUrl || !supabaseServiceKey) {
+      console.error('[dunning] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const stripe = createStripeClient(stripeSecret)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Admin only
+    const jwt = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!jwt) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    if (jwt !== supabaseServiceKey) {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+      if (userError || !user) {
+        return json({ error: 'Invalid authentication' }, 401)
+      }
+      const { data: staff } = await supabase
+        .from('active_entitlements')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('kind', 'staff')
+        .limit(1)
+        .maybeSingle()
+      if (!staff) {
+        return json({ error: 'Admin access required' }, 403)
+      }
+    }
+
+    const body = await req.json().catch(() => ({}))
+    let now = new Date()
+    if (body?.asOf) {
+      if (!isStripeFake()) {
+        return json({ error: 'asOf is only available with the Stripe fake' }, 400)
+      }
+      now = new Date(body.asOf)
+      if (Number.isNaN(now.getTime())) {
+        return json({ error: 'asOf must be an ISO date' }, 400)
+      }
+    }
+    const nowIso = now.toISOString()
+
+    const { data: open, error: openError } = await supabase
+      .from('billing_dunning')
+      .select('*')
+      .eq('status', 'open')
+      .order('grace_ends_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (openError) {
+      console.error('[dunning] Lookup failed:', openError)
+      return json({ error: 'Failed to load dunning rows' }, 500)
+    }
+
+    const summary = { retried: 0, recovered: 0, reminded: 0, downgraded: 0, failed: [] as { subscriptionId: string; error: string }[] }
+
+    for (const row of (open ?? []) as DunningRow[]) {
+      try {
+        const graceEnds = new Date(row.grace_ends_at)
+
+        // 1) Grace over: downgrade, unless they paid since the last webhook
+        if (graceEnds <= now) {
+          const current = await readFromStripe(stripe, row)
+          if (current.paid) {
+            await recordPaymentRecovery(current.invoice, supabase)
+            console.log(`[dunning] ${row.subscription_id} paid before grace ended, not downgrading`)
+            summary.recovered++
+            continue
+          }
+
+          // Already gone in Stripe is as good as cancelled
+          let status = current.subscription?.status ?? 'canceled'
+          if (status !== 'canceled') {
+            status = (await stripe.subscriptions.cancel(row.subscription_id)).status
+          }
+
+          // Mirror now: a past_due row without an open episode would otherwise keep access
+          const { error: mirrorError } = await supabase
+            .from('stripe_subscriptions')
+            .update({ status, updated_at: nowIso })
+            .eq('subscription_id', row.subscription_id)
+          if (mirrorError) throw new Error(`Failed to mirror cancellation: ${mirrorError.message}`)
+
+          const { error: updateError } = await supabase
+            .from('billing_dunning')
+            .update({ status: 'downgraded', resolved_at: nowIso, next_retry_at: null, updated_at: nowIso })
+            .eq('subscription_id', row.subscription_id)
+            .eq('status', 'open')
+          if (updateError) throw new Error(updateError.message)
+
+          await queueNotification(supabase, row.user_id, 'downgraded', `downgraded:${row.subscription_id}:${row.failed_at}`, {
+            subscription_id: row.subscription_id,
+            invoice_id: row.invoice_id,
+            failed_at: row.failed_at,
+          })
+          console.log(`[dunning] ${row.subscription_id} downgraded after grace period`)
+          summary.downgraded++
+          continue
+        }
+
+        // 2) Grace ending soon: remind once
+        if (!row.reminded_at && graceEnds.getTime() - now.getTime() <= REMINDER_DAYS * DAY_MS) {
+          await queueNotification(supabase, row.user_id, 'grace_ending', `grace_ending:${row.subscription_id}:${row.failed_at}`, {
+            subscription_id: row.subscription_id,
+            invoice_id: row.invoice_id,
+            grace_ends_at: row.grace_ends_at,
+          })
+          const { error: remindedError } = await supabase
+            .from('billing_dunning')
+            .update({ reminded_at: nowIso, updated_at: nowIso })
+            .eq('subscription_id', row.subscription_id)
+          if (remindedError) throw new Error(remindedError.message)
+          summary.reminded++
+        }
+
+        // 3) Retry due: move the schedule on first so a crash can't retry in a loop
+        if (row.next_retry_at && new Date(row.next_retry_at) <= now) {
+          const retryCount = row.retry_count + 1
+          const { error: scheduleError } = await supabase
+            .from('billing_dunning')
+            .update({ retry_count: retryCount, next_retry_at: nextRetryAt(row.failed_at, retryCount), updated_at: nowIso })
+            .eq('subscription_id', row.subscription_id)
+          if (scheduleError) throw new Error(scheduleError.message)
+
+          summary.retried++
+          try {
+            const invoice = await stripe.invoices.pay(row.invoice_id)
+            // The webhook does the same; whichever runs first queues the notification
+            await recordPaymentRecovery(invoice, supabase)
+            summary.recovered++
+            console.log(`[dunning] Retry ${retryCount} recovered ${row.subscription_id}`)
+          } catch (stripeError: any) {
+            // Paying an invoice that's already paid fails too: that's a recovery
+            const current = await readFromStripe(stripe, row)
+            if (current.paid) {
+              await recordPaymentRecovery(current.invoice, supabase)
+              summary.recovered++
+              console.log(`[dunning] ${row.subscription_id} was already paid, closing`)
+            } else {
+              // invoice.payment_failed (via the webhook) queues the retry-failed notification
+              console.log(`[dunning] Retry ${retryCount} for ${row.subscription_id} failed: ${stripeError.message}`)
+            }
+          }
+        }
+      } catch (error: any) {
+        console.error(`[dunning] ${row.subscription_id} failed:`, error)
+        summary.failed.push({ subscriptionId: row.subscription_id, error: error.message || String(error) })
+      }
+    }
+
+    console.log('[dunning] Run complete:', { asOf: nowIso, ...summary, failed: summary.failed.length })
+    return json({ asOf: nowIso, ...summary }, 200)
+  } catch (error: any) {
+    console.error('[dunning] Error:', error)
+    return json({ error: error.message || 'Dunning run failed' }, 500)
+  }
+})
@@ -0,0 +1,326 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// At most EXPORT_LIMIT completed exports per user in any EXPORT_WINDOW_HOURS
+const EXPORT_LIMIT = 3
+const EXPORT_WINDOW_HOURS = 24
+
+const ARCHIVE_FORMAT = 'astrocusp-data-export'
+const ARCHIVE_VERSION = 1
+
+function json(body: unknown, status: number, extraHeaders: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+  })
+}
+
+function formatDate(value: unknown) {
+  if (!value) return 'unknown'
+  const d = typeof value === 'number' ? new Date(value * 1000) : new Date(String(value))
+  return Number.isNaN(d.getTime()) ? String(value) : d.toISOString().slice(0, 10)
+}
+
+function formatAmount(cents: unknown, currency: unknown) {
+  if (typeof cents !== 'number') return 'unknown amount'
+  return `${(cents / 100).toFixed(2)} ${String(currency || '').toUpperCase()}`.trim()
+}
+
+// Plain-language overview of the archive, for people who won't read JSON
+function buildSummary(data: {
+  user: { email?: string; created_at?: string; last_sign_in_at?: string }
+  profile: any
+  preferences: any[]
+  subscriptions: any[]
+  orders: any[]
+  entitlements: any[]
+  referrals: { code: string | null; made: any[] }
+  gifts: { bought: any[]; received: any[] }
+}, exportedAt: string) {
+  const lines: string[] = [
+    'Your Astrocusp data',
+    `Exported ${exportedAt}`,
+    '',
+    'Account',
+    `- Email: ${data.user.email ?? 'none'}`,
+    `- Member since: ${formatDate(data.user.created_at)}`,
+    `- Last sign-in: ${formatDate(data.user.last_sign_in_at)}`,
+    '',
+    'Cosmic profile',
+  ]
+
+  const p = data.profile
+  if (!p) {
+    lines.push('- No cosmic profile saved')
+  } else {
+    const cusp = p.cusp_result || {}
+    lines.push(
+      `- Name: ${p.name || 'not set'}`,
+      `- Birth date: ${p.birth_date || 'not set'}`,
+      `- Birth time: ${p.birth_time_unknown ? 'unknown' : p.birth_time || 'not set'}`,
+      `- Birth place: ${p.birth_location || 'not set'}`,
+      `- Hemisphere: ${p.hemisphere || 'not set'}`,
+      `- Sign: ${cusp.cuspName || cusp.primarySign || 'not calculated'}`,
+    )
+    if (p.birth_time_estimate?.time) {
+      lines.push(`- Estimated birth time: ${p.birth_time_estimate.time} (${p.birth_time_estimate.sign} rising)`)
+    }
+    if (p.natal_chart) lines.push('- A natal chart calculated from these details (included in full in the JSON)')
+  }
+
+  lines.push('', 'Preferences')
+  if (!data.preferences.length) lines.push('- None saved')
+  for (const pref of data.preferences) {
+    lines.push(
+      `- Notifications: ${pref.notifications_enabled === false ? 'off' : 'on'}`,
+      `- Daily reminder: ${pref.daily_reminder_time || 'not set'}`,
+      `- Preferred sign: ${pref.preferred_sign || 'not set'}`,
+    )
+  }
+
+  lines.push('', 'Subscriptions')
+  const subs = data.subscriptions.filter((s) => s.subscription_id)
+  if (!subs.length) lines.push('- None')
+  for (const s of subs) {
+    lines.push(
+      `- ${s.subscription_status} (price ${s.price_id || 'unknown'}), current period ${formatDate(s.current_period_start)} to ${formatDate(s.current_period_end)}` +
+        (s.payment_method_last4 ? `, card ending ${s.payment_method_last4}` : ''),
+    )
+  }
+
+  lines.push('', 'Orders')
+  const orders = data.orders.filter((o) => o.order_id)
+  if (!orders.length) lines.push('- None')
+  for (const o of orders) {
+    lines.push(`- ${formatDate(o.order_date)}: ${formatAmount(o.amount_total, o.currency)}, ${o.order_status} (${o.payment_status})`)
+  }
+
+  if (data.entitlements.length) {
+    lines.push('', 'Complimentary access')
+    for (const e of data.entitlements) {
+      const ends = e.revoked_at ? `revoked ${formatDate(e.revoked_at)}` : e.expires_at ? `until ${formatDate(e.expires_at)}` : 'no end date'
+      lines.push(`- ${e.kind} (${e.plan}) from ${formatDate(e.starts_at)}, ${ends}`)
+    }
+  }
+
+  if (data.referrals.code || data.referrals.made.length) {
+    lines.push('', 'Referrals')
+    if (data.referrals.code) lines.push(`- Your referral code: ${data.referrals.code}`)
+    for (const r of data.referrals.made) {
+      lines.push(
+        `- ${formatDate(r.created_at)}: ${r.status}` +
+          (r.credited_at ? `, ${formatAmount(r.credit_amount, r.currency)} credited ${formatDate(r.credited_at)}` : ''),
+      )
+    }
+  }
+
+  if (data.gifts.bought.length || data.gifts.received.length) {
+    lines.push('', 'Gifts')
+    for (const g of data.gifts.bought) {
+      const what = g.product === 'subscription' ? `${g.months}-month subscription` : 'cusp reading'
+      lines.push(
+        `- Bought ${formatDate(g.created_at)}: ${what} for ${g.recipient_name || g.recipient_email || 'someone'}, ${formatAmount(g.amount_total, g.currency)}, ${g.status}`,
+      )
+    }
+    for (const g of data.gifts.received) {
+      const what = g.product === 'subscription' ? `${g.months}-month subscription` : 'cusp reading'
+      lines.push(`- Redeemed ${formatDate(g.redeemed_at)}: ${what}`)
+    }
+  }
+
+  lines.push(
+    '',
+    'Card numbers are held by Stripe, our payment processor, and are never stored by Astrocusp.',
+    'To correct this data, edit your profile in the app. To erase it, use Delete Account in Settings.',
+  )
+  return lines.join('\n')
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      console.error('[data-export] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get authenticated user
+    const authHeader = req.headers.get('authorization')
+    if (!authHeader) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    const jwt = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+
+    if (userError || !user) {
+      console.error('[data-export] Auth error:', userError)
+      return json({ error: 'Invalid authentication' }, 401)
+    }
+
+    // Rate limit on completed exports in the window
+    const since = new Date(Date.now() - EXPORT_WINDOW_HOURS * 3600 * 1000).toISOString()
+    const { data: recent, error: recentError } = await supabase
+      .from('data_exports')
+      .select('created_at')
+      .eq('user_id', user.id)
+      .eq('status', 'completed')
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+
+    if (recentError) {
+      console.error('[data-export] Rate limit lookup failed:', recentError)
+      return json({ error: 'Failed to prepare export' }, 500)
+    }
+
+    if ((recent?.length ?? 0) >= EXPORT_LIMIT) {
+      const retryAt = new Date(new Date(recent![0].created_at).getTime() + EXPORT_WINDOW_HOURS * 3600 * 1000)
+      const retryAfter = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000))
+      await supabase.from('data_exports').insert({ user_id: user.id, status: 'rate_limited' })
+      console.warn('[data-export] Rate limited:', user.id)
+      return json(
+        { error: `You can export your data ${EXPORT_LIMIT} times a day. Please try again after ${retryAt.toISOString()}.`, retryAt: retryAt.toISOString() },
+        429,
+        { 'Retry-After': String(retryAfter) },
+      )
+    }
+
+    // Read as the user so RLS (and the auth.uid()-scoped Stripe views) decide what's theirs
+    const asUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${jwt}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+
+    const [
+      profileRes,
+      preferencesRes,
+      legacySubsRes,
+      subscriptionsRes,
+      ordersRes,
+      entitlementsRes,
+      referralCodeRes,
+      referralsRes,
+      giftsBoughtRes,
+      giftsReceivedRes,
+    ] = await Promise.all([
+      asUser.from('user_profiles').select('*').eq('user_id', user.id).maybeSingle(),
+      asUser.from('user_preferences').select('*'),
+      asUser.from('user_subscriptions').select('*'),
+      asUser.from('stripe_user_subscriptions').select('*'),
+      asUser.from('stripe_user_orders').select('*').order('order_date', { ascending: false }),
+      asUser.from('entitlements').select('kind, plan, reason, starts_at, expires_at, revoked_at, created_at'),
+      asUser.from('referral_codes').select('code').maybeSingle(),
+      // Referrals this user made; who was referred stays private
+      asUser.from('referrals').select('status, credit_amount, currency, credited_at, created_at'),
+      asUser
+        .from('gift_codes')
+        .select('code, product, months, amount_total, currency, recipient_name, recipient_email, message, status, redeemed_at, created_at')
+        .eq('purchaser_id', user.id),
+      // Gifts redeemed by this user; the buyer and what they paid stay private
+      asUser.from('gift_codes').select('code, product, months, message, redeemed_at').eq('redeemed_by', user.id),
+    ])
+
+    const failed = [
+      profileRes,
+      preferencesRes,
+      legacySubsRes,
+      subscriptionsRes,
+      ordersRes,
+      entitlementsRes,
+      referralCodeRes,
+      referralsRes,
+      giftsBoughtRes,
+      giftsReceivedRes,
+    ].find((r) => r.error)
+    if (failed?.error) {
+      console.error('[data-export] Read failed:', failed.error)
+      return json({ error: 'Failed to collect your data' }, 500)
+    }
+
+    const exportedAt = new Date().toISOString()
+    const data = {
+      user: {
+        id: user.id,
+        email: user.email,
+        created_at: user.created_at,
+        last_sign_in_at: user.last_sign_in_at,
+      },
+      profile: profileRes.data ?? null,
+      preferences: preferencesRes.data ?? [],
+      app_subscriptions: legacySubsRes.data ?? [],
+      subscriptions: subscriptionsRes.data ?? [],
+      orders: ordersRes.data ?? [],
+      entitlements: entitlementsRes.data ?? [],
+      referrals: { code: referralCodeRes.data?.code ?? null, made: referralsRes.data ?? [] },
+      gifts: { bought: giftsBoughtRes.data ?? [], received: giftsReceivedRes.data ?? [] },
+    }
+
+    const archive = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt,
+      summary: buildSummary(data, exportedAt),
+      data,
+    }
+    const body = JSON.stringify(archive, null, 2)
+
+    const sections = {
+      profile: data.profile ? 1 : 0,
+      preferences: data.preferences.length,
+      app_subscriptions: data.app_subscriptions.length,
+      subscriptions: data.subscriptions.length,
+      orders: data.orders.length,
+      entitlements: data.entitlements.length,
+      referrals: data.referrals.made.length,
+      gifts: data.gifts.bought.length + data.gifts.received.length,
+    }
+    const { error: logError } = await supabase.from('data_exports').insert({
+      user_id: user.id,
+      status: 'completed',
+      sections,
+      bytes: body.length,
+    })
+    if (logError) {
+      // Unlogged exports would slip past the rate limit
+      console.error('[data-export] Log insert failed:', logError)
+      return json({ error: 'Failed to prepare export' }, 500)
+    }
+
+    console.log('[data-export] Export completed:', user.id, sections)
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="astrocusp-data-${exportedAt.slice(0, 10)}.json"`,
+      },
+    })
+  } catch (error: any) {
+    console.error('[data-export] Error:', error)
+    return json({ error: error.message || 'Data export failed' }, 500)
+  }
+})
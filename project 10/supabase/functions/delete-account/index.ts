@@ -0,0 +1,203 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+import { createStripeClient } from '../_shared/stripeClient.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Subscriptions in these states can still bill the customer
+const CANCELLABLE_STATUSES = new Set(['active', 'trialing', 'past_due', 'unpaid', 'incomplete', 'paused'])
+
+// Tables that may not exist in every environment (legacy)
+const OPTIONAL_TABLES = new Set(['customers'])
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  const requestedAt = new Date().toISOString()
+
+  try {
+    const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      console.error('[delete-account] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get authenticated user
+    const authHeader = req.headers.get('authorization')
+    if (!authHeader) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    const jwt = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+
+    if (userError || !user) {
+      console.error('[delete-account] Auth error:', userError)
+      return json({ error: 'Invalid authentication' }, 401)
+    }
+
+    // Re-authenticate: a stolen or stale session token alone must not be enough
+    const body = await req.json().catch(() => ({}))
+    const password = typeof body?.password === 'string' ? body.password : ''
+    if (!password || !user.email) {
+      return json({ error: 'Please confirm your password to delete your account' }, 400)
+    }
+
+    const verifier = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+    const { data: reauth, error: reauthError } = await verifier.auth.signInWithPassword({
+      email: user.email,
+      password,
+    })
+    if (reauthError || reauth.user?.id !== user.id) {
+      console.warn('[delete-account] Re-authentication failed for', user.id)
+      return json({ error: 'Incorrect password' }, 403)
+    }
+    await verifier.auth.signOut().catch(() => {})
+
+    console.log('[delete-account] Deleting account:', user.id)
+
+    // Cancel anything that could still bill the customer before their rows go
+    const { data: customer, error: customerError } = await supabase
+      .from('stripe_customers')
+      .select('customer_id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (customerError) {
+      console.error('[delete-account] Customer lookup failed:', customerError)
+      return json({ error: 'Failed to look up billing account' }, 500)
+    }
+
+    const customerId: string | null = customer?.customer_id ?? null
+    if (customerId && !stripeSecret) {
+      console.error('[delete-account] STRIPE_SECRET_KEY missing, cannot cancel billing for', customerId)
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const cancelledSubscriptions: string[] = []
+    const deletedRows: Record<string, number> = {}
+
+    // Tombstone first: enough to audit the deletion, nothing that identifies the
+    // person. Nothing is touched unless it can be written
+    const { data: tombstone, error: tombstoneError } = await supabase
+      .from('account_deletions')
+      .insert({
+        user_id: user.id,
+        email_hash: await sha256(user.email.trim().toLowerCase()),
+        stripe_customer_id: customerId,
+        status: 'pending',
+        requested_at: requestedAt,
+      })
+      .select('id')
+      .single()
+    if (tombstoneError || !tombstone) {
+      console.error('[delete-account] Tombstone insert failed:', tombstoneError)
+      return json({ error: 'Failed to delete account' }, 500)
+    }
+    const recordProgress = (patch: Record<string, unknown>) =>
+      supabase
+        .from('account_deletions')
+        .update({ cancelled_subscriptions: cancelledSubscriptions, deleted_rows: deletedRows, ...patch })
+        .eq('id', tombstone.id)
+
+    try {
+      if (customerId && stripeSecret) {
+        const stripe = createStripeClient(stripeSecret)
+        const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 100 })
+
+        for (const sub of subscriptions.data) {
+          if (!CANCELLABLE_STATUSES.has(sub.status)) continue
+          await stripe.subscriptions.cancel(sub.id)
+          cancelledSubscriptions.push(sub.id)
+          console.log('[delete-account] Cancelled subscription:', sub.id)
+        }
+      }
+
+      // Remove every row the user owns; children before parents
+      const remove = async (table: string, column: string, value: string) => {
+        const { error, count } = await supabase.from(table).delete({ count: 'exact' }).eq(column, value)
+        if (error) {
+          if (OPTIONAL_TABLES.has(table) && error.code === '42P01') {
+            deletedRows[table] = 0
+            return
+          }
+          throw new Error(`Failed to delete from ${table}: ${error.message}`)
+        }
+        deletedRows[table] = count ?? 0
+      }
+
+      if (customerId) {
+        await remove('stripe_orders', 'customer_id', customerId)
+        await remove('stripe_subscriptions', 'customer_id', customerId)
+      }
+      await remove('stripe_customers', 'user_id', user.id)
+      await remove('customers', 'user_id', user.id)
+      await remove('user_subscriptions', 'user_id', user.id)
+      await remove('user_preferences', 'user_id', user.id)
+      await remove('user_profiles', 'user_id', user.id)
+
+      const { error: deleteUserError } = await supabase.auth.admin.deleteUser(user.id)
+      if (deleteUserError) {
+        throw new Error(`Failed to delete auth user: ${deleteUserError.message}`)
+      }
+    } catch (error: any) {
+      // Keep what was already undone, so support can finish the job
+      const { error: failError } = await recordProgress({ status: 'failed', error: String(error?.message || error) })
+      if (failError) console.error('[delete-account] Failed to mark tombstone failed:', failError)
+      throw error
+    }
+
+    const { error: completeError } = await recordProgress({
+      status: 'completed',
+      error: null,
+      deleted_at: new Date().toISOString(),
+    })
+    if (completeError) {
+      // The account is already gone; don't report failure to the user
+      console.error('[delete-account] Failed to mark tombstone completed:', completeError)
+    }
+
+    console.log('[delete-account] Account deleted:', user.id, deletedRows)
+
+    return json({ deleted: true, cancelledSubscriptions: cancelledSubscriptions.length }, 200)
+  } catch (error: any) {
+    console.error('[delete-account] Error:', error)
+    return json({ error: error.message || 'Account deletion failed' }, 500)
+  }
+})
@@ -0,0 +1,224 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+import { createStripeClient } from '../_shared/stripeClient.ts'
+import { ENTITLED_STATUSES, subscriptionAccess } from '../_shared/dunning.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Everything the app gates. Keep in sync with utils/entitlements.ts
+const FEATURES = ['daily_deeper_insight', 'monthly_forecast', 'cusp_reading', 'mystic_mish_rituals', 'personal_transits'] as const
+type Feature = (typeof FEATURES)[number]
+type Source = 'subscription' | 'grant' | 'purchase'
+
+interface Entitlement {
+  feature: Feature
+  source: Source
+  expiresAt: string | null // null = does not expire
+  plan?: 'monthly' | 'yearly'
+  grantKind?: string
+}
+
+// What each way of paying unlocks
+const SUBSCRIPTION_FEATURES: Feature[] = [...FEATURES]
+const GRANT_FEATURES: Feature[] = [...FEATURES]
+const ONE_OFF_FEATURES: Feature[] = ['cusp_reading']
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function planFor(priceId: string | null | undefined): 'monthly' | 'yearly' | undefined {
+  if (!priceId) return undefined
+  if (priceId === Deno.env.get('STRIPE_PRICE_YEARLY')) return 'yearly'
+  if (priceId === Deno.env.get('STRIPE_PRICE_MONTHLY')) return 'monthly'
+  return undefined
+}
+
+const epochToIso = (seconds: number | null | undefined) =>
+  typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null
+
+// One row per feature: the longest-lasting source wins (null = forever)
+function merge(entitlements: Entitlement[]): Entitlement[] {
+  const best = new Map<Feature, Entitlement>()
+  for (const e of entitlements) {
+    const current = best.get(e.feature)
+    if (
+      !current ||
+      (current.expiresAt !== null && (e.expiresAt === null || e.expiresAt > current.expiresAt))
+    ) {
+      best.set(e.feature, e)
+    }
+  }
+  return FEATURES.flatMap((f) => (best.has(f) ? [best.get(f)!] : []))
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('[get-entitlements] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+    const stripe = stripeSecret ? createStripeClient(stripeSecret) : null
+
+    // Get authenticated user
+    const authHeader = req.headers.get('authorization')
+    if (!authHeader) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    const jwt = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+
+    if (userError || !user) {
+      console.error('[get-entitlements] Auth error:', userError)
+      return json({ error: 'Invalid authentication' }, 401)
+    }
+
+    const found: Entitlement[] = []
+
+    // 1) Grants (comp, VIP, staff, gift, promo) and redeemed gifts
+    const { data: grants, error: grantsError } = await supabase
+      .from('active_entitlements')
+      .select('kind, plan, expires_at')
+      .eq('user_id', user.id)
+
+    if (grantsError) {
+      console.error('[get-entitlements] Grant lookup failed:', grantsError)
+    }
+    for (const g of grants ?? []) {
+      for (const feature of GRANT_FEATURES) {
+        found.push({ feature, source: 'grant', expiresAt: g.expires_at, plan: g.plan, grantKind: g.kind })
+      }
+    }
+
+    // Redeemed gift readings unlock the reading for good
+    const { data: giftReadings, error: giftError } = await supabase
+      .from('gift_codes')
+      .select('id')
+      .eq('redeemed_by', user.id)
+      .eq('product', 'cusp_reading')
+      .eq('status', 'redeemed')
+      .limit(1)
+
+    if (giftError) {
+      console.error('[get-entitlements] Gift lookup failed:', giftError)
+    }
+    if (giftReadings?.length) {
+      for (const feature of ONE_OFF_FEATURES) {
+        found.push({ feature, source: 'grant', expiresAt: null, grantKind: 'gift' })
+      }
+    }
+
+    const { data: customer, error: customerError } = await supabase
+      .from('stripe_customers')
+      .select('customer_id')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (customerError) {
+      console.error('[get-entitlements] Customer lookup failed:', customerError)
+    }
+    const customerId: string | undefined = customer?.customer_id
+
+    if (customerId) {
+      // 2) Subscription: mirror table first, Stripe when the webhook hasn't caught up
+      const { data: sub } = await supabase
+        .from('stripe_subscriptions')
+        .select('subscription_id, status, price_id, current_period_end')
+        .eq('customer_id', customerId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      let subscription: { id: string; status: string; priceId?: string | null; current_period_end: number | null } | null = null
+      if (sub) {
+        subscription = { id: sub.subscription_id, status: sub.status, priceId: sub.price_id, current_period_end: sub.current_period_end }
+      } else if (stripe) {
+        const list = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 3 })
+        const live = list.data.find((s) => ENTITLED_STATUSES.has(s.status))
+        if (live) {
+          subscription = { id: live.id, status: live.status, priceId: live.items.data[0]?.price?.id, current_period_end: live.current_period_end }
+        }
+      }
+
+      // Same rule as stripe-status: until the period (or a failed payment's grace period) ends
+      const access = subscription ? await subscriptionAccess(subscription, supabase) : null
+      if (subscription && access?.active) {
+        for (const feature of SUBSCRIPTION_FEATURES) {
+          found.push({ feature, source: 'subscription', expiresAt: epochToIso(access.ends_at), plan: planFor(subscription.priceId) })
+        }
+      }
+
+      // 3) One-off cusp reading: a paid order for the one-off price, other than gifts bought for someone else
+      const { data: orders } = await supabase
+        .from('stripe_orders')
+        .select('checkout_session_id')
+        .eq('customer_id', customerId)
+        .eq('status', 'completed')
+        .eq('payment_status', 'paid')
+        .is('deleted_at', null)
+
+      const { data: giftsBought } = await supabase
+        .from('gift_codes')
+        .select('checkout_session_id')
+        .eq('purchaser_id', user.id)
+      const giftSessions = new Set((giftsBought ?? []).map((g: { checkout_session_id: string }) => g.checkout_session_id))
+
+      const oneOffPrice = Deno.env.get('STRIPE_PRICE_CUSP_ONEOFF')
+      let purchased = false
+      for (const order of orders ?? []) {
+        if (giftSessions.has(order.checkout_session_id)) continue
+        if (!stripe || !oneOffPrice) {
+          // Can't tell orders apart without Stripe; the one-off reading is the only one-time product
+          purchased = true
+          break
+        }
+        const items = await stripe.checkout.sessions.listLineItems(order.checkout_session_id, { limit: 10 })
+        if (items.data.some((i) => i.price?.id === oneOffPrice)) {
+          purchased = true
+          break
+        }
+      }
+      if (purchased) {
+        for (const feature of ONE_OFF_FEATURES) {
+          found.push({ feature, source: 'purchase', expiresAt: null })
+        }
+      }
+    }
+
+    const entitlements = merge(found)
+    console.log('[get-entitlements]', user.id, entitlements.map((e) => `${e.feature}:${e.source}`).join(', ') || 'none')
+
+    return json({ userId: user.id, checkedAt: new Date().toISOString(), entitlements }, 200)
+  } catch (error: any) {
+    console.error('[get-entitlements] Error:', error)
+    return json({ error: error.message || 'Entitlement check failed' }, 500)
+  }
+})
@@ -0,0 +1,526 @@
+// Horoscope authoring for editors: draft, schedule and publish daily and monthly
+// entries per sign, cusp and hemisphere (app/admin/horoscopes.tsx is the console).
+// Entries live in `horoscope_entries` until published; publishing copies them to
+// `horoscope_cache` (daily) or `monthly_forecasts` (monthly), which is what the
+// app reads.
+//
+// Auth: the service role key as the bearer token (cron, scripts), or a signed-in
+// user with an active 'staff' entitlement.
+//
+// Body: { "action": ..., ... }
+//   calendar    { kind, hemisphere, from, to }   coverage per date, with missing sign keys
+//   list        { kind, hemisphere, date }       entries and live copy for one date
+//   save        { entry }                        create or update a draft
+//   schedule    { id, publishAt }                publish automatically at publishAt
+//   unschedule  { id }                           back to draft
+//   publish     { id }                           copy to the live table now
+//   delete      { id }                           drop a draft or scheduled entry
+//   publishDue  {}                               publish scheduled entries that are due
+//
+// Schedule publishDue every 15 minutes, e.g. with pg_cron + pg_net:
+//   select cron.schedule('horoscope-publish', '*/15 * * * *', $$
+//     select net.http_post('<project url>/functions/v1/horoscope-admin',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>', 'Content-Type', 'application/json'),
+//       body := '{"action":"publishDue"}'::jsonb)
+//   $$);
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_DAYS = 62
+const MAX_MONTHS = 24
+const MAX_TEXT = 4000
+const BATCH_SIZE = 200
+
+// Live daily rows stay readable this long after their date (same window as the table default)
+const LIVE_DAYS = 7
+
+const KINDS = ['daily', 'monthly'] as const
+const HEMISPHERES = ['Northern', 'Southern'] as const
+const DAILY_FIELDS = ['daily_horoscope', 'affirmation', 'deeper_insight'] as const
+const MONTHLY_FIELDS = ['monthly_forecast'] as const
+
+type Kind = typeof KINDS[number]
+type Hemisphere = typeof HEMISPHERES[number]
+
+interface SignKeyRow {
+  key: string
+  label: string
+  kind: 'sign' | 'cusp'
+  sort_order: number
+}
+
+interface EntryRow {
+  id: string
+  kind: Kind
+  date: string
+  sign_key: string
+  hemisphere: Hemisphere
+  daily_horoscope: string | null
+  affirmation: string | null
+  deeper_insight: string | null
+  monthly_forecast: string | null
+  status: 'draft' | 'scheduled' | 'published'
+  publish_at: string | null
+  published_at: string | null
+}
+
+interface Ctx {
+  supabase: any
+  userId: string | null
+  signs: SignKeyRow[]
+}
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+const isYmd = (s: unknown): s is string =>
+  typeof s === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(Date.parse(`${s}T00:00:00Z`))
+
+const addDays = (ymd: string, days: number) =>
+  new Date(Date.parse(`${ymd}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+
+function addMonths(ymd: string, months: number) {
+  const d = new Date(`${ymd}T00:00:00Z`)
+  d.setUTCMonth(d.getUTCMonth() + months)
+  return d.toISOString().slice(0, 10)
+}
+
+const hemiCode = (h: Hemisphere) => (h === 'Northern' ? 'NH' : 'SH')
+
+const fieldsFor = (kind: Kind) => (kind === 'daily' ? DAILY_FIELDS : MONTHLY_FIELDS)
+
+function missingContent(entry: EntryRow): string | null {
+  if (entry.kind === 'daily' && !entry.daily_horoscope) return 'A daily entry needs its horoscope text'
+  if (entry.kind === 'monthly' && !entry.monthly_forecast) return 'A monthly entry needs its forecast text'
+  return null
+}
+
+// Live rows carry canonical keys; anything else is a legacy label nobody can read by key
+function liveKey(sign: string, signs: SignKeyRow[]): string | null {
+  return signs.some((s) => s.key === sign) ? sign : null
+}
+
+function parseKind(value: unknown): Kind | null {
+  return KINDS.includes(value as Kind) ? (value as Kind) : null
+}
+
+function parseHemisphere(value: unknown): Hemisphere | null {
+  return HEMISPHERES.includes(value as Hemisphere) ? (value as Hemisphere) : null
+}
+
+async function loadEntry(ctx: Ctx, id: unknown): Promise<EntryRow | Response> {
+  if (typeof id !== 'string' || !id) return json({ error: 'id is required' }, 400)
+  const { data, error } = await ctx.supabase.from('horoscope_entries').select('*').eq('id', id).maybeSingle()
+  if (error) throw new Error(`Entry lookup failed: ${error.message}`)
+  if (!data) return json({ error: 'Entry not found' }, 404)
+  return data as EntryRow
+}
+
+// Dates covered by a calendar request, oldest first
+function datesInRange(kind: Kind, from: string, to: string): string[] {
+  const dates: string[] = []
+  if (kind === 'daily') {
+    for (let d = from; d <= to && dates.length < MAX_DAYS; d = addDays(d, 1)) dates.push(d)
+  } else {
+    for (let d = `${from.slice(0, 7)}-01`; d <= to && dates.length < MAX_MONTHS; d = addMonths(d, 1)) dates.push(d)
+  }
+  return dates
+}
+
+async function handleCalendar(ctx: Ctx, body: any) {
+  const kind = parseKind(body.kind)
+  const hemisphere = parseHemisphere(body.hemisphere)
+  if (!kind || !hemisphere) return json({ error: 'kind and hemisphere are required' }, 400)
+  if (!isYmd(body.from) || !isYmd(body.to) || body.from > body.to) {
+    return json({ error: 'from and to must be YYYY-MM-DD, from first' }, 400)
+  }
+
+  const dates = datesInRange(kind, body.from, body.to)
+  const first = dates[0]
+  const last = dates[dates.length - 1]
+
+  const { data: entries, error: entriesError } = await ctx.supabase
+    .from('horoscope_entries')
+    .select('date, sign_key, status')
+    .eq('kind', kind)
+    .eq('hemisphere', hemisphere)
+    .gte('date', first)
+    .lte('date', last)
+  if (entriesError) throw new Error(`Entry lookup failed: ${entriesError.message}`)
+
+  const live = new Set<string>()
+  if (kind === 'daily') {
+    const { data, error } = await ctx.supabase
+      .from('horoscope_cache')
+      .select('date, sign, expires_at')
+      .eq('hemisphere', hemisphere)
+      .gte('date', first)
+      .lte('date', last)
+    if (error) throw new Error(`Live lookup failed: ${error.message}`)
+    const nowIso = new Date().toISOString()
+    for (const row of data ?? []) {
+      // Expired rows are no longer readable by members
+      if (row.expires_at && row.expires_at <= nowIso) continue
+      const key = liveKey(row.sign, ctx.signs)
+      if (key) live.add(`${row.date}|${key}`)
+    }
+  } else {
+    const { data, error } = await ctx.supabase
+      .from('monthly_forecasts')
+      .select('date, sign')
+      .eq('hemisphere', hemiCode(hemisphere))
+      .in('date', dates)
+    if (error) throw new Error(`Live lookup failed: ${error.message}`)
+    for (const row of data ?? []) {
+      const key = liveKey(row.sign, ctx.signs)
+      if (key) live.add(`${String(row.date).slice(0, 10)}|${key}`)
+    }
+  }
+
+  const status = new Map<string, string>()
+  for (const e of entries ?? []) status.set(`${e.date}|${e.sign_key}`, e.status)
+
+  const days = dates.map((date) => {
+    const day = { date, live: 0, scheduled: 0, drafts: 0, missing: [] as string[] }
+    for (const sign of ctx.signs) {
+      const id = `${date}|${sign.key}`
+      const entryStatus = status.get(id)
+      if (live.has(id)) day.live++
+      else if (entryStatus === 'scheduled') day.scheduled++
+      else day.missing.push(sign.key)
+      if (entryStatus === 'draft') day.drafts++
+    }
+    return day
+  })
+
+  return json({ kind, hemisphere, signs: ctx.signs, days }, 200)
+}
+
+async function handleList(ctx: Ctx, body: any) {
+  const kind = parseKind(body.kind)
+  const hemisphere = parseHemisphere(body.hemisphere)
+  if (!kind || !hemisphere || !isYmd(body.date)) {
+    return json({ error: 'kind, hemisphere and date are required' }, 400)
+  }
+
+  const { data: entries, error } = await ctx.supabase
+    .from('horoscope_entries')
+    .select('*')
+    .eq('kind', kind)
+    .eq('hemisphere', hemisphere)
+    .eq('date', body.date)
+  if (error) throw new Error(`Entry lookup failed: ${error.message}`)
+
+  // What members see today for each sign, so editors can start from it
+  const live: Record<string, Record<string, string | null>> = {}
+  if (kind === 'daily') {
+    const { data, error: liveError } = await ctx.supabase
+      .from('horoscope_cache')
+      .select('sign, daily_horoscope, affirmation, deeper_insight')
+      .eq('hemisphere', hemisphere)
+      .eq('date', body.date)
+    if (liveError) throw new Error(`Live lookup failed: ${liveError.message}`)
+    for (const row of data ?? []) {
+      const key = liveKey(row.sign, ctx.signs)
+      if (key && !live[key]) {
+        live[key] = { daily_horoscope: row.daily_horoscope, affirmation: row.affirmation, deeper_insight: row.deeper_insight }
+      }
+    }
+  } else {
+    const { data, error: liveError } = await ctx.supabase
+      .from('monthly_forecasts')
+      .select('sign, monthly_forecast')
+      .eq('hemisphere', hemiCode(hemisphere))
+      .eq('date', body.date)
+    if (liveError) throw new Error(`Live lookup failed: ${liveError.message}`)
+    for (const row of data ?? []) {
+      const key = liveKey(row.sign, ctx.signs)
+      if (key && !live[key]) live[key] = { monthly_forecast: row.monthly_forecast }
+    }
+  }
+
+  return json({ signs: ctx.signs, entries: entries ?? [], live }, 200)
+}
+
+async function handleSave(ctx: Ctx, body: any) {
+  const input = body.entry ?? {}
+  const kind = parseKind(input.kind)
+  const hemisphere = parseHemisphere(input.hemisphere)
+  if (!kind) return json({ error: "kind must be 'daily' or 'monthly'" }, 400)
+  if (!hemisphere) return json({ error: "hemisphere must be 'Northern' or 'Southern'" }, 400)
+  if (!isYmd(input.date)) return json({ error: 'date must be YYYY-MM-DD' }, 400)
+  if (kind === 'monthly' && !input.date.endsWith('-01')) {
+    return json({ error: 'Monthly entries are dated the first of the month' }, 400)
+  }
+  // Canonical keys only: the live tables are read by key, never by guesswork
+  if (!ctx.signs.some((s) => s.key === input.sign_key)) {
+    return json({ error: `Unknown sign key '${input.sign_key}'. Use one of: ${ctx.signs.map((s) => s.key).join(', ')}` }, 400)
+  }
+
+  const fields: Record<string, string | null> = {}
+  for (const field of fieldsFor(kind)) {
+    const value = typeof input[field] === 'string' ? input[field].trim() : ''
+    if (value.length > MAX_TEXT) return json({ error: `${field} is longer than ${MAX_TEXT} characters` }, 400)
+    fields[field] = value || null
+  }
+
+  const nowIso = new Date().toISOString()
+  const { data: existing, error: lookupError } = await ctx.supabase
+    .from('horoscope_entries')
+    .select('id')
+    .eq('kind', kind)
+    .eq('date', input.date)
+    .eq('sign_key', input.sign_key)
+    .eq('hemisphere', hemisphere)
+    .maybeSingle()
+  if (lookupError) throw new Error(`Entry lookup failed: ${lookupError.message}`)
+
+  // Saving always leaves a draft; a published entry stays live as it was until republished
+  const changes = { ...fields, status: 'draft', publish_at: null, updated_by: ctx.userId, updated_at: nowIso }
+  const query = existing
+    ? ctx.supabase.from('horoscope_entries').update(changes).eq('id', existing.id)
+    : ctx.supabase.from('horoscope_entries').insert({
+      kind,
+      date: input.date,
+      sign_key: input.sign_key,
+      hemisphere,
+      created_by: ctx.userId,
+      ...changes,
+    })
+  const { data: entry, error } = await query.select('*').single()
+  if (error) throw new Error(`Failed to save entry: ${error.message}`)
+
+  console.log(`[horoscope-admin] Saved ${kind} ${input.date} ${input.sign_key} ${hemisphere}`)
+  return json({ entry }, 200)
+}
+
+async function handleSchedule(ctx: Ctx, body: any) {
+  const entry = await loadEntry(ctx, body.id)
+  if (entry instanceof Response) return entry
+
+  const publishAt = new Date(body.publishAt)
+  if (!body.publishAt || Number.isNaN(publishAt.getTime())) {
+    return json({ error: 'publishAt must be an ISO date' }, 400)
+  }
+  if (publishAt.getTime() <= Date.now()) {
+    return json({ error: 'publishAt must be in the future; publish now instead' }, 400)
+  }
+  const incomplete = missingContent(entry)
+  if (incomplete) return json({ error: incomplete }, 400)
+
+  const { data, error } = await ctx.supabase
+    .from('horoscope_entries')
+    .update({ status: 'scheduled', publish_at: publishAt.toISOString(), updated_by: ctx.userId, updated_at: new Date().toISOString() })
+    .eq('id', entry.id)
+    .select('*')
+    .single()
+  if (error) throw new Error(`Failed to schedule entry: ${error.message}`)
+  return json({ entry: data }, 200)
+}
+
+async function handleUnschedule(ctx: Ctx, body: any) {
+  const entry = await loadEntry(ctx, body.id)
+  if (entry instanceof Response) return entry
+  if (entry.status !== 'scheduled') return json({ error: 'Entry is not scheduled' }, 409)
+
+  const { data, error } = await ctx.supabase
+    .from('horoscope_entries')
+    .update({ status: 'draft', publish_at: null, updated_by: ctx.userId, updated_at: new Date().toISOString() })
+    .eq('id', entry.id)
+    .select('*')
+    .single()
+  if (error) throw new Error(`Failed to unschedule entry: ${error.message}`)
+  return json({ entry: data }, 200)
+}
+
+async function handleDelete(ctx: Ctx, body: any) {
+  const entry = await loadEntry(ctx, body.id)
+  if (entry instanceof Response) return entry
+  if (entry.status === 'published') {
+    return json({ error: 'Published entries stay on record; edit and republish instead' }, 409)
+  }
+
+  const { error } = await ctx.supabase.from('horoscope_entries').delete().eq('id', entry.id)
+  if (error) throw new Error(`Failed to delete entry: ${error.message}`)
+  return json({ deleted: entry.id }, 200)
+}
+
+// Copy an entry into the table the app reads, then mark it published
+async function publishEntry(ctx: Ctx, entry: EntryRow): Promise<EntryRow> {
+  const sign = ctx.signs.find((s) => s.key === entry.sign_key)
+  if (!sign) throw new Error(`Unknown sign key ${entry.sign_key}`)
+  const nowIso = new Date().toISOString()
+
+  if (entry.kind === 'daily') {
+    const { error } = await ctx.supabase
+      .from('horoscope_cache')
+      .upsert({
+        date: entry.date,
+        sign: sign.key,
+        hemisphere: entry.hemisphere,
+        daily_horoscope: entry.daily_horoscope,
+        affirmation: entry.affirmation,
+        deeper_insight: entry.deeper_insight,
+        expires_at: new Date(Date.parse(`${addDays(entry.date, LIVE_DAYS)}T00:00:00Z`)).toISOString(),
+      }, { onConflict: 'date,sign,hemisphere' })
+    if (error) throw new Error(`Failed to publish to horoscope_cache: ${error.message}`)
+  } else {
+    const match = { sign: sign.key, hemisphere: hemiCode(entry.hemisphere), date: entry.date }
+    const { data: updated, error } = await ctx.supabase
+      .from('monthly_forecasts')
+      .update({ monthly_forecast: entry.monthly_forecast })
+      .match(match)
+      .select('sign')
+    if (error) throw new Error(`Failed to publish to monthly_forecasts: ${error.message}`)
+    if (!updated?.length) {
+      const { error: insertError } = await ctx.supabase
+        .from('monthly_forecasts')
+        .insert({ ...match, monthly_forecast: entry.monthly_forecast })
+      if (insertError) throw new Error(`Failed to publish to monthly_forecasts: ${insertError.message}`)
+    }
+  }
+
+  const { data, error } = await ctx.supabase
+    .from('horoscope_entries')
+    .update({ status: 'published', publish_at: null, published_at: nowIso, updated_at: nowIso })
+    .eq('id', entry.id)
+    .select('*')
+    .single()
+  if (error) throw new Error(`Failed to mark entry published: ${error.message}`)
+
+  console.log(`[horoscope-admin] Published ${entry.kind} ${entry.date} ${entry.sign_key} ${entry.hemisphere}`)
+  return data as EntryRow
+}
+
+async function handlePublish(ctx: Ctx, body: any) {
+  const entry = await loadEntry(ctx, body.id)
+  if (entry instanceof Response) return entry
+  const incomplete = missingContent(entry)
+  if (incomplete) return json({ error: incomplete }, 400)
+
+  return json({ entry: await publishEntry(ctx, entry) }, 200)
+}
+
+async function handlePublishDue(ctx: Ctx) {
+  const { data: due, error } = await ctx.supabase
+    .from('horoscope_entries')
+    .select('*')
+    .eq('status', 'scheduled')
+    .lte('publish_at', new Date().toISOString())
+    .order('publish_at', { ascending: true })
+    .limit(BATCH_SIZE)
+  if (error) throw new Error(`Due lookup failed: ${error.message}`)
+
+  const summary = { published: 0, failed: [] as { id: string; error: string }[] }
+  for (const entry of (due ?? []) as EntryRow[]) {
+    try {
+      await publishEntry(ctx, entry)
+      summary.published++
+    } catch (publishError: any) {
+      console.error(`[horoscope-admin] ${entry.id} failed:`, publishError)
+      summary.failed.push({ id: entry.id, error: publishError.message || String(publishError) })
+    }
+  }
+
+  console.log('[horoscope-admin] Scheduled run complete:', { published: summary.published, failed: summary.failed.length })
+  return json(summary, 200)
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('[horoscope-admin] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Admin only
+    const jwt = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!jwt) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    let userId: string | null = null
+    if (jwt !== supabaseServiceKey) {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+      if (userError || !user) {
+        return json({ error: 'Invalid authentication' }, 401)
+      }
+      const { data: staff } = await supabase
+        .from('active_entitlements')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('kind', 'staff')
+        .limit(1)
+        .maybeSingle()
+      if (!staff) {
+        return json({ error: 'Admin access required' }, 403)
+      }
+      userId = user.id
+    }
+
+    const body = await req.json().catch(() => ({}))
+
+    const { data: signs, error: signsError } = await supabase
+      .from('horoscope_sign_keys')
+      .select('key, label, kind, sort_order')
+      .order('sort_order', { ascending: true })
+    if (signsError || !signs?.length) {
+      console.error('[horoscope-admin] Sign keys unavailable:', signsError)
+      return json({ error: 'Sign keys unavailable' }, 500)
+    }
+
+    const ctx: Ctx = { supabase, userId, signs }
+
+    switch (body?.action) {
+      case 'calendar':
+        return await handleCalendar(ctx, body)
+      case 'list':
+        return await handleList(ctx, body)
+      case 'save':
+        return await handleSave(ctx, body)
+      case 'schedule':
+        return await handleSchedule(ctx, body)
+      case 'unschedule':
+        return await handleUnschedule(ctx, body)
+      case 'publish':
+        return await handlePublish(ctx, body)
+      case 'delete':
+        return await handleDelete(ctx, body)
+      case 'publishDue':
+        return await handlePublishDue(ctx)
+      default:
+        return json({ error: `Unknown action '${body?.action ?? ''}'` }, 400)
+    }
+  } catch (error: any) {
+    console.error('[horoscope-admin] Error:', error)
+    return json({ error: error.message || 'Request failed' }, 500)
+  }
+})
@@ -0,0 +1,292 @@
+// Scheduled coverage check for daily horoscopes: looks at the coming days of
+// `horoscope_cache` for every sign key in both hemispheres, records each missing
+// row in `horoscope_gaps` and fills it from the configured source (see
+// _shared/horoscopeBackfill.ts). Gaps that an editor fills in the meantime are
+// marked resolved on the next run.
+//
+// The window starts yesterday (UTC) so members west of UTC are covered too.
+// A date with a scheduled entry that goes live before the day starts is not a gap.
+// A row whose `expires_at` has passed is a gap too, and is refreshed in place.
+//
+// Auth: the service role key as the bearer token (cron, scripts), or a signed-in
+// user with an active 'staff' entitlement.
+//
+// Body (all optional):
+//   { "days": 7 }   days ahead of today to check (default HOROSCOPE_BACKFILL_DAYS, or 7)
+//
+// Env: HOROSCOPE_BACKFILL_SOURCE = sky (default, generated from the day's transits)
+//      | templates (generic text) | off (report only)
+//
+// Schedule it daily, ahead of the first timezone's midnight, e.g. with pg_cron + pg_net:
+//   select cron.schedule('horoscope-backfill', '0 6 * * *', $$
+//     select net.http_post('<project url>/functions/v1/horoscope-backfill',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>'))
+//   $$);
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+import {
+  createBackfillSource,
+  type BackfillSource,
+  type Hemisphere,
+  type SignKeyRow,
+} from '../_shared/horoscopeBackfill.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_DAYS = 31
+const DEFAULT_DAYS = Number(Deno.env.get('HOROSCOPE_BACKFILL_DAYS') || 7)
+
+// Backfilled rows stay readable as long as published ones (see horoscope-admin)
+const LIVE_DAYS = 7
+
+const HEMISPHERES: Hemisphere[] = ['Northern', 'Southern']
+
+interface GapRow {
+  id: string
+  date: string
+  sign: string
+  hemisphere: Hemisphere
+  status: 'open' | 'filled' | 'resolved' | 'failed'
+}
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+const addDays = (ymd: string, days: number) =>
+  new Date(Date.parse(`${ymd}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+
+const slotKey = (date: string, sign: string, hemisphere: string) => `${date}|${sign}|${hemisphere}`
+
+async function checkCoverage(supabase: any, signs: SignKeyRow[], source: BackfillSource | null, days: number) {
+  const today = new Date().toISOString().slice(0, 10)
+  const from = addDays(today, -1)
+  const to = addDays(today, days)
+  const nowIso = new Date().toISOString()
+
+  const dates: string[] = []
+  for (let d = from; d <= to; d = addDays(d, 1)) dates.push(d)
+
+  // One query per date keeps each result well under the API row limit
+  const live = new Set<string>()
+  const expired = new Set<string>()
+  for (const date of dates) {
+    const { data, error } = await supabase
+      .from('horoscope_cache')
+      .select('sign, hemisphere, expires_at')
+      .eq('date', date)
+    if (error) throw new Error(`Cache lookup failed: ${error.message}`)
+    for (const row of data ?? []) {
+      const key = slotKey(date, row.sign, row.hemisphere)
+      if (row.expires_at && row.expires_at <= nowIso) expired.add(key)
+      else live.add(key)
+    }
+  }
+
+  const { data: scheduled, error: scheduledError } = await supabase
+    .from('horoscope_entries')
+    .select('date, sign_key, hemisphere, publish_at')
+    .eq('kind', 'daily')
+    .eq('status', 'scheduled')
+    .gte('date', from)
+    .lte('date', to)
+  if (scheduledError) throw new Error(`Scheduled lookup failed: ${scheduledError.message}`)
+  const covered = new Set<string>(
+    (scheduled ?? [])
+      .filter((e: any) => e.publish_at && Date.parse(e.publish_at) <= Date.parse(`${e.date}T00:00:00Z`))
+      .map((e: any) => slotKey(e.date, e.sign_key, e.hemisphere))
+  )
+
+  const { data: gapRows, error: gapsError } = await supabase
+    .from('horoscope_gaps')
+    .select('id, date, sign, hemisphere, status')
+    .gte('date', from)
+    .lte('date', to)
+  if (gapsError) throw new Error(`Gap lookup failed: ${gapsError.message}`)
+  const gaps = new Map<string, GapRow>((gapRows ?? []).map((g: GapRow) => [slotKey(g.date, g.sign, g.hemisphere), g]))
+
+  const summary = {
+    from,
+    to,
+    source: source?.name ?? null,
+    checked: 0,
+    missing: 0,
+    filled: 0,
+    resolved: 0,
+    open: [] as { date: string; sign: string; hemisphere: Hemisphere }[],
+    failed: [] as { date: string; sign: string; hemisphere: Hemisphere; error: string }[],
+  }
+
+  for (const date of dates) {
+    for (const hemisphere of HEMISPHERES) {
+      for (const sign of signs) {
+        summary.checked++
+        const key = slotKey(date, sign.key, hemisphere)
+        const gap = gaps.get(key)
+
+        if (live.has(key) || covered.has(key)) {
+          if (gap && (gap.status === 'open' || gap.status === 'failed')) {
+            const { error } = await supabase
+              .from('horoscope_gaps')
+              .update({ status: 'resolved', error: null, resolved_at: nowIso })
+              .eq('id', gap.id)
+            if (error) throw new Error(`Failed to resolve gap: ${error.message}`)
+            summary.resolved++
+          }
+          continue
+        }
+
+        summary.missing++
+        const slot = { date, sign: sign.key, hemisphere }
+
+        // Record the gap first, so it's reported even if filling fails
+        if (!gap) {
+          const { error } = await supabase
+            .from('horoscope_gaps')
+            .upsert({ ...slot, status: 'open' }, { onConflict: 'date,sign,hemisphere', ignoreDuplicates: true })
+          if (error) throw new Error(`Failed to record gap: ${error.message}`)
+        } else if (gap.status !== 'open') {
+          // The row it was filled with is gone again, or has expired
+          const { error } = await supabase
+            .from('horoscope_gaps')
+            .update({ status: 'open', source: null, error: null, detected_at: nowIso, resolved_at: null })
+            .eq('id', gap.id)
+          if (error) throw new Error(`Failed to reopen gap: ${error.message}`)
+        }
+
+        if (!source) {
+          summary.open.push(slot)
+          continue
+        }
+
+        try {
+          const row = {
+            ...source.generate(date, sign, hemisphere),
+            expires_at: new Date(Date.parse(`${addDays(date, LIVE_DAYS)}T00:00:00Z`)).toISOString(),
+          }
+          // An expired row is rewritten only while it's still expired, and a missing
+          // one is never written over, so an editor's change in the meantime wins
+          const { data: written, error } = expired.has(key)
+            ? await supabase
+              .from('horoscope_cache')
+              .update(row)
+              .match(slot)
+              .lte('expires_at', nowIso)
+              .select('id')
+            : await supabase
+              .from('horoscope_cache')
+              .upsert({ ...slot, ...row }, { onConflict: 'date,sign,hemisphere', ignoreDuplicates: true })
+              .select('id')
+          if (error) throw new Error(error.message)
+
+          const filled = (written ?? []).length > 0
+          const { error: gapError } = await supabase
+            .from('horoscope_gaps')
+            .update(filled
+              ? { status: 'filled', source: source.name, error: null, resolved_at: nowIso }
+              : { status: 'resolved', error: null, resolved_at: nowIso })
+            .match(slot)
+          if (gapError) throw new Error(`Failed to mark gap ${filled ? 'filled' : 'resolved'}: ${gapError.message}`)
+          if (filled) summary.filled++
+          else summary.resolved++
+        } catch (fillError: any) {
+          const message = fillError.message || String(fillError)
+          console.error(`[horoscope-backfill] ${date} ${sign.key} ${hemisphere} failed:`, message)
+          await supabase
+            .from('horoscope_gaps')
+            .update({ status: 'failed', error: message })
+            .match(slot)
+          summary.failed.push({ ...slot, error: message })
+        }
+      }
+    }
+  }
+
+  console.log('[horoscope-backfill] Run complete:', {
+    from,
+    to,
+    missing: summary.missing,
+    filled: summary.filled,
+    resolved: summary.resolved,
+    failed: summary.failed.length,
+  })
+  return summary
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('[horoscope-backfill] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Admin only
+    const jwt = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!jwt) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    if (jwt !== supabaseServiceKey) {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+      if (userError || !user) {
+        return json({ error: 'Invalid authentication' }, 401)
+      }
+      const { data: staff } = await supabase
+        .from('active_entitlements')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('kind', 'staff')
+        .limit(1)
+        .maybeSingle()
+      if (!staff) {
+        return json({ error: 'Admin access required' }, 403)
+      }
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const days = body?.days ?? DEFAULT_DAYS
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DAYS) {
+      return json({ error: `days must be a whole number from 0 to ${MAX_DAYS}` }, 400)
+    }
+
+    const { data: signs, error: signsError } = await supabase
+      .from('horoscope_sign_keys')
+      .select('key, label, kind, sort_order')
+      .order('sort_order', { ascending: true })
+    if (signsError || !signs?.length) {
+      console.error('[horoscope-backfill] Sign keys unavailable:', signsError)
+      return json({ error: 'Sign keys unavailable' }, 500)
+    }
+
+    const source = await createBackfillSource(supabase)
+    return json(await checkCoverage(supabase, signs, source, days), 200)
+  } catch (error: any) {
+    console.error('[horoscope-backfill] Error:', error)
+    return json({ error: error.message || 'Request failed' }, 500)
+  }
+})
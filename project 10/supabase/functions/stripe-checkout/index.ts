@@ -1,6 +1,7 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
-import Stripe from 'npm:stripe@17.7.0'
+import type Stripe from 'npm:stripe@17.7.0'
 import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+import { createStripeClient } from '../_shared/stripeClient.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,6 +9,44 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+const GIFT_MONTHS = [1, 3, 12]
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Stripe metadata values are capped at 500 characters
+const clip = (value: unknown, max: number) => (typeof value === 'string' ? value.trim().slice(0, max) : '')
+
+// Gift details from the app -> the price to charge and the metadata the webhook
+// needs to issue the gift code
+function parseGift(gift: any): { priceId: string | undefined; metadata: Record<string, string> } | { error: string } {
+  const recipientEmail = clip(gift?.recipientEmail, 254)
+  if (recipientEmail && !EMAIL_PATTERN.test(recipientEmail)) {
+    return { error: "The recipient's email address doesn't look right" }
+  }
+
+  let priceId: string | undefined
+  let months = ''
+  if (gift?.product === 'subscription') {
+    if (!GIFT_MONTHS.includes(gift.months)) {
+      return { error: 'Gift subscriptions are for 1, 3 or 12 months' }
+    }
+    months = String(gift.months)
+    priceId = Deno.env.get(`STRIPE_PRICE_GIFT_${months}M`)
+  } else if (gift?.product === 'cusp_reading') {
+    priceId = Deno.env.get('STRIPE_PRICE_CUSP_ONEOFF')
+  } else {
+    return { error: 'Unknown gift product' }
+  }
+
+  const metadata: Record<string, string> = {
+    gift_product: gift.product,
+    gift_recipient_name: clip(gift.recipientName, 100),
+    gift_recipient_email: recipientEmail,
+    gift_message: clip(gift.message, 500),
+  }
+  if (months) metadata.gift_months = months
+  return { priceId, metadata }
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -43,7 +82,7 @@ Deno.serve(async (req) => {
       )
     }
 
-    const stripe = new Stripe(stripeSecret, { apiVersion: '2024-06-20' })
+    const stripe = createStripeClient(stripeSecret)
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
     // Get authenticated user
@@ -76,7 +115,35 @@ Deno.serve(async (req) => {
 
     // Parse request body
     const body = await req.json()
-    const { priceId, mode = 'subscription', successUrl, cancelUrl } = body
+    const { mode = 'subscription', successUrl, cancelUrl } = body
+    let { priceId } = body
+
+    // Gift purchase: the price comes from the gift product, not the client
+    let giftMetadata: Record<string, string> | null = null
+    if (body.gift) {
+      const gift = parseGift(body.gift)
+      if ('error' in gift) {
+        return new Response(
+          JSON.stringify({ error: gift.error }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
+      if (mode !== 'payment' || !gift.priceId) {
+        console.error('[checkout] Gift not purchasable:', { mode, product: gift.metadata.gift_product })
+        return new Response(
+          JSON.stringify({ error: 'This gift is not available right now' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
+      priceId = gift.priceId
+      giftMetadata = gift.metadata
+    }
 
     if (!priceId) {
       return new Response(
@@ -88,7 +155,7 @@ Deno.serve(async (req) => {
       )
     }
 
-    console.log('[checkout] Creating checkout session:', { priceId, mode, email: user.email })
+    console.log('[checkout] Creating checkout session:', { priceId, mode, gift: giftMetadata?.gift_product, email: user.email })
 
     // Check if customer already exists
     let customerId: string | null = null
@@ -139,11 +206,79 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Free trial: configured per price, first subscription only
+    let isFirstSubscription = true
+    if (existingCustomer?.customer_id) {
+      const previous = await stripe.subscriptions.list({ customer: customerId!, status: 'all', limit: 1 })
+      isFirstSubscription = previous.data.length === 0
+    }
+
+    let trialDays: number | null = null
+    if (mode === 'subscription' && isFirstSubscription) {
+      const { data: trial } = await supabase
+        .from('price_trials')
+        .select('trial_days')
+        .eq('price_id', priceId)
+        .eq('enabled', true)
+        .maybeSingle()
+      trialDays = trial?.trial_days ?? null
+    }
+
+    // A code typed in the app: a member's referral code, else a Stripe promotion code
+    const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : ''
+    let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined
+    let referralCode: string | null = null
+
+    if (code) {
+      const { data: referrer } = await supabase
+        .from('referral_codes')
+        .select('user_id')
+        .eq('code', code)
+        .maybeSingle()
+
+      if (referrer) {
+        const refusal =
+          referrer.user_id === user.id
+            ? "You can't use your own referral code"
+            : mode !== 'subscription' || !isFirstSubscription
+            ? 'Referral codes are for new subscriptions only'
+            : null
+        if (refusal) {
+          return new Response(
+            JSON.stringify({ error: refusal }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          )
+        }
+
+        // Carried in the session metadata; the webhook records the referral when
+        // the checkout completes and credits it once the first invoice is paid
+        referralCode = code
+      } else {
+        const promos = await stripe.promotionCodes.list({ code, active: true, limit: 1 })
+        const promo = promos.data[0]
+        if (!promo) {
+          return new Response(
+            JSON.stringify({ error: "That code isn't valid or has expired" }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          )
+        }
+        discounts = [{ promotion_code: promo.id }]
+      }
+      console.log('[checkout] Code applied:', { code, referral: !!referralCode })
+    }
+
     // Create checkout session
     let session: Stripe.Checkout.Session;
     try {
       session = await stripe.checkout.sessions.create({
         customer: customerId,
+        client_reference_id: user.id, // lets the webhook map the session back to the user
         mode: mode as 'subscription' | 'payment',
         line_items: [
           {
@@ -151,12 +286,16 @@ Deno.serve(async (req) => {
             quantity: 1,
           },
         ],
-        success_url: successUrl || `${Deno.env.get('SITE_URL') || 'https://astrocusp.com.au'}/auth/success?type=${mode}`,
+        success_url: successUrl || `${Deno.env.get('SITE_URL') || 'https://astrocusp.com.au'}/auth/success?type=${giftMetadata ? 'gift' : mode}`,
         cancel_url: cancelUrl || `${Deno.env.get('SITE_URL') || 'https://astrocusp.com.au'}/subscription`,
         billing_address_collection: 'auto',
+        ...(discounts ? { discounts } : {}),
+        ...(trialDays ? { subscription_data: { trial_period_days: trialDays } } : {}),
         metadata: {
           user_id: user.id,
           user_email: user.email!,
+          ...(referralCode ? { referral_code: referralCode } : {}),
+          ...(giftMetadata ?? {}),
         },
       })
     } catch (stripeError: any) {
@@ -173,7 +312,7 @@ Deno.serve(async (req) => {
     console.log('[checkout] Checkout session created:', session.id)
 
     return new Response(
-      JSON.stringify({ url: session.url, sessionId: session.id }),
+      JSON.stringify({ url: session.url, sessionId: session.id, trialDays, discounted: !!discounts, referral: !!referralCode }),
       {
         status: 200,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
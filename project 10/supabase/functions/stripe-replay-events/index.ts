@@ -0,0 +1,157 @@
+// Admin-triggered replay of Stripe events through the same handlers as stripe-webhook.
+//
+// Auth: the service role key as the bearer token (scripts, cron), or a signed-in
+// user with an active 'staff' entitlement.
+//
+// Body (all optional):
+//   { "eventId": "evt_…" }   replay one event (fetched from Stripe, so it also works
+//                            for deliveries that never reached us)
+//   { "limit": 25 }          replay failed / stuck events from the ledger, oldest first
+//   { "sinceHours": 72 }     also pull handled event types from Stripe for that window
+//                            and process any we never recorded (lost webhooks)
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import type Stripe from 'npm:stripe@17.7.0'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+import { createStripeClient } from '../_shared/stripeClient.ts'
+import { HANDLED_EVENT_TYPES, processStripeEvent, type EventOutcome } from '../_shared/stripeEvents.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DEFAULT_LIMIT = 25
+const MAX_LIMIT = 100
+const MAX_SINCE_HOURS = 30 * 24 // Stripe keeps events for 30 days
+const STUCK_AFTER_MS = 10 * 60 * 1000
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!stripeSecret || !supabaseUrl || !supabaseServiceKey) {
+      console.error('[replay] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const stripe = createStripeClient(stripeSecret)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Admin only
+    const jwt = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!jwt) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    let replayedBy = 'service_role'
+    if (jwt !== supabaseServiceKey) {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+      if (userError || !user) {
+        return json({ error: 'Invalid authentication' }, 401)
+      }
+      const { data: staff } = await supabase
+        .from('active_entitlements')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('kind', 'staff')
+        .limit(1)
+        .maybeSingle()
+      if (!staff) {
+        console.warn('[replay] Non-staff replay attempt:', user.id)
+        return json({ error: 'Forbidden' }, 403)
+      }
+      replayedBy = user.email ?? user.id
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const limit = Math.min(Math.max(Number(body?.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const sinceHours = Math.min(Math.max(Number(body?.sinceHours) || 0, 0), MAX_SINCE_HOURS)
+
+    const results: Array<{ id: string; type?: string } & EventOutcome> = []
+    const replay = async (event: Stripe.Event) => {
+      const outcome = await processStripeEvent(event, supabase, stripe, { replayedBy })
+      results.push({ id: event.id, type: event.type, ...outcome })
+    }
+
+    // Prefer Stripe's copy; fall back to the payload we stored
+    const loadEvent = async (id: string, stored?: unknown): Promise<Stripe.Event | null> => {
+      try {
+        return await stripe.events.retrieve(id)
+      } catch (error: any) {
+        if (stored) return stored as Stripe.Event
+        results.push({ id, status: 'failed', error: `Could not load event: ${error.message}` })
+        return null
+      }
+    }
+
+    if (typeof body?.eventId === 'string' && body.eventId) {
+      const { data: row } = await supabase.from('stripe_events').select('payload').eq('id', body.eventId).maybeSingle()
+      const event = await loadEvent(body.eventId, row?.payload)
+      if (event) await replay(event)
+    } else {
+      // Failed events, and 'processing' rows whose attempt evidently died
+      const stuckBefore = new Date(Date.now() - STUCK_AFTER_MS).toISOString()
+      const { data: rows, error: rowsError } = await supabase
+        .from('stripe_events')
+        .select('id, payload')
+        .or(`status.eq.failed,and(status.eq.processing,last_attempt_at.lt.${stuckBefore})`)
+        .order('received_at', { ascending: true })
+        .limit(limit)
+
+      if (rowsError) {
+        console.error('[replay] Ledger read failed:', rowsError)
+        return json({ error: 'Failed to read event ledger' }, 500)
+      }
+
+      for (const row of rows ?? []) {
+        const event = await loadEvent(row.id, row.payload)
+        if (event) await replay(event)
+      }
+
+      if (sinceHours > 0) {
+        const created = { gte: Math.floor(Date.now() / 1000) - sinceHours * 3600 }
+        const seen = new Set(results.map((r) => r.id))
+        let recovered = 0
+        for await (const event of stripe.events.list({ created, types: [...HANDLED_EVENT_TYPES], limit: 100 })) {
+          if (seen.has(event.id)) continue
+          // Already-recorded events come back as 'duplicate' without reprocessing
+          await replay(event)
+          if (results[results.length - 1].status !== 'duplicate' && ++recovered >= limit) break
+        }
+      }
+    }
+
+    const summary = results.reduce<Record<string, number>>((acc, r) => {
+      acc[r.status] = (acc[r.status] ?? 0) + 1
+      return acc
+    }, {})
+    console.log(`[replay] Replayed by ${replayedBy}:`, summary)
+
+    return json({ summary, results: results.filter((r) => r.status !== 'duplicate') }, 200)
+  } catch (error: any) {
+    console.error('[replay] Error:', error)
+    return json({ error: error.message || 'Replay failed' }, 500)
+  }
+})
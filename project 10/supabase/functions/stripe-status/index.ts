@@ -1,6 +1,7 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
-import Stripe from 'npm:stripe@17.7.0'
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createStripeClient, type StripeClient } from '../_shared/stripeClient.ts'
+import { ENTITLED_STATUSES, subscriptionAccess } from '../_shared/dunning.ts'
 
 const corsHeaders = (origin?: string) => ({
   'Access-Control-Allow-Origin': origin ?? '*',
@@ -26,6 +27,26 @@ const bad = (status: number, msg: string, origin?: string) =>
     } 
   })
 
+// Countdown and first charge for a trialing subscription
+async function trialDetails(stripe: StripeClient, customerId: string, subscriptionId: string, trialEnd: number | null) {
+  if (!trialEnd) return undefined
+  let amountAfter: number | null = null
+  let currency = 'aud'
+  try {
+    const upcoming = await stripe.invoices.createPreview({ customer: customerId, subscription: subscriptionId })
+    amountAfter = upcoming.amount_due
+    currency = upcoming.currency
+  } catch (e) {
+    console.log('[stripe-status] Upcoming invoice preview failed:', e)
+  }
+  return {
+    ends_at: trialEnd,
+    days_remaining: Math.max(0, Math.ceil((trialEnd * 1000 - Date.now()) / 86400000)),
+    amount_after: amountAfter,
+    currency,
+  }
+}
+
 Deno.serve(async (req) => {
   const origin = req.headers.get('origin') ?? undefined
   
@@ -78,14 +99,13 @@ Deno.serve(async (req) => {
       }
     )
 
-    const stripe = new Stripe(STRIPE_SECRET_KEY, { apiVersion: '2024-06-20' })
+    const stripe = createStripeClient(STRIPE_SECRET_KEY)
 
     // Add diagnostics for test/prod mode debugging
     const skPrefix = STRIPE_SECRET_KEY?.slice(0, 7);
     console.log('[stripe-status] Server key prefix:', skPrefix);
     console.log('[stripe-status] Client mode from env:', Deno.env.get('EXPO_PUBLIC_STRIPE_MODE'));
 
-    // Get user email for temporary override
     const { data: { user: authUser }, error: authUserError } = await supabase.auth.getUser(supabaseJwt);
     
     if (authUserError) {
@@ -105,31 +125,42 @@ Deno.serve(async (req) => {
       }, origin);
     }
     
-    const userEmail = authUser?.email;
-    console.log('[stripe-status] User email:', userEmail);
+    console.log('[stripe-status] User:', authUser.id);
     
-    // Special account overrides
-    const specialAccounts = [
-      'mish.cd@gmail.com',
-      'petermaricar@bigpond.com',
-      'tsharna.kecek@gmail.com', 
-      'james.summerton@outlook.com',
-      'xavier.cd@gmail.com',
-      'xaviercd96@gmail.com', // Keep both variants
-      'adam.stead@techweave.co',      // ✅ VIP Account
-      'michael.p.r.orourke@gmail.com', // ✅ VIP Account
-    ];
+    // Entitlement grants (comp, VIP, staff, gift, promo) override Stripe.
+    // Open-ended grants win, then the one that runs longest.
+    const { data: grant, error: grantError } = await supabase
+      .from('active_entitlements')
+      .select('id, kind, plan, reason, expires_at')
+      .eq('user_id', authUser.id)
+      .order('expires_at', { ascending: false, nullsFirst: true })
+      .limit(1)
+      .maybeSingle();
     
-    if (userEmail && specialAccounts.includes(userEmail)) {
-      console.log(`[stripe-status] SPECIAL: Granting access to ${userEmail}`);
+    if (grantError) {
+      // Fall through to Stripe rather than locking paying users out
+      console.error('[stripe-status] Entitlement lookup failed:', grantError);
+    }
+    
+    if (grant) {
+      console.log(`[stripe-status] Entitlement ${grant.id} (${grant.kind}) grants access`);
       return ok({
         active: true,
-        plan: 'yearly',
-        current_period_end: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60),
-        price_id: Deno.env.get('STRIPE_PRICE_YEARLY'),
+        source: 'override',
+        reason: `entitlement_${grant.kind}`,
+        plan: grant.plan,
+        current_period_end: grant.expires_at ? Math.floor(new Date(grant.expires_at).getTime() / 1000) : null,
+        price_id: grant.plan === 'yearly' ? Deno.env.get('STRIPE_PRICE_YEARLY') : Deno.env.get('STRIPE_PRICE_MONTHLY'),
         status: 'active',
+        isVip: ['comp', 'vip', 'staff'].includes(grant.kind),
+        entitlement: {
+          id: grant.id,
+          kind: grant.kind,
+          reason: grant.reason,
+          expires_at: grant.expires_at,
+        },
         diagnostics: {
-          override: `special_access_for_${userEmail}`,
+          override: `entitlement_${grant.id}`,
           secret_key_prefix: skPrefix,
         }
       }, origin);
@@ -141,6 +172,7 @@ Deno.serve(async (req) => {
       .from('stripe_customers')
       .select('customer_id')
       .eq('user_id', authUser.id)
+      .is('deleted_at', null)
       .maybeSingle();
     
     if (customerError) {
@@ -162,24 +194,27 @@ Deno.serve(async (req) => {
     console.log('[stripe-status] Checking subscription mirror table...');
     const { data: subRows, error: subError } = await supabase
       .from('stripe_subscriptions')
-      .select('subscription_id, status, price_id, current_period_end, cancel_at_period_end')
+      .select('subscription_id, status, price_id, current_period_end, cancel_at_period_end, trial_end')
       .eq('customer_id', customerId)
+      .is('deleted_at', null)
       .maybeSingle();
     
     if (!subError && subRows) {
       console.log('[stripe-status] Mirror table subscription:', subRows);
       
       const activeSub = subRows;
-      const isActiveStatus = activeSub && ['active', 'trialing', 'past_due'].includes(activeSub.status);
-      const notCancelled = activeSub && !activeSub.cancel_at_period_end;
-      const isActive = isActiveStatus && notCancelled;
+      // Same rule as get-entitlements: a subscription set to cancel keeps access
+      // until its period ends, a past_due one until its grace period ends
+      const { active: isActive, grace } = await subscriptionAccess(
+        { id: activeSub.subscription_id, status: activeSub.status, current_period_end: activeSub.current_period_end },
+        supabase,
+      );
       
       console.log('[stripe-status] Subscription evaluation:', {
-        hasSubscription: !!activeSub,
-        status: activeSub?.status,
-        isActiveStatus,
-        cancel_at_period_end: activeSub?.cancel_at_period_end,
-        notCancelled,
+        status: activeSub.status,
+        current_period_end: activeSub.current_period_end,
+        cancel_at_period_end: activeSub.cancel_at_period_end,
+        grace,
         finalResult: isActive
       });
       
@@ -192,10 +227,15 @@ Deno.serve(async (req) => {
           source: 'db',
           plan,
           current_period_end: activeSub.current_period_end,
+          cancel_at_period_end: activeSub.cancel_at_period_end,
           price_id: activeSub.price_id,
           status: activeSub.status,
+          trial: activeSub.status === 'trialing'
+            ? await trialDetails(stripe, customerId, activeSub.subscription_id, activeSub.trial_end)
+            : undefined,
+          grace: grace ?? undefined,
         }, origin);
-      } else if (activeSub) {
+      } else {
         console.log('[stripe-status] Found subscription but not active:', {
           status: activeSub.status,
           cancel_at_period_end: activeSub.cancel_at_period_end
@@ -203,7 +243,7 @@ Deno.serve(async (req) => {
         return ok({
           active: false,
           source: 'db',
-          reason: 'subscription_inactive',
+          reason: grace?.expired ? 'grace_expired' : 'subscription_inactive',
           status: activeSub.status,
         }, origin);
       }
@@ -231,17 +271,13 @@ Deno.serve(async (req) => {
       livemode: s.livemode
     })))
     
-    // Find the latest active, trialing, past_due, or incomplete subscription
+    // Find the latest active, trialing or past_due subscription
     const sub = list.data.find(s => {
-      const isActiveStatus = ['active', 'trialing', 'past_due', 'incomplete', 'unpaid'].includes(s.status);
-      const notCancelled = !s.cancel_at_period_end;
-      const isValid = isActiveStatus && notCancelled;
+      const isValid = ENTITLED_STATUSES.has(s.status);
       
       console.log(`[stripe-status] Evaluating subscription ${s.id}:`, {
         status: s.status,
-        isActiveStatus,
         cancel_at_period_end: s.cancel_at_period_end,
-        notCancelled,
         isValid
       });
       
@@ -261,7 +297,7 @@ Deno.serve(async (req) => {
           status: 'no_subscriptions'
         }, origin);
       } else {
-        console.log('[stripe-status] Found subscriptions but none are active/trialing/past_due/incomplete')
+        console.log('[stripe-status] Found subscriptions but none are active/trialing/past_due')
         console.log('[stripe-status] Subscription details:', list.data.map(s => ({
           id: s.id,
           status: s.status,
@@ -283,6 +319,17 @@ Deno.serve(async (req) => {
       }
     }
 
+    const { active, grace } = await subscriptionAccess(sub, supabase)
+    if (!active) {
+      console.log('[stripe-status] Subscription no longer grants access:', sub.id)
+      return ok({
+        active: false,
+        source: 'stripe',
+        reason: grace?.expired ? 'grace_expired' : 'subscription_inactive',
+        status: sub.status,
+      }, origin)
+    }
+
     console.log('[stripe-status] Found qualifying subscription:', {
       id: sub.id,
       status: sub.status,
@@ -325,8 +372,11 @@ Deno.serve(async (req) => {
       plan,
       diagnostics,
       current_period_end: sub.current_period_end,
+      cancel_at_period_end: sub.cancel_at_period_end,
       price_id: priceId,
       status: sub.status,
+      trial: sub.status === 'trialing' ? await trialDetails(stripe, customerId, sub.id, sub.trial_end) : undefined,
+      grace: grace ?? undefined,
     }, origin)
     
   } catch (e) {
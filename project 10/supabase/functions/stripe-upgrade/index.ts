@@ -0,0 +1,199 @@
+// Monthly → yearly plan change, prorated.
+//
+// Body:
+//   {}                                  preview: what the switch would charge today
+//   { "confirm": true, "prorationDate" } switch now, billing exactly what the
+//                                       preview with that prorationDate showed
+//
+// The unused part of the current month is credited against the yearly price and
+// the difference is invoiced immediately; the new yearly period starts today.
+// If the charge fails nothing changes (payment_behavior: error_if_incomplete).
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import type Stripe from 'npm:stripe@17.7.0'
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1'
+import { createStripeClient } from '../_shared/stripeClient.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Subscriptions that can be moved to another plan
+const UPGRADEABLE_STATUSES = new Set(['active', 'trialing'])
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const monthlyPrice = Deno.env.get('STRIPE_PRICE_MONTHLY')
+    const yearlyPrice = Deno.env.get('STRIPE_PRICE_YEARLY')
+
+    if (!stripeSecret || !supabaseUrl || !supabaseServiceKey || !monthlyPrice || !yearlyPrice) {
+      console.error('[upgrade] Missing required environment variables')
+      return json({ error: 'Server configuration error' }, 500)
+    }
+
+    const stripe = createStripeClient(stripeSecret)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get authenticated user
+    const authHeader = req.headers.get('authorization')
+    if (!authHeader) {
+      return json({ error: 'Authentication required' }, 401)
+    }
+
+    const jwt = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(jwt)
+
+    if (userError || !user) {
+      console.error('[upgrade] Auth error:', userError)
+      return json({ error: 'Invalid authentication' }, 401)
+    }
+
+    const { data: customer, error: customerError } = await supabase
+      .from('stripe_customers')
+      .select('customer_id')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (customerError || !customer?.customer_id) {
+      console.error('[upgrade] No customer found:', customerError)
+      return json({ error: 'No billing account found. Please subscribe first.' }, 404)
+    }
+    const customerId: string = customer.customer_id
+
+    // Stripe, not the mirror table, decides what is being changed
+    const list = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 10 })
+    const subscription = list.data.find((s) => UPGRADEABLE_STATUSES.has(s.status))
+    if (!subscription) {
+      return json({ error: 'No active subscription to upgrade' }, 404)
+    }
+
+    const item = subscription.items.data[0]
+    if (item?.price?.id === yearlyPrice) {
+      return json({ error: 'You are already on the yearly plan' }, 409)
+    }
+    if (item?.price?.id !== monthlyPrice) {
+      console.error('[upgrade] Unexpected price on', subscription.id, item?.price?.id)
+      return json({ error: 'This subscription cannot be upgraded here. Please use the billing portal.' }, 409)
+    }
+    if (subscription.cancel_at_period_end) {
+      return json({ error: 'Your subscription is set to cancel. Resume it in the billing portal before upgrading.' }, 409)
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const now = Math.floor(Date.now() / 1000)
+
+    // Keep the preview's proration instant so the charge matches what was shown;
+    // anything outside the current period falls back to now
+    const requested = Number(body?.prorationDate)
+    const prorationDate =
+      Number.isInteger(requested) && requested >= subscription.current_period_start && requested <= now
+        ? requested
+        : now
+
+    const items = [{ id: item.id, price: yearlyPrice }]
+
+    if (body?.confirm !== true) {
+      const preview = await stripe.invoices.createPreview({
+        customer: customerId,
+        subscription: subscription.id,
+        subscription_details: {
+          items,
+          proration_behavior: 'always_invoice',
+          proration_date: prorationDate,
+        },
+      })
+
+      console.log(`[upgrade] Preview for ${subscription.id}: ${preview.amount_due} ${preview.currency}`)
+
+      return json({
+        preview: {
+          prorationDate,
+          amountDue: preview.amount_due,
+          currency: preview.currency,
+          // Negative amounts are the credit for unused monthly time
+          lines: preview.lines.data.map((line) => ({
+            description: line.description,
+            amount: line.amount,
+            proration: line.proration,
+          })),
+          currentPeriodEnd: subscription.current_period_end,
+        },
+      }, 200)
+    }
+
+    let updated: Stripe.Subscription
+    try {
+      updated = await stripe.subscriptions.update(subscription.id, {
+        items,
+        proration_behavior: 'always_invoice',
+        proration_date: prorationDate,
+        payment_behavior: 'error_if_incomplete',
+      })
+    } catch (stripeError: any) {
+      console.error('[upgrade] Upgrade failed:', stripeError)
+      return json({ error: stripeError.message || 'Payment for the upgrade failed' }, 402)
+    }
+
+    console.log(`[upgrade] ${subscription.id} upgraded to yearly for ${user.id}`)
+
+    // Mirror now so the app sees the yearly plan before the webhook lands; the
+    // webhook re-syncs the same row from Stripe afterwards
+    const { error: mirrorError } = await supabase
+      .from('stripe_subscriptions')
+      .upsert(
+        {
+          customer_id: customerId,
+          subscription_id: updated.id,
+          price_id: updated.items.data[0]?.price?.id ?? yearlyPrice,
+          current_period_start: updated.current_period_start,
+          current_period_end: updated.current_period_end,
+          cancel_at_period_end: updated.cancel_at_period_end,
+          trial_end: updated.trial_end,
+          status: updated.status,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'customer_id' },
+      )
+
+    if (mirrorError) {
+      console.error('[upgrade] Mirror update failed (webhook will catch up):', mirrorError)
+    }
+
+    return json({
+      subscription: {
+        id: updated.id,
+        status: updated.status,
+        priceId: updated.items.data[0]?.price?.id ?? yearlyPrice,
+        plan: 'yearly',
+        currentPeriodEnd: updated.current_period_end,
+      },
+    }, 200)
+  } catch (error: any) {
+    console.error('[upgrade] Error:', error)
+    return json({ error: error.message || 'Upgrade failed' }, 500)
+  }
+})
@@ -0,0 +1,405 @@
+// End-to-end billing flows against the local stack: stripe-checkout,
+// stripe-portal, stripe-upgrade, stripe-status and stripe-webhook running under
+// `supabase functions serve`, with local Postgres behind them and the Stripe
+// fake (../_shared/stripeFake.ts) standing in for Stripe. Each flow drives the
+// fake the way a customer would, lets its signed webhooks reach stripe-webhook,
+// then checks the mirror tables and what stripe-status reports.
+//
+// Setup: README-DEBUG.md ("Billing Without Live Stripe"); the variables come
+// from supabase/functions/.env (copied from .env.example). Run with `npm test`.
+//
+// The suite resets the fake's state file and works with throwaway
+// e2e+…@example.com members, which it deletes again after each flow.
+import { assert, assertEquals, assertExists } from 'jsr:@std/assert@1';
+import { fromFileUrl } from 'jsr:@std/path@1';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { FakeStripe, signWebhookPayload } from '../_shared/stripeFake.ts';
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set (see README-DEBUG.md)`);
+  return value;
+}
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || 'http://127.0.0.1:54321';
+const FUNCTIONS_URL = `${SUPABASE_URL}/functions/v1`;
+const ANON_KEY = requireEnv('SUPABASE_ANON_KEY');
+const SERVICE_ROLE_KEY = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+const WEBHOOK_SECRET = requireEnv('STRIPE_WEBHOOK_SECRET');
+const PRICE_MONTHLY = requireEnv('STRIPE_PRICE_MONTHLY');
+const PRICE_YEARLY = requireEnv('STRIPE_PRICE_YEARLY');
+
+if (Deno.env.get('STRIPE_FAKE') !== 'true') {
+  throw new Error('STRIPE_FAKE=true is required: the suite must never talk to real Stripe');
+}
+
+// The env file's webhook URL and state path are for the functions container,
+// which mounts supabase/functions at /home/deno/functions; from here the fake
+// delivers straight to the served function and uses the same file on the host
+Deno.env.set('STRIPE_FAKE_WEBHOOK_URL', `${FUNCTIONS_URL}/stripe-webhook`);
+Deno.env.set('STRIPE_FAKE_STATE', fromFileUrl(new URL('../.stripe-fake.json', import.meta.url)));
+
+const stripe = new FakeStripe();
+const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+// ───────────────────────────── Helpers ─────────────────────────────
+
+interface Member {
+  id: string;
+  email: string;
+  jwt: string;
+}
+
+const created: string[] = [];
+
+async function newMember(): Promise<Member> {
+  const email = `e2e+${crypto.randomUUID()}@example.com`;
+  const password = crypto.randomUUID();
+  const { data, error } = await admin.auth.admin.createUser({ email, password, email_confirm: true });
+  if (error || !data.user) throw new Error(`Failed to create member: ${error?.message}`);
+  created.push(data.user.id);
+
+  const client = createClient(SUPABASE_URL, ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data: signIn, error: signInError } = await client.auth.signInWithPassword({ email, password });
+  if (signInError || !signIn.session) throw new Error(`Failed to sign in: ${signInError?.message}`);
+  return { id: data.user.id, email, jwt: signIn.session.access_token };
+}
+
+// Children before parents, as in delete-account
+async function removeMembers() {
+  for (const userId of created.splice(0)) {
+    const { data: customers } = await admin.from('stripe_customers').select('customer_id').eq('user_id', userId);
+    const customerIds = (customers ?? []).map((c: { customer_id: string }) => c.customer_id);
+
+    // Later flows move the clock; don't keep billing this member
+    for (const customer of customerIds) {
+      const { data: subscriptions } = await stripe.subscriptions.list({ customer, status: 'all' });
+      for (const subscription of subscriptions) {
+        if (subscription.status !== 'canceled') await stripe.subscriptions.cancel(subscription.id);
+      }
+    }
+
+    const steps: Array<[string, string, string[]]> = [
+      ['billing_notifications', 'user_id', [userId]],
+      ['billing_dunning', 'user_id', [userId]],
+      ['stripe_subscriptions', 'customer_id', customerIds],
+      ['stripe_customers', 'user_id', [userId]],
+      ['user_profiles', 'user_id', [userId]],
+    ];
+    for (const [table, column, values] of steps) {
+      if (!values.length) continue;
+      const { error } = await admin.from(table).delete().in(column, values);
+      if (error) console.warn(`⚠️ [e2e] Cleanup of ${table} failed: ${error.message}`);
+    }
+    const { error } = await admin.auth.admin.deleteUser(userId);
+    if (error) console.warn(`⚠️ [e2e] Failed to delete ${userId}: ${error.message}`);
+  }
+}
+
+async function callFunction(name: string, member: Member, body: unknown = {}) {
+  const res = await fetch(`${FUNCTIONS_URL}/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${member.jwt}`,
+      apikey: ANON_KEY,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function subscriptionStatus(member: Member) {
+  const { status, body } = await callFunction('stripe-status', member);
+  assertEquals(status, 200);
+  return body;
+}
+
+/** Subscribe through stripe-checkout, then pay on the (fake) hosted page. */
+async function subscribe(member: Member, priceId = PRICE_MONTHLY) {
+  const checkout = await callFunction('stripe-checkout', member, { priceId, mode: 'subscription' });
+  assertEquals(checkout.status, 200, JSON.stringify(checkout.body));
+  assertExists(checkout.body.sessionId);
+
+  const session = await stripe.completeCheckout(checkout.body.sessionId);
+  await assertEventsHandled();
+  return {
+    checkout: checkout.body,
+    customerId: session.customer as string,
+    subscriptionId: session.subscription as string,
+  };
+}
+
+async function mirrorFor(customerId: string) {
+  const { data, error } = await admin
+    .from('stripe_subscriptions')
+    .select('*')
+    .eq('customer_id', customerId)
+    .single();
+  if (error) throw new Error(`Mirror lookup failed: ${error.message}`);
+  return data;
+}
+
+async function invoicesFor(customerId: string) {
+  const state = await stripe.dump();
+  return Object.values(state.invoices)
+    .filter((invoice: any) => invoice.customer === customerId)
+    .sort((a: any, b: any) => a.id.localeCompare(b.id));
+}
+
+/** Every event the fake has sent was handled (or knowingly ignored) by stripe-webhook. */
+async function assertEventsHandled() {
+  const state = await stripe.dump();
+  const ids = Object.keys(state.events);
+  if (!ids.length) return;
+
+  const { data, error } = await admin.from('stripe_events').select('id, status, error').in('id', ids);
+  if (error) throw new Error(`Ledger lookup failed: ${error.message}`);
+  const rows = new Map((data ?? []).map((row: any) => [row.id, row]));
+  for (const id of ids) {
+    const row: any = rows.get(id);
+    assert(
+      row?.status === 'succeeded' || row?.status === 'ignored',
+      `${state.events[id].type} ${id}: ${row ? `${row.status} ${row.error ?? ''}` : 'never reached stripe-webhook'}`,
+    );
+  }
+}
+
+/** Enable a trial for `priceId`; returns a function that puts the old setting back. */
+async function withTrial(priceId: string, trialDays: number) {
+  const { data: previous } = await admin.from('price_trials').select('*').eq('price_id', priceId).maybeSingle();
+  const { error } = await admin
+    .from('price_trials')
+    .upsert({ price_id: priceId, trial_days: trialDays, enabled: true }, { onConflict: 'price_id' });
+  if (error) throw new Error(`Failed to enable trial: ${error.message}`);
+
+  return async () => {
+    const { error: restoreError } = previous
+      ? await admin.from('price_trials').upsert(previous, { onConflict: 'price_id' })
+      : await admin.from('price_trials').delete().eq('price_id', priceId);
+    if (restoreError) console.warn(`⚠️ [e2e] Failed to restore price_trials: ${restoreError.message}`);
+  };
+}
+
+// supabase-js keeps timers and connections around between calls
+function flow(name: string, fn: () => Promise<void>) {
+  Deno.test({
+    name,
+    sanitizeOps: false,
+    sanitizeResources: false,
+    fn: async () => {
+      try {
+        await fn();
+      } finally {
+        await removeMembers();
+      }
+    },
+  });
+}
+
+await stripe.reset();
+
+// ───────────────────────────── Flows ─────────────────────────────
+
+flow('trial: starts without a charge and converts when it ends', async () => {
+  const restoreTrial = await withTrial(PRICE_MONTHLY, 7);
+  try {
+    const member = await newMember();
+    const { checkout, customerId } = await subscribe(member);
+    assertEquals(checkout.trialDays, 7);
+
+    const trialing = await subscriptionStatus(member);
+    assertEquals(trialing.active, true);
+    assertEquals(trialing.status, 'trialing');
+    assertEquals(trialing.trial?.amount_after, 800);
+    assertEquals((await mirrorFor(customerId)).status, 'trialing');
+
+    await stripe.advance(8);
+    await assertEventsHandled();
+
+    const converted = await subscriptionStatus(member);
+    assertEquals(converted.active, true);
+    assertEquals(converted.status, 'active');
+    assertEquals(converted.trial, undefined);
+    assertEquals(
+      (await invoicesFor(customerId)).map((invoice: any) => [invoice.status, invoice.amount_paid]),
+      [['paid', 0], ['paid', 800]],
+    );
+  } finally {
+    await restoreTrial();
+  }
+});
+
+flow('renewal: charges again and moves the period on', async () => {
+  const member = await newMember();
+  const { customerId } = await subscribe(member);
+  const before = await mirrorFor(customerId);
+  assertEquals(before.status, 'active');
+  assertEquals(before.price_id, PRICE_MONTHLY);
+
+  await stripe.advance(31);
+  await assertEventsHandled();
+
+  const after = await mirrorFor(customerId);
+  assertEquals(after.status, 'active');
+  assertEquals(after.current_period_start, before.current_period_end);
+  assert(after.current_period_end > before.current_period_end);
+  assertEquals(
+    (await invoicesFor(customerId)).map((invoice: any) => [invoice.billing_reason, invoice.amount_paid]),
+    [['subscription_create', 800], ['subscription_cycle', 800]],
+  );
+
+  const status = await subscriptionStatus(member);
+  assertEquals(status.active, true);
+  assertEquals(status.plan, 'monthly');
+  assertEquals(status.current_period_end, after.current_period_end);
+});
+
+flow('failed payment: past due with grace, then recovered on the next retry', async () => {
+  const member = await newMember();
+  const { customerId, subscriptionId } = await subscribe(member);
+
+  await stripe.setFailingPayments(customerId, true);
+  await stripe.advance(31);
+  await assertEventsHandled();
+
+  assertEquals((await mirrorFor(customerId)).status, 'past_due');
+  const { data: episode } = await admin
+    .from('billing_dunning')
+    .select('*')
+    .eq('subscription_id', subscriptionId)
+    .single();
+  assertEquals(episode.status, 'open');
+  assertEquals(episode.user_id, member.id);
+  const failedInvoice: any = (await invoicesFor(customerId)).at(-1);
+  assertEquals(episode.invoice_id, failedInvoice.id);
+
+  const pastDue = await subscriptionStatus(member);
+  assertEquals(pastDue.active, true);
+  assertEquals(pastDue.status, 'past_due');
+  assertEquals(pastDue.grace?.expired, false);
+
+  await stripe.setFailingPayments(customerId, false);
+  await stripe.advance(3);
+  await assertEventsHandled();
+
+  assertEquals((await mirrorFor(customerId)).status, 'active');
+  const { data: closed } = await admin
+    .from('billing_dunning')
+    .select('status')
+    .eq('subscription_id', subscriptionId)
+    .single();
+  assertEquals(closed.status, 'recovered');
+
+  const { data: notifications } = await admin
+    .from('billing_notifications')
+    .select('kind')
+    .eq('user_id', member.id);
+  assertEquals((notifications ?? []).map((n: any) => n.kind).sort(), ['payment_failed', 'payment_recovered']);
+
+  const recovered = await subscriptionStatus(member);
+  assertEquals(recovered.active, true);
+  assertEquals(recovered.status, 'active');
+  assertEquals(recovered.grace, undefined);
+});
+
+flow('cancel at period end: portal, then no renewal and access ends', async () => {
+  const member = await newMember();
+
+  const beforeSubscribing = await callFunction('stripe-portal', member, {});
+  assertEquals(beforeSubscribing.status, 404);
+
+  const { customerId, subscriptionId } = await subscribe(member);
+  const returnUrl = 'http://localhost:8081/settings/subscription';
+  const portal = await callFunction('stripe-portal', member, { returnUrl });
+  assertEquals(portal.status, 200);
+  assertEquals(portal.body.url, returnUrl);
+
+  // What the member does in the portal
+  await stripe.setCancelAtPeriodEnd(subscriptionId, true);
+  await assertEventsHandled();
+  const cancelling = await mirrorFor(customerId);
+  assertEquals(cancelling.status, 'active');
+  assertEquals(cancelling.cancel_at_period_end, true);
+
+  // Paid up to the period end, so still subscribed until then
+  const stillPaid = await subscriptionStatus(member);
+  assertEquals(stillPaid.active, true);
+  assertEquals(stillPaid.cancel_at_period_end, true);
+
+  await stripe.advance(31);
+  await assertEventsHandled();
+
+  assertEquals((await mirrorFor(customerId)).status, 'canceled');
+  assertEquals((await invoicesFor(customerId)).length, 1);
+  const ended = await subscriptionStatus(member);
+  assertEquals(ended.active, false);
+});
+
+flow('upgrade to yearly: prorated charge and the yearly plan', async () => {
+  const member = await newMember();
+  const { customerId, subscriptionId } = await subscribe(member);
+  assertEquals((await subscriptionStatus(member)).plan, 'monthly');
+
+  // Same day as the first charge: the whole month comes off the year
+  const preview = await callFunction('stripe-upgrade', member);
+  assertEquals(preview.status, 200, JSON.stringify(preview.body));
+  assertEquals(preview.body.preview.amountDue, 8800 - 800);
+
+  const confirmed = await callFunction('stripe-upgrade', member, {
+    confirm: true,
+    prorationDate: preview.body.preview.prorationDate,
+  });
+  assertEquals(confirmed.status, 200, JSON.stringify(confirmed.body));
+  assertEquals(confirmed.body.subscription.id, subscriptionId);
+  assertEquals(confirmed.body.subscription.plan, 'yearly');
+  await assertEventsHandled();
+
+  const mirror = await mirrorFor(customerId);
+  assertEquals(mirror.price_id, PRICE_YEARLY);
+  assertEquals(mirror.status, 'active');
+
+  // The invoice charged what the preview showed
+  const upgrade: any = (await invoicesFor(customerId)).at(-1);
+  assertEquals(upgrade.billing_reason, 'subscription_update');
+  assertEquals(upgrade.amount_paid, 8800 - 800);
+
+  const status = await subscriptionStatus(member);
+  assertEquals(status.active, true);
+  assertEquals(status.plan, 'yearly');
+  assertEquals(status.price_id, PRICE_YEARLY);
+});
+
+flow('webhook: redelivery is a no-op and bad signatures are refused', async () => {
+  const member = await newMember();
+  const { customerId } = await subscribe(member);
+
+  const state = await stripe.dump();
+  const event: any = Object.values(state.events).find(
+    (e: any) => e.type === 'checkout.session.completed' && e.data.object.customer === customerId,
+  );
+  assertExists(event);
+  const payload = JSON.stringify(event);
+  const post = async (signature: string) => {
+    const res = await fetch(`${FUNCTIONS_URL}/stripe-webhook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+      body: payload,
+    });
+    return { status: res.status, text: await res.text() };
+  };
+
+  const duplicate = await post(await signWebhookPayload(payload, WEBHOOK_SECRET));
+  assertEquals(duplicate.status, 200);
+  assertEquals(JSON.parse(duplicate.text).status, 'duplicate');
+
+  const forged = await post(await signWebhookPayload(payload, 'whsec_not_the_secret'));
+  assertEquals(forged.status, 400);
+
+  const { data: ledger } = await admin.from('stripe_events').select('attempts').eq('id', event.id).single();
+  assertEquals(ledger.attempts, 1);
+});
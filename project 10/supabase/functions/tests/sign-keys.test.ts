@@ -0,0 +1,55 @@
+// The database's `sign_key_for()` (used by the horoscope_cache and
+// user_profiles triggers) must read every label the way the app's
+// `parseSignKey` does, or the two store different keys for the same sign.
+// Runs against local Postgres through the REST API; setup as for
+// billing-e2e.test.ts.
+import { assertEquals } from 'jsr:@std/assert@1';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { ALL_SIGN_KEYS, formatSignKey, parseSignKey } from '../../../utils/signKey.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || 'http://127.0.0.1:54321';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+if (!SERVICE_ROLE_KEY) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set (see README-DEBUG.md)');
+
+const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+const titleCase = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+// Every key in its DB and UI forms, cusps also backwards, plus the spellings
+// old content used and a few that are no sign at all
+const LABELS = [
+  ...ALL_SIGN_KEYS.flatMap((sign) => {
+    const labels = [sign.key, formatSignKey(sign), formatSignKey(sign).toUpperCase()];
+    if (sign.kind === 'cusp') {
+      labels.push(
+        `${sign.to}-${sign.from}`,
+        `${titleCase(sign.to)}–${titleCase(sign.from)} Cusp`,
+        `${titleCase(sign.from)} ${titleCase(sign.to)} cusp of power`,
+        `${titleCase(sign.from)} & ${titleCase(sign.to)} V3`,
+      );
+    }
+    return labels;
+  }),
+  'Aries (pure)',
+  '  leo  ',
+  'Ophiuchus',
+  'aries-gemini',
+  'pisces-aries-taurus',
+  'cusp',
+  '',
+];
+
+Deno.test({
+  name: 'sign_key_for() and parseSignKey agree on every label',
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    for (const label of LABELS) {
+      const { data, error } = await admin.rpc('sign_key_for', { label });
+      if (error) throw new Error(`sign_key_for(${JSON.stringify(label)}) failed: ${error.message}`);
+      assertEquals(data, parseSignKey(label)?.key ?? null, `label ${JSON.stringify(label)}`);
+    }
+  },
+});
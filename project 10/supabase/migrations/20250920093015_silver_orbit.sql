@@ -0,0 +1,25 @@
+/*
+  # Add natal chart column
+
+  1. Schema Changes
+    - Add `natal_chart` (jsonb) to `user_profiles`, stored next to `cusp_result`
+    - Holds planet placements, house cusps (Placidus / Whole Sign) and major aspects
+      computed on the client from the user's birth data
+
+  2. Data Migration
+    - Existing records keep NULL until the profile is next saved from the calculator
+
+  3. Security
+    - Covered by the existing own-row RLS policies on `user_profiles`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'natal_chart'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN natal_chart jsonb;
+    COMMENT ON COLUMN user_profiles.natal_chart IS 'Computed natal chart: planets, houses and aspects (see utils/natalChart.ts)';
+  END IF;
+END $$;
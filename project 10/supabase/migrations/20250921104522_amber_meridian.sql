@@ -0,0 +1,33 @@
+/*
+  # Add birth coordinates to user profiles
+
+  1. Schema Changes
+    - Add `birth_latitude` and `birth_longitude` (double precision) to `user_profiles`
+    - Together with the existing `birth_tz` column these pin the birth instant and
+      let houses / rising sign be calculated without re-geocoding
+
+  2. Data Migration
+    - Existing records keep NULL until the profile is next saved from the calculator
+
+  3. Security
+    - Covered by the existing own-row RLS policies on `user_profiles`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'birth_latitude'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN birth_latitude double precision;
+    COMMENT ON COLUMN user_profiles.birth_latitude IS 'Birth place latitude in degrees (+ north)';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'birth_longitude'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN birth_longitude double precision;
+    COMMENT ON COLUMN user_profiles.birth_longitude IS 'Birth place longitude in degrees (+ east)';
+  END IF;
+END $$;
@@ -0,0 +1,25 @@
+/*
+  # Add birth-time-unknown flag to user profiles
+
+  1. Schema Changes
+    - Add `birth_time_unknown` (boolean, NOT NULL, default false) to `user_profiles`
+    - When true, `birth_time` is NULL and charts are solar charts cast for local noon
+
+  2. Data Migration
+    - Existing rows default to false; profiles saved with the old "12:00" placeholder
+      keep it until the user ticks "I don't know my birth time"
+
+  3. Security
+    - Covered by the existing own-row RLS policies on `user_profiles`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'birth_time_unknown'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN birth_time_unknown boolean NOT NULL DEFAULT false;
+    COMMENT ON COLUMN user_profiles.birth_time_unknown IS 'User does not know their birth time; birth_time is NULL and charts are solar charts';
+  END IF;
+END $$;
@@ -0,0 +1,27 @@
+/*
+  # Store rectified birth time estimates on user profiles
+
+  1. Schema Changes
+    - Add `birth_time_estimate` (jsonb) to `user_profiles`
+    - Holds the rising-sign window picked in the rectification assistant:
+      { time, sign, start, end, confidence, rectifiedAt }
+    - Only meaningful while `birth_time_unknown` is true; charts are then cast for
+      `time` and shown as an estimate
+
+  2. Data Migration
+    - None; existing rows stay NULL
+
+  3. Security
+    - Covered by the existing own-row RLS policies on `user_profiles`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'birth_time_estimate'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN birth_time_estimate jsonb;
+    COMMENT ON COLUMN user_profiles.birth_time_estimate IS 'Rectified birth time for time-unknown births: window, estimated local time and confidence (0..1)';
+  END IF;
+END $$;
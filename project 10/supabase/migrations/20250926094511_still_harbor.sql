@@ -0,0 +1,45 @@
+/*
+  # Account deletion tombstones
+
+  1. New Tables
+    - `account_deletions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - the deleted auth user; no foreign key, the user is gone
+      - `email_hash` (text) - SHA-256 of the lower-cased email, so repeat
+        deletions or support requests can be matched without keeping the address
+      - `stripe_customer_id` (text, nullable)
+      - `cancelled_subscriptions` (text[]) - Stripe subscription ids cancelled
+      - `deleted_rows` (jsonb) - rows removed per table, e.g. { "user_profiles": 1 }
+      - `requested_at` (timestamptz) - when the delete-account function started
+      - `deleted_at` (timestamptz)
+
+  2. Data Migration
+    - None
+
+  3. Security
+    - Enable RLS with no client policies; only the `delete-account` edge
+      function (service role) writes here
+*/
+
+CREATE TABLE IF NOT EXISTS account_deletions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  email_hash text,
+  stripe_customer_id text,
+  cancelled_subscriptions text[] NOT NULL DEFAULT '{}',
+  deleted_rows jsonb NOT NULL DEFAULT '{}'::jsonb,
+  requested_at timestamptz NOT NULL,
+  deleted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS account_deletions_user_id_idx ON account_deletions (user_id);
+CREATE INDEX IF NOT EXISTS account_deletions_email_hash_idx ON account_deletions (email_hash);
+
+ALTER TABLE account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage account deletions"
+  ON account_deletions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,47 @@
+/*
+  # Personal data export log
+
+  1. New Tables
+    - `data_exports`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, cascades on account deletion)
+      - `created_at` (timestamptz)
+      - `status` (text) - 'completed' or 'rate_limited'
+      - `sections` (jsonb) - rows exported per section, e.g. { "orders": 2 }
+      - `bytes` (integer) - size of the archive returned
+    - Index on (user_id, created_at) for the rate-limit window
+
+  2. Data Migration
+    - None
+
+  3. Security
+    - Enable RLS
+    - Users can read their own export history
+    - Only the `data-export` edge function (service role) writes rows
+*/
+
+CREATE TABLE IF NOT EXISTS data_exports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  status text NOT NULL CHECK (status IN ('completed', 'rate_limited')),
+  sections jsonb NOT NULL DEFAULT '{}'::jsonb,
+  bytes integer
+);
+
+CREATE INDEX IF NOT EXISTS data_exports_user_created_idx ON data_exports (user_id, created_at DESC);
+
+ALTER TABLE data_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own data exports"
+  ON data_exports
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage data exports"
+  ON data_exports
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,83 @@
+/*
+  # Entitlements: database-backed access grants
+
+  Replaces the SPECIAL_ACCOUNTS email list that shipped in the client bundle
+  (and its copies in stripe-status and scripts/verifyVipAccounts).
+
+  1. New Tables
+    - `entitlements`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, cascades on account deletion)
+      - `kind` (text) - 'comp', 'vip', 'staff', 'gift' or 'promo'
+      - `plan` (text) - plan the grant behaves like: 'monthly' or 'yearly'
+      - `reason` (text, required) - why the grant exists
+      - `granted_by` (text) - who created it (admin email, script, promo code…)
+      - `starts_at` (timestamptz) - defaults to now
+      - `expires_at` (timestamptz, nullable) - NULL means no end date
+      - `revoked_at`, `revoked_by`, `revoke_reason` - revocation keeps the row
+      - `created_at` (timestamptz)
+
+  2. New Views
+    - `active_entitlements`: grants that have started, not expired and not
+      been revoked (security_invoker, so RLS applies)
+
+  3. Data Migration
+    - None. Member addresses stay out of the repository: grant the accounts
+      from the old list with scripts/manageEntitlements.ts, reading them from
+      a file kept outside it, e.g.
+        while read -r email; do
+          npx ts-node scripts/manageEntitlements.ts --email="$email" --grant=vip \
+            --reason="Migrated from the SPECIAL_ACCOUNTS list"
+        done < vip-emails.txt
+
+  4. Security
+    - Enable RLS
+    - Users can read their own grants
+    - Only the service role (edge functions, admin scripts) can write
+*/
+
+CREATE TABLE IF NOT EXISTS entitlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('comp', 'vip', 'staff', 'gift', 'promo')),
+  plan text NOT NULL DEFAULT 'yearly' CHECK (plan IN ('monthly', 'yearly')),
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  granted_by text,
+  starts_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  revoked_by text,
+  revoke_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (expires_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS entitlements_user_id_idx
+  ON entitlements (user_id)
+  WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE entitlements IS 'Access grants outside Stripe (comp, VIP, staff, gift, promo); time-limited via expires_at, revocable via revoked_at';
+
+CREATE OR REPLACE VIEW active_entitlements WITH (security_invoker = true) AS
+SELECT *
+FROM entitlements
+WHERE revoked_at IS NULL
+  AND starts_at <= now()
+  AND (expires_at IS NULL OR expires_at > now());
+
+GRANT SELECT ON active_entitlements TO authenticated;
+
+ALTER TABLE entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own entitlements"
+  ON entitlements
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage entitlements"
+  ON entitlements
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,47 @@
+/*
+  # Align has_active_subscription() with the entitlement resolver
+
+  `has_active_subscription(uuid)` only looked at the legacy `user_subscriptions`
+  table, so SQL-side checks disagreed with the app (Stripe mirror + grants).
+  It now answers the same question as the `get-entitlements` edge function does
+  for subscription-level access.
+
+  1. Schema Changes
+    - Replace `has_active_subscription(user_uuid uuid)`; true when any of:
+      - an active entitlement grant (`active_entitlements`)
+      - a Stripe subscription in 'active', 'trialing' or 'past_due' whose
+        current period hasn't ended
+      - a legacy `user_subscriptions` row that is active and unexpired
+
+  2. Data Migration
+    - None
+
+  3. Security
+    - SECURITY DEFINER as before, with a pinned search_path
+*/
+
+CREATE OR REPLACE FUNCTION has_active_subscription(user_uuid uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM active_entitlements
+    WHERE user_id = user_uuid
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM stripe_customers c
+    JOIN stripe_subscriptions s ON s.customer_id = c.customer_id
+    WHERE c.user_id = user_uuid
+      AND c.deleted_at IS NULL
+      AND s.deleted_at IS NULL
+      AND s.status IN ('active', 'trialing', 'past_due')
+      AND (s.current_period_end IS NULL OR s.current_period_end > extract(epoch FROM now()))
+  )
+  OR EXISTS (
+    SELECT 1 FROM user_subscriptions
+    WHERE user_id = user_uuid
+      AND status = 'active'
+      AND current_period_end > now()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
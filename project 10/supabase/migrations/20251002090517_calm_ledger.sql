@@ -0,0 +1,68 @@
+/*
+  # Stripe event ledger
+
+  Every webhook delivery is recorded before it is handled, so duplicates are
+  skipped, failures are kept with their error, and failed or lost events can be
+  replayed (stripe-replay-events).
+
+  1. New Tables
+    - `stripe_events`
+      - `id` (text, primary key) - Stripe event id (evt_…)
+      - `type` (text) - e.g. 'checkout.session.completed'
+      - `livemode` (boolean)
+      - `status` (text) - 'processing', 'succeeded', 'ignored' (no handler) or 'failed'
+      - `attempts` (integer) - processing attempts, webhook and replay
+      - `error` (text) - last failure message
+      - `payload` (jsonb) - the event as received
+      - `stripe_created_at` (timestamptz) - when Stripe created the event
+      - `received_at`, `last_attempt_at`, `processed_at` (timestamptz)
+      - `replayed_by` (text) - who triggered the last replay, if any
+
+  2. Schema Changes
+    - `stripe_orders.checkout_session_id` becomes unique so recording an order
+      is idempotent (duplicate rows from earlier webhook retries are removed,
+      keeping the first)
+
+  3. Security
+    - Enable RLS on `stripe_events` with service role access only
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  livemode boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'succeeded', 'ignored', 'failed')),
+  attempts integer NOT NULL DEFAULT 1,
+  error text,
+  payload jsonb NOT NULL,
+  stripe_created_at timestamptz,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz,
+  replayed_by text
+);
+
+CREATE INDEX IF NOT EXISTS stripe_events_status_idx
+  ON stripe_events (status, received_at)
+  WHERE status IN ('processing', 'failed');
+
+CREATE INDEX IF NOT EXISTS stripe_events_type_created_idx
+  ON stripe_events (type, stripe_created_at DESC);
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage stripe events"
+  ON stripe_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Orders: one row per checkout session
+DELETE FROM stripe_orders o
+USING stripe_orders keep
+WHERE o.checkout_session_id = keep.checkout_session_id
+  AND o.id > keep.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS stripe_orders_checkout_session_id_key
+  ON stripe_orders (checkout_session_id);
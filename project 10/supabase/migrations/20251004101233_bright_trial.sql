@@ -0,0 +1,177 @@
+/*
+  # Trials, promo codes and referral credits
+
+  stripe-checkout now starts a free trial when the price has one configured
+  (first subscription only) and accepts a code entered in the app: either a
+  Stripe promotion code or a member's referral code. Referral credits are paid
+  out by the webhook once the referred member's first invoice is paid.
+
+  1. New Tables
+    - `price_trials`
+      - `price_id` (text, primary key) - Stripe price id
+      - `trial_days` (integer) - 1 to 90
+      - `enabled` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `referral_codes`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `code` (text, unique) - what the member shares
+      - `created_at` (timestamptz)
+    - `referrals`
+      - `id` (uuid, primary key)
+      - `referrer_id` (uuid, references auth.users, nulled on account deletion)
+      - `referred_user_id` (uuid, unique, references auth.users) - one referral per member
+      - `code` (text) - the code used
+      - `status` (text) - 'pending', 'credited' or 'void'
+      - `credit_amount` (integer) - cents credited to each side
+      - `currency` (text)
+      - `checkout_session_id` (text)
+      - `credited_at`, `created_at` (timestamptz)
+
+  2. Schema Changes
+    - `stripe_subscriptions.trial_end` (bigint, epoch seconds), also exposed
+      through `stripe_user_subscriptions`
+    - `get_my_referral_code()` returns the caller's referral code, creating it
+      on first use
+
+  3. Security
+    - RLS on all new tables
+    - Enabled trials are readable by everyone (shown on the plan cards)
+    - Members can read their own referral code and the referrals they made
+    - Writes go through the service role (edge functions) or
+      `get_my_referral_code()`
+*/
+
+CREATE TABLE IF NOT EXISTS price_trials (
+  price_id text PRIMARY KEY,
+  trial_days integer NOT NULL CHECK (trial_days BETWEEN 1 AND 90),
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE price_trials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view enabled trials"
+  ON price_trials
+  FOR SELECT
+  TO anon, authenticated
+  USING (enabled);
+
+CREATE POLICY "Service role can manage price trials"
+  ON price_trials
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS referral_codes (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE CHECK (code = upper(code)),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE referral_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own referral code"
+  ON referral_codes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage referral codes"
+  ON referral_codes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS referrals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  referred_user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'credited', 'void')),
+  credit_amount integer,
+  currency text,
+  checkout_session_id text,
+  credited_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (referrer_id IS NULL OR referrer_id <> referred_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS referrals_referrer_id_idx
+  ON referrals (referrer_id);
+
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view referrals they made"
+  ON referrals
+  FOR SELECT
+  TO authenticated
+  USING (referrer_id = auth.uid());
+
+CREATE POLICY "Service role can manage referrals"
+  ON referrals
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Trial end on the mirror, so the app can count down without asking Stripe
+ALTER TABLE stripe_subscriptions
+  ADD COLUMN IF NOT EXISTS trial_end bigint DEFAULT NULL;
+
+CREATE OR REPLACE VIEW stripe_user_subscriptions WITH (security_invoker = true) AS
+SELECT
+    c.customer_id,
+    s.subscription_id,
+    s.status as subscription_status,
+    s.price_id,
+    s.current_period_start,
+    s.current_period_end,
+    s.cancel_at_period_end,
+    s.payment_method_brand,
+    s.payment_method_last4,
+    s.trial_end
+FROM stripe_customers c
+LEFT JOIN stripe_subscriptions s ON c.customer_id = s.customer_id
+WHERE c.user_id = auth.uid()
+AND c.deleted_at IS NULL
+AND s.deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION get_my_referral_code()
+RETURNS text AS $$
+DECLARE
+  uid uuid := auth.uid();
+  existing text;
+  candidate text;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT code INTO existing FROM referral_codes WHERE user_id = uid;
+  IF existing IS NOT NULL THEN
+    RETURN existing;
+  END IF;
+
+  -- 8 characters without look-alikes (0/O, 1/I); retry on the rare collision
+  LOOP
+    SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::int, 1), '')
+      INTO candidate
+      FROM generate_series(1, 8);
+    BEGIN
+      INSERT INTO referral_codes (user_id, code) VALUES (uid, candidate);
+      RETURN candidate;
+    EXCEPTION WHEN unique_violation THEN
+      -- Another request created this user's code first
+      SELECT code INTO existing FROM referral_codes WHERE user_id = uid;
+      IF existing IS NOT NULL THEN
+        RETURN existing;
+      END IF;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_my_referral_code() TO authenticated;
@@ -0,0 +1,163 @@
+/*
+  # Gift subscriptions and gift readings
+
+  A member can pay for a 1, 3 or 12 month subscription or a one-off cusp
+  reading for someone else. stripe-checkout takes the gift details, the webhook
+  issues a code once the payment is in, and the recipient redeems the code in
+  the app. Redeeming a subscription gift creates a time-limited 'gift'
+  entitlement; redeeming a reading gift unlocks the cusp reading for good
+  (resolved by get-entitlements).
+
+  1. New Tables
+    - `gift_codes`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - what the buyer passes on, e.g. GIFT-7KQ2-MX4P
+      - `product` (text) - 'subscription' or 'cusp_reading'
+      - `months` (integer) - 1, 3 or 12 for subscriptions, NULL for readings
+      - `purchaser_id` (uuid, references auth.users, nulled on account deletion)
+      - `checkout_session_id` (text, unique) - one code per paid checkout
+      - `amount_total` (integer), `currency` (text)
+      - `recipient_name`, `recipient_email`, `message` (text, optional)
+      - `status` (text) - 'issued', 'redeemed' or 'void'
+      - `redeemed_by` (uuid, references auth.users, nulled on account deletion)
+      - `redeemed_at` (timestamptz)
+      - `entitlement_id` (uuid, references entitlements) - the grant it created
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - `generate_gift_code()` produces new codes (column default)
+    - `redeem_gift_code(gift_code text)` redeems a code for the caller
+
+  3. Security
+    - RLS on `gift_codes`
+    - Buyers can read the gifts they bought, recipients the ones they redeemed
+    - Codes are issued by the service role (stripe-webhook) and redeemed only
+      through `redeem_gift_code()`
+*/
+
+CREATE OR REPLACE FUNCTION generate_gift_code()
+RETURNS text AS $$
+  -- Same alphabet as referral codes: no look-alikes (0/O, 1/I)
+  SELECT 'GIFT-' || string_agg(
+    substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::int, 1)
+      || CASE WHEN i = 4 THEN '-' ELSE '' END,
+    ''
+    ORDER BY i
+  )
+  FROM generate_series(1, 8) AS i;
+$$ LANGUAGE sql VOLATILE;
+
+CREATE TABLE IF NOT EXISTS gift_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE DEFAULT generate_gift_code() CHECK (code = upper(code)),
+  product text NOT NULL CHECK (product IN ('subscription', 'cusp_reading')),
+  months integer CHECK (months IN (1, 3, 12)),
+  purchaser_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  checkout_session_id text NOT NULL UNIQUE,
+  amount_total integer,
+  currency text,
+  recipient_name text,
+  recipient_email text,
+  message text,
+  status text NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'redeemed', 'void')),
+  redeemed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  redeemed_at timestamptz,
+  entitlement_id uuid REFERENCES entitlements(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((product = 'subscription') = (months IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS gift_codes_purchaser_id_idx
+  ON gift_codes (purchaser_id);
+
+CREATE INDEX IF NOT EXISTS gift_codes_redeemed_by_idx
+  ON gift_codes (redeemed_by);
+
+ALTER TABLE gift_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view gifts they bought"
+  ON gift_codes
+  FOR SELECT
+  TO authenticated
+  USING (purchaser_id = auth.uid());
+
+CREATE POLICY "Users can view gifts they redeemed"
+  ON gift_codes
+  FOR SELECT
+  TO authenticated
+  USING (redeemed_by = auth.uid());
+
+CREATE POLICY "Service role can manage gift codes"
+  ON gift_codes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Redeem a code for the signed-in member. Subscription gifts become a 'gift'
+-- entitlement; a member redeeming several gifts gets them back to back.
+CREATE OR REPLACE FUNCTION redeem_gift_code(gift_code text)
+RETURNS jsonb AS $$
+DECLARE
+  uid uuid := auth.uid();
+  gift gift_codes%ROWTYPE;
+  start_at timestamptz := now();
+  grant_id uuid;
+  grant_expires timestamptz;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the row so two redemptions of the same code can't both succeed
+  SELECT * INTO gift
+  FROM gift_codes
+  WHERE code = upper(trim(gift_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR gift.status = 'void' THEN
+    RAISE EXCEPTION 'That gift code isn''t valid';
+  END IF;
+  IF gift.status = 'redeemed' THEN
+    RAISE EXCEPTION 'This gift code has already been redeemed';
+  END IF;
+
+  IF gift.product = 'subscription' THEN
+    SELECT greatest(now(), max(expires_at)) INTO start_at
+    FROM entitlements
+    WHERE user_id = uid
+      AND kind = 'gift'
+      AND revoked_at IS NULL
+      AND expires_at > now();
+    grant_expires := start_at + make_interval(months => gift.months);
+
+    INSERT INTO entitlements (user_id, kind, plan, reason, granted_by, starts_at, expires_at)
+    VALUES (
+      uid,
+      'gift',
+      CASE WHEN gift.months = 12 THEN 'yearly' ELSE 'monthly' END,
+      format('Gift subscription (%s months), code %s', gift.months, gift.code),
+      'gift:' || gift.id,
+      start_at,
+      grant_expires
+    )
+    RETURNING id INTO grant_id;
+  END IF;
+
+  UPDATE gift_codes
+  SET status = 'redeemed',
+      redeemed_by = uid,
+      redeemed_at = now(),
+      entitlement_id = grant_id
+  WHERE id = gift.id;
+
+  RETURN jsonb_build_object(
+    'product', gift.product,
+    'months', gift.months,
+    'starts_at', CASE WHEN grant_id IS NULL THEN NULL ELSE start_at END,
+    'expires_at', grant_expires
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION redeem_gift_code(text) TO authenticated;
@@ -0,0 +1,149 @@
+/*
+  # Dunning: grace period, retries and downgrade for failed payments
+
+  A failed renewal used to leave access depending on which check ran. A
+  subscription whose payment fails now enters dunning: access continues for a
+  grace period (BILLING_GRACE_DAYS, default 7), the billing-dunning job retries
+  the invoice on a schedule (BILLING_RETRY_DAYS, default 1,3,5 days after the
+  first failure) and cancels the subscription when the grace period runs out.
+  A notification is queued at each stage for whatever sends email or push.
+
+  1. New Tables
+    - `billing_dunning` - one row per subscription, reused for each episode
+      - `subscription_id` (text, primary key)
+      - `customer_id` (text)
+      - `user_id` (uuid, references auth.users)
+      - `invoice_id` (text) - the unpaid invoice the job retries
+      - `status` (text) - 'open', 'recovered' or 'downgraded'
+      - `failed_at` (timestamptz) - first failure of this episode
+      - `grace_ends_at` (timestamptz) - access stops after this
+      - `retry_count` (integer) - retries made by billing-dunning
+      - `next_retry_at` (timestamptz) - NULL once the schedule is used up
+      - `reminded_at` (timestamptz) - when the grace-ending reminder was queued
+      - `resolved_at`, `created_at`, `updated_at` (timestamptz)
+    - `billing_notifications` - outbox of messages to send
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `kind` (text) - 'payment_failed', 'payment_retry_failed',
+        'grace_ending', 'downgraded' or 'payment_recovered'
+      - `channel` (text) - 'email' or 'push'
+      - `payload` (jsonb) - amounts, dates and ids for the template
+      - `dedupe_key` (text, unique) - one message per stage and episode
+      - `status` (text) - 'queued', 'sent' or 'failed'
+      - `created_at`, `sent_at` (timestamptz)
+
+  2. Schema Changes
+    - `has_active_subscription()` stops counting a past_due subscription once
+      its grace period has ended
+
+  3. Security
+    - RLS on both tables
+    - Users can read their own dunning rows and notifications
+    - Writes go through the service role (stripe-webhook, billing-dunning)
+*/
+
+CREATE TABLE IF NOT EXISTS billing_dunning (
+  subscription_id text PRIMARY KEY,
+  customer_id text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_id text NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'recovered', 'downgraded')),
+  failed_at timestamptz NOT NULL,
+  grace_ends_at timestamptz NOT NULL,
+  retry_count integer NOT NULL DEFAULT 0,
+  next_retry_at timestamptz,
+  reminded_at timestamptz,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (grace_ends_at > failed_at)
+);
+
+CREATE INDEX IF NOT EXISTS billing_dunning_open_idx
+  ON billing_dunning (grace_ends_at)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS billing_dunning_user_id_idx
+  ON billing_dunning (user_id);
+
+ALTER TABLE billing_dunning ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own dunning status"
+  ON billing_dunning
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage dunning"
+  ON billing_dunning
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS billing_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('payment_failed', 'payment_retry_failed', 'grace_ending', 'downgraded', 'payment_recovered')),
+  channel text NOT NULL DEFAULT 'email' CHECK (channel IN ('email', 'push')),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS billing_notifications_queued_idx
+  ON billing_notifications (created_at)
+  WHERE status = 'queued';
+
+ALTER TABLE billing_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own billing notifications"
+  ON billing_notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage billing notifications"
+  ON billing_notifications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION has_active_subscription(user_uuid uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM active_entitlements
+    WHERE user_id = user_uuid
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM stripe_customers c
+    JOIN stripe_subscriptions s ON s.customer_id = c.customer_id
+    WHERE c.user_id = user_uuid
+      AND c.deleted_at IS NULL
+      AND s.deleted_at IS NULL
+      AND s.status IN ('active', 'trialing', 'past_due')
+      AND (s.current_period_end IS NULL OR s.current_period_end > extract(epoch FROM now()))
+      -- past_due keeps access only while its grace period runs
+      AND NOT (
+        s.status = 'past_due'
+        AND EXISTS (
+          SELECT 1 FROM billing_dunning d
+          WHERE d.subscription_id = s.subscription_id
+            AND d.status = 'open'
+            AND d.grace_ends_at <= now()
+        )
+      )
+  )
+  OR EXISTS (
+    SELECT 1 FROM user_subscriptions
+    WHERE user_id = user_uuid
+      AND status = 'active'
+      AND current_period_end > now()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,124 @@
+/*
+  # Horoscope authoring: editorial entries and canonical sign keys
+
+  Daily and monthly copy used to arrive in `horoscope_cache` and
+  `monthly_forecasts` from outside the app, with whatever sign spelling the
+  source used. Editors now draft, schedule and publish it through the
+  horoscope-admin edge function. An entry is written here first and copied into
+  the live table when it is published, so a draft or a scheduled entry is never
+  visible to members.
+
+  1. New Tables
+    - `horoscope_sign_keys` - the 24 canonical sign keys
+      - `key` (text, primary key) - 'aries', ..., 'aries-taurus', ...
+      - `label` (text, unique) - display label, e.g. 'Aries–Taurus Cusp'
+      - `kind` (text) - 'sign' or 'cusp'
+      - `sort_order` (integer) - zodiac order, each cusp after the sign it opens
+    - `horoscope_entries` - one editorial entry per kind, date, sign and hemisphere
+      - `id` (uuid, primary key)
+      - `kind` (text) - 'daily' or 'monthly'
+      - `date` (date) - the day, or the first of the month for monthly entries
+      - `sign_key` (text, references horoscope_sign_keys)
+      - `hemisphere` (text) - 'Northern' or 'Southern'
+      - `daily_horoscope`, `affirmation`, `deeper_insight` (text) - daily copy
+      - `monthly_forecast` (text) - monthly copy
+      - `status` (text) - 'draft', 'scheduled' or 'published'
+      - `publish_at` (timestamptz) - when a scheduled entry goes live
+      - `published_at` (timestamptz)
+      - `created_by`, `updated_by` (uuid, references auth.users, nulled on account deletion)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - RLS on both tables
+    - Anyone can read the sign keys
+    - Entries are only reachable through the service role (horoscope-admin
+      checks for a 'staff' entitlement)
+*/
+
+CREATE TABLE IF NOT EXISTS horoscope_sign_keys (
+  key text PRIMARY KEY CHECK (key ~ '^[a-z]+(-[a-z]+)?$'),
+  label text NOT NULL UNIQUE,
+  kind text NOT NULL CHECK (kind IN ('sign', 'cusp')),
+  sort_order integer NOT NULL UNIQUE
+);
+
+INSERT INTO horoscope_sign_keys (key, label, kind, sort_order) VALUES
+  ('aries',                 'Aries',                       'sign',  1),
+  ('aries-taurus',          'Aries–Taurus Cusp',           'cusp',  2),
+  ('taurus',                'Taurus',                      'sign',  3),
+  ('taurus-gemini',         'Taurus–Gemini Cusp',          'cusp',  4),
+  ('gemini',                'Gemini',                      'sign',  5),
+  ('gemini-cancer',         'Gemini–Cancer Cusp',          'cusp',  6),
+  ('cancer',                'Cancer',                      'sign',  7),
+  ('cancer-leo',            'Cancer–Leo Cusp',             'cusp',  8),
+  ('leo',                   'Leo',                         'sign',  9),
+  ('leo-virgo',             'Leo–Virgo Cusp',              'cusp', 10),
+  ('virgo',                 'Virgo',                       'sign', 11),
+  ('virgo-libra',           'Virgo–Libra Cusp',            'cusp', 12),
+  ('libra',                 'Libra',                       'sign', 13),
+  ('libra-scorpio',         'Libra–Scorpio Cusp',          'cusp', 14),
+  ('scorpio',               'Scorpio',                     'sign', 15),
+  ('scorpio-sagittarius',   'Scorpio–Sagittarius Cusp',    'cusp', 16),
+  ('sagittarius',           'Sagittarius',                 'sign', 17),
+  ('sagittarius-capricorn', 'Sagittarius–Capricorn Cusp',  'cusp', 18),
+  ('capricorn',             'Capricorn',                   'sign', 19),
+  ('capricorn-aquarius',    'Capricorn–Aquarius Cusp',     'cusp', 20),
+  ('aquarius',              'Aquarius',                    'sign', 21),
+  ('aquarius-pisces',       'Aquarius–Pisces Cusp',        'cusp', 22),
+  ('pisces',                'Pisces',                      'sign', 23),
+  ('pisces-aries',          'Pisces–Aries Cusp',           'cusp', 24)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE horoscope_sign_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access for horoscope sign keys"
+  ON horoscope_sign_keys
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Service role can manage horoscope sign keys"
+  ON horoscope_sign_keys
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS horoscope_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('daily', 'monthly')),
+  date date NOT NULL,
+  sign_key text NOT NULL REFERENCES horoscope_sign_keys(key),
+  hemisphere text NOT NULL CHECK (hemisphere IN ('Northern', 'Southern')),
+  daily_horoscope text,
+  affirmation text,
+  deeper_insight text,
+  monthly_forecast text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'published')),
+  publish_at timestamptz,
+  published_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (kind, date, sign_key, hemisphere),
+  CHECK (kind = 'daily' OR extract(day FROM date) = 1),
+  CHECK ((status = 'scheduled') = (publish_at IS NOT NULL)),
+  CHECK (status <> 'published' OR published_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS horoscope_entries_kind_date_idx
+  ON horoscope_entries (kind, date);
+
+CREATE INDEX IF NOT EXISTS horoscope_entries_due_idx
+  ON horoscope_entries (publish_at)
+  WHERE status = 'scheduled';
+
+ALTER TABLE horoscope_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage horoscope entries"
+  ON horoscope_entries
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
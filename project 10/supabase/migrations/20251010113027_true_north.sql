@@ -0,0 +1,149 @@
+/*
+  # Canonical sign keys in horoscope data and profiles
+
+  Sign labels reached the database in many spellings ('Aries–Taurus Cusp',
+  'Aries-Taurus', 'aries-taurus', 'Aries Taurus Cusp', ...) and every reader
+  guessed its way through them. Rows now carry the canonical keys from
+  `horoscope_sign_keys` ('aries', 'aries-taurus', ...); the app parses labels
+  once (utils/signKey.ts) and looks rows up by key.
+
+  1. Schema Changes
+    - `sign_key_for(label text)` maps any known spelling to its canonical key
+      (NULL when it isn't a sign or cusp)
+    - `horoscope_cache.sign` is rewritten to canonical keys. Where several
+      spellings existed for one date and hemisphere, the newest row is kept.
+      New rows are canonicalised by a trigger and must reference
+      `horoscope_sign_keys`
+    - `monthly_forecasts.sign` (where the table exists) is rewritten the same way
+    - `user_profiles.cusp_result` gains `signKey`, and `cuspName` is rewritten
+      to the canonical cusp label. A trigger keeps both in step on every write
+
+  2. Security
+    - No policy changes
+*/
+
+CREATE OR REPLACE FUNCTION sign_key_for(label text)
+RETURNS text AS $$
+  SELECT k.key
+  FROM horoscope_sign_keys k
+  WHERE k.key = trim(BOTH '-' FROM regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(coalesce(label, '')), '\s*v\d+\s*$', ''),  -- " V3" suffixes
+        '\(.*?\)', '', 'g'),                                           -- "(pure)"
+      '\s*cusp.*$', ''),                                               -- "Cusp", "cusp of power"
+    '[^a-z]+', '-', 'g'))                                              -- dashes, spaces, '&'
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- horoscope_cache: drop duplicate spellings, then rewrite to keys
+DELETE FROM horoscope_cache h
+USING (
+  SELECT id,
+         row_number() OVER (
+           PARTITION BY date, sign_key_for(sign), hemisphere
+           ORDER BY created_at DESC NULLS LAST, id
+         ) AS rn
+  FROM horoscope_cache
+  WHERE sign_key_for(sign) IS NOT NULL
+) d
+WHERE h.id = d.id
+  AND d.rn > 1;
+
+UPDATE horoscope_cache
+SET sign = sign_key_for(sign)
+WHERE sign_key_for(sign) IS NOT NULL
+  AND sign <> sign_key_for(sign);
+
+CREATE OR REPLACE FUNCTION canonicalize_horoscope_sign()
+RETURNS trigger AS $$
+BEGIN
+  NEW.sign := coalesce(sign_key_for(NEW.sign), NEW.sign);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS horoscope_cache_canonical_sign ON horoscope_cache;
+CREATE TRIGGER horoscope_cache_canonical_sign
+  BEFORE INSERT OR UPDATE OF sign ON horoscope_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION canonicalize_horoscope_sign();
+
+-- NOT VALID: rows whose label matched no sign are left for review rather than
+-- deleted; every new or changed row is checked
+ALTER TABLE horoscope_cache
+  DROP CONSTRAINT IF EXISTS horoscope_cache_sign_key_fkey;
+ALTER TABLE horoscope_cache
+  ADD CONSTRAINT horoscope_cache_sign_key_fkey
+  FOREIGN KEY (sign) REFERENCES horoscope_sign_keys(key) NOT VALID;
+
+-- monthly_forecasts predates these migrations, so only touch it if it's there
+DO $$
+BEGIN
+  IF to_regclass('public.monthly_forecasts') IS NOT NULL THEN
+    DELETE FROM monthly_forecasts m
+    USING (
+      SELECT ctid,
+             row_number() OVER (
+               PARTITION BY date, sign_key_for(sign), hemisphere
+               -- prefer a row already stored under its key
+               ORDER BY (sign = sign_key_for(sign)) DESC
+             ) AS rn
+      FROM monthly_forecasts
+      WHERE sign_key_for(sign) IS NOT NULL
+    ) d
+    WHERE m.ctid = d.ctid
+      AND d.rn > 1;
+
+    UPDATE monthly_forecasts
+    SET sign = sign_key_for(sign)
+    WHERE sign_key_for(sign) IS NOT NULL
+      AND sign <> sign_key_for(sign);
+  END IF;
+END;
+$$;
+
+-- cusp_result: add the key and use the canonical cusp label
+CREATE OR REPLACE FUNCTION canonical_cusp_result(result jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  k horoscope_sign_keys%ROWTYPE;
+BEGIN
+  IF result IS NULL OR jsonb_typeof(result) <> 'object' THEN
+    RETURN result;
+  END IF;
+
+  SELECT * INTO k
+  FROM horoscope_sign_keys
+  WHERE key = CASE
+    WHEN (result->>'isOnCusp')::boolean THEN sign_key_for(result->>'cuspName')
+    ELSE sign_key_for(result->>'primarySign')
+  END;
+
+  IF NOT FOUND THEN
+    RETURN result;
+  END IF;
+
+  IF k.kind = 'cusp' THEN
+    RETURN result || jsonb_build_object('signKey', k.key, 'cuspName', k.label);
+  END IF;
+  RETURN result || jsonb_build_object('signKey', k.key);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+UPDATE user_profiles
+SET cusp_result = canonical_cusp_result(cusp_result)
+WHERE cusp_result IS DISTINCT FROM canonical_cusp_result(cusp_result);
+
+CREATE OR REPLACE FUNCTION canonicalize_profile_cusp_result()
+RETURNS trigger AS $$
+BEGIN
+  NEW.cusp_result := canonical_cusp_result(NEW.cusp_result);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_profiles_canonical_cusp_result ON user_profiles;
+CREATE TRIGGER user_profiles_canonical_cusp_result
+  BEFORE INSERT OR UPDATE OF cusp_result ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION canonicalize_profile_cusp_result();
@@ -0,0 +1,101 @@
+/*
+  # Horoscope gap detection and backfill
+
+  The horoscope-backfill job checks the coming days of `horoscope_cache`
+  against every sign key in both hemispheres. Each missing row is recorded in
+  `horoscope_gaps` and, unless the job runs in report-only mode, filled from
+  the backfill pipeline so members never get an older day's text in its place.
+  Rows written by editors (horoscope-admin) always win: backfill only inserts
+  where nothing exists, and publishing overwrites a backfilled row.
+
+  1. New Tables
+    - `horoscope_gaps` - one row per missing date, sign and hemisphere
+      - `id` (uuid, primary key)
+      - `date` (date)
+      - `sign` (text, references horoscope_sign_keys)
+      - `hemisphere` (text) - 'Northern' or 'Southern'
+      - `status` (text) - 'open' (reported), 'filled' (by backfill),
+        'resolved' (a row appeared some other way) or 'failed'
+      - `source` (text) - what filled it, e.g. 'template'
+      - `error` (text) - why filling failed
+      - `detected_at`, `resolved_at` (timestamptz)
+    - `horoscope_templates` - editable text the template source fills from
+      - `id` (uuid, primary key)
+      - `field` (text) - 'daily_horoscope', 'affirmation' or 'deeper_insight'
+      - `sign_key` (text, references horoscope_sign_keys) - NULL for any sign
+      - `hemisphere` (text) - NULL for both
+      - `body` (text) - with {sign}, {weekday}, {month}, {season} placeholders
+      - `active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - RLS on both tables, service role only
+*/
+
+CREATE TABLE IF NOT EXISTS horoscope_gaps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date NOT NULL,
+  sign text NOT NULL REFERENCES horoscope_sign_keys(key),
+  hemisphere text NOT NULL CHECK (hemisphere IN ('Northern', 'Southern')),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'resolved', 'failed')),
+  source text,
+  error text,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  UNIQUE (date, sign, hemisphere)
+);
+
+CREATE INDEX IF NOT EXISTS horoscope_gaps_open_idx
+  ON horoscope_gaps (date)
+  WHERE status IN ('open', 'failed');
+
+ALTER TABLE horoscope_gaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage horoscope gaps"
+  ON horoscope_gaps
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS horoscope_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  field text NOT NULL CHECK (field IN ('daily_horoscope', 'affirmation', 'deeper_insight')),
+  sign_key text REFERENCES horoscope_sign_keys(key),
+  hemisphere text CHECK (hemisphere IN ('Northern', 'Southern')),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS horoscope_templates_field_idx
+  ON horoscope_templates (field)
+  WHERE active;
+
+ALTER TABLE horoscope_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage horoscope templates"
+  ON horoscope_templates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Starter set for any sign; add sign- or hemisphere-specific rows to refine
+INSERT INTO horoscope_templates (field, body) VALUES
+  ('daily_horoscope', 'This {weekday} asks {sign} to move at its own pace. Finish one thing properly before starting the next, and let the rest of the {season} week arrange itself around it.'),
+  ('daily_horoscope', 'A quiet conversation matters more than it seems today, {sign}. Say the plain version of what you mean and leave room for the answer.'),
+  ('daily_horoscope', '{sign}, your attention is your best resource this {weekday}. Spend it on what you will still care about at the end of {month}.'),
+  ('daily_horoscope', 'Small repairs pay off today. {sign} energy is practical under this {season} sky: tidy, mend and put things back where they belong.'),
+  ('daily_horoscope', 'Something you set aside earlier in {month} is ready to be picked up again. Trust the timing, {sign}, and give it an honest hour.'),
+  ('daily_horoscope', 'Let this {weekday} be lighter than you planned. {sign} does its best thinking when it stops forcing the answer.'),
+  ('affirmation', 'I move at a pace that lets me notice what matters.'),
+  ('affirmation', 'I say what I mean, kindly and clearly.'),
+  ('affirmation', 'My attention is mine to give, and I give it well.'),
+  ('affirmation', 'I trust the timing of what is unfolding for me.'),
+  ('affirmation', 'I can rest without losing my way.'),
+  ('deeper_insight', 'The {season} light this {month} favours steady effort over grand gestures. For {sign}, the deeper work today is noticing which habits still serve you and which only keep you busy.'),
+  ('deeper_insight', 'Beneath the everyday, {sign} is being asked to loosen its grip on one outcome. What you stop controlling today has room to surprise you.'),
+  ('deeper_insight', 'Today favours reflection over reaction. Give {sign}''s instincts a moment of quiet before acting on them, and they will point somewhere truer.'),
+  ('deeper_insight', 'A pattern from earlier in {month} returns in a new form. Meet it with what you have learned since, {sign}, rather than how you met it then.');
@@ -0,0 +1,82 @@
+/*
+  # Sky-driven phrase templates for the daily generator
+
+  The horoscope-backfill job now composes daily rows from the day's sky
+  (supabase/functions/_shared/dailySky.ts) instead of one generic template per
+  field. Each sky feature selects its phrases through a trigger on
+  `horoscope_templates`; rows without a trigger stay the generic fallback.
+
+  1. Schema Changes
+    - `horoscope_templates.trigger` (text, nullable)
+      - `moon:<new|waxing|full|waning>` - Moon phase (daily_horoscope, affirmation)
+      - `aspect:<conjunction|harmonious|tense|none>` - tightest aspect to the
+        sign's ruler, or none (daily_horoscope)
+      - `moon-element:<fire|earth|air|water>` - element of the Moon's sign
+        (deeper_insight)
+      - `retrograde` - Mercury, Venus, Mars or the sign's ruler is retrograde
+        (daily_horoscope, deeper_insight)
+    - Extra placeholders for triggered phrases: {moonSign}, {phase}, {ruler},
+      {planet}, {aspect}, {retrogrades}
+    - Starter phrases for every trigger. Add rows with a `sign_key` (signs and
+      cusps) or `hemisphere` to override them for one sign or hemisphere
+
+  2. Security
+    - No policy changes
+*/
+
+ALTER TABLE horoscope_templates
+  ADD COLUMN IF NOT EXISTS trigger text CHECK (
+    trigger ~ '^(moon:(new|waxing|full|waning)|aspect:(conjunction|harmonious|tense|none)|moon-element:(fire|earth|air|water)|retrograde)$'
+  );
+
+DROP INDEX IF EXISTS horoscope_templates_field_idx;
+CREATE INDEX IF NOT EXISTS horoscope_templates_field_idx
+  ON horoscope_templates (field, trigger)
+  WHERE active;
+
+INSERT INTO horoscope_templates (field, trigger, body) VALUES
+  -- Moon phase: opens the daily reading
+  ('daily_horoscope', 'moon:new', 'A {phase} in {moonSign} clears the slate, {sign}. Name one thing you want to grow this month and keep it simple.'),
+  ('daily_horoscope', 'moon:new', 'The sky is at its darkest under this {phase}, {sign}, and that suits quiet beginnings more than announcements.'),
+  ('daily_horoscope', 'moon:waxing', 'The Moon is building through {moonSign}, {sign}, and so is your momentum. Add to what you started rather than starting over.'),
+  ('daily_horoscope', 'moon:waxing', 'A {phase} Moon in {moonSign} rewards follow-through, {sign}. The next small step matters more than the whole plan.'),
+  ('daily_horoscope', 'moon:full', 'The full Moon in {moonSign} brings things into the light, {sign}. What you have been circling is easier to see and to say.'),
+  ('daily_horoscope', 'moon:full', 'Feelings run close to the surface under the full Moon in {moonSign}, {sign}. Let them inform you without deciding for you.'),
+  ('daily_horoscope', 'moon:waning', 'A {phase} Moon in {moonSign} favours letting go, {sign}. Finish, tidy and release before you take on anything new.'),
+  ('daily_horoscope', 'moon:waning', 'As the Moon wanes through {moonSign}, {sign}, less is more. Clear one obligation that has outstayed its welcome.'),
+
+  -- Tightest aspect to the sign's ruler
+  ('daily_horoscope', 'aspect:conjunction', '{planet} meets {ruler}, your ruler, and fuses their agendas: expect their themes to arrive together.'),
+  ('daily_horoscope', 'aspect:conjunction', 'With {planet} sitting alongside {ruler}, one theme takes over the day. Give it your full attention.'),
+  ('daily_horoscope', 'aspect:harmonious', 'A {aspect} from {planet} to {ruler} smooths the way, so ask for what you need while doors open easily.'),
+  ('daily_horoscope', 'aspect:harmonious', '{planet} supports {ruler} with a {aspect}, and help is closer than you think.'),
+  ('daily_horoscope', 'aspect:tense', '{planet} forms a {aspect} to {ruler}, so friction is likely. Treat it as information rather than an obstacle.'),
+  ('daily_horoscope', 'aspect:tense', 'The {aspect} between {planet} and {ruler} tests your patience. Slow down before you push back.'),
+  ('daily_horoscope', 'aspect:none', 'No strong contacts reach {ruler} today, leaving you free to set your own rhythm.'),
+  ('daily_horoscope', 'aspect:none', 'With no planet pressing on {ruler}, the day is what you make of it. Steady effort outperforms grand plans.'),
+
+  -- Retrogrades
+  ('daily_horoscope', 'retrograde', 'With {retrogrades} retrograde, double-check details and revisit rather than rush.'),
+  ('daily_horoscope', 'retrograde', 'Under retrograde {retrogrades}, an old thread may be worth picking up again.'),
+
+  -- Affirmations by Moon phase
+  ('affirmation', 'moon:new', 'I plant my intention and trust it to grow.'),
+  ('affirmation', 'moon:new', 'I begin gently, and that is enough.'),
+  ('affirmation', 'moon:waxing', 'Every step I take builds on the last.'),
+  ('affirmation', 'moon:waxing', 'I follow through with patience and care.'),
+  ('affirmation', 'moon:full', 'I see clearly and I speak honestly.'),
+  ('affirmation', 'moon:full', 'I honour what I feel without being ruled by it.'),
+  ('affirmation', 'moon:waning', 'I release what I no longer need.'),
+  ('affirmation', 'moon:waning', 'I make room for what comes next.'),
+
+  -- Deeper insight by the element of the Moon's sign
+  ('deeper_insight', 'moon-element:fire', 'The Moon in fiery {moonSign} stirs courage and impatience in equal measure. For {sign}, the deeper work is acting from conviction rather than restlessness.'),
+  ('deeper_insight', 'moon-element:fire', 'Fire-sign Moons ask what lights you up. Notice where your energy rises today, {sign}; it points at what you truly want.'),
+  ('deeper_insight', 'moon-element:earth', 'The Moon in earthy {moonSign} brings the body and the practical into focus. {sign}, tend to what is tangible and the rest steadies.'),
+  ('deeper_insight', 'moon-element:earth', 'An earth-sign Moon rewards patience. What you build slowly now, {sign}, is what lasts.'),
+  ('deeper_insight', 'moon-element:air', 'The Moon in airy {moonSign} quickens thought and conversation. For {sign}, the insight comes from saying it out loud to someone you trust.'),
+  ('deeper_insight', 'moon-element:air', 'Air-sign Moons widen the view. Step back far enough, {sign}, and a stubborn problem changes shape.'),
+  ('deeper_insight', 'moon-element:water', 'The Moon in watery {moonSign} deepens feeling and intuition. {sign}, your first impression today is worth more than your second thought.'),
+  ('deeper_insight', 'moon-element:water', 'A water-sign Moon softens edges. Let yourself be moved, {sign}; it is how you learn what matters.'),
+  ('deeper_insight', 'retrograde', 'Retrograde {retrogrades} turns attention inward, so the past holds a clue to the present.'),
+  ('deeper_insight', 'retrograde', 'With {retrogrades} moving backwards, unfinished business asks to be completed rather than replaced.');
@@ -0,0 +1,30 @@
+/*
+  # Record account deletions before they happen
+
+  delete-account now writes its `account_deletions` row before it cancels
+  billing or removes anything, and marks it completed once the auth user is
+  gone. A deletion that stops halfway leaves a 'pending' or 'failed' row
+  instead of no trace at all.
+
+  1. Schema Changes
+    - `account_deletions.status` (text) - pending | completed | failed;
+      existing rows are completed deletions
+    - `account_deletions.error` (text, nullable) - why a deletion failed
+    - `account_deletions.deleted_at` is now nullable and set on completion
+
+  2. Security
+    - No policy changes
+*/
+
+ALTER TABLE account_deletions
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('pending', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS error text;
+
+ALTER TABLE account_deletions ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE account_deletions ALTER COLUMN deleted_at DROP NOT NULL;
+ALTER TABLE account_deletions ALTER COLUMN deleted_at DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS account_deletions_unfinished_idx
+  ON account_deletions (requested_at)
+  WHERE status <> 'completed';
@@ -0,0 +1,141 @@
+/*
+  # Unguessable gift codes and limited redemption attempts
+
+  Gift codes are bearer tokens for paid access. They were drawn with
+  `random()`, which is predictable, and `redeem_gift_code()` let a member try
+  codes as fast as they liked.
+
+  1. New Tables
+    - `gift_redemption_attempts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, cascades on account deletion)
+      - `attempted_at` (timestamptz)
+      One row per failed redemption (unknown, void or already redeemed code)
+    - Index on (user_id, attempted_at) for the attempt window
+
+  2. Schema Changes
+    - `generate_gift_code()` draws from `gen_random_bytes()` (pgcrypto)
+    - `redeem_gift_code()` refuses members with 10 failed attempts in the
+      past hour, and returns `{ "error": … }` for a code it can't redeem
+      instead of raising, so the failed attempt is kept
+
+  3. Security
+    - RLS on `gift_redemption_attempts`; only the service role and
+      `redeem_gift_code()` (security definer) touch it
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION generate_gift_code()
+RETURNS text AS $$
+  -- Same alphabet as before; 256 is a multiple of 32, so every letter is
+  -- equally likely
+  SELECT 'GIFT-' || string_agg(
+    substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + get_byte(bytes, i - 1) % 32, 1)
+      || CASE WHEN i = 4 THEN '-' ELSE '' END,
+    ''
+    ORDER BY i
+  )
+  FROM extensions.gen_random_bytes(8) AS bytes, generate_series(1, 8) AS i;
+$$ LANGUAGE sql VOLATILE;
+
+CREATE TABLE IF NOT EXISTS gift_redemption_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS gift_redemption_attempts_user_idx
+  ON gift_redemption_attempts (user_id, attempted_at DESC);
+
+ALTER TABLE gift_redemption_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage gift redemption attempts"
+  ON gift_redemption_attempts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Redeem a code for the signed-in member. Subscription gifts become a 'gift'
+-- entitlement; a member redeeming several gifts gets them back to back.
+CREATE OR REPLACE FUNCTION redeem_gift_code(gift_code text)
+RETURNS jsonb AS $$
+DECLARE
+  uid uuid := auth.uid();
+  gift gift_codes%ROWTYPE;
+  failure text;
+  start_at timestamptz := now();
+  grant_id uuid;
+  grant_expires timestamptz;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (
+    SELECT count(*)
+    FROM gift_redemption_attempts
+    WHERE user_id = uid
+      AND attempted_at > now() - interval '1 hour'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many gift codes tried. Please wait an hour and try again';
+  END IF;
+
+  -- Lock the row so two redemptions of the same code can't both succeed
+  SELECT * INTO gift
+  FROM gift_codes
+  WHERE code = upper(trim(gift_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR gift.status = 'void' THEN
+    failure := 'That gift code isn''t valid';
+  ELSIF gift.status = 'redeemed' THEN
+    failure := 'This gift code has already been redeemed';
+  END IF;
+
+  -- Raising would roll the attempt back with everything else
+  IF failure IS NOT NULL THEN
+    INSERT INTO gift_redemption_attempts (user_id) VALUES (uid);
+    RETURN jsonb_build_object('error', failure);
+  END IF;
+
+  IF gift.product = 'subscription' THEN
+    SELECT greatest(now(), max(expires_at)) INTO start_at
+    FROM entitlements
+    WHERE user_id = uid
+      AND kind = 'gift'
+      AND revoked_at IS NULL
+      AND expires_at > now();
+    grant_expires := start_at + make_interval(months => gift.months);
+
+    INSERT INTO entitlements (user_id, kind, plan, reason, granted_by, starts_at, expires_at)
+    VALUES (
+      uid,
+      'gift',
+      CASE WHEN gift.months = 12 THEN 'yearly' ELSE 'monthly' END,
+      format('Gift subscription (%s months), code %s', gift.months, gift.code),
+      'gift:' || gift.id,
+      start_at,
+      grant_expires
+    )
+    RETURNING id INTO grant_id;
+  END IF;
+
+  UPDATE gift_codes
+  SET status = 'redeemed',
+      redeemed_by = uid,
+      redeemed_at = now(),
+      entitlement_id = grant_id
+  WHERE id = gift.id;
+
+  RETURN jsonb_build_object(
+    'product', gift.product,
+    'months', gift.months,
+    'starts_at', CASE WHEN grant_id IS NULL THEN NULL ELSE start_at END,
+    'expires_at', grant_expires
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION redeem_gift_code(text) TO authenticated;
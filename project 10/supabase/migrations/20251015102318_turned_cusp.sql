@@ -0,0 +1,87 @@
+/*
+  # Reversed cusp labels in sign_key_for()
+
+  `sign_key_for()` missed cusps written the other way round ('Aries–Pisces'
+  for 'pisces-aries'), which utils/signKey.ts `parseSignKey` accepts, so the
+  trigger and the app could store different keys for the same cusp. The
+  function now tries the reversed pair too, and rows the first pass left
+  behind are rewritten. supabase/functions/tests/sign-keys.test.ts checks
+  that both sides agree.
+
+  1. Schema Changes
+    - `sign_key_for(label text)` maps a two-part label read backwards to its
+      cusp key
+    - `horoscope_cache.sign`, `monthly_forecasts.sign` (where the table exists)
+      and `user_profiles.cusp_result` are canonicalised again
+
+  2. Security
+    - No policy changes
+*/
+
+CREATE OR REPLACE FUNCTION sign_key_for(label text)
+RETURNS text AS $$
+  WITH slug AS (
+    SELECT trim(BOTH '-' FROM regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          regexp_replace(lower(coalesce(label, '')), '\s*v\d+\s*$', ''),  -- " V3" suffixes
+          '\(.*?\)', '', 'g'),                                           -- "(pure)"
+        '\s*cusp.*$', ''),                                               -- "Cusp", "cusp of power"
+      '[^a-z]+', '-', 'g')) AS s                                         -- dashes, spaces, '&'
+  )
+  SELECT k.key
+  FROM slug, horoscope_sign_keys k
+  WHERE k.key = slug.s
+     -- Cusp written the other way round, e.g. 'taurus-aries'
+     OR (slug.s ~ '^[a-z]+-[a-z]+$'
+         AND k.key = split_part(slug.s, '-', 2) || '-' || split_part(slug.s, '-', 1))
+  ORDER BY k.key = slug.s DESC
+  LIMIT 1
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- horoscope_cache: same pass as before, for the labels it couldn't read then
+DELETE FROM horoscope_cache h
+USING (
+  SELECT id,
+         row_number() OVER (
+           PARTITION BY date, sign_key_for(sign), hemisphere
+           ORDER BY (sign = sign_key_for(sign)) DESC, created_at DESC NULLS LAST, id
+         ) AS rn
+  FROM horoscope_cache
+  WHERE sign_key_for(sign) IS NOT NULL
+) d
+WHERE h.id = d.id
+  AND d.rn > 1;
+
+UPDATE horoscope_cache
+SET sign = sign_key_for(sign)
+WHERE sign_key_for(sign) IS NOT NULL
+  AND sign <> sign_key_for(sign);
+
+DO $$
+BEGIN
+  IF to_regclass('public.monthly_forecasts') IS NOT NULL THEN
+    DELETE FROM monthly_forecasts m
+    USING (
+      SELECT ctid,
+             row_number() OVER (
+               PARTITION BY date, sign_key_for(sign), hemisphere
+               ORDER BY (sign = sign_key_for(sign)) DESC
+             ) AS rn
+      FROM monthly_forecasts
+      WHERE sign_key_for(sign) IS NOT NULL
+    ) d
+    WHERE m.ctid = d.ctid
+      AND d.rn > 1;
+
+    UPDATE monthly_forecasts
+    SET sign = sign_key_for(sign)
+    WHERE sign_key_for(sign) IS NOT NULL
+      AND sign <> sign_key_for(sign);
+  END IF;
+END;
+$$;
+
+UPDATE user_profiles
+SET cusp_result = canonical_cusp_result(cusp_result)
+WHERE cusp_result IS DISTINCT FROM canonical_cusp_result(cusp_result);
@@ -1,6 +1,13 @@
 // utils/astrology.ts 
 
 import { DateTime } from 'luxon';
+import {
+  angularDifference,
+  ascendantLongitude,
+  longitudeToZodiac,
+  sunApparentLongitude,
+} from '../supabase/functions/_shared/ephemeris';
+import { encodeSignKey, parseSignKey } from './signKey';
 
 // Zodiac sign definitions with standard dates
 export const ZODIAC_SIGNS = [
@@ -18,7 +25,8 @@ export const ZODIAC_SIGNS = [
   { name: 'Pisces', symbol: '♓', startDegree: 330, endDegree: 360 },
 ];
 
-// Updated cusp date ranges based on the provided calendar
+// Cusp names/descriptions. The date ranges are the typical calendar window and
+// are shown to users for reference; membership is decided by the Sun's degree.
 export const CUSP_DATES = [
   { signs: ['Pisces', 'Aries'], startDate: '19/03', endDate: '24/03', name: 'Pisces–Aries Cusp', description: 'The Cusp of Rebirth' },
   { signs: ['Aries', 'Taurus'], startDate: '19/04', endDate: '24/04', name: 'Aries–Taurus Cusp', description: 'The Cusp of Power' },
@@ -42,6 +50,8 @@ export interface BirthInfo {
   timezone?: string; // e.g. "Australia/Sydney"
   latitude?: number;
   longitude?: number;
+  timeUnknown?: boolean; // user doesn't know the birth time → solar chart (local noon)
+  timeEstimate?: BirthTimeEstimate; // rectified time, used instead of noon when timeUnknown
 }
 
 export interface CuspResult {
@@ -49,236 +59,335 @@ export interface CuspResult {
   primarySign: string;
   secondarySign?: string;
   cuspName?: string;
-  sunDegree: number;
+  signKey?: string;  // canonical key for the cusp or sign, e.g. 'aries-taurus' (utils/signKey.ts)
+  sunSign?: string;  // sign the Sun is in; on a cusp, primarySign or secondarySign
+  sunDegree: number; // 0..30 within sunSign, to one decimal (older results: from the start of primarySign)
   description: string;
+  timeUnknown?: boolean;    // calculated from a solar chart (local noon)
+  uncertain?: boolean;      // time unknown and the Sun changed sign during the birth day
+  possibleSigns?: string[]; // Sun signs seen during the birth day when uncertain
 }
 
 export interface RisingSignResult {
   sign: string;
-  degree: number;
+  degree: number;    // 0..30 within the sign
+  longitude: number; // ecliptic longitude of the ascendant, 0..360
   description: string;
 }
 
-// Helper: check if a date falls within a cusp range
-function isDateInCuspRange(day: number, month: number, startDate: string, endDate: string): boolean {
-  const [startDay, startMonth] = startDate.split('/').map(Number);
-  const [endDay, endMonth] = endDate.split('/').map(Number);
-  if (startMonth > endMonth) {
-    return (month === startMonth && day >= startDay) || (month === endMonth && day <= endDay);
-  } else {
-    if (month === startMonth && month === endMonth) return day >= startDay && day <= endDay;
-    if (month === startMonth) return day >= startDay;
-    if (month === endMonth) return day <= endDay;
-    return false;
+// One stretch of the birth day during which a given sign was rising
+export interface RisingSignWindow {
+  sign: string;
+  start: string; // local "HH:mm"
+  end: string;   // local "HH:mm" (exclusive)
+  startUTC: string; // ISO instants of the same window
+  endUTC: string;
+  description: string;
+}
+
+// A rectified birth time for a time-unknown birth (see utils/rectification.ts)
+export interface BirthTimeEstimate {
+  time: string;        // local "HH:mm" used for calculations (middle of the window)
+  sign: string;        // estimated rising sign
+  start: string;       // chosen window, local "HH:mm"
+  end: string;
+  confidence: number;  // 0..1
+  rectifiedAt: string; // ISO
+}
+
+// A birth is "on the cusp" when the Sun sits within this many degrees of a
+// sign boundary (roughly three days either side of the ingress).
+export const CUSP_ORB_DEGREES = 3;
+
+// Normalise "DD/MM/YYYY" or "YYYY-MM-DD" to [year, month, day]
+function parseBirthDate(input: string): [number, number, number] {
+  const raw = (input || '').trim();
+  if (raw.includes('/')) {
+    const [day, month, year] = raw.split('/').map(Number);
+    return [year, month, day];
   }
+  const [year, month, day] = raw.slice(0, 10).split('-').map(Number);
+  return [year, month, day];
 }
 
-// Calculate sun sign from birth date using standard zodiac dates
-export function calculateSunSign(birthDateISO: string): string {
-  // Parse YYYY-MM-DD string directly
-  const [year, month, day] = birthDateISO.split('-').map(Number);
-  
-  console.log('🔍 [calculateSunSign] Calculating for:', { month, day, fullDate: birthDateISO });
-  
-  if ((month === 3 && day >= 21) || (month === 4 && day <= 19)) return 'Aries';
-  if ((month === 4 && day >= 20) || (month === 5 && day <= 20)) return 'Taurus';
-  if ((month === 5 && day >= 21) || (month === 6 && day <= 20)) {
-    console.log('✅ [calculateSunSign] May 21 - June 20 birth detected - returning Gemini');
-    return 'Gemini';
+// Accepts "HH:mm", "H:mm", "HH:mm:ss" and "h:mm AM/PM"; anything else → null.
+// Never guess: a wrong time gives a confident but wrong ascendant.
+export function parseBirthTime(input?: string): [number, number] | null {
+  const m = (input || '').trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(AM|PM)?$/i);
+  if (!m) return null;
+  let hours = Number(m[1]);
+  const minutes = Number(m[2]);
+  const meridiem = m[3]?.toUpperCase();
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'PM' && hours < 12) hours += 12;
+    if (meridiem === 'AM' && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return null;
   }
-  if ((month === 6 && day >= 21) || (month === 7 && day <= 22)) {
-    console.log('✅ [calculateSunSign] June 21 - July 22 birth detected - returning Cancer');
-    return 'Cancer';
+  return [hours, minutes];
+}
+
+export const BIRTH_TIME_FORMAT_HINT = 'Enter the birth time as HH:MM (e.g. 19:30) or h:mm AM/PM (e.g. 7:30 PM).';
+
+function requireBirthTime(input: string | undefined): [number, number] {
+  const parsed = parseBirthTime(input);
+  if (!parsed) {
+    throw new Error(`Invalid birth time "${input ?? ''}". ${BIRTH_TIME_FORMAT_HINT}`);
   }
-  if ((month === 7 && day >= 23) || (month === 8 && day <= 22)) return 'Leo';
-  if ((month === 8 && day >= 23) || (month === 9 && day <= 22)) return 'Virgo';
-  if ((month === 9 && day >= 23) || (month === 10 && day <= 22)) return 'Libra';
-  if ((month === 10 && day >= 23) || (month === 11 && day <= 21)) return 'Scorpio';
-  if ((month === 11 && day >= 22) || (month === 12 && day <= 21)) return 'Sagittarius';
-  if ((month === 12 && day >= 22) || (month === 1 && day <= 19)) return 'Capricorn';
-  if ((month === 1 && day >= 20) || (month === 2 && day <= 18)) return 'Aquarius';
-  return 'Pisces';
+  return parsed;
 }
 
-// Enhanced cusp calculation
-export function calculateCusp(birthInfo: BirthInfo): CuspResult {
-  // Parse YYYY-MM-DD string directly
-  let dateString = birthInfo.date;
-  
-  // Handle both YYYY-MM-DD and DD/MM/YYYY formats
-  if (dateString.includes('/')) {
-    const [day, month, year] = dateString.split('/').map(Number);
-    dateString = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+// Zone used to interpret the local birth time: the IANA zone if we have one,
+// else a fixed offset from the birth longitude, else UTC.
+function birthZone(birthInfo: BirthInfo): string {
+  if (birthInfo.timezone) return birthInfo.timezone;
+  if (typeof birthInfo.longitude === 'number') {
+    const offset = Math.round(birthInfo.longitude / 15);
+    return offset === 0 ? 'UTC' : `UTC${offset > 0 ? '+' : ''}${offset}`;
   }
-  
-  const [year, month, day] = dateString.split('-').map(Number);
-  
-  console.log('🔍 [calculateCusp] Calculating for date:', {
-    month,
-    day,
-    fullDate: dateString,
-    originalInput: birthInfo.date
-  });
+  return 'UTC';
+}
+
+/**
+ * The UTC instant of birth, honouring the birth timezone (incl. historical DST).
+ * An unknown birth time resolves to the rectified estimate if there is one,
+ * else local noon (the usual solar-chart convention). A known birth time that
+ * doesn't parse throws rather than falling back to noon.
+ */
+export function resolveBirthInstant(birthInfo: BirthInfo): Date {
+  const [year, month, day] = parseBirthDate(birthInfo.date);
+  const [hour, minute] = birthInfo.timeUnknown
+    ? birthInfo.timeEstimate
+      ? requireBirthTime(birthInfo.timeEstimate.time)
+      : [12, 0]
+    : requireBirthTime(birthInfo.time);
+
+  const dt = DateTime.fromObject({ year, month, day, hour, minute }, { zone: birthZone(birthInfo) });
+  if (!dt.isValid) {
+    throw new Error(`Invalid birth date/time: ${birthInfo.date} ${birthInfo.time} (${dt.invalidReason})`);
+  }
+  return dt.toJSDate();
+}
+
+/** Local clock time ("HH:mm") at the birth place for a UTC instant. */
+export function localBirthTime(birthInfo: BirthInfo, instant: Date): string {
+  return DateTime.fromJSDate(instant, { zone: birthZone(birthInfo) }).toFormat('HH:mm');
+}
+
+// Local midnight of the birth date and the following midnight, as UTC instants
+function birthDayBounds(birthInfo: BirthInfo): [Date, Date] {
+  const [year, month, day] = parseBirthDate(birthInfo.date);
+  const start = DateTime.fromObject({ year, month, day }, { zone: birthZone(birthInfo) });
+  if (!start.isValid) {
+    throw new Error(`Invalid birth date: ${birthInfo.date} (${start.invalidReason})`);
+  }
+  return [start.toJSDate(), start.plus({ days: 1 }).toJSDate()];
+}
+
+// Flag a time-unknown result whose Sun sign depends on the hour of birth
+function withTimeUncertainty(result: CuspResult, birthInfo: BirthInfo): CuspResult {
+  if (!birthInfo.timeUnknown) return result;
+
+  const [dayStart, dayEnd] = birthDayBounds(birthInfo);
+  const firstSign = longitudeToZodiac(sunApparentLongitude(dayStart)).sign;
+  const lastSign = longitudeToZodiac(sunApparentLongitude(new Date(dayEnd.getTime() - 60 * 1000))).sign;
+
+  if (firstSign === lastSign) return { ...result, timeUnknown: true, uncertain: false };
+
+  return {
+    ...result,
+    timeUnknown: true,
+    uncertain: true,
+    possibleSigns: [firstSign, lastSign],
+    description:
+      `${result.description} The Sun moved from ${firstSign} into ${lastSign} on your birth day, ` +
+      `so without a birth time we can't be sure which sign it was in when you were born.`,
+  };
+}
+
+// Calculate sun sign from birth date (Sun's position at midday UTC)
+export function calculateSunSign(birthDateISO: string): string {
+  const [year, month, day] = parseBirthDate(birthDateISO);
+  const middayUTC = new Date(Date.UTC(year, month - 1, day, 12));
+  const { sign } = longitudeToZodiac(sunApparentLongitude(middayUTC));
+
+  console.log('🔍 [calculateSunSign] Calculated:', { fullDate: birthDateISO, sign });
+  return sign;
+}
+
+// Cusp calculation from the Sun's true ecliptic longitude at the birth instant
+export function calculateCusp(birthInfo: BirthInfo): CuspResult {
+  const instant = resolveBirthInstant(birthInfo);
+  const sunLongitude = sunApparentLongitude(instant);
+  const sun = longitudeToZodiac(sunLongitude);
 
-  const cusp = CUSP_DATES.find(c =>
-    isDateInCuspRange(day, month, c.startDate, c.endDate)
-  );
-  
-  console.log('🔍 [calculateCusp] Cusp search result:', {
-    foundCusp: !!cusp,
-    cuspName: cusp?.name,
-    cuspDescription: cusp?.description
+  console.log('🔍 [calculateCusp] Sun position:', {
+    originalInput: birthInfo.date,
+    instantUTC: instant.toISOString(),
+    sign: sun.sign,
+    degree: Math.round(sun.degree * 100) / 100,
   });
 
-  const standardSign = calculateSunSign(birthInfo.date);
-  console.log('🔍 [calculateCusp] Standard sign calculated:', standardSign);
+  // Rounded before splitting, so 29.96° shows as 0.0° of the next sign, not 30.0°
+  const shown = longitudeToZodiac(Math.round(sunLongitude * 10) / 10);
+  const sunSign = shown.sign;
+  const sunDegree = Math.round(shown.degree * 10) / 10;
+
+  // Which boundary (if any) is the Sun close to?
+  let cuspStartIndex: number | null = null;
+  if (sun.degree >= 30 - CUSP_ORB_DEGREES) cuspStartIndex = sun.signIndex;
+  else if (sun.degree < CUSP_ORB_DEGREES) cuspStartIndex = (sun.signIndex + 11) % 12;
 
-  if (cusp) {
+  const cusp =
+    cuspStartIndex === null
+      ? undefined
+      : CUSP_DATES.find(c => c.signs[0] === ZODIAC_SIGNS[cuspStartIndex as number].name);
+
+  if (cusp && cuspStartIndex !== null) {
     const primarySign = cusp.signs[0];
     const secondarySign = cusp.signs[1];
-    const sunDegree = Math.random() * 2 + 28.5; // 28.5°–30.5°
-    
+
     console.log('✅ [calculateCusp] Found cusp:', {
       primarySign,
       secondarySign,
       cuspName: cusp.name,
-      sunDegree: Math.round(sunDegree * 10) / 10
+      sunSign,
+      sunDegree
     });
-    
-    return {
+
+    return withTimeUncertainty({
       isOnCusp: true,
       primarySign,
       secondarySign,
       cuspName: cusp.name,
-      sunDegree: Math.round(sunDegree * 10) / 10,
+      signKey: encodeSignKey(parseSignKey(cusp.name)!),
+      sunSign,
+      sunDegree,
       description: `You are born on the ${cusp.name}, ${cusp.description}. This unique position gives you traits from both ${primarySign} and ${secondarySign}.`,
-    };
+    }, birthInfo);
   }
 
-  const sunDegree = Math.random() * 25 + 2.5; // 2.5°–27.5°
-  
   console.log('✅ [calculateCusp] Pure sign result:', {
-    primarySign: standardSign,
-    sunDegree: Math.round(sunDegree * 10) / 10
+    primarySign: sun.sign,
+    sunDegree
   });
-  
-  return {
+
+  return withTimeUncertainty({
     isOnCusp: false,
-    primarySign: standardSign,
-    sunDegree: Math.round(sunDegree * 10) / 10,
-    description: `You are a pure ${standardSign}, embodying the full essence of this zodiac sign.`,
-  };
+    primarySign: sun.sign,
+    signKey: encodeSignKey(parseSignKey(sun.sign)!),
+    sunSign,
+    sunDegree,
+    description: `You are a pure ${sun.sign}, embodying the full essence of this zodiac sign.`,
+  }, birthInfo);
 }
 
-// Enhanced rising sign calculation
+export const risingDescriptions: Record<string, string> = {
+  Aries: "Your Aries rising gives you a bold, energetic first impression.",
+  Taurus: "With Taurus rising, you project stability and reliability.",
+  Gemini: "Your Gemini rising makes you appear curious and communicative.",
+  Cancer: "Cancer rising gives you a nurturing, protective aura.",
+  Leo: "With Leo rising, you have a magnetic, confident presence.",
+  Virgo: "Your Virgo rising projects competence and attention to detail.",
+  Libra: "Libra rising gives you a charming, diplomatic appearance.",
+  Scorpio: "With Scorpio rising, you have an intense, mysterious presence.",
+  Sagittarius: "Your Sagittarius rising makes you appear adventurous.",
+  Capricorn: "Capricorn rising gives you an authoritative, responsible aura.",
+  Aquarius: "With Aquarius rising, you appear unique and forward-thinking.",
+  Pisces: "Your Pisces rising gives you a dreamy, compassionate presence."
+};
+
+// Ascendant from local sidereal time, obliquity and the birth coordinates
 export function calculateRisingSign(birthInfo: BirthInfo): RisingSignResult {
-  const { date, time, timezone } = birthInfo;
-  
-  // Use timezone-aware calculation if timezone is provided
-  let dateTime: DateTime;
-  if (timezone) {
-    dateTime = DateTime.fromISO(`${date}T${time}`, { zone: timezone });
-  } else {
-    // Fallback to simple parsing
-    dateTime = DateTime.fromISO(`${date}T${time}`);
+  const { latitude, longitude } = birthInfo;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    throw new Error('Birth latitude and longitude are required to calculate the rising sign.');
   }
-  
-  const [hours, minutes] = time.split(':').map(Number);
-  const timeInMinutes = hours * 60 + minutes;
-  const dayOfYear = dateTime.ordinal; // Day of year from Luxon
-  const signIndex = Math.floor(((timeInMinutes + dayOfYear * 4) / 120) % 12);
-  const sign = ZODIAC_SIGNS[signIndex];
-  const degree = Math.floor(((timeInMinutes + dayOfYear * 2) % 120) / 4);
-
-  const risingDescriptions: Record<string, string> = {
-    Aries: "Your Aries rising gives you a bold, energetic first impression.",
-    Taurus: "With Taurus rising, you project stability and reliability.",
-    Gemini: "Your Gemini rising makes you appear curious and communicative.",
-    Cancer: "Cancer rising gives you a nurturing, protective aura.",
-    Leo: "With Leo rising, you have a magnetic, confident presence.",
-    Virgo: "Your Virgo rising projects competence and attention to detail.",
-    Libra: "Libra rising gives you a charming, diplomatic appearance.",
-    Scorpio: "With Scorpio rising, you have an intense, mysterious presence.",
-    Sagittarius: "Your Sagittarius rising makes you appear adventurous.",
-    Capricorn: "Capricorn rising gives you an authoritative, responsible aura.",
-    Aquarius: "With Aquarius rising, you appear unique and forward-thinking.",
-    Pisces: "Your Pisces rising gives you a dreamy, compassionate presence."
-  };
+  if (birthInfo.timeUnknown) {
+    throw new Error('A birth time is required to calculate the rising sign.');
+  }
+  requireBirthTime(birthInfo.time);
+
+  const instant = resolveBirthInstant(birthInfo);
+  const asc = longitudeToZodiac(ascendantLongitude(instant, latitude, longitude));
 
   return {
-    sign: sign.name,
-    degree,
-    description: risingDescriptions[sign.name] || `Your rising sign is ${sign.name}.`,
+    sign: asc.sign,
+    degree: Math.round(asc.degree * 100) / 100,
+    longitude: asc.longitude,
+    description: risingDescriptions[asc.sign] || `Your rising sign is ${asc.sign}.`,
   };
 }
 
-// Enhanced daily horoscope with more personalized content
-export function getDailyHoroscope(sign: string): string {
-  const horoscopes: Record<string, string[]> = {
-    Aries: [
-      "Your pioneering spirit takes center stage today.",
-      "Mars energizes your ambitions today.",
-      "Assert your independence and trust your instincts."
-    ],
-    Taurus: [
-      "Focus on stability and comfort today.",
-      "Venus blesses your relationships and finances.",
-      "Patience and persistence pay off today."
-    ],
-    Gemini: [
-      "Communication is key today.",
-      "Mercury enhances your mental agility.",
-      "Curiosity leads to fascinating discoveries."
-    ],
-    Cancer: [
-      "Trust your intuition today.",
-      "The Moon illuminates your inner wisdom.",
-      "Focus on home, family, and emotional connections."
-    ],
-    Leo: [
-      "Your charisma and creativity are highlighted today.",
-      "The Sun amplifies your confidence.",
-      "Lead with your heart and inspire others."
-    ],
-    Virgo: [
-      "Attention to detail serves you well today.",
-      "Use your analytical skills to improve systems.",
-      "Offer practical solutions and make a difference."
-    ],
-    Libra: [
-      "Balance and harmony are your themes today.",
-      "Venus enhances your charm and social grace.",
-      "Seek compromise and fair solutions."
-    ],
-    Scorpio: [
-      "Your intensity and passion drive you today.",
-      "Pluto reveals hidden truths and insights.",
-      "Dive deep into meaningful connections."
-    ],
-    Sagittarius: [
-      "Adventure and exploration call to you today.",
-      "Jupiter expands your opportunities.",
-      "Follow your wanderlust and grow."
-    ],
-    Capricorn: [
-      "Your ambition and discipline are strengths today.",
-      "Saturn rewards your hard work.",
-      "Take charge and guide others."
-    ],
-    Aquarius: [
-      "Innovation and humanitarian spirit shine today.",
-      "Uranus sparks creative breakthroughs.",
-      "Challenge convention and pioneer new ideas."
-    ],
-    Pisces: [
-      "Your intuition and compassion guide you today.",
-      "Neptune enhances your psychic senses.",
-      "Use your sensitivity to create healing connections."
-    ],
+// Sampling step for the rising-sign scan. At mid latitudes every sign takes
+// well over half an hour to rise, but towards the polar circles signs near the
+// solstitial points rise in minutes, so a step is halved (down to
+// RISING_MIN_STEP_MS) while the ascendant moves more than RISING_MAX_STEP_DEGREES
+// across it. Under 30° per step at most one sign boundary falls between two
+// samples, so no window is skipped.
+const RISING_SCAN_MINUTES = 4;
+const RISING_MAX_STEP_DEGREES = 10;
+const RISING_MIN_STEP_MS = 15 * 1000;
+
+/**
+ * Every rising sign across the local birth day, with the local clock times it
+ * was rising — for births where the time is unknown. A sign can appear twice
+ * (early morning and late evening). Requires birth coordinates.
+ */
+export function calculatePossibleRisingSigns(birthInfo: BirthInfo): RisingSignWindow[] {
+  const { latitude, longitude } = birthInfo;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    throw new Error('Birth latitude and longitude are required to calculate the rising sign.');
+  }
+
+  const [dayStart, dayEnd] = birthDayBounds(birthInfo);
+  const ascAt = (t: number) => ascendantLongitude(new Date(t), latitude, longitude);
+  const signAt = (t: number) => longitudeToZodiac(ascAt(t)).sign;
+  const localTime = (t: number) => localBirthTime(birthInfo, new Date(t));
+
+  // Narrow a sign change between two samples to the minute
+  const changeAt = (lo: number, hi: number, fromSign: string) => {
+    while (hi - lo > 60 * 1000) {
+      const mid = (lo + hi) / 2;
+      if (signAt(mid) === fromSign) lo = mid;
+      else hi = mid;
+    }
+    return hi;
   };
 
-  const list = horoscopes[sign] || [
-    "Stay open to cosmic messages and trust your inner wisdom."
-  ];
-  return list[Math.floor(Math.random() * list.length)];
+  const windowOf = (sign: string, from: number, to: number, last = false): RisingSignWindow => ({
+    sign,
+    start: localTime(from),
+    end: last ? '24:00' : localTime(to),
+    startUTC: new Date(from).toISOString(),
+    endUTC: new Date(to).toISOString(),
+    description: risingDescriptions[sign] || `Your rising sign is ${sign}.`,
+  });
+
+  const windows: RisingSignWindow[] = [];
+  const step = RISING_SCAN_MINUTES * 60 * 1000;
+  const endMs = dayEnd.getTime();
+  let windowStart = dayStart.getTime();
+  let current = signAt(windowStart);
+
+  for (let prev = windowStart; prev < endMs; ) {
+    let t = Math.min(prev + step, endMs);
+    const prevAsc = ascAt(prev);
+    while (t - prev > RISING_MIN_STEP_MS && Math.abs(angularDifference(prevAsc, ascAt(t))) > RISING_MAX_STEP_DEGREES) {
+      t = prev + (t - prev) / 2;
+    }
+    const sign = signAt(t);
+    if (sign !== current) {
+      const change = changeAt(prev, t, current);
+      windows.push(windowOf(current, windowStart, change));
+      windowStart = change;
+      current = sign;
+    }
+    prev = t;
+  }
+  windows.push(windowOf(current, windowStart, endMs, true));
+
+  return windows;
 }
@@ -2,6 +2,9 @@
 // Works with Vite + React. No process.env; uses import.meta.env.VITE_NASA_API_KEY.
 
 import SunCalc from 'suncalc';
+import { CHART_BODIES, bodyDailyMotion, bodyLongitude } from '../supabase/functions/_shared/ephemeris';
+import { lunationEvents, nextLunation } from './lunations';
+import { generateSkyEvents } from './skyEvents';
 
 // ───────────────────────────────────────────────────────────────────────────────
 // ENV (public) — set VITE_NASA_API_KEY in your host/build environment
@@ -115,65 +118,72 @@ export async function getApod(date?: string): Promise<ApodResult | null> {
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
-// Curated events (you can adjust dates/descriptions as needed)
+// Annual events (same calendar day every year; planetary events are generated
+// in utils/skyEvents.ts)
 // ───────────────────────────────────────────────────────────────────────────────
-export const CURRENT_ASTRONOMICAL_EVENTS: AstronomicalEvent[] = [
+export const ANNUAL_SKY_EVENTS: Array<Omit<AstronomicalEvent, 'date'> & { monthDay: string }> = [
   {
-    name: '🦁 New Moon in Leo',
+    name: 'Quadrantids Meteor Shower Peak',
     description:
-      "The Fire Mirror ritual: Reclaim your inner radiance and attract aligned recognition. Light a gold candle, gaze in a mirror and whisper: 'I see the fire. I call it higher.'",
-    date: '2025-08-01',
+      'A short, sharp peak of up to 100 meteors/hour, best seen before dawn from northern latitudes.',
+    monthDay: '01-03',
     hemisphere: 'Northern',
-    type: 'moon',
+    type: 'meteor',
+  },
+  {
+    name: 'Eta Aquariids Meteor Shower Peak',
+    description:
+      "Debris from Halley's Comet; the southern hemisphere sees the richest display in the pre-dawn sky.",
+    monthDay: '05-06',
+    hemisphere: 'Southern',
+    type: 'meteor',
   },
   {
     name: '🪐 Lionsgate Portal (8/8)',
     description:
       "Portal of Prosperity spell: Arrange 8 coins in an infinity shape with citrine at centre. Say: 'I open the gate. I walk with fate.'",
-    date: '2025-08-08',
+    monthDay: '08-08',
     hemisphere: 'Northern',
     type: 'conjunction',
   },
   {
-    name: '🌕 Full Moon in Aquarius',
+    name: 'Perseids Meteor Shower Peak',
     description:
-      "The Electric Thread ritual: Tie silver thread around your wrist and declare: 'I am connected, expanded, awake.' Write 3 visionary actions.",
-    date: '2025-08-17',
+      'Summer favourite with up to 60 meteors/hour, radiating from Perseus after midnight.',
+    monthDay: '08-12',
     hemisphere: 'Northern',
-    type: 'moon',
+    type: 'meteor',
   },
   {
     name: 'Geminids Meteor Shower Peak',
     description:
       'The most reliable meteor shower of the year, with up to 120 meteors/hour in dark skies.',
-    date: '2024-12-14',
+    monthDay: '12-14',
     hemisphere: 'Both',
     type: 'meteor',
   },
-  {
-    name: 'Winter Solstice',
-    description:
-      'The shortest day in the Northern Hemisphere, marking the start of winter.',
-    date: '2024-12-21',
-    hemisphere: 'Northern',
-    type: 'solstice',
-  },
-  {
-    name: 'Summer Solstice',
-    description:
-      'The longest day in the Southern Hemisphere, marking the start of summer.',
-    date: '2024-12-21',
-    hemisphere: 'Southern',
-    type: 'solstice',
-  },
 ];
 
+function annualEventsBetween(start: Date, end: Date): AstronomicalEvent[] {
+  const out: AstronomicalEvent[] = [];
+  const from = start.toISOString().slice(0, 10);
+  const to = end.toISOString().slice(0, 10);
+  for (let y = start.getUTCFullYear(); y <= end.getUTCFullYear(); y++) {
+    for (const { monthDay, ...evt } of ANNUAL_SKY_EVENTS) {
+      const date = `${y}-${monthDay}`;
+      if (date >= from && date <= to) out.push({ ...evt, date });
+    }
+  }
+  return out;
+}
+
 // ───────────────────────────────────────────────────────────────────────────────
-// Lunar phase (Sydney-anchored calc using SunCalc)
+// Lunar phase (SunCalc for illumination, utils/lunations.ts for exact phases;
+// dates shown in Sydney time)
 // ───────────────────────────────────────────────────────────────────────────────
-function nowInSydney(): Date {
+function inSydney(at: Date = new Date()): Date {
   // Avoids timezone math issues on client devices
-  const sydneyStr = new Date().toLocaleString('en-US', { timeZone: 'Australia/Sydney' });
+  const sydneyStr = at.toLocaleString('en-US', { timeZone: 'Australia/Sydney' });
   return new Date(sydneyStr);
 }
 
@@ -205,45 +215,17 @@ function fmtAU(d: Date): string {
   return `${dd}/${mm}/${yyyy}`;
 }
 
-function findNextQuarter(start: Date): { nextPhase: MoonPhase['nextPhase']; date: Date } {
-  const targets: Array<{ label: MoonPhase['nextPhase']; value: number }> = [
-    { label: 'New Moon', value: 0 },
-    { label: 'First Quarter', value: 0.25 },
-    { label: 'Full Moon', value: 0.5 },
-    { label: 'Last Quarter', value: 0.75 },
-  ];
-
-  const startPhase = SunCalc.getMoonIllumination(start).phase;
-
-  // Step hour by hour up to ~35 days
-  for (let h = 1; h <= 24 * 35; h++) {
-    const t = new Date(start.getTime() + h * 3600 * 1000);
-    const p = SunCalc.getMoonIllumination(t).phase;
-
-    for (const trg of targets) {
-      const crossed =
-        (startPhase <= trg.value && p >= trg.value) ||
-        (trg.value === 0 && startPhase > 0.95 && p < 0.05);
-      if (crossed || Math.abs(p - trg.value) < 0.005) {
-        return { nextPhase: trg.label, date: t };
-      }
-    }
-  }
-  // Fail-safe
-  return { nextPhase: 'Full Moon', date: new Date(start.getTime() + 14 * 86400 * 1000) };
-}
-
 export function getCurrentMoonPhase(): MoonPhase {
-  const now = nowInSydney();
+  const now = new Date();
   const { fraction, phase } = SunCalc.getMoonIllumination(now);
   const name = phaseNameFromFraction(phase);
   const illumination = Math.round(fraction * 100);
-  const { nextPhase, date } = findNextQuarter(now);
+  const next = nextLunation(now);
 
   // Optional debug:
-  // console.log('[lunar:accurate]', { now: now.toISOString(), name, illumination, nextPhase, next: fmtAU(date) });
+  // console.log('[lunar:accurate]', { now: now.toISOString(), name, illumination, next });
 
-  return { phase: name, illumination, nextPhase, nextPhaseDate: fmtAU(date) };
+  return { phase: name, illumination, nextPhase: next.phase, nextPhaseDate: fmtAU(inSydney(next.date)) };
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -280,8 +262,10 @@ const ZODIAC_SIGNS_ARRAY = [
   'Pisces',
 ];
 
+// Rounded to 0.01° before the sign is picked, so 29.996° reads 0.00° of the
+// next sign rather than 30.00° of this one
 function lonToSignAndDegree(lon: number) {
-  const L = ((lon % 360) + 360) % 360;
+  const L = (((Math.round(lon * 100) / 100) % 360) + 360) % 360;
   const signIndex = Math.floor(L / 30);
   const degree = Math.round((L - signIndex * 30) * 100) / 100;
   return { sign: ZODIAC_SIGNS_ARRAY[signIndex], degree };
@@ -352,36 +336,32 @@ function normalizePlanetaryPositions(rawList: RawPlanet[]): PlanetaryPosition[]
   return result;
 }
 
-// Placeholder live-positions hook (currently falls back)
+// Live-positions hook. Positions are computed offline (see the shared ephemeris);
+// a server-side source could be normalised in here with normalizePlanetaryPositions().
 export async function getCurrentPlanetaryPositionsEnhanced(
-  hemisphere: 'Northern' | 'Southern' = 'Northern'
+  hemisphere: 'Northern' | 'Southern' = 'Northern',
+  date: Date = new Date()
 ): Promise<PlanetaryPosition[]> {
-  // When you wire a live source like TheSkyLive (server-side proxy), transform it with normalizePlanetaryPositions()
-  // For now, return fallback:
-  return getCurrentPlanetaryPositions();
+  // Ecliptic positions are the same from either hemisphere
+  return getCurrentPlanetaryPositions(date);
 }
 
-// Simple, deterministic fallback (keeps UI happy)
-export function getCurrentPlanetaryPositions(): PlanetaryPosition[] {
-  const today = nowInSydney();
-  const baseDate = new Date('2025-08-13T00:00:00Z');
-  const daysSinceBase = Math.max(
-    0,
-    Math.floor((today.getTime() - baseDate.getTime()) / (1000 * 60 * 60 * 24))
-  );
-
-  // Lightweight linear motion just for display; replace with live data when available.
-  return [
-    { planet: 'Mercury',  sign: 'Leo',     degree: Math.min(29.99, 28 + daysSinceBase * 1.2),  retrograde: false },
-    { planet: 'Venus',    sign: 'Virgo',   degree: Math.min(29.99, 18 + daysSinceBase * 0.8),  retrograde: false },
-    { planet: 'Mars',     sign: 'Gemini',  degree: Math.min(29.99, 22 + daysSinceBase * 0.3),  retrograde: false },
-    { planet: 'Jupiter',  sign: 'Gemini',  degree: Math.min(29.99, 14 + daysSinceBase * 0.05), retrograde: false },
-    { planet: 'Saturn',   sign: 'Pisces',  degree: Math.min(29.99, 19 + daysSinceBase * 0.02), retrograde: true  },
-  ];
+// Sun through Pluto for any instant. Retrograde = apparent geocentric motion
+// is backwards over the day around `date`.
+export function getCurrentPlanetaryPositions(date: Date = new Date()): PlanetaryPosition[] {
+  return CHART_BODIES.map(body => {
+    const { sign, degree } = lonToSignAndDegree(bodyLongitude(body, date));
+    return {
+      planet: body,
+      sign,
+      degree,
+      retrograde: bodyDailyMotion(body, date) < 0,
+    };
+  });
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
-// Hemisphere events (fallback lists if curated window is empty)
+// Hemisphere events (fallback lists if the generated window is empty)
 // ───────────────────────────────────────────────────────────────────────────────
 function getSouthernHemisphereEvents(): AstronomicalEvent[] {
   const today = todayISO();
@@ -417,12 +397,13 @@ export function getHemisphereEvents(hemisphere: 'Northern' | 'Southern'): Astron
   const today = new Date();
   const thirtyDaysFromNow = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000);
 
-  const filtered = CURRENT_ASTRONOMICAL_EVENTS.filter(evt => {
-    const d = new Date(evt.date);
-    const timeOk = d >= today && d <= thirtyDaysFromNow;
-    const hemiOk = evt.hemisphere === 'Both' || evt.hemisphere === hemisphere;
-    return timeOk && hemiOk;
-  }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const filtered = [
+    ...generateSkyEvents(today, thirtyDaysFromNow),
+    ...lunationEvents(today, thirtyDaysFromNow),
+    ...annualEventsBetween(today, thirtyDaysFromNow),
+  ]
+    .filter(evt => evt.hemisphere === 'Both' || evt.hemisphere === hemisphere)
+    .sort((a, b) => a.date.localeCompare(b.date));
 
   if (filtered.length) return filtered;
 
@@ -1,4 +1,4 @@
-import { supabase } from './supabase';
+import { supabase, functionErrorMessage } from './supabase';
 import { absoluteRedirect } from './urls';
 import type { User } from '@supabase/supabase-js';
 
@@ -98,6 +98,30 @@ export async function signOut(): Promise<void> {
   }
 }
 
+// Permanently delete the current account (delete-account edge function).
+// The password re-authenticates the caller; Stripe billing is cancelled server-side.
+export async function deleteAccount(password: string): Promise<void> {
+  console.log('[auth] Deleting account...');
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Please sign in again to delete your account');
+  }
+
+  const { error } = await supabase.functions.invoke('delete-account', {
+    headers: { Authorization: `Bearer ${session.access_token}` },
+    body: { password },
+  });
+
+  if (error) {
+    const message = await functionErrorMessage(error, 'Account deletion failed');
+    console.error('[auth] Delete account error:', message);
+    throw new Error(message);
+  }
+
+  console.log('[auth] Account deleted');
+}
+
 // Reset password - send reset email
 export async function resetPassword(email: string): Promise<{ error: { message: string } | null }> {
   try {
@@ -1,8 +1,11 @@
 // utils/billing.ts
-import { supabase } from '@/utils/supabase';
+import { supabase, functionErrorMessage } from '@/utils/supabase';
 import { checkoutSubscription, checkoutOneTime, isStripeConfigured } from './stripe';
-import { STRIPE_PRICE_MONTHLY, STRIPE_PRICE_YEARLY, STRIPE_PRICE_CUSP_ONEOFF } from './stripeConfig';
+import { STRIPE_PRICE_MONTHLY, STRIPE_PRICE_YEARLY, STRIPE_PRICE_CUSP_ONEOFF, type GiftProduct } from './stripeConfig';
 import { SITE_URL } from './urls';
+import { clearEntitlementsCache } from './entitlements';
+
+export type EntitlementKind = 'comp' | 'vip' | 'staff' | 'gift' | 'promo';
 
 export type SubscriptionCheck = {
   active: boolean;
@@ -12,21 +15,19 @@ export type SubscriptionCheck = {
   plan?: 'monthly' | 'yearly';
   price_id?: string;
   current_period_end?: number;
+  // set on subscriptions: true once cancelled, with access until current_period_end
+  cancel_at_period_end?: boolean;
+  // set when source is 'override': an entitlements grant (comp, VIP, staff, gift, promo)
+  isVip?: boolean;
+  entitlement?: { id: string; kind: EntitlementKind; reason: string; expires_at: string | null };
+  // set while status is 'trialing'; amount_after is the first charge in cents (null if unknown)
+  trial?: { ends_at: number; days_remaining: number; amount_after: number | null; currency: string };
+  // set while status is 'past_due' and the payment is being retried; access stops at ends_at
+  grace?: { ends_at: number; days_remaining: number; next_retry_at: number | null; expired: boolean };
   // allow diagnostics or any extra props from the Edge Function
   [key: string]: any;
 };
 
-const SPECIAL_ACCOUNTS = new Set<string>([
-  'mish.cd@gmail.com',
-  'petermaricar@bigpond.com',
-  'tsharna.kecek@gmail.com',
-  'james.summerton@outlook.com',
-  'xavier.cd@gmail.com',
-  'xaviercd96@gmail.com',
-  'adam.stead@techweave.co',      // ✅ VIP Account
-  'michael.p.r.orourke@gmail.com', // ✅ VIP Account
-]);
-
 async function invokeStripeStatus(accessToken: string) {
   return supabase.functions.invoke('stripe-status', {
     method: 'POST',
@@ -51,13 +52,6 @@ export async function hasActiveSubscription(): Promise<SubscriptionCheck> {
       return { active: false, reason: 'no_session', source: 'none', status: 'unknown' };
     }
 
-    // 1a) Special account override (fast path)
-    const userEmail = session.user?.email ?? '';
-    if (userEmail && SPECIAL_ACCOUNTS.has(userEmail)) {
-      console.log(`✅ [billing] Special account access granted: ${userEmail}`);
-      return { active: true, reason: 'special_account', source: 'override', status: 'active' };
-    }
-
     console.log('[billing] Session found, checking subscription status…');
 
     // 2) Call Edge Function (with a tiny retry if we ever hit a 401)
@@ -96,7 +90,7 @@ export async function getSubscriptionStatus() {
 
 /* ---------- Checkout helpers ---------- */
 
-export async function subscribeMonthly(): Promise<void> {
+export async function subscribeMonthly(code?: string): Promise<void> {
   console.log('=== SUBSCRIBE MONTHLY ===');
   
   // Check authentication first
@@ -129,10 +123,11 @@ export async function subscribeMonthly(): Promise<void> {
     priceId: STRIPE_PRICE_MONTHLY,
     successUrl,
     cancelUrl,
+    code,
   });
 }
 
-export async function subscribeYearly(): Promise<void> {
+export async function subscribeYearly(code?: string): Promise<void> {
   console.log('=== SUBSCRIBE YEARLY ===');
   
   // Check authentication first
@@ -157,10 +152,11 @@ export async function subscribeYearly(): Promise<void> {
     priceId: STRIPE_PRICE_YEARLY,
     successUrl: `${siteUrl}/auth/success?type=subscription`,
     cancelUrl: `${siteUrl}/(tabs)/settings`,
+    code,
   });
 }
 
-export async function buyOneOffReading(): Promise<void> {
+export async function buyOneOffReading(code?: string): Promise<void> {
   console.log('=== BUY ONE-OFF READING ===');
   
   // Check authentication first
@@ -185,13 +181,165 @@ export async function buyOneOffReading(): Promise<void> {
     priceId: STRIPE_PRICE_CUSP_ONEOFF,
     successUrl: `${siteUrl}/auth/success?type=oneoff`,
     cancelUrl: `${siteUrl}/(tabs)/settings`,
+    code,
+  });
+}
+
+/* ---------- Trials & referrals ---------- */
+
+// Free-trial length per plan, for the plan cards. Only first subscriptions get it.
+export async function getTrialOffers(): Promise<{ monthly?: number; yearly?: number }> {
+  const { data, error } = await supabase.from('price_trials').select('price_id, trial_days');
+  if (error) {
+    console.warn('[billing] Trial lookup failed:', error);
+    return {};
+  }
+  const days = (priceId: string): number | undefined =>
+    data?.find((t: { price_id: string; trial_days: number }) => t.price_id === priceId)?.trial_days;
+  return { monthly: days(STRIPE_PRICE_MONTHLY), yearly: days(STRIPE_PRICE_YEARLY) };
+}
+
+// The signed-in member's code to share; created on first request
+export async function getReferralCode(): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_my_referral_code');
+  if (error) {
+    console.warn('[billing] Referral code lookup failed:', error);
+    return null;
+  }
+  return data as string;
+}
+
+/* ---------- Gifts ---------- */
+
+export type GiftCode = {
+  code: string;
+  product: 'subscription' | 'cusp_reading';
+  months: number | null;
+  recipient_name: string | null;
+  recipient_email: string | null;
+  status: 'issued' | 'redeemed' | 'void';
+  redeemed_at: string | null;
+  created_at: string;
+};
+
+export type GiftRedemption = {
+  product: 'subscription' | 'cusp_reading';
+  months: number | null;
+  starts_at: string | null;
+  expires_at: string | null;
+};
+
+// Pay for a gift; the code shows up in getMyGifts() once the webhook has the payment
+export async function buyGift(
+  gift: GiftProduct,
+  recipient: { name?: string; email?: string; message?: string },
+  code?: string,
+): Promise<void> {
+  console.log('=== BUY GIFT ===', gift.id);
+
+  const { getCurrentUser } = await import('./auth');
+  const authUser = await getCurrentUser();
+  if (!authUser) {
+    throw new Error('Please sign in to buy a gift');
+  }
+
+  if (!gift.priceId) throw new Error('This gift is not available right now');
+
+  const siteUrl = SITE_URL;
+  await checkoutOneTime({
+    priceId: gift.priceId,
+    successUrl: `${siteUrl}/auth/success?type=gift`,
+    cancelUrl: `${siteUrl}/settings/gifts`,
+    code,
+    gift: {
+      product: gift.product,
+      months: gift.months,
+      recipientName: recipient.name?.trim() || undefined,
+      recipientEmail: recipient.email?.trim() || undefined,
+      message: recipient.message?.trim() || undefined,
+    },
   });
 }
 
-export async function upgradeToYearly(): Promise<{ message: string }> {
+// Gifts the signed-in member has bought, newest first
+export async function getMyGifts(): Promise<GiftCode[]> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return [];
+
+  const { data, error } = await supabase
+    .from('gift_codes')
+    .select('code, product, months, recipient_name, recipient_email, status, redeemed_at, created_at')
+    .eq('purchaser_id', session.user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.warn('[billing] Gift lookup failed:', error);
+    return [];
+  }
+  return (data ?? []) as GiftCode[];
+}
+
+export async function redeemGiftCode(code: string): Promise<GiftRedemption> {
+  console.log('=== REDEEM GIFT CODE ===');
+  const { data, error } = await supabase.rpc('redeem_gift_code', { gift_code: code.trim() });
+  if (error) {
+    console.error('❌ [billing] Gift redemption failed:', error.message);
+    throw new Error(error.message === 'Not authenticated' ? 'Please sign in to redeem a gift' : error.message);
+  }
+  // A code that can't be redeemed comes back as { error }, so the attempt still counts
+  if (data?.error) {
+    console.warn('[billing] Gift code not redeemed:', data.error);
+    throw new Error(data.error);
+  }
+  clearEntitlementsCache();
+  return data as GiftRedemption;
+}
+
+/* ---------- Plan changes ---------- */
+
+// What switching monthly → yearly would charge today (stripe-upgrade preview)
+export type UpgradePreview = {
+  prorationDate: number;           // pass back to upgradeToYearly so the charge matches
+  amountDue: number;               // cents
+  currency: string;
+  lines: { description: string | null; amount: number; proration: boolean }[];
+  currentPeriodEnd: number;
+};
+
+async function invokeStripeUpgrade(body: Record<string, unknown>): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Please sign in to change your plan');
+  }
+
+  const { data, error } = await supabase.functions.invoke('stripe-upgrade', {
+    headers: { Authorization: `Bearer ${session.access_token}` },
+    body,
+  });
+
+  if (error) {
+    const message = await functionErrorMessage(error, 'Plan change failed');
+    console.error('❌ [billing] stripe-upgrade error:', message);
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function previewYearlyUpgrade(): Promise<UpgradePreview> {
+  console.log('=== PREVIEW YEARLY UPGRADE ===');
+  const data = await invokeStripeUpgrade({});
+  if (!data?.preview) throw new Error('No upgrade preview returned');
+  return data.preview as UpgradePreview;
+}
+
+export async function upgradeToYearly(prorationDate: number): Promise<{ message: string; currentPeriodEnd?: number }> {
   console.log('=== UPGRADE TO YEARLY ===');
-  await subscribeYearly();
-  return { message: 'Redirecting to yearly subscription checkout...' };
+  const data = await invokeStripeUpgrade({ confirm: true, prorationDate });
+  clearEntitlementsCache();
+  return {
+    message: 'Your plan has been upgraded to yearly.',
+    currentPeriodEnd: data?.subscription?.currentPeriodEnd,
+  };
 }
 
 export async function openStripePortal(): Promise<void> {
@@ -2,83 +2,24 @@
 'use client';
 
 import { supabase } from '@/utils/supabase';
+import { encodeSignKey, formatSignKey, parseSignKey, type SignKey } from './signKey';
 
 // ----- Types -----
 export type HemiShort = 'NH' | 'SH';
 export type HemiAny = HemiShort | 'Northern' | 'Southern';
 
 export type DailyRow = {
-  sign: string;
+  sign: string;               // canonical key, e.g. "aries-taurus" (see utils/signKey.ts)
   hemisphere: 'Northern' | 'Southern';
   date: string;               // "YYYY-MM-DD" (DATE) or ISO if TIMESTAMP exists
   daily_horoscope?: string;   // Today's Guidance
   affirmation?: string;       // Daily affirmation
   deeper_insight?: string;    // Daily Astral Plane
+  fallbackFrom?: string;      // set to the row's date when it isn't the day asked for
   __source_table__?: 'horoscope_cache';
   [key: string]: any;
 };
 
-// ============================================================================
-// String helpers
-// ============================================================================
-function toTitleCaseWord(w: string) {
-  return w ? w[0].toUpperCase() + w.slice(1).toLowerCase() : '';
-}
-
-/** Normalize a sign label for DAILY matching (prefer en–dash forms). */
-function normalizeSignForDaily(input: string): {
-  primaryWithCusp?: string;   // "Aries–Taurus Cusp"
-  primaryNoCusp: string;      // "Aries–Taurus" or "Aries"
-  parts: string[];
-  isCusp: boolean;
-} {
-  if (!input) return { primaryNoCusp: '', parts: [], isCusp: false };
-
-  let s = input.trim().replace(/\s+/g, ' ').trim();
-  const isCusp = /\bcusp\b/i.test(s);
-
-  const hyphenBase = s.replace(/[–—]/g, '-'); // normalize to hyphen
-  const noCusp = hyphenBase.replace(/\s*cusp\s*$/i, '').trim();
-
-  const parts = noCusp
-    .split('-')
-    .map(part =>
-      part
-        .trim()
-        .split(' ')
-        .map(toTitleCaseWord)
-        .join(' ')
-    )
-    .filter(Boolean);
-
-  const baseEnDash = parts.join('–');
-  const primaryNoCusp = baseEnDash;
-  const primaryWithCusp = isCusp ? `${baseEnDash} Cusp` : undefined;
-
-  return { primaryWithCusp, primaryNoCusp, parts, isCusp };
-}
-
-/**
- * Compare DB sign vs requested sign, tolerant to:
- * - "Cusp" suffix present/absent
- * - em/en-dash vs hyphen
- * - spaces vs hyphens (e.g., "Aries Taurus Cusp" vs "Aries–Taurus Cusp")
- */
-function rowMatchesSign(dbSign: string, attempt: string) {
-  if (!dbSign || !attempt) return false;
-  const norm = (s: string) =>
-    s
-      .trim()
-      .replace(/\s+/g, ' ')
-      .replace(/\s*cusp\s*$/i, '')   // strip "Cusp"
-      .replace(/[—–]/g, '-')         // unify long dashes
-      .replace(/\s*-\s*/g, '-')      // tidy " - "
-      .replace(/\s+/g, '-')          // convert remaining spaces to hyphen
-      .toLowerCase();
-
-  return norm(dbSign) === norm(attempt);
-}
-
 // ============================================================================
 // Hemisphere helpers
 // ============================================================================
@@ -185,51 +126,54 @@ function setInCache(key: string, value: unknown) {
   }
 }
 
-/** Build sign attempts in strict cusp-first order (no true-sign fallback for cusp unless enabled). */
-function buildSignAttemptsForDaily(
-  inputLabel: string,
-  opts?: { allowTrueSignFallback?: boolean }
-): string[] {
-  const { primaryWithCusp, primaryNoCusp, parts, isCusp } = normalizeSignForDaily(inputLabel);
-  const allowFallback = !!opts?.allowTrueSignFallback;
-
-  const list: string[] = [];
-  if (primaryWithCusp) list.push(primaryWithCusp);                    // en–dash + "Cusp"
-  if (primaryWithCusp) list.push(primaryWithCusp.replace(/–/g, '-')); // hyphen + "Cusp"
-  if (primaryNoCusp) list.push(primaryNoCusp);                         // en–dash no cusp
-  if (primaryNoCusp) list.push(primaryNoCusp.replace(/–/g, '-'));     // hyphen no cusp
-
-  if (!isCusp || allowFallback) {
-    for (const p of parts) if (p) list.push(p);                       // fallback to each sign if allowed
-  }
-  return [...new Set(list)].filter(Boolean);
+/** Flag a row that stands in for another day, so screens can say which day it is from. */
+function markFallback(row: DailyRow, wanted: string): DailyRow {
+  const day = String(row.date).slice(0, 10);
+  return { ...row, fallbackFrom: day === wanted ? undefined : day };
 }
 
 // ============================================================================
 // DB fetchers (tolerant to hemisphere + timestamp dates)
 // ============================================================================
 
+const DAILY_COLUMNS = 'sign, hemisphere, date, daily_horoscope, affirmation, deeper_insight';
+
+function toDailyRow(r: any): DailyRow {
+  return {
+    sign: r.sign,
+    hemisphere: r.hemisphere,
+    date: r.date,
+    daily_horoscope: r.daily_horoscope || '',
+    affirmation: r.affirmation || '',
+    deeper_insight: r.deeper_insight || '',
+    __source_table__: 'horoscope_cache',
+  };
+}
+
 /**
- * Fetch rows for exact date+hemi. If your column is DATE, .eq('date', ymd) is perfect.
+ * Fetch the row for exact date+hemi+sign. If your column is DATE, .eq('date', ymd) is perfect.
  * If your column is TIMESTAMP, we’ll also try a [date, date+1) range.
  */
-async function fetchRowsForDate(
+async function fetchRowForDate(
   date: string,
   hemi: 'Northern' | 'Southern',
+  sign: SignKey,
   debug?: boolean
-): Promise<{ rows: DailyRow[]; error: any }> {
+): Promise<{ row: DailyRow | null; error: any }> {
   const hemiVariants = buildHemisphereVariants(hemi);
 
   // First try exact equality (DATE column path)
   let { data, error } = await supabase
     .from('horoscope_cache')
-    .select('sign, hemisphere, date, daily_horoscope, affirmation, deeper_insight')
+    .select(DAILY_COLUMNS)
     .in('hemisphere', hemiVariants as any)
-    .eq('date', date);
+    .eq('sign', encodeSignKey(sign))
+    .eq('date', date)
+    .limit(1);
 
   if (debug) {
     console.log('[daily] (eq-date) attempt', {
-      date, hemi, hemiVariants,
+      date, hemi, sign: sign.key,
       error: error?.message || null,
       count: Array.isArray(data) ? data.length : 0,
     });
@@ -244,14 +188,16 @@ async function fetchRowsForDate(
 
     const range = await supabase
       .from('horoscope_cache')
-      .select('sign, hemisphere, date, daily_horoscope, affirmation, deeper_insight')
+      .select(DAILY_COLUMNS)
       .in('hemisphere', hemiVariants as any)
+      .eq('sign', encodeSignKey(sign))
       .gte('date', start)
-      .lt('date', endIso);
+      .lt('date', endIso)
+      .limit(1);
 
     if (debug) {
       console.log('[daily] (range-date) attempt', {
-        date, start, end: endIso, hemi, hemiVariants,
+        date, start, end: endIso, hemi, sign: sign.key,
         error: range.error?.message || null,
         count: Array.isArray(range.data) ? range.data.length : 0,
       });
@@ -262,38 +208,13 @@ async function fetchRowsForDate(
     }
   }
 
-  if (error) return { rows: [], error };
-
-  const rows: DailyRow[] = (data || []).map(r => ({
-    sign: r.sign,
-    hemisphere: r.hemisphere,
-    date: r.date,
-    daily_horoscope: r.daily_horoscope || '',
-    affirmation: r.affirmation || '',
-    deeper_insight: r.deeper_insight || '',
-    __source_table__: 'horoscope_cache',
-  }));
-
-  // If still nothing, do a quick visibility probe (no date filter) to help debugging
-  if (!rows.length && debug) {
-    const probe = await supabase
-      .from('horoscope_cache')
-      .select('sign, hemisphere, date')
-      .in('hemisphere', hemiVariants as any)
-      .limit(3);
-    console.log('[daily] probe any-date rows for hemisphere', {
-      hemiVariants,
-      error: probe.error?.message || null,
-      sample: probe.data || [],
-    });
-  }
-
-  return { rows, error: null };
+  if (error) return { row: null, error };
+  return { row: data?.length ? toDailyRow(data[0]) : null, error: null };
 }
 
 /** Latest-row fallback for sign+hemisphere in case no anchors matched (RLS/date mismatch/etc.). */
 async function fetchLatestForSignAndHemi(
-  signAttempts: string[],
+  sign: SignKey,
   hemi: 'Northern' | 'Southern',
   debug?: boolean
 ): Promise<DailyRow | null> {
@@ -301,41 +222,21 @@ async function fetchLatestForSignAndHemi(
 
   const { data, error } = await supabase
     .from('horoscope_cache')
-    .select('sign, hemisphere, date, daily_horoscope, affirmation, deeper_insight')
+    .select(DAILY_COLUMNS)
     .in('hemisphere', hemiVariants as any)
+    .eq('sign', encodeSignKey(sign))
     .order('date', { ascending: false })
-    .limit(200);
+    .limit(1);
 
   if (debug) {
     console.log('[daily] latest fallback fetch', {
-      hemiVariants,
+      sign: sign.key, hemiVariants,
       error: error?.message || null,
-      count: Array.isArray(data) ? data.length : 0,
+      date: data?.[0]?.date ?? null,
     });
   }
   if (error || !data?.length) return null;
-
-  for (const cand of signAttempts) {
-    const match = data.find(r => rowMatchesSign(r.sign, cand));
-    if (match) {
-      if (debug) {
-        console.log('[daily] ✅ latest fallback match', {
-          wanted: cand, matchedRowSign: match.sign, date: match.date,
-          hasDaily: !!match.daily_horoscope, hasAff: !!match.affirmation, hasDeep: !!match.deeper_insight,
-        });
-      }
-      return {
-        sign: match.sign,
-        hemisphere: match.hemisphere,
-        date: match.date,
-        daily_horoscope: match.daily_horoscope || '',
-        affirmation: match.affirmation || '',
-        deeper_insight: match.deeper_insight || '',
-        __source_table__: 'horoscope_cache',
-      };
-    }
-  }
-  return null;
+  return toDailyRow(data[0]);
 }
 
 // ============================================================================
@@ -343,47 +244,33 @@ async function fetchLatestForSignAndHemi(
 // ============================================================================
 
 export async function getDailyForecast(
-  signIn: string,
+  signIn: string | SignKey,
   hemisphereIn: HemiAny,
   opts?: {
     userId?: string;
     forceDate?: string;        // if provided, overrides anchors entirely
     useCache?: boolean;
     debug?: boolean;
-    allowTrueSignFallback?: boolean;
   }
 ): Promise<DailyRow | null> {
   const debug = !!opts?.debug;
   const userId = opts?.userId;
   const hemi = hemiToDB(hemisphereIn);
 
+  const sign = parseSignKey(signIn);
+  if (!sign) {
+    if (debug) console.warn('[daily] unrecognised sign', { signIn });
+    return null;
+  }
+
   const today = new Date();
   const anchors = opts?.forceDate ? [opts?.forceDate] : buildDailyAnchorsList(today);
-
-  const signAttempts = buildSignAttemptsForDaily(signIn, {
-    allowTrueSignFallback: !!opts?.allowTrueSignFallback,
-  });
-
-  // Canary log: what can the client see (remove after debugging)
-  if (debug) {
-    try {
-      const { data, error } = await supabase
-        .from('horoscope_cache')
-        .select('date, hemisphere, sign')
-        .eq('hemisphere', hemi)
-        .gte('date', '2025-10-01')
-        .lte('date', '2025-10-31')
-        .limit(3);
-      console.log('[canary] visible rows in Oct:', data?.length ?? 0, data, 'error:', error ?? null);
-    } catch (e) {
-      console.log('[canary] threw:', e);
-    }
-  }
+  const wanted = anchors[0];
 
   if (debug) {
-    console.log('[daily] attempts', {
+    console.log('[daily] lookup', {
       originalSign: signIn,
-      signAttempts,
+      sign: sign.key,
       anchors,
       hemisphere: hemi,
       todayUserTZ: getUserTimeZone(),
@@ -392,72 +279,40 @@ export async function getDailyForecast(
     });
   }
 
-  // Cache-first pass
+  // Cache-first pass, for the wanted day only: a cached neighbouring day must not
+  // hide a row that has been published since
   if (opts?.useCache !== false) {
-    for (const dateStr of anchors) {
-      for (const s of signAttempts) {
-        const key = cacheKeyDaily(userId, s, hemi, dateStr);
-        const cached = getFromCache<DailyRow>(key);
-        if (cached && cached.date && cached.hemisphere && cached.sign) {
-          if (debug) console.log('💾 [daily] cache hit', {
-            key, sign: s, hemi, date: dateStr, source: cached.__source_table__
-          });
-          return cached;
-        }
-      }
+    const key = cacheKeyDaily(userId, sign.key, hemi, wanted);
+    const cached = getFromCache<DailyRow>(key);
+    if (cached && cached.date && cached.hemisphere && cached.sign) {
+      if (debug) console.log('💾 [daily] cache hit', {
+        key, sign: sign.key, hemi, date: wanted, source: cached.__source_table__
+      });
+      return markFallback(cached, wanted);
     }
   }
 
-  // DB: list-by-date+hemi (tolerant) then match sign in-app
+  // DB: one row per anchor, nearest day first
   for (const dateStr of anchors) {
-    if (debug) console.log('[daily] Fetching list for date="%s", hemisphere="%s"', dateStr, hemi);
-    const { rows, error } = await fetchRowsForDate(dateStr, hemi, debug);
-    if (error) continue;
-    if (!rows.length) {
-      if (debug) console.log('[daily] no rows for that date+hemi, trying next anchor');
-      continue;
-    }
-
-    // Try to match our sign attempts against the list
-    for (const cand of signAttempts) {
-      const hit = rows.find(r => rowMatchesSign(r.sign, cand));
-      if (hit) {
-        const clean: DailyRow = {
-          sign: hit.sign,
-          hemisphere: hit.hemisphere,
-          date: hit.date,
-          daily_horoscope: hit.daily_horoscope || '',
-          affirmation: hit.affirmation || '',
-          deeper_insight: hit.deeper_insight || '',
-          __source_table__: 'horoscope_cache',
-        };
-        // cache per specific attempt
-        const key = cacheKeyDaily(userId, cand, hemi, dateStr);
-        setInCache(key, clean);
-        if (debug) {
-          console.log('[daily] FOUND row via list+match', {
-            sign: clean.sign, hemisphere: clean.hemisphere, date: clean.date,
-            hasDaily: !!clean.daily_horoscope, hasAff: !!clean.affirmation, hasDeep: !!clean.deeper_insight,
-          });
-        }
-        return clean;
-      }
-    }
+    const { row, error } = await fetchRowForDate(dateStr, hemi, sign, debug);
+    if (error || !row) continue;
 
+    setInCache(cacheKeyDaily(userId, sign.key, hemi, dateStr), row);
     if (debug) {
-      console.log('[daily] had rows for date+hemi but none matched sign attempts', {
-        signAttempts,
-        exampleRows: rows.slice(0, 3).map(r => r.sign),
+      console.log('[daily] FOUND row', {
+        sign: row.sign, hemisphere: row.hemisphere, date: row.date,
+        hasDaily: !!row.daily_horoscope, hasAff: !!row.affirmation, hasDeep: !!row.deeper_insight,
       });
     }
+    return markFallback(row, wanted);
   }
 
   // ---- FINAL SAFETY NET: latest known row for this sign+hemi ----
   if (debug) console.warn('[daily] not found for anchors; trying latest fallback…');
-  const latest = await fetchLatestForSignAndHemi(signAttempts, hemi, debug);
-  if (latest) return latest;
+  const latest = await fetchLatestForSignAndHemi(sign, hemi, debug);
+  if (latest) return markFallback(latest, wanted);
 
-  if (debug) console.warn('[daily] not found for', { signAttempts, anchors, hemi });
+  if (debug) console.warn('[daily] not found for', { sign: sign.key, anchors, hemi });
   return null;
 }
 
@@ -474,42 +329,39 @@ export async function getAccessibleHoroscope(user: any, opts?: {
       ? user.hemisphere
       : (user?.hemisphere as 'Northern' | 'Southern') || 'Southern';
 
-  const signLabel =
-    user?.cuspResult?.cuspName ||
-    user?.cuspResult?.primarySign ||
-    user?.preferred_sign ||
-    '';
-
-  const isCuspInput = /\bcusp\b/i.test(signLabel);
+  const sign =
+    parseSignKey(user?.cuspResult?.signKey) ||
+    parseSignKey(user?.cuspResult?.cuspName) ||
+    parseSignKey(user?.cuspResult?.primarySign) ||
+    parseSignKey(user?.preferred_sign);
+  if (!sign) return null;
 
-  const row = await getDailyForecast(signLabel, hemisphere, {
+  const row = await getDailyForecast(sign, hemisphere, {
     userId: user?.id || user?.email,
     forceDate: opts?.forceDate,
     useCache: opts?.useCache,
     debug,
-    allowTrueSignFallback: !isCuspInput ? true : false,
   });
 
   if (!row) return null;
 
   return {
     date: row.date,
-    sign: row.sign,
+    sign: formatSignKey(sign),
     hemisphere: row.hemisphere,
     daily: row.daily_horoscope || '',
     affirmation: row.affirmation || '',
     deeper: row.deeper_insight || '',
+    fallbackFrom: row.fallbackFrom,
     raw: row,
   };
 }
 
 export const DailyHelpers = {
-  normalizeSignForDaily,
   hemiToDB,
   anchorLocal,
   anchorUTC,
   ymdInTZ,
   buildDailyAnchors: buildDailyAnchorsList,
-  buildSignAttemptsForDaily,
   cacheKeyDaily,
 };
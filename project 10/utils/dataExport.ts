@@ -0,0 +1,74 @@
+// utils/dataExport.ts
+// Personal data export (data-export edge function): everything we store about
+// the signed-in user as one JSON archive with a plain-language summary.
+
+import { Platform, Share } from 'react-native';
+import { supabase, functionErrorMessage } from './supabase';
+
+export interface DataExportArchive {
+  format: 'astrocusp-data-export';
+  version: number;
+  exportedAt: string;
+  summary: string;
+  data: {
+    user: { id: string; email?: string; created_at?: string; last_sign_in_at?: string };
+    profile: Record<string, any> | null;
+    preferences: Record<string, any>[];
+    app_subscriptions: Record<string, any>[];
+    subscriptions: Record<string, any>[];
+    orders: Record<string, any>[];
+    entitlements: Record<string, any>[];
+    referrals: { code: string | null; made: Record<string, any>[] };
+    gifts: { bought: Record<string, any>[]; received: Record<string, any>[] };
+  };
+}
+
+export async function requestDataExport(): Promise<DataExportArchive> {
+  console.log('📦 [dataExport] Requesting export...');
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Please sign in to export your data');
+  }
+
+  const { data, error } = await supabase.functions.invoke('data-export', {
+    headers: { Authorization: `Bearer ${session.access_token}` },
+    body: {},
+  });
+
+  if (error) {
+    const message = await functionErrorMessage(error, 'Data export failed');
+    console.error('❌ [dataExport] Export failed:', message);
+    throw new Error(message);
+  }
+
+  const archive = (typeof data === 'string' ? JSON.parse(data) : data) as DataExportArchive;
+  if (archive?.format !== 'astrocusp-data-export') {
+    throw new Error('Unexpected export format');
+  }
+  console.log('📦 [dataExport] Export received:', archive.exportedAt);
+  return archive;
+}
+
+/**
+ * Hand the archive to the user: a .json download on web, the share sheet on
+ * native (no file-system module in this app, so the JSON is shared as text).
+ */
+export async function saveDataExport(archive: DataExportArchive): Promise<void> {
+  const json = JSON.stringify(archive, null, 2);
+  const filename = `astrocusp-data-${archive.exportedAt.slice(0, 10)}.json`;
+
+  if (Platform.OS === 'web' && typeof document !== 'undefined') {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  await Share.share({ title: filename, message: `${archive.summary}\n\n${json}` });
+}
@@ -1,23 +1,8 @@
 import { UserProfile } from './userData';
-
-export function normalizeSignLabel(label?: string): string | undefined {
-  if (!label) return undefined;
-  return label
-    .replace(/\s*V\d+\s*$/i, '')      // drop " V3" suffixes
-    .replace(/[–—]/g, '-')            // normalize dashes
-    .trim();
-}
+import { parseSignKey, signKeyFromProfile, type SignKey } from './signKey';
 
 /** Highest-priority: route param (if passed separately).
- * Otherwise: cuspName (if on cusp) → primarySign → undefined (NO Aries fallback) */
-export function getEffectiveSign(user?: UserProfile | null, routeSign?: string): string | undefined {
-  const fromRoute = normalizeSignLabel(routeSign);
-  if (fromRoute) return fromRoute;
-
-  const cr = user?.cuspResult;
-  if (!cr) return undefined;
-
-  if (cr.isOnCusp && cr.cuspName) return normalizeSignLabel(cr.cuspName);
-  if (cr.primarySign) return normalizeSignLabel(cr.primarySign);
-  return undefined;
-}
\ No newline at end of file
+ * Otherwise: the profile's key (cusp if on one → primarySign) → undefined (NO Aries fallback) */
+export function getEffectiveSign(user?: UserProfile | null, routeSign?: string): SignKey | undefined {
+  return parseSignKey(routeSign) ?? signKeyFromProfile(user) ?? undefined;
+}
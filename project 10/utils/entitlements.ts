@@ -0,0 +1,102 @@
+// utils/entitlements.ts
+// Single client-side answer to "what can this user access?", backed by the
+// get-entitlements edge function (subscriptions, grants and one-off purchases).
+// Screens should gate through useEntitlements() rather than checking billing directly.
+
+import { supabase, functionErrorMessage } from './supabase';
+
+// ---------------- Types ----------------
+export type EntitlementFeature =
+  | 'daily_deeper_insight'
+  | 'monthly_forecast'
+  | 'cusp_reading'
+  | 'mystic_mish_rituals'
+  | 'personal_transits';
+
+export type EntitlementSource = 'subscription' | 'grant' | 'purchase';
+
+export interface Entitlement {
+  feature: EntitlementFeature;
+  source: EntitlementSource;
+  expiresAt: string | null; // ISO; null = does not expire
+  plan?: 'monthly' | 'yearly';
+  grantKind?: string; // for source 'grant': comp, vip, staff, gift, promo
+}
+
+export interface EntitlementsResult {
+  userId: string | null;
+  checkedAt: string;
+  entitlements: Entitlement[];
+}
+
+// ---------------- Cache ----------------
+// Screens mount often; the astrology tab used to re-check billing at most every 2 minutes
+const CACHE_TTL_MS = 120_000;
+
+let _cache: { userId: string; fetchedAt: number; result: EntitlementsResult } | null = null;
+let _inFlight: { userId: string; promise: Promise<EntitlementsResult> } | null = null;
+
+export function clearEntitlementsCache(): void {
+  _cache = null;
+  _inFlight = null;
+}
+
+// ---------------- Resolver ----------------
+const NONE = (): EntitlementsResult => ({ userId: null, checkedAt: new Date().toISOString(), entitlements: [] });
+
+async function fetchEntitlements(accessToken: string): Promise<EntitlementsResult> {
+  const { data, error } = await supabase.functions.invoke('get-entitlements', {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: {},
+  });
+  if (error) {
+    throw new Error(await functionErrorMessage(error, 'Entitlement check failed'));
+  }
+  return {
+    userId: data?.userId ?? null,
+    checkedAt: data?.checkedAt ?? new Date().toISOString(),
+    entitlements: Array.isArray(data?.entitlements) ? data.entitlements : [],
+  };
+}
+
+/** Everything the signed-in user can access. Signed-out users get an empty list. */
+export async function getEntitlements({ force = false } = {}): Promise<EntitlementsResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user?.id;
+  if (!session?.access_token || !userId) return NONE();
+
+  if (!force && _cache?.userId === userId && Date.now() - _cache.fetchedAt < CACHE_TTL_MS) {
+    return _cache.result;
+  }
+  if (!force && _inFlight?.userId === userId) return _inFlight.promise;
+
+  const promise = fetchEntitlements(session.access_token)
+    .then(result => {
+      _cache = { userId, fetchedAt: Date.now(), result };
+      console.log('🔑 [entitlements]', result.entitlements.map(e => `${e.feature}:${e.source}`).join(', ') || 'none');
+      return result;
+    })
+    .finally(() => {
+      if (_inFlight?.promise === promise) _inFlight = null;
+    });
+  _inFlight = { userId, promise };
+  return promise;
+}
+
+/** True if the list grants the feature and it hasn't expired yet. */
+export function hasEntitlement(entitlements: Entitlement[], feature: EntitlementFeature, now = new Date()): boolean {
+  return entitlements.some(
+    e => e.feature === feature && (e.expiresAt === null || new Date(e.expiresAt).getTime() > now.getTime())
+  );
+}
+
+/** One-shot check for non-React callers. Fails closed. */
+export async function canAccess(feature: EntitlementFeature): Promise<boolean> {
+  try {
+    const { entitlements } = await getEntitlements();
+    return hasEntitlement(entitlements, feature);
+  } catch (e) {
+    console.error('❌ [entitlements] Check failed:', e);
+    return false;
+  }
+}
@@ -8,13 +8,11 @@ if (typeof Platform === 'undefined') {
   (global as any).Platform = { OS: 'web' };
 }
 
-import {
-  normalizeSignForDatabase,
-  normalizeHemisphereLabel,
-} from '@/utils/signs';
+import { normalizeHemisphereLabel } from '@/utils/signs';
+import { encodeSignKey, formatSignKey, parseSignKey } from './signKey';
 
 export interface ForecastRow {
-  sign: string;
+  sign: string;              // canonical key, e.g. "aries-taurus" (see utils/signKey.ts)
   hemisphere: string;        // "NH"/"SH" in DB (we keep string here)
   date: string;              // "YYYY-MM-01"
   monthly_forecast: string;  // DB column
@@ -120,12 +118,6 @@ const storage = {
 // ------------------------------------------------------------------------------------
 // Utils
 // ------------------------------------------------------------------------------------
-function parseAsDate(d: string | undefined): number {
-  if (!d) return 0;
-  const t = Date.parse(d);
-  return Number.isNaN(t) ? 0 : t;
-}
-
 function getMonthlyForecastCacheKey(sign: string, hemisphere: string, month: string): string {
   const hemiCode = hemisphere === 'Northern' ? 'NH' : hemisphere === 'Southern' ? 'SH' : hemisphere;
   return `monthly_${sign}__${hemiCode}__${month}`;
@@ -148,57 +140,6 @@ async function clearOldMonthlyCacheKeys() {
   }
 }
 
-// Build sign attempts for monthly forecasts
-function buildMonthlySignAttempts(input: string): string[] {
-  const trimmed = (input || '').trim();
-
-  if (trimmed.toLowerCase().includes('cusp')) {
-    const baseName = trimmed.replace(/\s*cusp\s*$/i, '').trim();
-    const parts = baseName.split(/[–-]/).map(p => p.trim()).filter(Boolean);
-
-    if (parts.length >= 2) {
-      const sign1 = parts[0];
-      const sign2 = parts[1];
-
-      // Ensure mutable array type (avoid readonly inference)
-      return Array.from(
-        new Set(
-          [
-            // DB cusp format first (lowercase with hyphen)
-            `${sign1.toLowerCase()}-${sign2.toLowerCase()}`,
-            trimmed,
-            `${sign1}–${sign2}`,
-            `${sign1}-${sign2}`,
-            baseName,
-            // Try with "Cusp" suffix
-            `${baseName} Cusp`,
-            `${sign1}–${sign2} Cusp`,
-            `${sign1}-${sign2} Cusp`,
-            // Fallback to individual signs
-            sign1,
-            sign2,
-          ].filter(Boolean) as string[]
-        )
-      );
-    }
-  }
-
-  return Array.from(new Set([trimmed.toLowerCase(), trimmed].filter(Boolean) as string[]));
-}
-
-export function decideMonthlyTargetSign(user: any): string {
-  if (!user?.cuspResult) return user?.preferred_sign || '';
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { getDefaultSignFromUserData } = require('./signs');
-  const resolvedSign = getDefaultSignFromUserData(user);
-  return resolvedSign;
-}
-
-export function normalizeCuspLabelToDB(sign: string): string {
-  const noCuspWord = (sign || '').replace(/\s*cusp.*$/i, '').trim();
-  return noCuspWord.replace(/[–—−]/g, '-');
-}
-
 // ------------------------------------------------------------------------------------
 // Public API
 // ------------------------------------------------------------------------------------
@@ -212,11 +153,11 @@ export async function getLatestForecast(
   // Race protection
   const myRequestId = ++requestId;
 
-  const signNormalized = normalizeSignForDatabase(rawSign);
+  const signKey = parseSignKey(rawSign);
   const hemiLabel = normalizeHemisphereLabel(rawHemisphere);
   const hemiCode = hemiLabel === 'Northern' ? 'NH' : 'SH';
 
-  if (!signNormalized) {
+  if (!signKey) {
     return { ok: false, reason: 'empty_sign' };
   }
 
@@ -228,7 +169,7 @@ export async function getLatestForecast(
     ? targetMonth.toISOString().slice(0, 8) + '01'
     : `${currentYear}-${currentMonth}-01`;
 
-  const cacheKey = getMonthlyForecastCacheKey(signNormalized, hemiLabel, monthKey);
+  const cacheKey = getMonthlyForecastCacheKey(encodeSignKey(signKey), hemiLabel, monthKey);
 
   // Cache first
   try {
@@ -241,44 +182,32 @@ export async function getLatestForecast(
     /* ignore cache read errors */
   }
 
-  const signAttempts: string[] = buildMonthlySignAttempts(signNormalized);
-
   try {
-    for (const sign of signAttempts) {
-      if (myRequestId !== requestId) {
-        return { ok: false, reason: 'cancelled' };
-      }
-
-      const { data, error } = await supabase
-        .from('monthly_forecasts')
-        .select('sign, hemisphere, date, monthly_forecast')
-        .eq('sign', sign)
-        .eq('hemisphere', hemiCode)
-        .eq('date', monthKey)
-        .order('date', { ascending: false })
-        .limit(1);
-
-      if (error) {
-        continue;
-      }
-
-      if (data && data.length) {
-        const sorted = [...data].sort(
-          (a, b) => parseAsDate(b.date) - parseAsDate(a.date)
-        );
-        const best = sorted[0];
+    const { data, error } = await supabase
+      .from('monthly_forecasts')
+      .select('sign, hemisphere, date, monthly_forecast')
+      .eq('sign', encodeSignKey(signKey))
+      .eq('hemisphere', hemiCode)
+      .eq('date', monthKey)
+      .limit(1)
+      .maybeSingle();
+
+    if (myRequestId !== requestId) {
+      return { ok: false, reason: 'cancelled' };
+    }
+    if (error) {
+      return { ok: false, reason: error.message };
+    }
 
-        if (best?.monthly_forecast) {
-          try {
-            await storage.setItem(cacheKey, JSON.stringify(best));
-          } catch {
-            /* ignore cache write errors */
-          }
-          // Add alias for any legacy code expecting ".forecast"
-          (best as any).forecast = best.monthly_forecast;
-          return { ok: true, row: best as ForecastRow };
-        }
+    if (data?.monthly_forecast) {
+      try {
+        await storage.setItem(cacheKey, JSON.stringify(data));
+      } catch {
+        /* ignore cache write errors */
       }
+      // Add alias for any legacy code expecting ".forecast"
+      (data as any).forecast = data.monthly_forecast;
+      return { ok: true, row: data as ForecastRow };
     }
 
     return { ok: false, reason: 'not_found' };
@@ -294,9 +223,10 @@ export async function getForecast(
 ): Promise<Forecast | null> {
   const res = await getLatestForecast(signLabel, hemisphereLabel);
   if (!res.ok) return null;
+  const signKey = parseSignKey(res.row.sign);
 
   return {
-    sign: res.row.sign,
+    sign: signKey ? formatSignKey(signKey) : res.row.sign,
     hemisphere: normalizeHemisphereLabel(res.row.hemisphere),
     forecast_date: res.row.date,
     forecast_month: res.row.date,
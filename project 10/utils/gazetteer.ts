@@ -0,0 +1,311 @@
+// utils/gazetteer.ts
+// Offline birth-place lookups on top of the bundled city list
+// (utils/gazetteerData.ts): coordinates, IANA zone and hemisphere for a place,
+// plus the city search behind LocationInput and CityAutocomplete.
+
+import { GAZETTEER_DATA } from './gazetteerData';
+
+// ---------------- Types ----------------
+export interface GazetteerCity {
+  city: string;
+  region: string;
+  country: string;
+  countryCode: string;
+  lat: number;
+  lon: number;
+  timezone: string; // IANA, e.g. "Australia/Sydney"
+  hemisphere: 'Northern' | 'Southern';
+  label: string;    // "City, Country"
+}
+
+export interface ResolvedBirthPlace {
+  label: string;
+  timezone: string;
+  latitude?: number;  // only when the city itself was found
+  longitude?: number;
+  hemisphere?: 'Northern' | 'Southern';
+  precision: 'city' | 'region' | 'country';
+}
+
+// ---------------- Index ----------------
+/** Lowercase, strip accents and punctuation: "Málaga" → "malaga". */
+export function normalizePlaceName(s: string): string {
+  return (s || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[łŁ]/g, 'l')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function hemisphereFromLatitude(lat: number): 'Northern' | 'Southern' {
+  return lat >= 0 ? 'Northern' : 'Southern';
+}
+
+export const GAZETTEER: GazetteerCity[] = GAZETTEER_DATA.flatMap(block =>
+  block.cities.map(([city, region, lat, lon, zone]) => ({
+    city,
+    region,
+    country: block.country,
+    countryCode: block.code,
+    lat,
+    lon,
+    timezone: zone ?? block.zone,
+    hemisphere: hemisphereFromLatitude(lat),
+    label: `${city}, ${block.country}`,
+  }))
+);
+
+// normalized country name / alias / ISO code → country block
+const COUNTRY_INDEX = new Map(
+  GAZETTEER_DATA.flatMap(block =>
+    [block.country, block.code, ...(block.aliases ?? [])].map(name => [normalizePlaceName(name), block] as const)
+  )
+);
+
+// ---------------- Lookups ----------------
+function findCountry(text: string) {
+  return COUNTRY_INDEX.get(normalizePlaceName(text));
+}
+
+/** Great-circle distance in km. */
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const r = Math.PI / 180;
+  const a =
+    Math.sin(((lat2 - lat1) * r) / 2) ** 2 +
+    Math.cos(lat1 * r) * Math.cos(lat2 * r) * Math.sin(((lon2 - lon1) * r) / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * The bundled city closest to a coordinate (used to pick a zone for geocoded
+ * places). Pass a country code to stay inside that country when we know it.
+ */
+export function nearestCity(lat: number, lon: number, countryCode?: string): GazetteerCity {
+  const inCountry = countryCode ? GAZETTEER.filter(c => c.countryCode === countryCode) : [];
+  const pool = inCountry.length ? inCountry : GAZETTEER;
+  let best = pool[0];
+  let bestKm = Infinity;
+  for (const c of pool) {
+    const km = distanceKm(lat, lon, c.lat, c.lon);
+    if (km < bestKm) {
+      best = c;
+      bestKm = km;
+    }
+  }
+  return best;
+}
+
+/** Returns the zone if this runtime's Intl data knows it, else the fallback. */
+function usableZone(zone: string, fallback: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return zone;
+  } catch {
+    return fallback;
+  }
+}
+
+/** A picked city as a birth place (exact coordinates and zone). */
+export function birthPlaceFromCity(city: GazetteerCity): ResolvedBirthPlace {
+  const countryZone = GAZETTEER_DATA.find(b => b.code === city.countryCode)?.zone ?? 'UTC';
+  return {
+    label: city.label,
+    timezone: usableZone(city.timezone, countryZone),
+    latitude: city.lat,
+    longitude: city.lon,
+    hemisphere: city.hemisphere,
+    precision: 'city',
+  };
+}
+
+/**
+ * The one zone used by every bundled city in `cities`, or undefined when they
+ * span several zones.
+ */
+function sharedZone(cities: GazetteerCity[]): string | undefined {
+  const zones = new Set(cities.map(c => c.timezone));
+  return zones.size === 1 ? [...zones][0] : undefined;
+}
+
+/**
+ * Resolve free text like "Málaga, Spain", "Perth, WA, Australia" or
+ * "Smalltown, Germany" to a zone (and coordinates when the city is known).
+ * An unknown town falls back to its region's zone ("Smalltown, WA, Australia")
+ * or, for single-zone countries, the country's zone. Returns null when the zone
+ * can't be pinned down that way — e.g. "Smalltown, United States" — so the
+ * caller can ask for a listed city instead of guessing.
+ */
+export function resolveBirthPlace(location: string): ResolvedBirthPlace | null {
+  const parts = (location || '').split(',').map(p => p.trim()).filter(Boolean);
+  if (!parts.length) return null;
+
+  const cityKey = normalizePlaceName(parts[0]);
+  const country = parts.length > 1 ? findCountry(parts[parts.length - 1]) : undefined;
+  const regionKey = parts.length > 2 ? normalizePlaceName(parts[1]) : '';
+
+  const matches = GAZETTEER.filter(
+    c => normalizePlaceName(c.city) === cityKey && (!country || c.countryCode === country.code)
+  );
+  const city = matches.find(c => regionKey && normalizePlaceName(c.region) === regionKey) ?? matches[0];
+
+  if (city) return birthPlaceFromCity(city);
+
+  // Unknown town — only a region or country with a single zone pins it down
+  const block = country ?? (parts.length === 1 ? findCountry(parts[0]) : undefined);
+  if (!block) return null;
+
+  const label = parts.join(', ');
+  const inCountry = GAZETTEER.filter(c => c.countryCode === block.code);
+  const inRegion = regionKey ? inCountry.filter(c => normalizePlaceName(c.region) === regionKey) : [];
+  const regionZone = sharedZone(inRegion);
+  if (regionZone) {
+    return { label, timezone: usableZone(regionZone, block.zone), precision: 'region' };
+  }
+  if (sharedZone(inCountry) === block.zone) {
+    return { label, timezone: block.zone, precision: 'country' };
+  }
+
+  return null;
+}
+
+// ---------------- Search ----------------
+const SEARCH_INDEX = GAZETTEER.map(c => {
+  const name = normalizePlaceName(c.city);
+  return {
+    city: c,
+    name,
+    words: name.split(' '),
+    region: normalizePlaceName(c.region),
+    country: normalizePlaceName(c.country),
+  };
+});
+
+/** Edit distance between a and b (with transpositions), giving up above `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        cur[j] = Math.min(cur[j], prev2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Search the bundled cities. Accent- and case-insensitive; exact and prefix
+ * matches on the city name rank first, then word prefixes ("york" → New York),
+ * then typo-tolerant matches ("sidney" → Sydney), then every city of a matching
+ * region/country. Text after a comma narrows by region or country ("perth, au").
+ */
+export function searchCities(query: string, limit = 12): GazetteerCity[] {
+  const [head, ...rest] = (query || '').split(',');
+  const q = normalizePlaceName(head);
+  if (!q) return [];
+  const within = normalizePlaceName(rest.join(' '));
+  const narrowCountry = within ? findCountry(within) : undefined;
+  const maxEdits = q.length >= 6 ? 2 : q.length >= 3 ? 1 : 0;
+
+  const scored: Array<{ city: GazetteerCity; score: number }> = [];
+  for (const entry of SEARCH_INDEX) {
+    if (within) {
+      const inCountry = narrowCountry ? entry.city.countryCode === narrowCountry.code : false;
+      if (!inCountry && !entry.region.startsWith(within)) continue;
+    }
+
+    let score: number | undefined;
+    if (entry.name === q) score = 0;
+    else if (entry.name.startsWith(q)) score = 1;
+    else if (entry.words.some(w => w.startsWith(q))) score = 2;
+    else if (maxEdits > 0) {
+      // Compare against the same-length start of the name so half-typed words still match
+      const d = Math.min(
+        editDistance(q, entry.name, maxEdits),
+        editDistance(q, entry.name.slice(0, q.length), maxEdits)
+      );
+      if (d <= maxEdits) score = 2 + d;
+    }
+    if (score === undefined && q.length >= 3 && (entry.region.startsWith(q) || entry.country.startsWith(q))) {
+      score = 5;
+    }
+    if (score !== undefined) scored.push({ city: entry.city, score });
+  }
+
+  // Stable sort keeps the dataset's order (largest cities first) within a score
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(s => s.city);
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+
+/**
+ * Optional online fallback for places the bundled list doesn't have.
+ * Results come back in the same shape; the zone is borrowed from the nearest
+ * bundled city in the same country, so treat it as a best guess.
+ */
+export async function searchCitiesOnline(
+  query: string,
+  { limit = 8, signal }: { limit?: number; signal?: AbortSignal } = {}
+): Promise<GazetteerCity[]> {
+  const q = (query || '').trim();
+  if (!q) return [];
+
+  const url = `${NOMINATIM_URL}?format=json&addressdetails=1&limit=${limit}&accept-language=en&q=${encodeURIComponent(q)}`;
+  const res = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'User-Agent': 'Astrocusp/1.0 (https://astrocusp.com.au)',
+      'Accept': 'application/json',
+    },
+    signal,
+  });
+  if (!res.ok) throw new Error(`Nominatim error ${res.status}`);
+
+  const data = (await res.json()) as any[];
+  const seen = new Set<string>();
+  const out: GazetteerCity[] = [];
+  for (const item of data) {
+    const lat = parseFloat(item.lat);
+    const lon = parseFloat(item.lon);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+
+    const addr = item.address || {};
+    const city =
+      addr.city || addr.town || addr.village || addr.municipality || item.display_name?.split(',')?.[0] || 'Unknown';
+    const countryCode = (addr.country_code || '').toUpperCase();
+    const country = addr.country || countryCode;
+    const key = `${city}|${countryCode}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const near = nearestCity(lat, lon, countryCode || undefined);
+    out.push({
+      city,
+      region: addr.state || addr.region || '',
+      country,
+      countryCode: countryCode || near.countryCode,
+      lat,
+      lon,
+      timezone: near.timezone,
+      hemisphere: hemisphereFromLatitude(lat),
+      label: country ? `${city}, ${country}` : city,
+    });
+  }
+  return out;
+}
@@ -0,0 +1,975 @@
+// utils/gazetteerData.ts
+// Bundled offline city list for birth-place lookups (see utils/gazetteer.ts).
+// Rows are [city, region, lat, lon, zone?]; `zone` is only given where it
+// differs from the country's default IANA zone. Countries are listed with their
+// capital / largest city first — that city's zone is the country-level fallback.
+
+export type CityRow = [string, string, number, number, string?];
+
+export interface CountryBlock {
+  country: string;
+  code: string;        // ISO 3166-1 alpha-2
+  zone: string;        // default IANA zone
+  aliases?: string[];
+  cities: CityRow[];
+}
+
+export const GAZETTEER_DATA: CountryBlock[] = [
+  // ── Oceania ──────────────────────────────────────────────────────────────────
+  {
+    country: 'Australia',
+    code: 'AU',
+    zone: 'Australia/Sydney',
+    cities: [
+      ['Sydney', 'NSW', -33.87, 151.21],
+      ['Melbourne', 'VIC', -37.81, 144.96, 'Australia/Melbourne'],
+      ['Brisbane', 'QLD', -27.47, 153.03, 'Australia/Brisbane'],
+      ['Perth', 'WA', -31.95, 115.86, 'Australia/Perth'],
+      ['Adelaide', 'SA', -34.93, 138.6, 'Australia/Adelaide'],
+      ['Canberra', 'ACT', -35.28, 149.13],
+      ['Hobart', 'TAS', -42.88, 147.33, 'Australia/Hobart'],
+      ['Darwin', 'NT', -12.46, 130.85, 'Australia/Darwin'],
+      ['Gold Coast', 'QLD', -28.02, 153.4, 'Australia/Brisbane'],
+      ['Newcastle', 'NSW', -32.93, 151.78],
+      ['Wollongong', 'NSW', -34.42, 150.89],
+      ['Geelong', 'VIC', -38.15, 144.36, 'Australia/Melbourne'],
+      ['Ballarat', 'VIC', -37.56, 143.85, 'Australia/Melbourne'],
+      ['Townsville', 'QLD', -19.26, 146.82, 'Australia/Brisbane'],
+      ['Cairns', 'QLD', -16.92, 145.77, 'Australia/Brisbane'],
+      ['Sunshine Coast', 'QLD', -26.65, 153.07, 'Australia/Brisbane'],
+      ['Launceston', 'TAS', -41.43, 147.14, 'Australia/Hobart'],
+      ['Alice Springs', 'NT', -23.7, 133.88, 'Australia/Darwin'],
+      ['Broken Hill', 'NSW', -31.95, 141.47, 'Australia/Broken_Hill'],
+    ],
+  },
+  {
+    country: 'New Zealand',
+    code: 'NZ',
+    zone: 'Pacific/Auckland',
+    cities: [
+      ['Auckland', 'Auckland', -36.85, 174.76],
+      ['Wellington', 'Wellington', -41.29, 174.78],
+      ['Christchurch', 'Canterbury', -43.53, 172.64],
+      ['Hamilton', 'Waikato', -37.79, 175.28],
+      ['Tauranga', 'Bay of Plenty', -37.69, 176.17],
+      ['Dunedin', 'Otago', -45.88, 170.5],
+    ],
+  },
+  {
+    country: 'Fiji',
+    code: 'FJ',
+    zone: 'Pacific/Fiji',
+    cities: [['Suva', 'Central', -18.14, 178.44]],
+  },
+  {
+    country: 'Papua New Guinea',
+    code: 'PG',
+    zone: 'Pacific/Port_Moresby',
+    cities: [['Port Moresby', 'NCD', -9.44, 147.18]],
+  },
+
+  // ── Asia ─────────────────────────────────────────────────────────────────────
+  {
+    country: 'Singapore',
+    code: 'SG',
+    zone: 'Asia/Singapore',
+    cities: [['Singapore', '', 1.35, 103.82]],
+  },
+  {
+    country: 'Philippines',
+    code: 'PH',
+    zone: 'Asia/Manila',
+    cities: [
+      ['Manila', 'Metro Manila', 14.6, 120.98],
+      ['Quezon City', 'Metro Manila', 14.68, 121.04],
+      ['Davao', 'Davao', 7.19, 125.46],
+      ['Caloocan', 'Metro Manila', 14.65, 120.98],
+      ['Cebu City', 'Cebu', 10.32, 123.89],
+      ['Zamboanga', 'Zamboanga', 6.92, 122.08],
+      ['Antipolo', 'Rizal', 14.59, 121.18],
+      ['Pasig', 'Metro Manila', 14.58, 121.06],
+      ['Taguig', 'Metro Manila', 14.52, 121.05],
+      ['Makati', 'Metro Manila', 14.55, 121.02],
+    ],
+  },
+  {
+    country: 'Indonesia',
+    code: 'ID',
+    zone: 'Asia/Jakarta',
+    cities: [
+      ['Jakarta', 'Jakarta', -6.21, 106.85],
+      ['Surabaya', 'East Java', -7.25, 112.75],
+      ['Bandung', 'West Java', -6.92, 107.62],
+      ['Medan', 'North Sumatra', 3.6, 98.67],
+      ['Semarang', 'Central Java', -6.97, 110.42],
+      ['Makassar', 'South Sulawesi', -5.15, 119.43, 'Asia/Makassar'],
+      ['Palembang', 'South Sumatra', -2.98, 104.76],
+      ['Denpasar', 'Bali', -8.65, 115.22, 'Asia/Makassar'],
+      ['Jayapura', 'Papua', -2.53, 140.72, 'Asia/Jayapura'],
+    ],
+  },
+  {
+    country: 'Thailand',
+    code: 'TH',
+    zone: 'Asia/Bangkok',
+    cities: [
+      ['Bangkok', 'Bangkok', 13.76, 100.5],
+      ['Chiang Mai', 'Chiang Mai', 18.79, 98.98],
+      ['Phuket', 'Phuket', 7.88, 98.39],
+      ['Pattaya', 'Chonburi', 12.93, 100.88],
+      ['Hat Yai', 'Songkhla', 7.01, 100.47],
+    ],
+  },
+  {
+    country: 'Malaysia',
+    code: 'MY',
+    zone: 'Asia/Kuala_Lumpur',
+    cities: [
+      ['Kuala Lumpur', 'Kuala Lumpur', 3.14, 101.69],
+      ['George Town', 'Penang', 5.41, 100.33],
+      ['Ipoh', 'Perak', 4.6, 101.08],
+      ['Shah Alam', 'Selangor', 3.07, 101.52],
+      ['Petaling Jaya', 'Selangor', 3.11, 101.61],
+      ['Johor Bahru', 'Johor', 1.49, 103.74],
+      ['Kota Kinabalu', 'Sabah', 5.98, 116.07, 'Asia/Kuching'],
+      ['Kuching', 'Sarawak', 1.55, 110.35, 'Asia/Kuching'],
+    ],
+  },
+  {
+    country: 'Vietnam',
+    code: 'VN',
+    zone: 'Asia/Ho_Chi_Minh',
+    aliases: ['Viet Nam'],
+    cities: [
+      ['Ho Chi Minh City', '', 10.82, 106.63],
+      ['Hanoi', '', 21.03, 105.85],
+      ['Da Nang', '', 16.05, 108.2],
+      ['Can Tho', '', 10.05, 105.75],
+      ['Hai Phong', '', 20.84, 106.69],
+    ],
+  },
+  {
+    country: 'Japan',
+    code: 'JP',
+    zone: 'Asia/Tokyo',
+    cities: [
+      ['Tokyo', 'Tokyo', 35.68, 139.65],
+      ['Osaka', 'Osaka', 34.69, 135.5],
+      ['Kyoto', 'Kyoto', 35.01, 135.77],
+      ['Yokohama', 'Kanagawa', 35.44, 139.64],
+      ['Nagoya', 'Aichi', 35.18, 136.91],
+      ['Sapporo', 'Hokkaido', 43.06, 141.35],
+      ['Kobe', 'Hyogo', 34.69, 135.2],
+      ['Fukuoka', 'Fukuoka', 33.59, 130.4],
+      ['Hiroshima', 'Hiroshima', 34.39, 132.46],
+      ['Sendai', 'Miyagi', 38.27, 140.87],
+    ],
+  },
+  {
+    country: 'South Korea',
+    code: 'KR',
+    zone: 'Asia/Seoul',
+    aliases: ['Korea', 'Republic of Korea'],
+    cities: [
+      ['Seoul', '', 37.57, 126.98],
+      ['Busan', '', 35.18, 129.08],
+      ['Incheon', '', 37.46, 126.71],
+      ['Daegu', '', 35.87, 128.6],
+      ['Daejeon', '', 36.35, 127.38],
+      ['Gwangju', '', 35.16, 126.85],
+    ],
+  },
+  {
+    country: 'China',
+    code: 'CN',
+    zone: 'Asia/Shanghai',
+    aliases: ['PRC'],
+    cities: [
+      ['Beijing', 'Beijing', 39.9, 116.41],
+      ['Shanghai', 'Shanghai', 31.23, 121.47],
+      ['Guangzhou', 'Guangdong', 23.13, 113.26],
+      ['Shenzhen', 'Guangdong', 22.54, 114.06],
+      ['Tianjin', 'Tianjin', 39.34, 117.36],
+      ['Wuhan', 'Hubei', 30.59, 114.31],
+      ['Dongguan', 'Guangdong', 23.02, 113.75],
+      ['Chengdu', 'Sichuan', 30.57, 104.07],
+      ['Nanjing', 'Jiangsu', 32.06, 118.8],
+      ['Chongqing', 'Chongqing', 29.56, 106.55],
+      ["Xi'an", 'Shaanxi', 34.34, 108.94],
+      ['Hangzhou', 'Zhejiang', 30.27, 120.16],
+      ['Hong Kong', 'Hong Kong', 22.32, 114.17, 'Asia/Hong_Kong'],
+      ['Macau', 'Macau', 22.2, 113.54, 'Asia/Macau'],
+    ],
+  },
+  {
+    country: 'Taiwan',
+    code: 'TW',
+    zone: 'Asia/Taipei',
+    cities: [
+      ['Taipei', '', 25.03, 121.57],
+      ['Kaohsiung', '', 22.63, 120.3],
+    ],
+  },
+  {
+    country: 'India',
+    code: 'IN',
+    zone: 'Asia/Kolkata',
+    cities: [
+      ['Mumbai', 'Maharashtra', 19.08, 72.88],
+      ['Delhi', 'Delhi', 28.7, 77.1],
+      ['New Delhi', 'Delhi', 28.61, 77.21],
+      ['Bangalore', 'Karnataka', 12.97, 77.59],
+      ['Bengaluru', 'Karnataka', 12.97, 77.59],
+      ['Hyderabad', 'Telangana', 17.39, 78.49],
+      ['Ahmedabad', 'Gujarat', 23.02, 72.57],
+      ['Chennai', 'Tamil Nadu', 13.08, 80.27],
+      ['Kolkata', 'West Bengal', 22.57, 88.36],
+      ['Surat', 'Gujarat', 21.17, 72.83],
+      ['Pune', 'Maharashtra', 18.52, 73.86],
+      ['Jaipur', 'Rajasthan', 26.91, 75.79],
+      ['Lucknow', 'Uttar Pradesh', 26.85, 80.95],
+      ['Kanpur', 'Uttar Pradesh', 26.45, 80.33],
+    ],
+  },
+  {
+    country: 'Pakistan',
+    code: 'PK',
+    zone: 'Asia/Karachi',
+    cities: [
+      ['Karachi', 'Sindh', 24.86, 67.01],
+      ['Lahore', 'Punjab', 31.55, 74.34],
+      ['Islamabad', 'Islamabad', 33.68, 73.05],
+    ],
+  },
+  {
+    country: 'Bangladesh',
+    code: 'BD',
+    zone: 'Asia/Dhaka',
+    cities: [['Dhaka', 'Dhaka', 23.81, 90.41]],
+  },
+  {
+    country: 'Sri Lanka',
+    code: 'LK',
+    zone: 'Asia/Colombo',
+    cities: [['Colombo', 'Western', 6.93, 79.86]],
+  },
+  {
+    country: 'Nepal',
+    code: 'NP',
+    zone: 'Asia/Kathmandu',
+    cities: [['Kathmandu', 'Bagmati', 27.72, 85.32]],
+  },
+
+  // ── Middle East ──────────────────────────────────────────────────────────────
+  {
+    country: 'UAE',
+    code: 'AE',
+    zone: 'Asia/Dubai',
+    aliases: ['United Arab Emirates'],
+    cities: [
+      ['Dubai', 'Dubai', 25.2, 55.27],
+      ['Abu Dhabi', 'Abu Dhabi', 24.45, 54.38],
+      ['Sharjah', 'Sharjah', 25.35, 55.42],
+      ['Al Ain', 'Abu Dhabi', 24.21, 55.74],
+      ['Ajman', 'Ajman', 25.41, 55.51],
+    ],
+  },
+  {
+    country: 'Qatar',
+    code: 'QA',
+    zone: 'Asia/Qatar',
+    cities: [['Doha', '', 25.29, 51.53]],
+  },
+  {
+    country: 'Saudi Arabia',
+    code: 'SA',
+    zone: 'Asia/Riyadh',
+    aliases: ['KSA'],
+    cities: [
+      ['Riyadh', 'Riyadh', 24.71, 46.68],
+      ['Jeddah', 'Makkah', 21.49, 39.19],
+      ['Mecca', 'Makkah', 21.39, 39.86],
+      ['Medina', 'Madinah', 24.52, 39.57],
+      ['Dammam', 'Eastern Province', 26.43, 50.1],
+    ],
+  },
+  {
+    country: 'Israel',
+    code: 'IL',
+    zone: 'Asia/Jerusalem',
+    cities: [
+      ['Jerusalem', '', 31.77, 35.21],
+      ['Tel Aviv', '', 32.09, 34.78],
+      ['Haifa', '', 32.79, 34.99],
+      ['Rishon LeZion', '', 31.97, 34.79],
+      ['Petah Tikva', '', 32.09, 34.89],
+    ],
+  },
+  {
+    country: 'Lebanon',
+    code: 'LB',
+    zone: 'Asia/Beirut',
+    cities: [['Beirut', '', 33.89, 35.5]],
+  },
+  {
+    country: 'Jordan',
+    code: 'JO',
+    zone: 'Asia/Amman',
+    cities: [['Amman', '', 31.95, 35.93]],
+  },
+  {
+    country: 'Iran',
+    code: 'IR',
+    zone: 'Asia/Tehran',
+    cities: [['Tehran', 'Tehran', 35.69, 51.39]],
+  },
+  {
+    country: 'Iraq',
+    code: 'IQ',
+    zone: 'Asia/Baghdad',
+    cities: [['Baghdad', 'Baghdad', 33.31, 44.36]],
+  },
+  {
+    country: 'Turkey',
+    code: 'TR',
+    zone: 'Europe/Istanbul',
+    aliases: ['Türkiye'],
+    cities: [
+      ['Istanbul', '', 41.01, 28.98],
+      ['Ankara', '', 39.93, 32.86],
+      ['Izmir', '', 38.42, 27.14],
+      ['Bursa', '', 40.19, 29.06],
+      ['Adana', '', 37.0, 35.32],
+      ['Gaziantep', '', 37.07, 37.38],
+    ],
+  },
+
+  // ── Europe ───────────────────────────────────────────────────────────────────
+  {
+    country: 'United Kingdom',
+    code: 'GB',
+    zone: 'Europe/London',
+    aliases: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+    cities: [
+      ['London', 'England', 51.51, -0.13],
+      ['Manchester', 'England', 53.48, -2.24],
+      ['Birmingham', 'England', 52.49, -1.89],
+      ['Glasgow', 'Scotland', 55.86, -4.25],
+      ['Liverpool', 'England', 53.41, -2.98],
+      ['Edinburgh', 'Scotland', 55.95, -3.19],
+      ['Leeds', 'England', 53.8, -1.55],
+      ['Sheffield', 'England', 53.38, -1.47],
+      ['Bristol', 'England', 51.45, -2.59],
+      ['Cardiff', 'Wales', 51.48, -3.18],
+      ['Belfast', 'Northern Ireland', 54.6, -5.93],
+    ],
+  },
+  {
+    country: 'Ireland',
+    code: 'IE',
+    zone: 'Europe/Dublin',
+    cities: [
+      ['Dublin', 'Leinster', 53.35, -6.26],
+      ['Cork', 'Munster', 51.9, -8.47],
+      ['Galway', 'Connacht', 53.27, -9.05],
+    ],
+  },
+  {
+    country: 'Portugal',
+    code: 'PT',
+    zone: 'Europe/Lisbon',
+    cities: [
+      ['Lisbon', 'Lisbon', 38.72, -9.14],
+      ['Porto', 'Porto', 41.15, -8.61],
+      ['Funchal', 'Madeira', 32.65, -16.91, 'Atlantic/Madeira'],
+    ],
+  },
+  {
+    country: 'Spain',
+    code: 'ES',
+    zone: 'Europe/Madrid',
+    cities: [
+      ['Madrid', 'Madrid', 40.42, -3.7],
+      ['Barcelona', 'Catalonia', 41.39, 2.17],
+      ['Valencia', 'Valencia', 39.47, -0.38],
+      ['Seville', 'Andalusia', 37.39, -5.98],
+      ['Zaragoza', 'Aragon', 41.65, -0.89],
+      ['Málaga', 'Andalusia', 36.72, -4.42],
+      ['Murcia', 'Murcia', 37.99, -1.13],
+      ['Palma', 'Balearic Islands', 39.57, 2.65],
+      ['Las Palmas', 'Canary Islands', 28.12, -15.44, 'Atlantic/Canary'],
+      ['Santa Cruz de Tenerife', 'Canary Islands', 28.46, -16.25, 'Atlantic/Canary'],
+      ['Bilbao', 'Basque Country', 43.26, -2.93],
+    ],
+  },
+  {
+    country: 'France',
+    code: 'FR',
+    zone: 'Europe/Paris',
+    cities: [
+      ['Paris', 'Île-de-France', 48.86, 2.35],
+      ['Marseille', "Provence-Alpes-Côte d'Azur", 43.3, 5.37],
+      ['Lyon', 'Auvergne-Rhône-Alpes', 45.76, 4.84],
+      ['Toulouse', 'Occitanie', 43.6, 1.44],
+      ['Nice', "Provence-Alpes-Côte d'Azur", 43.7, 7.27],
+      ['Nantes', 'Pays de la Loire', 47.22, -1.55],
+      ['Strasbourg', 'Grand Est', 48.57, 7.75],
+      ['Montpellier', 'Occitanie', 43.61, 3.88],
+      ['Bordeaux', 'Nouvelle-Aquitaine', 44.84, -0.58],
+      ['Lille', 'Hauts-de-France', 50.63, 3.06],
+    ],
+  },
+  {
+    country: 'Belgium',
+    code: 'BE',
+    zone: 'Europe/Brussels',
+    cities: [
+      ['Brussels', 'Brussels', 50.85, 4.35],
+      ['Antwerp', 'Flanders', 51.22, 4.4],
+      ['Ghent', 'Flanders', 51.05, 3.72],
+      ['Charleroi', 'Wallonia', 50.41, 4.44],
+      ['Liège', 'Wallonia', 50.63, 5.57],
+      ['Bruges', 'Flanders', 51.21, 3.22],
+    ],
+  },
+  {
+    country: 'Netherlands',
+    code: 'NL',
+    zone: 'Europe/Amsterdam',
+    aliases: ['The Netherlands', 'Holland'],
+    cities: [
+      ['Amsterdam', 'North Holland', 52.37, 4.9],
+      ['Rotterdam', 'South Holland', 51.92, 4.48],
+      ['The Hague', 'South Holland', 52.07, 4.3],
+      ['Utrecht', 'Utrecht', 52.09, 5.12],
+      ['Eindhoven', 'North Brabant', 51.44, 5.47],
+      ['Tilburg', 'North Brabant', 51.56, 5.09],
+      ['Groningen', 'Groningen', 53.22, 6.57],
+    ],
+  },
+  {
+    country: 'Germany',
+    code: 'DE',
+    zone: 'Europe/Berlin',
+    cities: [
+      ['Berlin', 'Berlin', 52.52, 13.4],
+      ['Hamburg', 'Hamburg', 53.55, 9.99],
+      ['Munich', 'Bavaria', 48.14, 11.58],
+      ['Cologne', 'North Rhine-Westphalia', 50.94, 6.96],
+      ['Frankfurt', 'Hesse', 50.11, 8.68],
+      ['Stuttgart', 'Baden-Württemberg', 48.78, 9.18],
+      ['Düsseldorf', 'North Rhine-Westphalia', 51.23, 6.77],
+      ['Dortmund', 'North Rhine-Westphalia', 51.51, 7.47],
+      ['Essen', 'North Rhine-Westphalia', 51.46, 7.01],
+      ['Leipzig', 'Saxony', 51.34, 12.37],
+      ['Dresden', 'Saxony', 51.05, 13.74],
+    ],
+  },
+  {
+    country: 'Switzerland',
+    code: 'CH',
+    zone: 'Europe/Zurich',
+    cities: [
+      ['Zurich', 'Zurich', 47.38, 8.54],
+      ['Geneva', 'Geneva', 46.2, 6.14],
+      ['Basel', 'Basel-Stadt', 47.56, 7.59],
+      ['Bern', 'Bern', 46.95, 7.45],
+      ['Lausanne', 'Vaud', 46.52, 6.63],
+    ],
+  },
+  {
+    country: 'Austria',
+    code: 'AT',
+    zone: 'Europe/Vienna',
+    cities: [
+      ['Vienna', 'Vienna', 48.21, 16.37],
+      ['Graz', 'Styria', 47.07, 15.44],
+      ['Linz', 'Upper Austria', 48.31, 14.29],
+      ['Salzburg', 'Salzburg', 47.81, 13.04],
+      ['Innsbruck', 'Tyrol', 47.27, 11.4],
+    ],
+  },
+  {
+    country: 'Italy',
+    code: 'IT',
+    zone: 'Europe/Rome',
+    cities: [
+      ['Rome', 'Lazio', 41.9, 12.5],
+      ['Milan', 'Lombardy', 45.46, 9.19],
+      ['Naples', 'Campania', 40.85, 14.27],
+      ['Florence', 'Tuscany', 43.77, 11.26],
+      ['Turin', 'Piedmont', 45.07, 7.69],
+      ['Palermo', 'Sicily', 38.12, 13.36],
+      ['Genoa', 'Liguria', 44.41, 8.93],
+      ['Bologna', 'Emilia-Romagna', 44.49, 11.34],
+      ['Bari', 'Apulia', 41.12, 16.87],
+      ['Catania', 'Sicily', 37.5, 15.09],
+      ['Venice', 'Veneto', 45.44, 12.32],
+    ],
+  },
+  {
+    country: 'Denmark',
+    code: 'DK',
+    zone: 'Europe/Copenhagen',
+    cities: [['Copenhagen', 'Capital Region', 55.68, 12.57]],
+  },
+  {
+    country: 'Sweden',
+    code: 'SE',
+    zone: 'Europe/Stockholm',
+    cities: [
+      ['Stockholm', 'Stockholm', 59.33, 18.07],
+      ['Gothenburg', 'Västra Götaland', 57.71, 11.97],
+    ],
+  },
+  {
+    country: 'Norway',
+    code: 'NO',
+    zone: 'Europe/Oslo',
+    cities: [['Oslo', 'Oslo', 59.91, 10.75]],
+  },
+  {
+    country: 'Finland',
+    code: 'FI',
+    zone: 'Europe/Helsinki',
+    cities: [['Helsinki', 'Uusimaa', 60.17, 24.94]],
+  },
+  {
+    country: 'Iceland',
+    code: 'IS',
+    zone: 'Atlantic/Reykjavik',
+    cities: [['Reykjavik', '', 64.15, -21.94]],
+  },
+  {
+    country: 'Poland',
+    code: 'PL',
+    zone: 'Europe/Warsaw',
+    cities: [
+      ['Warsaw', 'Masovia', 52.23, 21.01],
+      ['Kraków', 'Lesser Poland', 50.06, 19.94],
+      ['Łódź', 'Łódź', 51.76, 19.46],
+      ['Wrocław', 'Lower Silesia', 51.11, 17.04],
+      ['Poznań', 'Greater Poland', 52.41, 16.93],
+      ['Gdańsk', 'Pomerania', 54.35, 18.65],
+      ['Szczecin', 'West Pomerania', 53.43, 14.55],
+      ['Bydgoszcz', 'Kuyavia-Pomerania', 53.12, 18.01],
+      ['Lublin', 'Lublin', 51.25, 22.57],
+      ['Katowice', 'Silesia', 50.26, 19.02],
+    ],
+  },
+  {
+    country: 'Czech Republic',
+    code: 'CZ',
+    zone: 'Europe/Prague',
+    aliases: ['Czechia'],
+    cities: [
+      ['Prague', 'Prague', 50.08, 14.44],
+      ['Brno', 'South Moravia', 49.2, 16.61],
+      ['Ostrava', 'Moravia-Silesia', 49.82, 18.26],
+      ['Plzeň', 'Plzeň', 49.74, 13.38],
+      ['Liberec', 'Liberec', 50.77, 15.06],
+      ['Olomouc', 'Olomouc', 49.59, 17.25],
+    ],
+  },
+  {
+    country: 'Hungary',
+    code: 'HU',
+    zone: 'Europe/Budapest',
+    cities: [
+      ['Budapest', 'Budapest', 47.5, 19.04],
+      ['Debrecen', 'Hajdú-Bihar', 47.53, 21.63],
+      ['Szeged', 'Csongrád', 46.25, 20.15],
+      ['Miskolc', 'Borsod-Abaúj-Zemplén', 48.1, 20.78],
+      ['Pécs', 'Baranya', 46.07, 18.23],
+      ['Győr', 'Győr-Moson-Sopron', 47.69, 17.63],
+    ],
+  },
+  {
+    country: 'Slovenia',
+    code: 'SI',
+    zone: 'Europe/Ljubljana',
+    cities: [
+      ['Ljubljana', '', 46.06, 14.51],
+      ['Maribor', '', 46.55, 15.65],
+      ['Celje', '', 46.24, 15.27],
+      ['Kranj', '', 46.24, 14.36],
+      ['Velenje', '', 46.36, 15.11],
+      ['Koper', '', 45.55, 13.73],
+    ],
+  },
+  {
+    country: 'Croatia',
+    code: 'HR',
+    zone: 'Europe/Zagreb',
+    cities: [
+      ['Zagreb', '', 45.81, 15.98],
+      ['Split', 'Dalmatia', 43.51, 16.44],
+      ['Rijeka', '', 45.33, 14.44],
+      ['Dubrovnik', 'Dalmatia', 42.65, 18.09],
+      ['Osijek', 'Slavonia', 45.55, 18.69],
+      ['Zadar', 'Dalmatia', 44.12, 15.23],
+      ['Pula', 'Istria', 44.87, 13.85],
+    ],
+  },
+  {
+    country: 'Serbia',
+    code: 'RS',
+    zone: 'Europe/Belgrade',
+    cities: [
+      ['Belgrade', '', 44.79, 20.45],
+      ['Novi Sad', 'Vojvodina', 45.27, 19.83],
+      ['Niš', '', 43.32, 21.9],
+      ['Kragujevac', '', 44.01, 20.91],
+      ['Subotica', 'Vojvodina', 46.1, 19.67],
+      ['Novi Pazar', '', 43.14, 20.51],
+    ],
+  },
+  {
+    country: 'Bosnia and Herzegovina',
+    code: 'BA',
+    zone: 'Europe/Sarajevo',
+    aliases: ['Bosnia'],
+    cities: [
+      ['Sarajevo', '', 43.86, 18.41],
+      ['Banja Luka', 'Republika Srpska', 44.77, 17.19],
+      ['Tuzla', '', 44.54, 18.68],
+      ['Zenica', '', 44.2, 17.91],
+      ['Mostar', '', 43.34, 17.81],
+    ],
+  },
+  {
+    country: 'Montenegro',
+    code: 'ME',
+    zone: 'Europe/Podgorica',
+    cities: [
+      ['Podgorica', '', 42.44, 19.26],
+      ['Nikšić', '', 42.77, 18.94],
+      ['Pljevlja', '', 43.36, 19.36],
+      ['Bijelo Polje', '', 43.04, 19.75],
+    ],
+  },
+  {
+    country: 'North Macedonia',
+    code: 'MK',
+    zone: 'Europe/Skopje',
+    aliases: ['Macedonia'],
+    cities: [
+      ['Skopje', '', 42.0, 21.43],
+      ['Bitola', '', 41.03, 21.33],
+      ['Kumanovo', '', 42.13, 21.71],
+      ['Prilep', '', 41.35, 21.55],
+    ],
+  },
+  {
+    country: 'Albania',
+    code: 'AL',
+    zone: 'Europe/Tirane',
+    cities: [
+      ['Tirana', '', 41.33, 19.82],
+      ['Durrës', '', 41.32, 19.45],
+      ['Vlorë', '', 40.47, 19.49],
+      ['Shkodër', '', 42.07, 19.51],
+    ],
+  },
+  {
+    country: 'Greece',
+    code: 'GR',
+    zone: 'Europe/Athens',
+    cities: [
+      ['Athens', 'Attica', 37.98, 23.73],
+      ['Thessaloniki', 'Central Macedonia', 40.64, 22.94],
+      ['Patras', 'Western Greece', 38.25, 21.73],
+      ['Heraklion', 'Crete', 35.34, 25.14],
+      ['Larissa', 'Thessaly', 39.64, 22.42],
+    ],
+  },
+  {
+    country: 'Romania',
+    code: 'RO',
+    zone: 'Europe/Bucharest',
+    cities: [
+      ['Bucharest', '', 44.43, 26.1],
+      ['Cluj-Napoca', 'Cluj', 46.77, 23.6],
+      ['Timișoara', 'Timiș', 45.75, 21.23],
+      ['Iași', 'Iași', 47.16, 27.59],
+      ['Constanța', 'Constanța', 44.18, 28.63],
+      ['Craiova', 'Dolj', 44.32, 23.8],
+    ],
+  },
+  {
+    country: 'Bulgaria',
+    code: 'BG',
+    zone: 'Europe/Sofia',
+    cities: [
+      ['Sofia', '', 42.7, 23.32],
+      ['Plovdiv', '', 42.14, 24.75],
+      ['Varna', '', 43.21, 27.91],
+      ['Burgas', '', 42.5, 27.47],
+      ['Ruse', '', 43.84, 25.95],
+    ],
+  },
+  {
+    country: 'Ukraine',
+    code: 'UA',
+    zone: 'Europe/Kiev',
+    cities: [
+      ['Kyiv', '', 50.45, 30.52],
+      ['Kharkiv', '', 49.99, 36.23],
+      ['Odesa', '', 46.48, 30.72],
+      ['Lviv', '', 49.84, 24.03],
+    ],
+  },
+  {
+    country: 'Russia',
+    code: 'RU',
+    zone: 'Europe/Moscow',
+    aliases: ['Russian Federation'],
+    cities: [
+      ['Moscow', '', 55.76, 37.62],
+      ['Saint Petersburg', '', 59.93, 30.36],
+      ['Novosibirsk', '', 55.01, 82.93, 'Asia/Novosibirsk'],
+      ['Yekaterinburg', '', 56.84, 60.61, 'Asia/Yekaterinburg'],
+      ['Nizhny Novgorod', '', 56.3, 43.94],
+      ['Kazan', 'Tatarstan', 55.8, 49.11],
+      ['Chelyabinsk', '', 55.16, 61.4, 'Asia/Yekaterinburg'],
+      ['Omsk', '', 54.99, 73.37, 'Asia/Omsk'],
+      ['Samara', '', 53.2, 50.15, 'Europe/Samara'],
+      ['Rostov-on-Don', '', 47.24, 39.7],
+      ['Vladivostok', 'Primorsky Krai', 43.12, 131.89, 'Asia/Vladivostok'],
+    ],
+  },
+
+  // ── Africa ───────────────────────────────────────────────────────────────────
+  {
+    country: 'Egypt',
+    code: 'EG',
+    zone: 'Africa/Cairo',
+    cities: [
+      ['Cairo', '', 30.04, 31.24],
+      ['Alexandria', '', 31.2, 29.92],
+      ['Giza', '', 30.01, 31.21],
+      ['Shubra El Kheima', '', 30.13, 31.24],
+      ['Port Said', '', 31.27, 32.3],
+    ],
+  },
+  {
+    country: 'Morocco',
+    code: 'MA',
+    zone: 'Africa/Casablanca',
+    cities: [
+      ['Casablanca', '', 33.57, -7.59],
+      ['Rabat', '', 34.02, -6.84],
+      ['Fez', '', 34.03, -5.0],
+      ['Marrakech', '', 31.63, -7.98],
+      ['Agadir', '', 30.43, -9.6],
+    ],
+  },
+  {
+    country: 'Nigeria',
+    code: 'NG',
+    zone: 'Africa/Lagos',
+    cities: [
+      ['Lagos', 'Lagos', 6.52, 3.38],
+      ['Kano', 'Kano', 12.0, 8.52],
+      ['Ibadan', 'Oyo', 7.38, 3.95],
+      ['Abuja', 'FCT', 9.08, 7.4],
+      ['Port Harcourt', 'Rivers', 4.82, 7.05],
+    ],
+  },
+  {
+    country: 'Ghana',
+    code: 'GH',
+    zone: 'Africa/Accra',
+    cities: [
+      ['Accra', 'Greater Accra', 5.6, -0.19],
+      ['Kumasi', 'Ashanti', 6.69, -1.62],
+      ['Tamale', 'Northern', 9.4, -0.84],
+      ['Cape Coast', 'Central', 5.11, -1.25],
+    ],
+  },
+  {
+    country: 'Kenya',
+    code: 'KE',
+    zone: 'Africa/Nairobi',
+    cities: [
+      ['Nairobi', '', -1.29, 36.82],
+      ['Mombasa', '', -4.04, 39.67],
+      ['Kisumu', '', -0.09, 34.77],
+      ['Nakuru', '', -0.3, 36.07],
+      ['Eldoret', '', 0.51, 35.27],
+    ],
+  },
+  {
+    country: 'Ethiopia',
+    code: 'ET',
+    zone: 'Africa/Addis_Ababa',
+    cities: [['Addis Ababa', '', 9.03, 38.74]],
+  },
+  {
+    country: 'Tanzania',
+    code: 'TZ',
+    zone: 'Africa/Dar_es_Salaam',
+    cities: [['Dar es Salaam', '', -6.79, 39.21]],
+  },
+  {
+    country: 'South Africa',
+    code: 'ZA',
+    zone: 'Africa/Johannesburg',
+    cities: [
+      ['Johannesburg', 'Gauteng', -26.2, 28.05],
+      ['Cape Town', 'Western Cape', -33.92, 18.42],
+      ['Durban', 'KwaZulu-Natal', -29.86, 31.02],
+      ['Pretoria', 'Gauteng', -25.75, 28.19],
+      ['Port Elizabeth', 'Eastern Cape', -33.96, 25.6],
+      ['Bloemfontein', 'Free State', -29.09, 26.16],
+    ],
+  },
+
+  // ── Americas ─────────────────────────────────────────────────────────────────
+  {
+    country: 'United States',
+    code: 'US',
+    zone: 'America/New_York',
+    aliases: ['USA', 'US', 'United States of America', 'America'],
+    cities: [
+      ['New York', 'NY', 40.71, -74.01],
+      ['Los Angeles', 'CA', 34.05, -118.24, 'America/Los_Angeles'],
+      ['Chicago', 'IL', 41.88, -87.63, 'America/Chicago'],
+      ['Houston', 'TX', 29.76, -95.37, 'America/Chicago'],
+      ['Phoenix', 'AZ', 33.45, -112.07, 'America/Phoenix'],
+      ['Philadelphia', 'PA', 39.95, -75.17],
+      ['San Antonio', 'TX', 29.42, -98.49, 'America/Chicago'],
+      ['San Diego', 'CA', 32.72, -117.16, 'America/Los_Angeles'],
+      ['Dallas', 'TX', 32.78, -96.8, 'America/Chicago'],
+      ['Austin', 'TX', 30.27, -97.74, 'America/Chicago'],
+      ['San Francisco', 'CA', 37.77, -122.42, 'America/Los_Angeles'],
+      ['Seattle', 'WA', 47.61, -122.33, 'America/Los_Angeles'],
+      ['Portland', 'OR', 45.52, -122.68, 'America/Los_Angeles'],
+      ['Denver', 'CO', 39.74, -104.99, 'America/Denver'],
+      ['Salt Lake City', 'UT', 40.76, -111.89, 'America/Denver'],
+      ['Washington DC', 'DC', 38.91, -77.04],
+      ['Boston', 'MA', 42.36, -71.06],
+      ['Las Vegas', 'NV', 36.17, -115.14, 'America/Los_Angeles'],
+      ['Miami', 'FL', 25.76, -80.19],
+      ['Atlanta', 'GA', 33.75, -84.39],
+      ['Detroit', 'MI', 42.33, -83.05, 'America/Detroit'],
+      ['Indianapolis', 'IN', 39.77, -86.16, 'America/Indiana/Indianapolis'],
+      ['Nashville', 'TN', 36.16, -86.78, 'America/Chicago'],
+      ['New Orleans', 'LA', 29.95, -90.07, 'America/Chicago'],
+      ['Minneapolis', 'MN', 44.98, -93.27, 'America/Chicago'],
+      ['Anchorage', 'AK', 61.22, -149.9, 'America/Anchorage'],
+      ['Honolulu', 'HI', 21.31, -157.86, 'Pacific/Honolulu'],
+    ],
+  },
+  {
+    country: 'Canada',
+    code: 'CA',
+    zone: 'America/Toronto',
+    cities: [
+      ['Toronto', 'ON', 43.65, -79.38],
+      ['Vancouver', 'BC', 49.28, -123.12, 'America/Vancouver'],
+      ['Montreal', 'QC', 45.5, -73.57],
+      ['Calgary', 'AB', 51.05, -114.07, 'America/Edmonton'],
+      ['Ottawa', 'ON', 45.42, -75.7],
+      ['Edmonton', 'AB', 53.55, -113.49, 'America/Edmonton'],
+      ['Winnipeg', 'MB', 49.9, -97.14, 'America/Winnipeg'],
+      ['Quebec City', 'QC', 46.81, -71.21],
+      ['Hamilton', 'ON', 43.26, -79.87],
+      ['Halifax', 'NS', 44.65, -63.58, 'America/Halifax'],
+      ["St. John's", 'NL', 47.56, -52.71, 'America/St_Johns'],
+      ['Regina', 'SK', 50.45, -104.61, 'America/Regina'],
+    ],
+  },
+  {
+    country: 'Mexico',
+    code: 'MX',
+    zone: 'America/Mexico_City',
+    cities: [
+      ['Mexico City', 'CDMX', 19.43, -99.13],
+      ['Guadalajara', 'Jalisco', 20.66, -103.35],
+      ['Monterrey', 'Nuevo León', 25.69, -100.32, 'America/Monterrey'],
+      ['Puebla', 'Puebla', 19.04, -98.21],
+      ['Tijuana', 'Baja California', 32.51, -117.04, 'America/Tijuana'],
+      ['León', 'Guanajuato', 21.12, -101.68],
+      ['Juárez', 'Chihuahua', 31.69, -106.42, 'America/Ciudad_Juarez'],
+      ['Torreón', 'Coahuila', 25.54, -103.41, 'America/Monterrey'],
+      ['Cancún', 'Quintana Roo', 21.16, -86.85, 'America/Cancun'],
+    ],
+  },
+  {
+    country: 'Cuba',
+    code: 'CU',
+    zone: 'America/Havana',
+    cities: [['Havana', '', 23.11, -82.37]],
+  },
+  {
+    country: 'Jamaica',
+    code: 'JM',
+    zone: 'America/Jamaica',
+    cities: [['Kingston', '', 18.02, -76.8]],
+  },
+  {
+    country: 'Colombia',
+    code: 'CO',
+    zone: 'America/Bogota',
+    cities: [
+      ['Bogotá', 'Cundinamarca', 4.71, -74.07],
+      ['Medellín', 'Antioquia', 6.24, -75.58],
+    ],
+  },
+  {
+    country: 'Venezuela',
+    code: 'VE',
+    zone: 'America/Caracas',
+    cities: [['Caracas', '', 10.48, -66.9]],
+  },
+  {
+    country: 'Peru',
+    code: 'PE',
+    zone: 'America/Lima',
+    cities: [['Lima', 'Lima', -12.05, -77.04]],
+  },
+  {
+    country: 'Brazil',
+    code: 'BR',
+    zone: 'America/Sao_Paulo',
+    aliases: ['Brasil'],
+    cities: [
+      ['São Paulo', 'SP', -23.55, -46.63],
+      ['Rio de Janeiro', 'RJ', -22.91, -43.17],
+      ['Brasília', 'DF', -15.79, -47.88],
+      ['Salvador', 'BA', -12.97, -38.5, 'America/Bahia'],
+      ['Fortaleza', 'CE', -3.73, -38.53, 'America/Fortaleza'],
+      ['Belo Horizonte', 'MG', -19.92, -43.94],
+      ['Manaus', 'AM', -3.12, -60.02, 'America/Manaus'],
+      ['Curitiba', 'PR', -25.43, -49.27],
+      ['Recife', 'PE', -8.05, -34.88, 'America/Recife'],
+      ['Porto Alegre', 'RS', -30.03, -51.23],
+    ],
+  },
+  {
+    country: 'Argentina',
+    code: 'AR',
+    zone: 'America/Argentina/Buenos_Aires',
+    cities: [
+      ['Buenos Aires', 'Buenos Aires', -34.6, -58.38],
+      ['Córdoba', 'Córdoba', -31.42, -64.18, 'America/Argentina/Cordoba'],
+      ['Rosario', 'Santa Fe', -32.95, -60.64, 'America/Argentina/Cordoba'],
+      ['Mendoza', 'Mendoza', -32.89, -68.84, 'America/Argentina/Mendoza'],
+      ['Tucumán', 'Tucumán', -26.81, -65.22, 'America/Argentina/Tucuman'],
+      ['La Plata', 'Buenos Aires', -34.92, -57.95],
+    ],
+  },
+  {
+    country: 'Chile',
+    code: 'CL',
+    zone: 'America/Santiago',
+    cities: [
+      ['Santiago', 'Santiago', -33.45, -70.67],
+      ['Valparaíso', 'Valparaíso', -33.05, -71.62],
+      ['Concepción', 'Biobío', -36.83, -73.05],
+      ['La Serena', 'Coquimbo', -29.9, -71.25],
+      ['Antofagasta', 'Antofagasta', -23.65, -70.4],
+    ],
+  },
+];
@@ -0,0 +1,113 @@
+// utils/horoscopeAdmin.ts
+// Editor calls for the horoscope console (horoscope-admin edge function).
+// Staff only: anyone else gets "Admin access required".
+
+import { supabase, functionErrorMessage } from './supabase';
+import type { SignKey } from './signKey';
+
+export type EntryKind = 'daily' | 'monthly';
+export type EntryHemisphere = 'Northern' | 'Southern';
+export type EntryStatus = 'draft' | 'scheduled' | 'published';
+
+export interface SignKeyInfo {
+  key: SignKey['key'];    // canonical key, e.g. 'aries' or 'aries-taurus'
+  label: string;          // display label, e.g. 'Aries–Taurus Cusp'
+  kind: 'sign' | 'cusp';
+  sort_order: number;
+}
+
+export interface HoroscopeEntry {
+  id: string;
+  kind: EntryKind;
+  date: string;           // YYYY-MM-DD; the 1st for monthly entries
+  sign_key: string;
+  hemisphere: EntryHemisphere;
+  daily_horoscope: string | null;
+  affirmation: string | null;
+  deeper_insight: string | null;
+  monthly_forecast: string | null;
+  status: EntryStatus;
+  publish_at: string | null;
+  published_at: string | null;
+  updated_at: string;
+}
+
+export type EntryDraft = Pick<HoroscopeEntry, 'kind' | 'date' | 'sign_key' | 'hemisphere'> &
+  Partial<Pick<HoroscopeEntry, 'daily_horoscope' | 'affirmation' | 'deeper_insight' | 'monthly_forecast'>>;
+
+export interface CalendarDay {
+  date: string;
+  live: number;           // signs members can read for this date
+  scheduled: number;      // signs that will go live on schedule
+  drafts: number;
+  missing: string[];      // sign keys with nothing live or scheduled
+}
+
+export interface CalendarResult {
+  kind: EntryKind;
+  hemisphere: EntryHemisphere;
+  signs: SignKeyInfo[];
+  days: CalendarDay[];
+}
+
+export interface DateEntries {
+  signs: SignKeyInfo[];
+  entries: HoroscopeEntry[];
+  live: Record<string, Partial<Record<'daily_horoscope' | 'affirmation' | 'deeper_insight' | 'monthly_forecast', string | null>>>;
+}
+
+async function invokeHoroscopeAdmin(body: Record<string, unknown>): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Please sign in');
+  }
+
+  const { data, error } = await supabase.functions.invoke('horoscope-admin', {
+    headers: { Authorization: `Bearer ${session.access_token}` },
+    body,
+  });
+
+  if (error) {
+    const message = await functionErrorMessage(error, 'Request failed');
+    console.error(`❌ [horoscopeAdmin] ${body.action} error:`, message);
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function getContentCalendar(
+  kind: EntryKind,
+  hemisphere: EntryHemisphere,
+  from: string,
+  to: string
+): Promise<CalendarResult> {
+  return invokeHoroscopeAdmin({ action: 'calendar', kind, hemisphere, from, to });
+}
+
+export async function getEntriesForDate(kind: EntryKind, hemisphere: EntryHemisphere, date: string): Promise<DateEntries> {
+  return invokeHoroscopeAdmin({ action: 'list', kind, hemisphere, date });
+}
+
+export async function saveEntryDraft(entry: EntryDraft): Promise<HoroscopeEntry> {
+  const data = await invokeHoroscopeAdmin({ action: 'save', entry });
+  return data.entry;
+}
+
+export async function scheduleEntry(id: string, publishAt: Date): Promise<HoroscopeEntry> {
+  const data = await invokeHoroscopeAdmin({ action: 'schedule', id, publishAt: publishAt.toISOString() });
+  return data.entry;
+}
+
+export async function unscheduleEntry(id: string): Promise<HoroscopeEntry> {
+  const data = await invokeHoroscopeAdmin({ action: 'unschedule', id });
+  return data.entry;
+}
+
+export async function publishEntry(id: string): Promise<HoroscopeEntry> {
+  const data = await invokeHoroscopeAdmin({ action: 'publish', id });
+  return data.entry;
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  await invokeHoroscopeAdmin({ action: 'delete', id });
+}
@@ -1,13 +1,14 @@
 // utils/lunar.ts
 import SunCalc from 'suncalc';
+import { nextLunation } from './lunations';
 
 export type HemLabel = 'Northern' | 'Southern';
 
-function nowInSydney(): Date {
-  // Create a Date representing *Sydney's* current local time
+function inSydney(at: Date = new Date()): Date {
+  // Create a Date whose local fields read as *Sydney's* wall-clock time
   // (JS Date stores UTC internally; this trick shifts to the target TZ)
-  const sydneyNowStr = new Date().toLocaleString('en-US', { timeZone: 'Australia/Sydney' });
-  return new Date(sydneyNowStr);
+  const sydneyStr = at.toLocaleString('en-US', { timeZone: 'Australia/Sydney' });
+  return new Date(sydneyStr);
 }
 
 function phaseName(phase: number): { name: string; key: 'New Moon'|'First Quarter'|'Full Moon'|'Last Quarter'|'Waxing Crescent'|'Waxing Gibbous'|'Waning Gibbous'|'Waning Crescent' } {
@@ -32,60 +33,27 @@ function fmtDateAU(d: Date): string {
   return `${dd}/${mm}/${yyyy}`;
 }
 
-function findNextMajorPhase(start: Date): { nextPhase: 'New Moon'|'First Quarter'|'Full Moon'|'Last Quarter'; date: Date } {
-  // March forward to the next quarter within ~30 days
-  // We look for phase crossing near 0, 0.25, 0.5, 0.75
-  const targets: Array<{label:'New Moon'|'First Quarter'|'Full Moon'|'Last Quarter', value:number}> = [
-    { label: 'New Moon', value: 0 },
-    { label: 'First Quarter', value: 0.25 },
-    { label: 'Full Moon', value: 0.5 },
-    { label: 'Last Quarter', value: 0.75 },
-  ];
-
-  const startIll = SunCalc.getMoonIllumination(start);
-  const currentPhase = startIll.phase; // 0..1
-
-  // try hourly steps to catch exact day/time more precisely
-  const maxHours = 24 * 35; // safety
-  for (let h = 1; h <= maxHours; h++) {
-    const d = new Date(start.getTime() + h * 3600 * 1000);
-    const p = SunCalc.getMoonIllumination(d).phase;
-
-    for (const t of targets) {
-      // detect when we cross a target from below to close match
-      const crossed =
-        (currentPhase <= t.value && p >= t.value) ||
-        (t.value === 0 && currentPhase > 0.95 && p < 0.05); // wrap-around near new moon
-
-      if (crossed || Math.abs(p - t.value) < 0.005) {
-        return { nextPhase: t.label, date: d };
-      }
-    }
-  }
-  // fallback: Full Moon in ~2 weeks (rarely used)
-  return { nextPhase: 'Full Moon', date: new Date(start.getTime() + 14 * 86400 * 1000) };
-}
-
 /**
  * Returns robust lunar data using Sydney local time.
  * Illumination is global; hemisphere only affects icon/orientation, not %.
  */
 export function getLunarNow(hemisphere: HemLabel) {
-  const now = nowInSydney();
+  const now = new Date();
   const { fraction, phase } = SunCalc.getMoonIllumination(now);
   const name = phaseName(phase);
 
   // Percent illumination (rounded to nearest whole)
   const illuminationPct = Math.round(fraction * 100);
 
-  const { nextPhase, date } = findNextMajorPhase(now);
+  const next = nextLunation(now);
 
   return {
-    phase: name.name,                  // e.g., "Waning Gibbous"
-    illumination: illuminationPct,     // e.g., 86
-    nextPhase,
-    nextPhaseDate: fmtDateAU(date),    // e.g., "20/08/2025"
-    hemisphere,                        // keep for UI orientation
-    timestampSydneyISO: now.toISOString(),
+    phase: name.name,                                   // e.g., "Waning Gibbous"
+    illumination: illuminationPct,                      // e.g., 86
+    nextPhase: next.phase,
+    nextPhaseDate: fmtDateAU(inSydney(next.date)),      // e.g., "20/08/2025"
+    nextPhaseSign: next.sign,                           // e.g., "Pisces"
+    hemisphere,                                         // keep for UI orientation
+    timestampSydneyISO: inSydney(now).toISOString(),
   };
 }
\ No newline at end of file
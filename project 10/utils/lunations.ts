@@ -0,0 +1,249 @@
+// utils/lunations.ts
+// Exact new/full/quarter moons with their zodiac position, plus solar and
+// lunar eclipse detection.
+// - Phase instants: Moon–Sun elongation from the shared ephemeris, bisected to ~1 minute.
+// - Eclipses: Meeus, "Astronomical Algorithms" (2nd ed.), ch. 54 (gamma / u).
+
+import type { AstronomicalEvent } from './astronomy';
+import {
+  angularDifference,
+  bodyLongitude,
+  longitudeToZodiac,
+  normalizeDegrees,
+  toJulianDay,
+} from '../supabase/functions/_shared/ephemeris';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+export type LunationPhase = 'New Moon' | 'First Quarter' | 'Full Moon' | 'Last Quarter';
+
+export type EclipseType = 'total' | 'annular' | 'hybrid' | 'partial' | 'penumbral';
+
+export interface EclipseInfo {
+  kind: 'solar' | 'lunar';
+  type: EclipseType;
+  magnitude: number;
+  // Where it can be seen. Lunar eclipses are visible from the whole night side
+  // of the Earth, so they are always 'Both'.
+  visibility: 'Northern' | 'Southern' | 'Both';
+  gamma: number; // shadow axis distance from Earth's centre, in Earth radii (+ = north)
+}
+
+export interface Lunation {
+  phase: LunationPhase;
+  date: Date;         // exact instant (UTC)
+  sign: string;       // sign of the Moon at that instant
+  degree: number;     // 0..30 within sign
+  longitude: number;  // 0..360
+  eclipse?: EclipseInfo;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Config
+// ───────────────────────────────────────────────────────────────────────────────
+const DEG = Math.PI / 180;
+const HOUR_MS = 60 * 60 * 1000;
+const STEP_MS = 12 * HOUR_MS; // elongation moves ~6° per step
+const SYNODIC_MONTH = 29.530588861;
+
+const PHASE_TARGETS: Array<{ phase: LunationPhase; angle: number }> = [
+  { phase: 'New Moon', angle: 0 },
+  { phase: 'First Quarter', angle: 90 },
+  { phase: 'Full Moon', angle: 180 },
+  { phase: 'Last Quarter', angle: 270 },
+];
+
+const PHASE_EMOJI: Record<LunationPhase, string> = {
+  'New Moon': '🌑',
+  'First Quarter': '🌓',
+  'Full Moon': '🌕',
+  'Last Quarter': '🌗',
+};
+
+// Central solar eclipses this close to the equator are seen across both hemispheres
+const EQUATORIAL_GAMMA = 0.2;
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────────
+function elongation(t: number): number {
+  const d = new Date(t);
+  return normalizeDegrees(bodyLongitude('Moon', d) - bodyLongitude('Sun', d));
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+// Meeus ch. 54. `k` is an integer for new moons, integer + 0.5 for full moons.
+function eclipseAt(k: number): EclipseInfo | undefined {
+  const T = k / 1236.85;
+  const F = 160.7108 + 390.67050284 * k - 0.0016118 * T * T - 0.00000227 * T ** 3 + 0.000000011 * T ** 4;
+  if (Math.abs(Math.sin(F * DEG)) > 0.36) return undefined;
+
+  const M = (2.5534 + 29.1053567 * k - 0.0000014 * T * T - 0.00000011 * T ** 3) * DEG;
+  const Mp = (201.5643 + 385.81693528 * k + 0.0107582 * T * T + 0.00001238 * T ** 3 - 0.000000058 * T ** 4) * DEG;
+  const Om = (124.7746 - 1.56375588 * k + 0.0020672 * T * T + 0.00000215 * T ** 3) * DEG;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const F1 = (F - 0.02665 * Math.sin(Om)) * DEG;
+
+  const P =
+    0.207 * E * Math.sin(M) +
+    0.0024 * E * Math.sin(2 * M) -
+    0.0392 * Math.sin(Mp) +
+    0.0116 * Math.sin(2 * Mp) -
+    0.0073 * E * Math.sin(Mp + M) +
+    0.0067 * E * Math.sin(Mp - M) +
+    0.0118 * Math.sin(2 * F1);
+  const Q =
+    5.2207 -
+    0.0048 * E * Math.cos(M) +
+    0.002 * E * Math.cos(2 * M) -
+    0.3299 * Math.cos(Mp) -
+    0.006 * E * Math.cos(Mp + M) +
+    0.0041 * E * Math.cos(Mp - M);
+  const W = Math.abs(Math.cos(F1));
+  const gamma = (P * Math.cos(F1) + Q * Math.sin(F1)) * (1 - 0.0048 * W);
+  const u =
+    0.0059 +
+    0.0046 * E * Math.cos(M) -
+    0.0182 * Math.cos(Mp) +
+    0.0004 * Math.cos(2 * Mp) -
+    0.0005 * Math.cos(M + Mp);
+  const g = Math.abs(gamma);
+
+  const isSolar = Number.isInteger(k);
+  if (isSolar) {
+    if (g > 1.5433 + u) return undefined;
+    const visibility = g < EQUATORIAL_GAMMA ? 'Both' : gamma > 0 ? 'Northern' : 'Southern';
+    if (g < 0.9972) {
+      const type: EclipseType = u < 0 ? 'total' : u > 0.0047 ? 'annular' : 'hybrid';
+      return { kind: 'solar', type, magnitude: 1, visibility, gamma: round2(gamma) };
+    }
+    const magnitude = (1.5433 + u - g) / (0.5461 + 2 * u);
+    return { kind: 'solar', type: 'partial', magnitude: round2(magnitude), visibility, gamma: round2(gamma) };
+  }
+
+  const penumbral = (1.5573 + u - g) / 0.545;
+  if (penumbral <= 0) return undefined;
+  const umbral = (1.0128 - u - g) / 0.545;
+  const type: EclipseType = umbral >= 1 ? 'total' : umbral > 0 ? 'partial' : 'penumbral';
+  return {
+    kind: 'lunar',
+    type,
+    magnitude: round2(umbral > 0 ? umbral : penumbral),
+    visibility: 'Both',
+    gamma: round2(gamma),
+  };
+}
+
+// Lunation number in Meeus' convention (k = 0 at the new moon of 2000-01-06)
+function lunationNumber(date: Date, phase: 'New Moon' | 'Full Moon'): number {
+  const k = (toJulianDay(date) - 2451550.09766) / SYNODIC_MONTH;
+  return phase === 'New Moon' ? Math.round(k) : Math.round(k - 0.5) + 0.5;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Public API
+// ───────────────────────────────────────────────────────────────────────────────
+/** Every new, first-quarter, full and last-quarter moon between start and end. */
+export function findLunations(start: Date, end: Date): Lunation[] {
+  const out: Lunation[] = [];
+  const endMs = end.getTime();
+  let t0 = start.getTime();
+  let e0 = elongation(t0);
+
+  while (t0 < endMs) {
+    const t1 = Math.min(t0 + STEP_MS, endMs);
+    const e1 = elongation(t1);
+
+    for (const { phase, angle } of PHASE_TARGETS) {
+      const before = angularDifference(angle, e0);
+      const after = angularDifference(angle, e1);
+      if (!(before < 0 && after >= 0)) continue;
+
+      let lo = t0;
+      let hi = t1;
+      while (hi - lo > 60 * 1000) {
+        const mid = (lo + hi) / 2;
+        if (angularDifference(angle, elongation(mid)) >= 0) hi = mid;
+        else lo = mid;
+      }
+
+      const date = new Date(hi);
+      const z = longitudeToZodiac(bodyLongitude('Moon', date));
+      const lunation: Lunation = {
+        phase,
+        date,
+        sign: z.sign,
+        degree: round2(z.degree),
+        longitude: z.longitude,
+      };
+      if (phase === 'New Moon' || phase === 'Full Moon') {
+        const eclipse = eclipseAt(lunationNumber(date, phase));
+        if (eclipse) lunation.eclipse = eclipse;
+      }
+      out.push(lunation);
+    }
+
+    t0 = t1;
+    e0 = e1;
+  }
+
+  return out;
+}
+
+/** The first lunation after `from` (optionally of a given phase). */
+export function nextLunation(from: Date = new Date(), phase?: LunationPhase): Lunation {
+  const end = new Date(from.getTime() + 35 * 24 * HOUR_MS);
+  const found = findLunations(from, end).find(l => !phase || l.phase === phase);
+  if (!found) throw new Error('No lunation found within 35 days');
+  return found;
+}
+
+/** Solar and lunar eclipses between start and end. */
+export function findEclipses(start: Date, end: Date): Lunation[] {
+  return findLunations(start, end).filter(l => l.eclipse);
+}
+
+/** Next eclipse visible from a hemisphere, searching up to a year ahead. */
+export function nextEclipse(
+  hemisphere: 'Northern' | 'Southern',
+  from: Date = new Date()
+): Lunation | null {
+  const end = new Date(from.getTime() + 366 * 24 * HOUR_MS);
+  return (
+    findEclipses(from, end).find(
+      l => l.eclipse!.visibility === 'Both' || l.eclipse!.visibility === hemisphere
+    ) ?? null
+  );
+}
+
+/** Display name, e.g. "Total Lunar Eclipse in Pisces" or "New Moon in Leo". */
+export function lunationTitle(l: Lunation): string {
+  if (l.eclipse) {
+    const type = l.eclipse.type[0].toUpperCase() + l.eclipse.type.slice(1);
+    const kind = l.eclipse.kind === 'solar' ? 'Solar' : 'Lunar';
+    return `${type} ${kind} Eclipse in ${l.sign}`;
+  }
+  return `${l.phase} in ${l.sign}`;
+}
+
+/** New/full moons and eclipses as calendar events (quarters are left out). */
+export function lunationEvents(start: Date, end: Date): AstronomicalEvent[] {
+  return findLunations(start, end)
+    .filter(l => l.phase === 'New Moon' || l.phase === 'Full Moon')
+    .map(l => ({
+      name: `${l.eclipse ? (l.eclipse.kind === 'solar' ? '🌘' : '🌒') : PHASE_EMOJI[l.phase]} ${lunationTitle(l)}`,
+      description: l.eclipse
+        ? `${lunationTitle(l)} at ${l.degree.toFixed(1)}° ${l.sign}` +
+          (l.eclipse.visibility === 'Both'
+            ? ' — visible from both hemispheres.'
+            : ` — best seen from the ${l.eclipse.visibility} Hemisphere.`)
+        : `The Moon is ${l.phase === 'New Moon' ? 'new' : 'full'} at ${l.degree.toFixed(1)}° ${l.sign}.`,
+      date: l.date.toISOString().slice(0, 10),
+      hemisphere: l.eclipse ? l.eclipse.visibility : 'Both',
+      type: 'moon' as const,
+    }));
+}
@@ -0,0 +1,240 @@
+// utils/natalChart.ts
+// Natal chart engine: planet placements, house cusps and major aspects for a
+// BirthInfo. Pure maths on top of the shared ephemeris — no network, no storage.
+
+import { resolveBirthInstant, type BirthInfo } from './astrology';
+import type { PlanetaryPosition } from './astronomy';
+import {
+  CHART_BODIES,
+  angularDifference,
+  ascendantLongitude,
+  bodyDailyMotion,
+  bodyLongitude,
+  localSiderealTime,
+  longitudeToZodiac,
+  meanObliquity,
+  midheavenLongitude,
+  normalizeDegrees,
+} from '../supabase/functions/_shared/ephemeris';
+
+// ---------------- Types ----------------
+// 'solar' = whole-sign houses from the Sun's sign, used when the birth time is unknown
+export type HouseSystem = 'placidus' | 'whole-sign' | 'solar';
+
+export type AspectType = 'conjunction' | 'sextile' | 'square' | 'trine' | 'opposition';
+
+export interface ChartPlacement extends PlanetaryPosition {
+  longitude: number; // ecliptic longitude, 0..360
+  speed: number;     // degrees/day (negative = retrograde)
+  house?: number;    // 1..12, only when houses are known
+}
+
+export interface ChartAngle {
+  sign: string;
+  degree: number;
+  longitude: number;
+}
+
+export interface HouseCusp extends ChartAngle {
+  house: number; // 1..12
+}
+
+export interface ChartAspect {
+  from: string;
+  to: string;
+  type: AspectType;
+  angle: number;     // exact aspect angle (0, 60, 90, 120, 180)
+  orb: number;       // distance from exact, degrees
+  applying: boolean; // true while the aspect is tightening
+}
+
+export interface NatalChart {
+  birthInstantUTC: string;          // ISO
+  houseSystem: HouseSystem | null;  // null when birth coordinates are unknown
+  timeUnknown?: boolean;            // solar chart at local noon: no angles, Moon approximate
+  timeEstimate?: { time: string; confidence: number }; // cast for a rectified (estimated) time
+  planets: ChartPlacement[];
+  ascendant?: ChartAngle;
+  midheaven?: ChartAngle;
+  houses?: HouseCusp[];
+  aspects: ChartAspect[];
+  computedAt: string;               // ISO
+}
+
+// ---------------- Aspects ----------------
+export const ASPECTS: Array<{ type: AspectType; angle: number; orb: number }> = [
+  { type: 'conjunction', angle: 0, orb: 8 },
+  { type: 'sextile', angle: 60, orb: 5 },
+  { type: 'square', angle: 90, orb: 7 },
+  { type: 'trine', angle: 120, orb: 7 },
+  { type: 'opposition', angle: 180, orb: 8 },
+];
+
+// Sun and Moon get a wider orb by tradition
+const LUMINARY_ORB_BONUS = 2;
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function toAngle(longitude: number): ChartAngle {
+  const z = longitudeToZodiac(longitude);
+  return { sign: z.sign, degree: round2(z.degree), longitude: z.longitude };
+}
+
+/** Major aspects between every pair of placements, tightest first. */
+export function findAspects(placements: Array<Pick<ChartPlacement, 'planet' | 'longitude' | 'speed'>>): ChartAspect[] {
+  const found: ChartAspect[] = [];
+
+  for (let i = 0; i < placements.length; i++) {
+    for (let j = i + 1; j < placements.length; j++) {
+      const a = placements[i];
+      const b = placements[j];
+      const separation = Math.abs(angularDifference(a.longitude, b.longitude));
+      const luminary = [a.planet, b.planet].some(p => p === 'Sun' || p === 'Moon');
+
+      for (const asp of ASPECTS) {
+        const orb = Math.abs(separation - asp.angle);
+        if (orb > asp.orb + (luminary ? LUMINARY_ORB_BONUS : 0)) continue;
+
+        // Where will the pair be an hour from now?
+        const dt = 1 / 24;
+        const later = Math.abs(angularDifference(a.longitude + a.speed * dt, b.longitude + b.speed * dt));
+
+        found.push({
+          from: a.planet,
+          to: b.planet,
+          type: asp.type,
+          angle: asp.angle,
+          orb: round2(orb),
+          applying: Math.abs(later - asp.angle) < orb,
+        });
+        break;
+      }
+    }
+  }
+
+  return found.sort((x, y) => x.orb - y.orb);
+}
+
+// ---------------- Houses ----------------
+function wholeSignCusps(ascLongitude: number): number[] {
+  const first = longitudeToZodiac(ascLongitude).signIndex * 30;
+  return Array.from({ length: 12 }, (_, i) => normalizeDegrees(first + i * 30));
+}
+
+// Placidus: a cusp is the ecliptic point whose hour angle is a fixed fraction
+// of its own semi-diurnal (or semi-nocturnal) arc. Solved by iteration.
+function placidusCusps(date: Date, latitude: number, longitude: number): number[] | null {
+  const ramc = localSiderealTime(date, longitude);
+  const eps = meanObliquity(date);
+  const DEG = Math.PI / 180;
+  const tanPhi = Math.tan(latitude * DEG);
+
+  const solve = (fraction: number, aboveHorizon: boolean): number | null => {
+    let ra = ramc + (aboveHorizon ? fraction * 90 : 180 - fraction * 90);
+    let lambda = 0;
+    for (let i = 0; i < 50; i++) {
+      lambda = Math.atan2(Math.sin(ra * DEG), Math.cos(ra * DEG) * Math.cos(eps * DEG)) / DEG;
+      const decl = Math.asin(Math.sin(eps * DEG) * Math.sin(lambda * DEG));
+      const x = tanPhi * Math.tan(decl);
+      if (Math.abs(x) > 1) return null; // circumpolar — Placidus undefined
+      const ascDiff = Math.asin(x) / DEG;
+      const next = aboveHorizon
+        ? ramc + fraction * (90 + ascDiff)
+        : ramc + 180 - fraction * (90 - ascDiff);
+      if (Math.abs(angularDifference(ra, next)) < 1e-6) break;
+      ra = next;
+    }
+    return normalizeDegrees(lambda);
+  };
+
+  const asc = ascendantLongitude(date, latitude, longitude);
+  const mc = midheavenLongitude(date, longitude);
+  const c11 = solve(1 / 3, true);
+  const c12 = solve(2 / 3, true);
+  const c2 = solve(2 / 3, false);
+  const c3 = solve(1 / 3, false);
+  if (c11 === null || c12 === null || c2 === null || c3 === null) return null;
+
+  const ic = normalizeDegrees(mc + 180);
+  const opp = (x: number) => normalizeDegrees(x + 180);
+  return [asc, c2, c3, ic, opp(c11), opp(c12), opp(asc), opp(c2), opp(c3), mc, c11, c12];
+}
+
+/** House (1..12) containing an ecliptic longitude, given 12 cusps in order. */
+export function houseOf(longitude: number, cusps: number[]): number {
+  for (let i = 0; i < 12; i++) {
+    const start = cusps[i];
+    const span = normalizeDegrees(cusps[(i + 1) % 12] - start);
+    if (normalizeDegrees(longitude - start) < span) return i + 1;
+  }
+  return 1;
+}
+
+// ---------------- Chart ----------------
+export function calculateNatalChart(birthInfo: BirthInfo, houseSystem: HouseSystem = 'placidus'): NatalChart {
+  const instant = resolveBirthInstant(birthInfo);
+
+  const planets: ChartPlacement[] = CHART_BODIES.map(body => {
+    const lon = bodyLongitude(body, instant);
+    const speed = bodyDailyMotion(body, instant);
+    const z = longitudeToZodiac(lon);
+    return {
+      planet: body,
+      sign: z.sign,
+      degree: round2(z.degree),
+      retrograde: speed < 0,
+      longitude: z.longitude,
+      speed: Math.round(speed * 10000) / 10000,
+    };
+  });
+
+  const chart: NatalChart = {
+    birthInstantUTC: instant.toISOString(),
+    houseSystem: null,
+    planets,
+    aspects: findAspects(planets),
+    computedAt: new Date().toISOString(),
+  };
+
+  // Without a birth time the angles are meaningless — use solar houses instead
+  if (birthInfo.timeUnknown && !birthInfo.timeEstimate) {
+    const sun = planets.find(p => p.planet === 'Sun')!;
+    const cusps = wholeSignCusps(sun.longitude);
+    chart.timeUnknown = true;
+    chart.houseSystem = 'solar';
+    chart.houses = cusps.map((lon, i) => ({ house: i + 1, ...toAngle(lon) }));
+    for (const p of chart.planets) p.house = houseOf(p.longitude, cusps);
+    return chart;
+  }
+
+  const { latitude, longitude } = birthInfo;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    return chart;
+  }
+
+  const ascLon = ascendantLongitude(instant, latitude, longitude);
+  let cusps = houseSystem === 'placidus' ? placidusCusps(instant, latitude, longitude) : null;
+  let usedSystem: HouseSystem = houseSystem;
+  if (!cusps) {
+    if (houseSystem === 'placidus') {
+      console.warn('⚠️ [natalChart] Placidus undefined at latitude', latitude, '— using Whole Sign');
+    }
+    cusps = wholeSignCusps(ascLon);
+    usedSystem = 'whole-sign';
+  }
+
+  if (birthInfo.timeUnknown && birthInfo.timeEstimate) {
+    const { time, confidence } = birthInfo.timeEstimate;
+    chart.timeEstimate = { time, confidence };
+  }
+
+  chart.houseSystem = usedSystem;
+  chart.ascendant = toAngle(ascLon);
+  chart.midheaven = toAngle(midheavenLongitude(instant, longitude));
+  chart.houses = cusps.map((lon, i) => ({ house: i + 1, ...toAngle(lon) }));
+  for (const p of chart.planets) p.house = houseOf(p.longitude, cusps);
+
+  return chart;
+}
@@ -0,0 +1,133 @@
+// utils/personalTransits.ts
+// Today's sky against one member's natal chart: aspects from the transiting
+// planets to their natal Sun, Moon and ascendant, tightest first, each with a
+// one-line explanation. The personal layer under the shared daily reading.
+// Pure maths on top of the shared ephemeris — no network, no storage.
+
+import { CHART_BODIES, angularDifference, bodyDailyMotion, bodyLongitude } from '../supabase/functions/_shared/ephemeris';
+import type { AspectType, NatalChart } from './natalChart';
+
+// ---------------- Types ----------------
+export type NatalPoint = 'Sun' | 'Moon' | 'Ascendant';
+
+export interface PersonalTransit {
+  transit: string;   // transiting body, e.g. 'Mars'
+  natal: NatalPoint;
+  type: AspectType;
+  orb: number;       // degrees from exact
+  applying: boolean; // true while the aspect is tightening
+  text: string;
+}
+
+// ---------------- Config ----------------
+// Transit orbs are much tighter than natal ones: an aspect should describe
+// today, not the whole month
+const TRANSIT_ASPECTS: Array<{ type: AspectType; angle: number; orb: number }> = [
+  { type: 'conjunction', angle: 0, orb: 3 },
+  { type: 'sextile', angle: 60, orb: 2 },
+  { type: 'square', angle: 90, orb: 3 },
+  { type: 'trine', angle: 120, orb: 3 },
+  { type: 'opposition', angle: 180, orb: 3 },
+];
+
+export const MAX_PERSONAL_TRANSITS = 3;
+
+const TRANSIT_THEMES: Record<string, string> = {
+  Sun: 'attention and vitality',
+  Moon: 'moods and instincts',
+  Mercury: 'conversations, plans and paperwork',
+  Venus: 'affection, pleasure and money',
+  Mars: 'drive, heat and impatience',
+  Jupiter: 'growth, luck and optimism',
+  Saturn: 'limits, duty and hard lessons',
+  Uranus: 'surprises and sudden change',
+  Neptune: 'dreams, doubt and imagination',
+  Pluto: 'power, pressure and deep change',
+};
+
+const NATAL_THEMES: Record<NatalPoint, string> = {
+  Sun: 'your sense of purpose',
+  Moon: 'your emotional needs',
+  Ascendant: 'how you come across and start things',
+};
+
+const ASPECT_VERBS: Record<AspectType, string> = {
+  conjunction: 'meets',
+  sextile: 'sextiles',
+  square: 'squares',
+  trine: 'trines',
+  opposition: 'opposes',
+};
+
+const ASPECT_EFFECTS: Record<AspectType, string> = {
+  conjunction: 'brings {transit} right into {natal}',
+  sextile: 'offers an opening where {transit} can help {natal}',
+  square: 'sets {transit} against {natal}, so expect friction that pushes you to adjust',
+  trine: 'lets {transit} flow easily into {natal}',
+  opposition: 'puts {transit} face to face with {natal}, so balance is the task',
+};
+
+// ---------------- Helpers ----------------
+/**
+ * Full birth data: a known birth time and place, so the ascendant is real.
+ * Solar charts (time unknown) and rectified estimates don't qualify.
+ */
+export function hasFullBirthData(chart?: NatalChart | null): chart is NatalChart & { ascendant: NonNullable<NatalChart['ascendant']> } {
+  return !!chart?.ascendant && !chart.timeUnknown && !chart.timeEstimate;
+}
+
+function natalLongitudes(chart: NatalChart): Array<[NatalPoint, number]> {
+  const points: Array<[NatalPoint, number]> = [];
+  for (const p of chart.planets) {
+    if (p.planet === 'Sun' || p.planet === 'Moon') points.push([p.planet, p.longitude]);
+  }
+  if (chart.ascendant) points.push(['Ascendant', chart.ascendant.longitude]);
+  return points;
+}
+
+function describe(transit: string, natal: NatalPoint, type: AspectType, applying: boolean): string {
+  const effect = ASPECT_EFFECTS[type]
+    .replace('{transit}', TRANSIT_THEMES[transit] ?? transit)
+    .replace('{natal}', NATAL_THEMES[natal]);
+  const timing = applying ? 'building through the day' : 'easing off';
+  return `${transit} ${ASPECT_VERBS[type]} your ${natal === 'Ascendant' ? 'ascendant' : natal} and ${effect} (${timing}).`;
+}
+
+// ---------------- Transits ----------------
+/** The tightest transits to the natal Sun, Moon and ascendant at `date`. */
+export function getPersonalTransits(
+  chart: NatalChart,
+  date: Date = new Date(),
+  limit = MAX_PERSONAL_TRANSITS
+): PersonalTransit[] {
+  const found: PersonalTransit[] = [];
+
+  for (const body of CHART_BODIES) {
+    const lon = bodyLongitude(body, date);
+    const speed = bodyDailyMotion(body, date);
+
+    for (const [natal, natalLon] of natalLongitudes(chart)) {
+      const separation = Math.abs(angularDifference(natalLon, lon));
+      for (const asp of TRANSIT_ASPECTS) {
+        const orb = Math.abs(separation - asp.angle);
+        if (orb > asp.orb) continue;
+
+        // Where will the transit be an hour from now? Natal points don't move
+        const later = Math.abs(angularDifference(natalLon, lon + speed / 24));
+        const applying = Math.abs(later - asp.angle) < orb;
+
+        found.push({
+          transit: body,
+          natal,
+          type: asp.type,
+          orb: Math.round(orb * 100) / 100,
+          applying,
+          text: describe(body, natal, asp.type, applying),
+        });
+        break;
+      }
+    }
+  }
+
+  return found.sort((a, b) => a.orb - b.orb).slice(0, limit);
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { canAccess } from './entitlements';
 
 export interface Purchase {
   id: number;
@@ -12,28 +13,10 @@ export interface Purchase {
   created_at: string;
 }
 
-// Check if user has purchased the one-off cusp reading
+// Check if user has purchased the one-off cusp reading.
+// Resolved server-side (get-entitlements), which matches the order to the one-off price.
 export async function hasOneOffReading(): Promise<boolean> {
-  try {
-    const { getCurrentUser } = await import('./auth');
-    const authUser = await getCurrentUser();
-    
-    if (!authUser) {
-      return false;
-    }
-
-    // Check if user has any completed one-time purchases
-    const { data: orders } = await supabase
-      .from('stripe_user_orders')
-      .select('*')
-      .eq('order_status', 'completed')
-      .eq('payment_status', 'paid');
-
-    return (orders && orders.length > 0) || false;
-  } catch (error) {
-    console.error('Error checking one-off purchase:', error);
-    return false;
-  }
+  return canAccess('cusp_reading');
 }
 
 // Get user's purchase history
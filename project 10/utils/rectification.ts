@@ -0,0 +1,229 @@
+// utils/rectification.ts
+// Birth-time rectification for the time-unknown mode. Every rising sign of the
+// birth day (calculatePossibleRisingSigns) becomes a candidate window, and the
+// user's answers about temperament and life events are scored against it:
+// - personality questions match the rising sign (risingDescriptions, element, modality)
+// - life-event years check for slow planets crossing the window's angles that year
+
+import {
+  calculatePossibleRisingSigns,
+  localBirthTime,
+  risingDescriptions,
+  type BirthInfo,
+  type BirthTimeEstimate,
+  type RisingSignWindow,
+} from './astrology';
+import { ascendantLongitude, bodyLongitude, midheavenLongitude, normalizeDegrees } from '../supabase/functions/_shared/ephemeris';
+
+// ---------------- Types ----------------
+export type AngleName = 'ASC' | 'DSC' | 'MC' | 'IC';
+
+export interface RectificationOption {
+  id: string;
+  label: string;
+  signs: string[]; // rising signs this answer points to
+}
+
+export type RectificationQuestion =
+  | { id: string; kind: 'choice'; prompt: string; options: RectificationOption[]; weight: number }
+  | { id: string; kind: 'year'; prompt: string; angles: AngleName[]; planets: string[]; weight: number };
+
+// question id → option id (choice) or year (life event); unanswered ids are skipped
+export type RectificationAnswers = Record<string, string | number | undefined>;
+
+export interface RectificationCandidate extends RisingSignWindow {
+  score: number;
+  probability: number; // 0..1, share of the evidence across all windows
+  estimatedTime: string; // local "HH:mm", middle of the window
+  reasons: string[];
+}
+
+// ---------------- Questions ----------------
+const ELEMENTS: Record<string, string[]> = {
+  fire: ['Aries', 'Leo', 'Sagittarius'],
+  earth: ['Taurus', 'Virgo', 'Capricorn'],
+  air: ['Gemini', 'Libra', 'Aquarius'],
+  water: ['Cancer', 'Scorpio', 'Pisces'],
+};
+
+const MODALITIES: Record<string, string[]> = {
+  cardinal: ['Aries', 'Cancer', 'Libra', 'Capricorn'],
+  fixed: ['Taurus', 'Leo', 'Scorpio', 'Aquarius'],
+  mutable: ['Gemini', 'Virgo', 'Sagittarius', 'Pisces'],
+};
+
+const PERSONALITY_QUESTIONS: RectificationQuestion[] = [
+  {
+    id: 'temperament',
+    kind: 'choice',
+    prompt: 'Before people get to know you, they tend to see you as…',
+    weight: 2,
+    options: [
+      { id: 'fire', label: 'Direct, lively and quick to act', signs: ELEMENTS.fire },
+      { id: 'earth', label: 'Calm, practical and dependable', signs: ELEMENTS.earth },
+      { id: 'air', label: 'Chatty, curious and sociable', signs: ELEMENTS.air },
+      { id: 'water', label: 'Gentle, reserved and perceptive', signs: ELEMENTS.water },
+    ],
+  },
+  {
+    id: 'pace',
+    kind: 'choice',
+    prompt: 'When something new comes along, you usually…',
+    weight: 2,
+    options: [
+      { id: 'cardinal', label: 'Take the lead and get it moving', signs: MODALITIES.cardinal },
+      { id: 'fixed', label: 'Take your time, then see it through', signs: MODALITIES.fixed },
+      { id: 'mutable', label: 'Adapt and keep several options open', signs: MODALITIES.mutable },
+    ],
+  },
+];
+
+// Slow planets crossing an angle are the classic rectification timers
+const LIFE_EVENT_QUESTIONS: RectificationQuestion[] = [
+  {
+    id: 'partnership',
+    kind: 'year',
+    prompt: 'Year you married or began your most important relationship',
+    angles: ['DSC'],
+    planets: ['Jupiter', 'Saturn', 'Uranus'],
+    weight: 2,
+  },
+  {
+    id: 'relocation',
+    kind: 'year',
+    prompt: 'Year of your biggest move (new city or country)',
+    angles: ['ASC', 'IC'],
+    planets: ['Jupiter', 'Saturn', 'Uranus'],
+    weight: 2,
+  },
+  {
+    id: 'career',
+    kind: 'year',
+    prompt: 'Year of a major career change or breakthrough',
+    angles: ['MC'],
+    planets: ['Jupiter', 'Saturn', 'Uranus', 'Pluto'],
+    weight: 2,
+  },
+  {
+    id: 'upheaval',
+    kind: 'year',
+    prompt: 'Year of a major loss or upheaval',
+    angles: ['IC', 'ASC'],
+    planets: ['Saturn', 'Uranus', 'Pluto'],
+    weight: 2,
+  },
+];
+
+// How close (degrees) a transit has to come to the window's stretch of an angle
+const TRANSIT_ORB = 2;
+
+/**
+ * Questions for a birth day. The first-impression question offers the rising
+ * descriptions of just the signs that were actually rising that day.
+ */
+export function getRectificationQuestions(windows: RisingSignWindow[]): RectificationQuestion[] {
+  const signs = Array.from(new Set(windows.map(w => w.sign)));
+  const firstImpression: RectificationQuestion = {
+    id: 'first-impression',
+    kind: 'choice',
+    prompt: 'Which of these sounds most like the first impression you make?',
+    weight: 3,
+    options: signs.map(sign => ({
+      id: sign,
+      label: risingDescriptions[sign] || `${sign} rising`,
+      signs: [sign],
+    })),
+  };
+  return [firstImpression, ...PERSONALITY_QUESTIONS, ...LIFE_EVENT_QUESTIONS];
+}
+
+// ---------------- Scoring ----------------
+// Ecliptic stretch [from, from + span] an angle sweeps during the window
+function angleSpan(window: RisingSignWindow, angle: AngleName, latitude: number, longitude: number) {
+  const a = new Date(window.startUTC);
+  const b = new Date(window.endUTC);
+  const base = angle === 'ASC' || angle === 'DSC'
+    ? [ascendantLongitude(a, latitude, longitude), ascendantLongitude(b, latitude, longitude)]
+    : [midheavenLongitude(a, longitude), midheavenLongitude(b, longitude)];
+  const shift = angle === 'DSC' || angle === 'IC' ? 180 : 0;
+  const from = normalizeDegrees(base[0] + shift);
+  return { from, span: normalizeDegrees(base[1] - base[0]) };
+}
+
+// First planet (if any) that crossed the span at some point during the year
+function transitInYear(year: number, planets: string[], span: { from: number; span: number }): string | null {
+  for (const planet of planets) {
+    for (let month = 0; month < 12; month++) {
+      const lon = bodyLongitude(planet, new Date(Date.UTC(year, month, 15)));
+      if (normalizeDegrees(lon - span.from + TRANSIT_ORB) <= span.span + 2 * TRANSIT_ORB) return planet;
+    }
+  }
+  return null;
+}
+
+/**
+ * Rank the birth day's rising-sign windows against the answers, most likely
+ * first. With no answers every window is equally likely. Requires a
+ * time-unknown BirthInfo with coordinates.
+ */
+export function rankRisingWindows(birthInfo: BirthInfo, answers: RectificationAnswers): RectificationCandidate[] {
+  const { latitude, longitude } = birthInfo;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    throw new Error('Birth latitude and longitude are required to rectify the birth time.');
+  }
+
+  const windows = calculatePossibleRisingSigns(birthInfo);
+  const questions = getRectificationQuestions(windows);
+  const birthYear = new Date(windows[0].startUTC).getUTCFullYear();
+
+  const scored = windows.map(w => {
+    let score = 0;
+    const reasons: string[] = [];
+
+    for (const q of questions) {
+      const answer = answers[q.id];
+      if (answer === undefined || answer === '') continue;
+
+      if (q.kind === 'choice') {
+        const option = q.options.find(o => o.id === answer);
+        if (option?.signs.includes(w.sign)) {
+          score += q.weight;
+          reasons.push(`${w.sign} rising fits “${option.label}”`);
+        }
+        continue;
+      }
+
+      const year = Number(answer);
+      if (!Number.isInteger(year) || year <= birthYear) continue;
+      for (const angle of q.angles) {
+        const planet = transitInYear(year, q.planets, angleSpan(w, angle, latitude, longitude));
+        if (planet) {
+          score += q.weight;
+          reasons.push(`${planet} crossed your ${angle} in ${year}`);
+          break;
+        }
+      }
+    }
+
+    const mid = new Date((new Date(w.startUTC).getTime() + new Date(w.endUTC).getTime()) / 2);
+    return { ...w, score, reasons, estimatedTime: localBirthTime(birthInfo, mid), probability: 0 };
+  });
+
+  // Softmax over scores: one point of evidence is worth a factor of e
+  const total = scored.reduce((sum, c) => sum + Math.exp(c.score), 0);
+  for (const c of scored) c.probability = Math.round((Math.exp(c.score) / total) * 100) / 100;
+
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+/** The chosen candidate in the shape stored on the profile. */
+export function toBirthTimeEstimate(candidate: RectificationCandidate): BirthTimeEstimate {
+  return {
+    time: candidate.estimatedTime,
+    sign: candidate.sign,
+    start: candidate.start,
+    end: candidate.end,
+    confidence: candidate.probability,
+    rectifiedAt: new Date().toISOString(),
+  };
+}
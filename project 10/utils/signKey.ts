@@ -0,0 +1,123 @@
+// utils/signKey.ts
+// Canonical sign/cusp identity. Every label that reaches the app (route params,
+// profiles, DB rows, editor input) goes through parseSignKey once; after that
+// code passes SignKey values around and only turns them back into strings with
+// formatSignKey (UI) or encodeSignKey (DB).
+//
+// The DB form matches `horoscope_sign_keys.key`: 'aries', 'aries-taurus', ...
+
+export type ZodiacKey =
+  | 'aries' | 'taurus' | 'gemini' | 'cancer' | 'leo' | 'virgo'
+  | 'libra' | 'scorpio' | 'sagittarius' | 'capricorn' | 'aquarius' | 'pisces';
+
+export type CuspKey =
+  | 'pisces-aries' | 'aries-taurus' | 'taurus-gemini' | 'gemini-cancer'
+  | 'cancer-leo' | 'leo-virgo' | 'virgo-libra' | 'libra-scorpio'
+  | 'scorpio-sagittarius' | 'sagittarius-capricorn' | 'capricorn-aquarius' | 'aquarius-pisces';
+
+export type SignKey =
+  | { kind: 'sign'; key: ZodiacKey }
+  | { kind: 'cusp'; key: CuspKey; from: ZodiacKey; to: ZodiacKey };
+
+export const ZODIAC_KEYS: readonly ZodiacKey[] = [
+  'aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo',
+  'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces',
+];
+
+// Cusp i sits between sign i and the sign before it; 'pisces-aries' opens the year
+export const CUSP_KEYS: readonly CuspKey[] = ZODIAC_KEYS.map(
+  (to, i) => `${ZODIAC_KEYS[(i + 11) % 12]}-${to}` as CuspKey
+);
+
+/** All 24 keys in zodiac order, each cusp after the sign it opens (as in horoscope_sign_keys). */
+export const ALL_SIGN_KEYS: readonly SignKey[] = ZODIAC_KEYS.flatMap((sign, i) => [
+  { kind: 'sign', key: sign } as SignKey,
+  cuspKey(CUSP_KEYS[(i + 1) % 12]),
+]);
+
+function cuspKey(key: CuspKey): SignKey {
+  const [from, to] = key.split('-') as [ZodiacKey, ZodiacKey];
+  return { kind: 'cusp', key, from, to };
+}
+
+const titleCase = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+function isZodiacKey(s: string): s is ZodiacKey {
+  return (ZODIAC_KEYS as readonly string[]).includes(s);
+}
+
+function isCuspKey(s: string): s is CuspKey {
+  return (CUSP_KEYS as readonly string[]).includes(s);
+}
+
+function isSignKey(value: any): value is SignKey {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    ((value.kind === 'sign' && isZodiacKey(value.key)) || (value.kind === 'cusp' && isCuspKey(value.key)))
+  );
+}
+
+/**
+ * The one parser. Accepts a SignKey, a DB key ('aries-taurus'), a display label
+ * ('Aries–Taurus Cusp', 'Aries Taurus cusp', 'ARIES-TAURUS V3') or a profile-ish
+ * object ({ cuspName }, { sign }, ...). Returns null for anything else.
+ */
+export function parseSignKey(input: unknown): SignKey | null {
+  if (!input) return null;
+  if (isSignKey(input)) return input;
+
+  if (typeof input === 'object') {
+    const o = input as Record<string, any>;
+    return parseSignKey(o.signKey || o.cuspLabel || o.cuspName || o.label || o.name || o.sign || o.value);
+  }
+
+  const slug = String(input)
+    .toLowerCase()
+    .replace(/\s*v\d+\s*$/, '')     // " V3" suffixes from old content
+    .replace(/\(.*?\)/g, '')        // "(pure)" and other editorial notes
+    .replace(/\bcusp\b.*$/, '')     // "Cusp", "cusp of power", ...
+    .replace(/[^a-z]+/g, '-')       // dashes, spaces, '&' → '-'
+    .replace(/^-+|-+$/g, '');
+
+  if (isZodiacKey(slug)) return { kind: 'sign', key: slug };
+  if (isCuspKey(slug)) return cuspKey(slug);
+
+  // Cusp written the other way round, e.g. 'taurus-aries'
+  const reversed = slug.split('-').reverse().join('-');
+  if (isCuspKey(reversed)) return cuspKey(reversed);
+
+  return null;
+}
+
+/** DB form: 'aries', 'aries-taurus'. */
+export function encodeSignKey(sign: SignKey): string {
+  return sign.key;
+}
+
+/** UI form: 'Aries', 'Aries–Taurus Cusp'. */
+export function formatSignKey(sign: SignKey): string {
+  return sign.kind === 'sign'
+    ? titleCase(sign.key)
+    : `${titleCase(sign.from)}–${titleCase(sign.to)} Cusp`;
+}
+
+/** The plain signs a key stands for: one for a sign, both sides of a cusp. */
+export function signsOf(sign: SignKey): ZodiacKey[] {
+  return sign.kind === 'sign' ? [sign.key] : [sign.from, sign.to];
+}
+
+export function sameSignKey(a: SignKey | null | undefined, b: SignKey | null | undefined): boolean {
+  return !!a && !!b && a.key === b.key;
+}
+
+/** A member's sign: the stored key, else the cusp (when on one), else the primary sign. */
+export function signKeyFromProfile(user?: { cuspResult?: any } | null): SignKey | null {
+  const cr = user?.cuspResult;
+  if (!cr) return null;
+  return (
+    parseSignKey(cr.signKey) ||
+    (cr.isOnCusp ? parseSignKey(cr.cuspName) : null) ||
+    parseSignKey(cr.primarySign)
+  );
+}
@@ -1,32 +1,6 @@
 // utils/signs.ts
 
-/** -------- Slug (for URLs only) -------- */
-export function slugifySign(input?: string): string {
-  return (input ?? '')
-    .toLowerCase()
-    .replace(/–|—/g, '-')      // normalize en/em dashes to hyphen
-    .replace(/\s+/g, '-')      // spaces -> hyphen
-    .replace(/[^a-z-]/g, '');  // strip anything else
-}
-
-/** -------- Coercion -------- */
-export function coerceSign(value: any): string {
-  if (!value) return "";
-  if (typeof value === "string") return value;
-
-  if (typeof value === "object") {
-    return (
-      value.cuspLabel || // prefer a label like "Aries–Taurus Cusp"
-      value.cuspName  ||
-      value.label     ||
-      value.name      ||
-      value.sign      ||
-      value.value     ||
-      ""
-    );
-  }
-  return String(value);
-}
+import { formatSignKey, parseSignKey } from './signKey';
 
 /** -------- Default sign (prefer cusp) -------- */
 export function getDefaultSignFromUserData(userData: any): string {
@@ -46,7 +20,8 @@ export function getDefaultSignFromUserData(userData: any): string {
   
   // Use the new effective sign helper (no fallbacks)
   const { getEffectiveSign } = require('./effectiveSign');
-  return getEffectiveSign(userData) || '';
+  const sign = getEffectiveSign(userData);
+  return sign ? formatSignKey(sign) : '';
 }
 
 /**
@@ -55,49 +30,20 @@ export function getDefaultSignFromUserData(userData: any): string {
  */
 export function decideMonthlyTargetSign(user?: any, routeSign?: string, preferCusp: boolean = true): string {
   // if a route param explicitly says the sign (e.g. from sign details), trust it
-  if (routeSign && typeof routeSign === 'string' && routeSign.trim()) {
-    return routeSign.trim();
-  }
+  const fromRoute = parseSignKey(routeSign);
+  if (fromRoute) return formatSignKey(fromRoute);
 
   // For cusp users, prefer the full cusp identity unless specifically asking for primary
-  if (preferCusp && user?.cuspResult?.cuspName) {
-    return user.cuspResult.cuspName.trim();
-  }
-  
+  const cusp = preferCusp ? parseSignKey(user?.cuspResult?.cuspName) : null;
+  if (cusp) return formatSignKey(cusp);
+
   // Otherwise use primary sign
-  const primary = user?.cuspResult?.primarySign?.trim();
-  if (primary) return primary;
+  const primary = parseSignKey(user?.cuspResult?.primarySign);
+  if (primary) return formatSignKey(primary);
 
   // final fallback to your existing resolver (may return a cusp label)
   return getDefaultSignFromUserData(user) || '';
 }
-/** -------- Normalize for DB (keeps cusp intact) -------- */
-export function normalizeSignForDatabase(input: any): string {
-  let s = coerceSign(input).trim();
-  if (!s) return "";
-  // unify dashes, trim whitespace
-  s = s.replace(/[—–]/g, "-").replace(/\s+/g, " ");
-  return s;
-}
-
-/** -------- Daily attempts: cusp first, then bases -------- */
-export function buildDailySignAttempts(input: any): string[] {
-  const s = normalizeSignForDatabase(input);
-  if (!s) return [];
-
-  if (s.toLowerCase().includes("cusp")) {
-    // split on hyphen; tolerate fancy dashes
-    const parts = s.replace(/[—–]/g, "-").split("-").map(p => p.trim());
-    if (parts.length >= 2) {
-      const a = parts[0];
-      const b = parts[1].replace(/\s*cusp/i, "").trim(); // strip trailing "Cusp"
-      return [s, `${a}–${b} Cusp`, `${a}-${b} Cusp`, a, b].filter(Boolean);
-    }
-    return [s];
-  }
-
-  return [s];
-}
 
 /** =========================================================
  *  HEMISPHERE — single source of truth for the DATABASE
@@ -0,0 +1,190 @@
+// utils/skyEvents.ts
+// Generates calendar events (stations, sign ingresses, exact conjunctions) by
+// scanning the ephemeris over a date range — replaces hand-edited event lists.
+
+import type { AstronomicalEvent } from './astronomy';
+import {
+  ZODIAC_ORDER,
+  angularDifference,
+  bodyDailyMotion,
+  bodyLongitude,
+  longitudeToZodiac,
+} from '../supabase/functions/_shared/ephemeris';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Config
+// ───────────────────────────────────────────────────────────────────────────────
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The Moon changes sign every ~2.5 days and would drown everything else out
+const SCAN_BODIES = ['Sun', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto'];
+const STATION_BODIES = SCAN_BODIES.filter(b => b !== 'Sun');
+
+const GLYPHS: Record<string, string> = {
+  Sun: '☉',
+  Mercury: '☿',
+  Venus: '♀',
+  Mars: '♂',
+  Jupiter: '♃',
+  Saturn: '♄',
+  Uranus: '♅',
+  Neptune: '♆',
+  Pluto: '♇',
+};
+
+// Sun ingresses into the cardinal signs are the equinoxes/solstices
+const SEASON_MARKERS: Record<string, { type: 'equinox' | 'solstice'; Northern: string; Southern: string }> = {
+  Aries: { type: 'equinox', Northern: 'Spring Equinox', Southern: 'Autumn Equinox' },
+  Cancer: { type: 'solstice', Northern: 'Summer Solstice', Southern: 'Winter Solstice' },
+  Libra: { type: 'equinox', Northern: 'Autumn Equinox', Southern: 'Spring Equinox' },
+  Capricorn: { type: 'solstice', Northern: 'Winter Solstice', Southern: 'Summer Solstice' },
+};
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────────
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function formatPosition(longitude: number): string {
+  const z = longitudeToZodiac(longitude);
+  return `${z.degree.toFixed(1)}° ${z.sign}`;
+}
+
+// Narrow [a, b] (ms) to the instant where `changed` first flips, to ~1 minute
+function bisect(a: number, b: number, changed: (t: number) => boolean): Date {
+  let lo = a;
+  let hi = b;
+  while (hi - lo > 60 * 1000) {
+    const mid = (lo + hi) / 2;
+    if (changed(mid)) hi = mid;
+    else lo = mid;
+  }
+  return new Date(hi);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Scanners
+// ───────────────────────────────────────────────────────────────────────────────
+function findStations(days: number[]): AstronomicalEvent[] {
+  const events: AstronomicalEvent[] = [];
+
+  for (const body of STATION_BODIES) {
+    let prev = bodyDailyMotion(body, new Date(days[0]));
+    for (let i = 1; i < days.length; i++) {
+      const speed = bodyDailyMotion(body, new Date(days[i]));
+      if (Math.sign(speed) !== Math.sign(prev) && speed !== 0) {
+        const goingRetro = speed < 0;
+        const at = bisect(days[i - 1], days[i], t => Math.sign(bodyDailyMotion(body, new Date(t))) === Math.sign(speed));
+        const where = formatPosition(bodyLongitude(body, at));
+        events.push({
+          name: `${GLYPHS[body]} ${body} ${goingRetro ? 'Retrograde' : 'Direct'}`,
+          description: goingRetro
+            ? `${body} stations retrograde at ${where} and appears to move backwards through the zodiac.`
+            : `${body} stations direct at ${where} and resumes its forward motion.`,
+          date: isoDate(at),
+          hemisphere: 'Both',
+          type: 'planet',
+        });
+      }
+      prev = speed;
+    }
+  }
+
+  return events;
+}
+
+function findIngresses(days: number[]): AstronomicalEvent[] {
+  const events: AstronomicalEvent[] = [];
+  const signAt = (body: string, t: number) => longitudeToZodiac(bodyLongitude(body, new Date(t))).signIndex;
+
+  for (const body of SCAN_BODIES) {
+    let prevSign = signAt(body, days[0]);
+    for (let i = 1; i < days.length; i++) {
+      const sign = signAt(body, days[i]);
+      if (sign !== prevSign) {
+        const at = bisect(days[i - 1], days[i], t => signAt(body, t) !== prevSign);
+        const signName = ZODIAC_ORDER[sign];
+        const retro = bodyDailyMotion(body, at) < 0;
+        const date = isoDate(at);
+
+        events.push({
+          name: `${GLYPHS[body]} ${body} enters ${signName}`,
+          description: retro
+            ? `${body} backs into ${signName} while retrograde, revisiting themes of that sign.`
+            : `${body} moves into ${signName}, shifting its influence to a new area of life.`,
+          date,
+          hemisphere: 'Both',
+          type: 'planet',
+        });
+
+        const season = body === 'Sun' ? SEASON_MARKERS[signName] : undefined;
+        if (season) {
+          for (const hemi of ['Northern', 'Southern'] as const) {
+            events.push({
+              name: season[hemi],
+              description: `The Sun enters ${signName}, marking the ${season[hemi].toLowerCase()} in the ${hemi} Hemisphere.`,
+              date,
+              hemisphere: hemi,
+              type: season.type,
+            });
+          }
+        }
+      }
+      prevSign = sign;
+    }
+  }
+
+  return events;
+}
+
+function findConjunctions(days: number[]): AstronomicalEvent[] {
+  const events: AstronomicalEvent[] = [];
+
+  for (let a = 0; a < SCAN_BODIES.length; a++) {
+    for (let b = a + 1; b < SCAN_BODIES.length; b++) {
+      const p = SCAN_BODIES[a];
+      const q = SCAN_BODIES[b];
+      const sep = (t: number) => angularDifference(bodyLongitude(p, new Date(t)), bodyLongitude(q, new Date(t)));
+
+      let prev = sep(days[0]);
+      for (let i = 1; i < days.length; i++) {
+        const cur = sep(days[i]);
+        // A sign flip near 0° (not the ±180° wrap) means they lined up
+        if (Math.sign(cur) !== Math.sign(prev) && Math.abs(cur) < 30 && Math.abs(prev) < 30) {
+          const at = bisect(days[i - 1], days[i], t => Math.sign(sep(t)) === Math.sign(cur));
+          events.push({
+            name: `${GLYPHS[p]} ${p} conjunct ${q} ${GLYPHS[q]}`,
+            description: `${p} and ${q} meet at ${formatPosition(bodyLongitude(p, at))}, blending their energies.`,
+            date: isoDate(at),
+            hemisphere: 'Both',
+            type: 'conjunction',
+          });
+        }
+        prev = cur;
+      }
+    }
+  }
+
+  return events;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Public API
+// ───────────────────────────────────────────────────────────────────────────────
+/**
+ * Stations, sign ingresses (plus equinoxes/solstices) and exact conjunctions
+ * between `start` and `end`, sorted by date. Sampled daily, then refined.
+ */
+export function generateSkyEvents(start: Date, end: Date): AstronomicalEvent[] {
+  if (!(end.getTime() > start.getTime())) return [];
+
+  const days: number[] = [];
+  for (let t = start.getTime(); t < end.getTime(); t += DAY_MS) days.push(t);
+  days.push(end.getTime());
+
+  return [...findStations(days), ...findIngresses(days), ...findConjunctions(days)]
+    .filter(e => e.date >= isoDate(start) && e.date <= isoDate(end))
+    .sort((x, y) => x.date.localeCompare(y.date));
+}
@@ -1,4 +1,4 @@
-import { supabase } from './supabase';
+import { supabase, functionErrorMessage } from './supabase';
 import { isStripeConfigured, getSubscriptionProducts, type StripeProduct } from './stripeConfig';
 import { Platform } from 'react-native';
 
@@ -22,6 +22,7 @@ export interface SubscriptionData {
   cancel_at_period_end: boolean;
   payment_method_brand: string | null;
   payment_method_last4: string | null;
+  trial_end: number | null;
 }
 
 export interface OrderData {
@@ -37,16 +38,19 @@ export interface OrderData {
 }
 
 // Improved checkout function using Supabase Functions SDK
+// `code` is a promotion or referral code typed in the app; an invalid one fails here
 export async function checkoutSubscription({
   priceId,
   successUrl,
   cancelUrl,
+  code,
 }: {
   priceId: string;
   successUrl?: string;
   cancelUrl?: string;
+  code?: string;
 }) {
-  console.log('=== START CHECKOUT ===', { priceId, successUrl, cancelUrl });
+  console.log('=== START CHECKOUT ===', { priceId, successUrl, cancelUrl, code });
 
   // Check if Stripe is configured before attempting checkout
   if (!isStripeConfigured()) {
@@ -76,7 +80,8 @@ export async function checkoutSubscription({
       priceId, 
       successUrl,
       cancelUrl,
-      mode: 'subscription'
+      mode: 'subscription',
+      code: code?.trim() || undefined,
     },
   });
 
@@ -96,7 +101,7 @@ export async function checkoutSubscription({
     } else if (error.message?.includes('network') || error.message?.includes('fetch')) {
       throw new Error('Network error. Please check your connection and try again');
     } else {
-      throw new Error(error.message || 'Failed to create checkout session');
+      throw new Error(await functionErrorMessage(error, 'Failed to create checkout session'));
     }
   }
 
@@ -145,24 +150,39 @@ export async function checkoutSubscription({
   }
 }
 
+// What a gift checkout is for; the server picks the price from `product`/`months`
+export interface GiftDetails {
+  product: 'subscription' | 'cusp_reading';
+  months?: 1 | 3 | 12;
+  recipientName?: string;
+  recipientEmail?: string;
+  message?: string;
+}
+
 // One-time payment checkout
 export async function checkoutOneTime({
   priceId,
   successUrl,
   cancelUrl,
+  code,
+  gift,
 }: {
   priceId: string;
   successUrl?: string;
   cancelUrl?: string;
+  code?: string;
+  gift?: GiftDetails;
 }) {
-  console.log('=== START ONE-TIME CHECKOUT ===', { priceId, successUrl, cancelUrl });
+  console.log('=== START ONE-TIME CHECKOUT ===', { priceId, successUrl, cancelUrl, code, gift: gift?.product });
 
   const { data, error } = await supabase.functions.invoke('stripe-checkout', {
     body: { 
       priceId, 
       successUrl,
       cancelUrl,
-      mode: 'payment' // Specify one-time payment mode
+      mode: 'payment', // Specify one-time payment mode
+      code: code?.trim() || undefined,
+      gift,
     },
   });
 
@@ -175,7 +195,7 @@ export async function checkoutOneTime({
       body: (error as any)?.context?.response?.error,
       fullError: error,
     });
-    throw new Error(error.message || 'Failed to create one-time checkout session');
+    throw new Error(await functionErrorMessage(error, 'Failed to create one-time checkout session'));
   }
 
   // Expect function to return { url: "https://checkout.stripe.com/..." }
@@ -316,21 +336,6 @@ export async function getUserOrders(): Promise<OrderData[]> {
   }
 }
 
-// Check if user has active subscription
-export async function hasActiveSubscription(): Promise<boolean> {
-  try {
-    console.log('🔍 Checking subscription status...');
-
-    // Use the centralized billing service for consistency
-    const { getSubscriptionStatus } = await import('./billing');
-    const status = await getSubscriptionStatus();
-    return status.active;
-  } catch (error) {
-    console.error('Error checking subscription status:', error);
-    return false;
-  }
-}
-
 // Get subscription product details
 export function getSubscriptionProduct(priceId: string): StripeProduct | null {
   const products = getSubscriptionProducts();
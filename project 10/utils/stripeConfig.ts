@@ -3,6 +3,9 @@ export const STRIPE_PUBLISHABLE_KEY = process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE
 export const STRIPE_PRICE_MONTHLY = process.env.EXPO_PUBLIC_STRIPE_PRICE_MONTHLY ?? '';
 export const STRIPE_PRICE_YEARLY = process.env.EXPO_PUBLIC_STRIPE_PRICE_YEARLY ?? '';
 export const STRIPE_PRICE_CUSP_ONEOFF = process.env.EXPO_PUBLIC_STRIPE_PRICE_CUSP_ONEOFF ?? '';
+export const STRIPE_PRICE_GIFT_1M = process.env.EXPO_PUBLIC_STRIPE_PRICE_GIFT_1M ?? '';
+export const STRIPE_PRICE_GIFT_3M = process.env.EXPO_PUBLIC_STRIPE_PRICE_GIFT_3M ?? '';
+export const STRIPE_PRICE_GIFT_12M = process.env.EXPO_PUBLIC_STRIPE_PRICE_GIFT_12M ?? '';
 export const STRIPE_MODE = process.env.EXPO_PUBLIC_STRIPE_MODE ?? 'test';
 
 // Site URL for production
@@ -110,4 +113,57 @@ export const getOneTimeProducts = (): StripeProduct[] => {
       price: '$360.00 AUD'
     }
   ];
-};
\ No newline at end of file
+};
+
+export interface GiftProduct extends StripeProduct {
+  product: 'subscription' | 'cusp_reading';
+  months?: 1 | 3 | 12;
+}
+
+// Gifts: prepaid subscription time or a reading, bought for someone else
+export const getGiftProducts = (): GiftProduct[] => {
+  const gifts: GiftProduct[] = [
+    {
+      id: 'gift-1m',
+      priceId: STRIPE_PRICE_GIFT_1M,
+      name: '1 Month of Astral Plane',
+      description: 'A month of premium horoscope features',
+      mode: 'payment',
+      price: '$8.00 AUD',
+      product: 'subscription',
+      months: 1,
+    },
+    {
+      id: 'gift-3m',
+      priceId: STRIPE_PRICE_GIFT_3M,
+      name: '3 Months of Astral Plane',
+      description: 'Three months of premium horoscope features',
+      mode: 'payment',
+      price: '$24.00 AUD',
+      product: 'subscription',
+      months: 3,
+    },
+    {
+      id: 'gift-12m',
+      priceId: STRIPE_PRICE_GIFT_12M,
+      name: '12 Months of Astral Plane',
+      description: 'A full year of premium horoscope features',
+      mode: 'payment',
+      price: '$88.00 AUD',
+      product: 'subscription',
+      months: 12,
+    },
+    {
+      id: 'gift-cusp-reading',
+      priceId: STRIPE_PRICE_CUSP_ONEOFF,
+      name: 'In Depth Cusp Horoscope Reading',
+      description: 'A comprehensive cusp analysis of their own',
+      mode: 'payment',
+      price: '$360.00 AUD',
+      product: 'cusp_reading',
+    },
+  ];
+
+  // Only offer what's configured for this environment
+  return gifts.filter((g) => g.priceId);
+};
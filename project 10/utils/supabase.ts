@@ -71,3 +71,14 @@ export async function getCurrentSession() {
   if (error) console.warn('[supabase] getSession error:', error.message);
   return data.session ?? null;
 }
+
+// Edge functions answer errors with { error }; invoke() only surfaces a generic message
+export async function functionErrorMessage(error: any, fallback: string): Promise<string> {
+  try {
+    const body = await error?.context?.json?.();
+    if (body?.error) return body.error;
+  } catch {
+    // not JSON
+  }
+  return error?.message || fallback;
+}
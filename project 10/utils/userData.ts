@@ -1,7 +1,9 @@
 // utils/userData.ts
 import type { User } from '@supabase/supabase-js';
-import { CuspResult } from './astrology';
+import { calculateCusp, CuspResult, type BirthTimeEstimate } from './astrology';
+import type { NatalChart } from './natalChart';
 import { clearLocalAuthData } from './auth';
+import { clearEntitlementsCache } from './entitlements';
 
 // ✅ use the shared singletons
 import { supabase } from '@/utils/supabase';
@@ -12,9 +14,15 @@ export interface UserProfile {
   name: string;
   birthDate: string;       // ISO string
   birthTime: string;
+  birthTimeUnknown?: boolean; // no birth time → solar chart, uncertain cusp/rising
+  birthTimeEstimate?: BirthTimeEstimate; // rectified time while birthTimeUnknown
   birthLocation: string;
+  birthTimezone?: string;  // IANA zone, e.g. "Australia/Sydney"
+  birthLatitude?: number;
+  birthLongitude?: number;
   hemisphere: 'Northern' | 'Southern';
   cuspResult: CuspResult;
+  natalChart?: NatalChart; // planets, houses & aspects (when birth data allows)
   createdAt: string;       // ISO string
   lastLoginAt?: string;    // ISO string
   needsRecalc?: boolean;   // Flag for profiles that need recalculation
@@ -79,7 +87,7 @@ function computeCuspFallback(birthDate?: string): CuspResult | null {
     console.log('🔍 [computeCuspFallback] PRODUCTION: Computing fallback for birth date:', birthDate);
     
     // Parse YYYY-MM-DD string directly without creating Date object
-    const [year, month, day] = birthDate.split('-').map(Number);
+    const [year] = birthDate.split('-').map(Number);
     
     // Validate the date is reasonable (not 1900 or future)
     if (year < 1920 || year > new Date().getFullYear()) {
@@ -87,87 +95,40 @@ function computeCuspFallback(birthDate?: string): CuspResult | null {
       return null;
     }
     
-    // Check for Sagittarius-Capricorn cusp (Dec 18-24)
-    if (month === 12 && day >= 18 && day <= 24) {
-      console.log('✅ [computeCuspFallback] PRODUCTION: Detected Sagittarius-Capricorn cusp for:', birthDate);
-      return {
-        isOnCusp: true,
-        primarySign: 'Sagittarius',
-        secondarySign: 'Capricorn',
-        cuspName: 'Sagittarius–Capricorn Cusp',
-        sunDegree: 28.5 + Math.random() * 2,
-        description: 'You are born on the Sagittarius–Capricorn Cusp, The Cusp of Prophecy. This unique position gives you traits from both Sagittarius and Capricorn.',
-      };
-    }
-    
-    // Check other cusp dates
-    const CUSP_DATES = [
-      { signs: ['Pisces', 'Aries'], startDate: '19/03', endDate: '24/03', name: 'Pisces–Aries Cusp' },
-      { signs: ['Aries', 'Taurus'], startDate: '19/04', endDate: '24/04', name: 'Aries–Taurus Cusp' },
-      { signs: ['Taurus', 'Gemini'], startDate: '19/05', endDate: '24/05', name: 'Taurus–Gemini Cusp' },
-      { signs: ['Gemini', 'Cancer'], startDate: '19/06', endDate: '24/06', name: 'Gemini–Cancer Cusp' },
-      { signs: ['Cancer', 'Leo'], startDate: '19/07', endDate: '25/07', name: 'Cancer–Leo Cusp' },
-      { signs: ['Leo', 'Virgo'], startDate: '19/08', endDate: '25/08', name: 'Leo–Virgo Cusp' },
-      { signs: ['Virgo', 'Libra'], startDate: '19/09', endDate: '25/09', name: 'Virgo–Libra Cusp' },
-      { signs: ['Libra', 'Scorpio'], startDate: '19/10', endDate: '25/10', name: 'Libra–Scorpio Cusp' },
-      { signs: ['Scorpio', 'Sagittarius'], startDate: '18/11', endDate: '24/11', name: 'Scorpio–Sagittarius Cusp' },
-      { signs: ['Capricorn', 'Aquarius'], startDate: '17/01', endDate: '23/01', name: 'Capricorn–Aquarius Cusp' },
-      { signs: ['Aquarius', 'Pisces'], startDate: '15/02', endDate: '21/02', name: 'Aquarius–Pisces Cusp' },
-    ];
-    
-    // Helper function to check if date falls in cusp range
-    function isDateInCuspRange(day, month, startDate, endDate) {
-      const [startDay, startMonth] = startDate.split('/').map(Number);
-      const [endDay, endMonth] = endDate.split('/').map(Number);
-      
-      if (startMonth > endMonth) {
-        // Crosses year boundary (like Dec-Jan)
-        return (month === startMonth && day >= startDay) || (month === endMonth && day <= endDay);
-      } else {
-        // Same month range
-        if (month === startMonth && month === endMonth) return day >= startDay && day <= endDay;
-        if (month === startMonth) return day >= startDay;
-        if (month === endMonth) return day <= endDay;
-        return false;
-      }
-    }
-    
-    // Check all cusp dates
-    for (const cusp of CUSP_DATES) {
-      if (isDateInCuspRange(day, month, cusp.startDate, cusp.endDate)) {
-        console.log('✅ [computeCuspFallback] PRODUCTION: Detected cusp:', cusp.name);
-        return {
-          isOnCusp: true,
-          primarySign: cusp.signs[0],
-          secondarySign: cusp.signs[1],
-          cuspName: cusp.name,
-          sunDegree: 28.5 + Math.random() * 2,
-          description: `You are born on the ${cusp.name}. This unique position gives you traits from both ${cusp.signs[0]} and ${cusp.signs[1]}.`,
-        };
-      }
-    }
-    
-    const { calculateSunSign } = require('./astrology');
-    const primarySign = calculateSunSign(birthDate);
-    console.log('✅ [computeCuspFallback] PRODUCTION: Calculated sign:', primarySign, 'for date:', birthDate);
-    console.log('🔍 [computeCuspFallback] PRODUCTION: Date details:', {
-      year,
-      month,
-      day,
-      originalString: birthDate
-    });
-    return {
-      isOnCusp: false,
-      primarySign,
-      sunDegree: 15,
-      description: `You are a ${primarySign} with strong ${primarySign} energy.`,
-    };
+    // Same ephemeris-based calculation as the calculator; neither the birth time
+    // nor the place is available here, so cast a solar chart at noon UTC and
+    // flag any uncertainty.
+    const result = calculateCusp({ date: birthDate, time: '', timeUnknown: true, location: '', hemisphere: 'Northern' });
+    console.log('✅ [computeCuspFallback] PRODUCTION: Calculated:', result.cuspName || result.primarySign, 'for date:', birthDate);
+    return result;
   } catch (error) {
     console.error('❌ [computeCuspFallback] PRODUCTION: Error computing fallback:', error);
     return null;
   }
 }
 
+function parseBirthTimeEstimate(raw: unknown): BirthTimeEstimate | undefined {
+  if (!raw) return undefined;
+  try {
+    const estimate = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return typeof estimate?.time === 'string' ? (estimate as BirthTimeEstimate) : undefined;
+  } catch {
+    console.warn('⚠️ [userData] Ignoring unparseable birth_time_estimate');
+    return undefined;
+  }
+}
+
+function parseNatalChart(raw: unknown): NatalChart | undefined {
+  if (!raw) return undefined;
+  try {
+    const chart = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return Array.isArray((chart as NatalChart)?.planets) ? (chart as NatalChart) : undefined;
+  } catch {
+    console.warn('⚠️ [userData] Ignoring unparseable natal_chart');
+    return undefined;
+  }
+}
+
 // Clean up any incomplete/corrupted cache
 export async function healUserCache(): Promise<void> {
   try {
@@ -362,7 +323,12 @@ export async function getUserData(forceFresh = false): Promise<UserProfile | nul
         name: profile.name ?? '',
         birthDate: profile.birth_date ?? '',
         birthTime: profile.birth_time ?? '',
+        birthTimeUnknown: profile.birth_time_unknown === true,
+        birthTimeEstimate: parseBirthTimeEstimate(profile.birth_time_estimate),
         birthLocation: profile.birth_location ?? '',
+        birthTimezone: profile.birth_tz ?? undefined,
+        birthLatitude: profile.birth_latitude ?? undefined,
+        birthLongitude: profile.birth_longitude ?? undefined,
         hemisphere: (profile.hemisphere === 'Southern' ? 'Southern' : 'Northern'),
         cuspResult: undefined as any,
         createdAt: profile.created_at,
@@ -380,7 +346,12 @@ export async function getUserData(forceFresh = false): Promise<UserProfile | nul
       name: profile.name ?? '',
       birthDate: profile.birth_date ?? '',
       birthTime: profile.birth_time ?? '',
+      birthTimeUnknown: profile.birth_time_unknown === true,
+      birthTimeEstimate: parseBirthTimeEstimate(profile.birth_time_estimate),
       birthLocation: profile.birth_location ?? '',
+      birthTimezone: profile.birth_tz ?? undefined,
+      birthLatitude: profile.birth_latitude ?? undefined,
+      birthLongitude: profile.birth_longitude ?? undefined,
       hemisphere: (profile.hemisphere === 'Southern' ? 'Southern' : 'Northern'),
       cuspResult: undefined as any,
       createdAt: profile.created_at,
@@ -404,9 +375,15 @@ export async function getUserData(forceFresh = false): Promise<UserProfile | nul
     name: profile.name ?? '',
     birthDate: profile.birth_date ?? '',
     birthTime: profile.birth_time ?? '',
+    birthTimeUnknown: profile.birth_time_unknown === true,
+    birthTimeEstimate: parseBirthTimeEstimate(profile.birth_time_estimate),
     birthLocation: profile.birth_location ?? '',
+    birthTimezone: profile.birth_tz ?? undefined,
+    birthLatitude: profile.birth_latitude ?? undefined,
+    birthLongitude: profile.birth_longitude ?? undefined,
     hemisphere: (profile.hemisphere === 'Southern' ? 'Southern' : 'Northern'),
     cuspResult,
+    natalChart: parseNatalChart(profile.natal_chart),
     createdAt: profile.created_at,
     lastLoginAt: profile.last_login_at ?? undefined,
     needsRecalc: false,
@@ -438,10 +415,13 @@ export async function clearUserData(): Promise<void> {
     
     // Clear the session-level promise cache
     _userDataPromise = null;
+    clearEntitlementsCache();
     
-    // Clear user-specific cache only
+    // Clear user-specific cache only. Read the local session rather than
+    // getUser(): after account deletion the server no longer knows the user.
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (user) {
         const userCacheKey = `${USER_DATA_KEY}:${user.id}`;
         await storage.removeItem(userCacheKey);
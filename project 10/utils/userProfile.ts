@@ -1,6 +1,7 @@
 // utils/userProfile.ts
 import { supabase } from '@/utils/supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BirthTimeEstimate } from './astrology';
 
 type Hemisphere = 'Northern' | 'Southern';
 
@@ -9,8 +10,14 @@ export type EditableProfile = {
   hemisphere?: Hemisphere;
   birthDateISO?: string | null;   // 'YYYY-MM-DD' or null
   birthTime?: string | null;      // 'HH:mm' or null
+  birthTimeUnknown?: boolean;     // true → birth_time is cleared, charts are solar charts
+  birthTimeEstimate?: BirthTimeEstimate | null; // rectified time (only while birthTimeUnknown)
   birthLocation?: string | null;  // 'City, Country' or null
+  birthTimezone?: string | null;  // IANA zone, e.g. 'Australia/Sydney'
+  birthLatitude?: number | null;
+  birthLongitude?: number | null;
   cuspResult?: any | null;        // JSON
+  natalChart?: any | null;        // JSON (see utils/natalChart.ts)
 };
 
 const LS_KEYS_TO_PURGE = [
@@ -63,12 +70,32 @@ export async function saveCosmicProfileEdits(edits: EditableProfile) {
   if (edits.birthTime !== undefined) {
     patch.birth_time = edits.birthTime || null; // keep text, e.g., "14:30"
   }
+  if (typeof edits.birthTimeUnknown === 'boolean') {
+    patch.birth_time_unknown = edits.birthTimeUnknown;
+    if (edits.birthTimeUnknown) patch.birth_time = null;
+    else patch.birth_time_estimate = null; // a known time supersedes any estimate
+  }
+  if (edits.birthTimeEstimate !== undefined) {
+    patch.birth_time_estimate = edits.birthTimeEstimate ?? null;
+  }
   if (edits.birthLocation !== undefined) {
     patch.birth_location = edits.birthLocation || null;
   }
+  if (edits.birthTimezone !== undefined) {
+    patch.birth_tz = edits.birthTimezone || null;
+  }
+  if (edits.birthLatitude !== undefined) {
+    patch.birth_latitude = typeof edits.birthLatitude === 'number' ? edits.birthLatitude : null;
+  }
+  if (edits.birthLongitude !== undefined) {
+    patch.birth_longitude = typeof edits.birthLongitude === 'number' ? edits.birthLongitude : null;
+  }
   if (edits.cuspResult !== undefined) {
     patch.cusp_result = edits.cuspResult ?? null;
   }
+  if (edits.natalChart !== undefined) {
+    patch.natal_chart = edits.natalChart ?? null;
+  }
 
   // 4) Required identity fields
   patch.user_id = user.id;
@@ -79,8 +106,12 @@ export async function saveCosmicProfileEdits(edits: EditableProfile) {
     hemisphere: patch.hemisphere,
     birth_date: patch.birth_date,
     birth_time: patch.birth_time,
+    birth_time_unknown: patch.birth_time_unknown,
+    hasBirthTimeEstimate: !!patch.birth_time_estimate,
     birth_location: patch.birth_location,
-    hasCuspResult: !!patch.cusp_result
+    birth_tz: patch.birth_tz,
+    hasCuspResult: !!patch.cusp_result,
+    hasNatalChart: !!patch.natal_chart
   });
 
   // 5) Upsert on user_id (NOT id)
@@ -195,6 +226,7 @@ type SafeCuspResult = {
   primarySign: string;
   secondarySign?: string;
   cuspName?: string;
+  sunSign?: string;
   sunDegree?: number;
   hemisphere?: 'Northern' | 'Southern';
   description?: string;
@@ -212,6 +244,8 @@ export type ZodiacResult = SafeCuspResult;
 export type CosmicProfile = {
   birthDate?: string;
   birthTime?: string;
+  birthTimeUnknown?: boolean;
+  birthTimeEstimate?: BirthTimeEstimate;
   birthCity?: string;
   timezone?: string;
   zodiacResult?: SafeCuspResult;
@@ -246,7 +280,10 @@ export async function getCosmicProfile(): Promise<CosmicProfile> {
     const profile: CosmicProfile = {
       birthDate: userData.birthDate || undefined,
       birthTime: userData.birthTime || undefined,
+      birthTimeUnknown: userData.birthTimeUnknown || undefined,
+      birthTimeEstimate: userData.birthTimeEstimate,
       birthCity: userData.birthLocation || undefined,
+      timezone: userData.birthTimezone || undefined,
       zodiacResult: userData.cuspResult ? {
         ...userData.cuspResult,
         hemisphere: userData.hemisphere